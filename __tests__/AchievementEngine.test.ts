@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/DatabaseService.js', () => ({
+  db: {
+    getStats: vi.fn(),
+    getGameSessionSummary: vi.fn(),
+    getRegisteredGames: vi.fn(),
+    getUnlockedAchievements: vi.fn(),
+    unlockAchievement: vi.fn(),
+    onStatsUpdated: vi.fn(),
+  },
+}));
+
+import { db } from '../src/services/DatabaseService.js';
+import { AchievementEngine, AchievementContext, isAchieved } from '../src/core/AchievementEngine.js';
+
+const stats = { highScore: 0, level: 1, xp: 0, gamesPlayed: 0, hunger: 50, energy: 60, happiness: 50, hangman_wins: 0, hangman_losses: 0 };
+
+const summary = (gameId: string, plays: number, wins: number) => ({
+  gameId, plays, wins, losses: 0, bestScore: null, averageScore: null,
+  totalXp: 0, totalEnergy: 0, totalDurationMs: 0, lastPlayedAt: '2026-01-01 00:00:00',
+});
+
+const context = (overrides: Partial<AchievementContext> = {}): AchievementContext => ({
+  stats,
+  history: [],
+  communityGameIds: [],
+  ...overrides,
+});
+
+describe('AchievementEngine', () => {
+  describe('isAchieved', () => {
+    it('should match a single run on game, outcome, difficulty and score', () => {
+      const condition = { type: 'run' as const, gameId: 'sudoku', outcome: 'win' as const, difficulty: 'hard' };
+
+      expect(isAchieved(condition, context({ result: { gameId: 'sudoku', outcome: 'win', difficulty: 'hard' } }))).toBe(true);
+      expect(isAchieved(condition, context({ result: { gameId: 'sudoku', outcome: 'win', difficulty: 'easy' } }))).toBe(false);
+      expect(isAchieved(condition, context())).toBe(false);
+      expect(isAchieved({ type: 'run', gameId: 'snake', minScore: 500 }, context({ result: { gameId: 'snake', outcome: 'finished', score: 499 } }))).toBe(false);
+    });
+
+    it('should tell community games from built-in ones', () => {
+      const condition = { type: 'run' as const, community: true, outcome: 'win' as const };
+      const communityGameIds = ['space-dodge'];
+
+      expect(isAchieved(condition, context({ communityGameIds, result: { gameId: 'space-dodge', outcome: 'win' } }))).toBe(true);
+      expect(isAchieved(condition, context({ communityGameIds, result: { gameId: 'tictactoe', outcome: 'win' } }))).toBe(false);
+    });
+
+    it('should total history across games unless one is named', () => {
+      const history = [summary('snake', 3, 0), summary('hangman', 4, 2)];
+
+      expect(isAchieved({ type: 'history', count: 'plays', atLeast: 7 }, context({ history }))).toBe(true);
+      expect(isAchieved({ type: 'history', gameId: 'hangman', count: 'wins', atLeast: 3 }, context({ history }))).toBe(false);
+    });
+
+    it('should compare stats and installed community games', () => {
+      expect(isAchieved({ type: 'stat', stat: 'level', atLeast: 5 }, context({ stats: { ...stats, level: 5 } }))).toBe(true);
+      expect(isAchieved({ type: 'community_games', atLeast: 1 }, context())).toBe(false);
+    });
+  });
+
+  describe('check', () => {
+    const definitions = [
+      { id: 'first_game', name: 'First Steps', description: '', icon: '👣', condition: { type: 'history' as const, count: 'plays' as const, atLeast: 1 } },
+      { id: 'snake_500', name: 'Snake Charmer', description: '', icon: '🐍', condition: { type: 'run' as const, gameId: 'snake', minScore: 500 } },
+    ];
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(db.getStats).mockResolvedValue(stats);
+      vi.mocked(db.getGameSessionSummary).mockResolvedValue([summary('snake', 1, 0)]);
+      vi.mocked(db.getRegisteredGames).mockResolvedValue([]);
+      vi.mocked(db.unlockAchievement).mockResolvedValue(true);
+    });
+
+    it('should unlock every qualifying achievement once and queue it for announcement', async () => {
+      vi.mocked(db.getUnlockedAchievements).mockResolvedValue([]);
+      const engine = new AchievementEngine(definitions);
+
+      const earned = await engine.check({ gameId: 'snake', outcome: 'finished', score: 620 });
+
+      expect(earned.map(a => a.id)).toEqual(['first_game', 'snake_500']);
+      expect(db.unlockAchievement).toHaveBeenCalledWith('snake_500', 'snake');
+      expect(engine.takeNewUnlocks()).toHaveLength(2);
+      expect(engine.takeNewUnlocks()).toEqual([]);
+    });
+
+    it('should skip achievements that are already unlocked', async () => {
+      vi.mocked(db.getUnlockedAchievements).mockResolvedValue([{ achievementId: 'first_game', gameId: null, unlockedAt: '2026-01-01 00:00:00' }]);
+
+      const earned = await new AchievementEngine(definitions).check({ gameId: 'snake', outcome: 'finished', score: 10 });
+
+      expect(earned).toEqual([]);
+      expect(db.unlockAchievement).not.toHaveBeenCalled();
+    });
+
+    it('should report progress with unlock times', async () => {
+      vi.mocked(db.getUnlockedAchievements).mockResolvedValue([{ achievementId: 'snake_500', gameId: 'snake', unlockedAt: '2026-01-02 10:00:00' }]);
+
+      const progress = await new AchievementEngine(definitions).getProgress();
+
+      expect(progress.map(a => a.unlockedAt)).toEqual([null, '2026-01-02 10:00:00']);
+    });
+  });
+});
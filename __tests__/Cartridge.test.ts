@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { encodeCartridge, decodeCartridge, keyFingerprint } from '../src/core/Cartridge.js';
+
+const contents = {
+  manifest: {
+    id: 'space-dodge',
+    name: 'Space Dodge',
+    description: 'Dodge the asteroids',
+    version: 3,
+    energyCost: 10,
+    xpReward: 25,
+    prompt: 'a game where you dodge asteroids',
+    model: 'gemini-2.5-pro',
+  },
+  source: "import React from 'react';\nexport default () => null;\n",
+  bundle: 'export default () => null;\n',
+};
+
+const pem = (type: 'ed25519' | 'rsa') => {
+  const { privateKey } = type === 'rsa'
+    ? generateKeyPairSync('rsa', { modulusLength: 1024 })
+    : generateKeyPairSync('ed25519');
+  return privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+};
+
+// Edit a cartridge the way someone tampering with the file would
+const edit = (text: string, change: (data: any) => void) => {
+  const data = JSON.parse(text);
+  change(data);
+  return JSON.stringify(data);
+};
+
+describe('Cartridge', () => {
+  it('should round-trip an unsigned cartridge', () => {
+    const cartridge = decodeCartridge(encodeCartridge(contents));
+
+    expect(cartridge).toMatchObject(contents);
+    expect(cartridge.signature).toBeNull();
+    expect(cartridge.hashes.source).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should reject files that are not cartridges', () => {
+    expect(() => decodeCartridge('not json')).toThrow(/invalid JSON/);
+    expect(() => decodeCartridge(edit(encodeCartridge(contents), data => { data.format = 'liku-replay'; })))
+      .toThrow(/Not a valid cartridge/);
+    expect(() => decodeCartridge(encodeCartridge({ ...contents, manifest: { ...contents.manifest, id: '../../evil' } })))
+      .toThrow(/manifest\.id/);
+  });
+
+  it('should notice a source, bundle or manifest that no longer matches its hash', () => {
+    const text = encodeCartridge(contents);
+
+    expect(() => decodeCartridge(edit(text, data => { data.source += '// changed\n'; }))).toThrow(/source does not match/);
+    expect(() => decodeCartridge(edit(text, data => { data.bundle = 'process.exit()'; }))).toThrow(/bundle does not match/);
+    expect(() => decodeCartridge(edit(text, data => { data.manifest.xpReward = 100; }))).toThrow(/manifest does not match/);
+  });
+
+  it('should verify the author signature', () => {
+    const text = encodeCartridge(contents, { author: 'alice', privateKey: pem('ed25519') });
+    const { signature } = decodeCartridge(text);
+
+    expect(signature?.author).toBe('alice');
+    expect(keyFingerprint(signature!.publicKey)).toMatch(/^[0-9a-f]{16}$/);
+
+    // Re-hashed after a change, but signed hashes cannot be redone without the key
+    const tampered = edit(text, data => {
+      data.source += '// changed\n';
+      data.hashes = JSON.parse(encodeCartridge({ ...contents, source: data.source })).hashes;
+    });
+    expect(() => decodeCartridge(tampered)).toThrow(/signature by 'alice' is not valid/);
+    expect(() => decodeCartridge(edit(text, data => { data.signature.author = 'mallory'; }))).toThrow(/not valid/);
+  });
+
+  it('should only sign with Ed25519 keys', () => {
+    expect(() => encodeCartridge(contents, { author: 'alice', privateKey: pem('rsa') })).toThrow(/Ed25519/);
+  });
+});
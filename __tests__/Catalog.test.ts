@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CatalogServer } from '../src/catalog/CatalogServer.js';
+import { CatalogClient, describeRating } from '../src/catalog/CatalogClient.js';
+import { encodeCartridge, decodeCartridge, CartridgeContents, CartridgeSigner } from '../src/core/Cartridge.js';
+
+const cartridge = (id: string, name: string, description: string, signer?: CartridgeSigner) => {
+  const contents: CartridgeContents = {
+    manifest: { id, name, description, version: 1, energyCost: 5, xpReward: 10, prompt: null, model: null },
+    source: `export default () => '${id}';\n`,
+    bundle: `export default () => '${id}';\n`,
+  };
+  return encodeCartridge(contents, signer);
+};
+
+const signer = (author: string): CartridgeSigner => ({
+  author,
+  privateKey: generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+});
+
+describe('Community catalog', () => {
+  let dir: string;
+  let server: CatalogServer;
+  let client: CatalogClient;
+  let port: number;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-catalog-'));
+    server = new CatalogServer({ dir, publishToken: 'team-secret' });
+    port = await server.listen(0);
+    client = new CatalogClient(`http://127.0.0.1:${port}/`, { publishToken: 'team-secret' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should publish games and find them by words and tags', async () => {
+    await client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Dodge asteroids'), tags: ['Arcade', 'space'] });
+    await client.publish({ cartridge: cartridge('word-snake', 'Word Snake', 'Spell while you slither'), tags: ['words'] });
+
+    expect((await client.search()).map(entry => entry.id)).toEqual(['space-dodge', 'word-snake']);
+    expect((await client.search({ q: 'ASTEROIDS' })).map(entry => entry.id)).toEqual(['space-dodge']);
+    expect((await client.search({ tag: 'arcade' })).map(entry => entry.id)).toEqual(['space-dodge']);
+    expect(await client.search({ q: 'dodge', tag: 'words' })).toEqual([]);
+
+    const entry = await client.getGame('space-dodge');
+    expect(entry).toMatchObject({ name: 'Space Dodge', energyCost: 5, xpReward: 10, tags: ['arcade', 'space'], author: null, downloads: 0 });
+  });
+
+  it('should count downloads and serve the published cartridge unchanged', async () => {
+    const published = cartridge('space-dodge', 'Space Dodge', 'Dodge asteroids');
+    await client.publish({ cartridge: published });
+
+    const downloaded = await client.downloadCartridge('space-dodge');
+    await client.downloadCartridge('space-dodge');
+
+    expect(downloaded).toBe(published);
+    expect(decodeCartridge(downloaded).manifest.id).toBe('space-dodge');
+    expect((await client.getGame('space-dodge')).downloads).toBe(2);
+  });
+
+  it('should average ratings, one per rater', async () => {
+    await client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Dodge asteroids') });
+
+    await client.rate('space-dodge', 'alice', 2);
+    await client.rate('space-dodge', 'bob', 4);
+    const entry = await client.rate('space-dodge', 'alice', 5);
+
+    expect(entry.rating).toEqual({ average: 4.5, count: 2 });
+    expect(describeRating(entry.rating)).toBe('★★★★★ 4.5 (2)');
+    await expect(client.rate('space-dodge', 'alice', 6)).rejects.toThrow(/stars/);
+  });
+
+  it('should keep signed games for their author and keep its stats on updates', async () => {
+    const alice = signer('alice');
+    await client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Dodge asteroids', alice) });
+    await client.downloadCartridge('space-dodge');
+
+    await expect(client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Mine now', signer('alice')) }))
+      .rejects.toThrow(/published by alice.*only they can update it/);
+    await expect(client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Mine now') }))
+      .rejects.toThrow(/only they can update it/);
+
+    const updated = await client.publish({ cartridge: cartridge('space-dodge', 'Space Dodge', 'Now with shields', alice) });
+    expect(updated).toMatchObject({ description: 'Now with shields', author: 'alice', downloads: 1 });
+  });
+
+  it('should refuse damaged cartridges, publishers without the token and unknown games', async () => {
+    const damaged = JSON.parse(cartridge('space-dodge', 'Space Dodge', 'Dodge asteroids'));
+    damaged.source = 'process.exit()';
+
+    await expect(client.publish({ cartridge: JSON.stringify(damaged) })).rejects.toThrow(/source does not match/);
+    await expect(new CatalogClient(`http://127.0.0.1:${port}`).publish({ cartridge: cartridge('a', 'A', 'a') }))
+      .rejects.toThrow(/needs its token/);
+    await expect(client.getGame('missing')).rejects.toThrow(/No game 'missing'/);
+    expect(await client.search()).toEqual([]);
+  });
+});
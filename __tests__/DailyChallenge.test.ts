@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, hashSeed } from '../src/core/SeededRandom.js';
+import {
+  DAILY_CHALLENGE_GAMES,
+  getDailyChallenge,
+  shiftChallengeDate,
+  toChallengeDate,
+} from '../src/core/DailyChallenge.js';
+
+describe('SeededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const sequence = Array.from({ length: 5 }, () => a.next());
+
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(sequence);
+    expect(createRandom(43).next()).not.toBe(sequence[0]);
+  });
+
+  it('should stay in range', () => {
+    const rng = createRandom(7);
+    for (let i = 0; i < 200; i++) {
+      const value = rng.int(9);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(9);
+    }
+  });
+
+  it('should hash text to a stable unsigned seed', () => {
+    expect(hashSeed('liku')).toBe(hashSeed('liku'));
+    expect(hashSeed('liku')).not.toBe(hashSeed('liku!'));
+    expect(hashSeed('')).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('DailyChallenge', () => {
+  it('should pick the same challenge for the same date', () => {
+    const challenge = getDailyChallenge('2026-10-19');
+
+    expect(getDailyChallenge('2026-10-19')).toEqual(challenge);
+    expect(DAILY_CHALLENGE_GAMES.map(game => game.gameId)).toContain(challenge.gameId);
+    expect(getDailyChallenge('2026-10-20').seed).not.toBe(challenge.seed);
+  });
+
+  it('should rotate through the challenge games', () => {
+    const games = new Set<string>();
+    let date = '2026-01-01';
+    for (let i = 0; i < 30; i++) {
+      games.add(getDailyChallenge(date).gameId);
+      date = shiftChallengeDate(date, 1);
+    }
+
+    expect(games.size).toBe(DAILY_CHALLENGE_GAMES.length);
+  });
+
+  it('should use local calendar dates', () => {
+    expect(toChallengeDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(shiftChallengeDate('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftChallengeDate('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
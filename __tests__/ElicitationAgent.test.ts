@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ElicitationAgent, GameOutputSchema } from '../src/builder/ElicitationAgent.js';
+import { ElicitationAgent, GameOutputSchema, elicitationTranscript, parseGameManifest } from '../src/builder/ElicitationAgent.js';
+import { FixtureProvider } from '../src/builder/providers/index.js';
 
 describe('ElicitationAgent', () => {
   let agent: ElicitationAgent;
@@ -37,6 +38,25 @@ describe('ElicitationAgent', () => {
     });
   });
 
+  describe('estimateUsage', () => {
+    it('should estimate without a model using the character heuristic', async () => {
+      agent = new ElicitationAgent();
+
+      const questions = await agent.estimateUsage('questions', 'A space shooter');
+      const quick = await agent.estimateUsage('quick', 'A space shooter');
+
+      expect(questions.promptTokens).toBeGreaterThan(0);
+      // Draft plus self-critique, which reads the draft back in
+      expect(quick.responseTokens).toBe(2 * 4000);
+      expect(quick.promptTokens).toBeGreaterThan(2 * questions.promptTokens);
+    });
+
+    it('should start with no recorded usage', () => {
+      agent = new ElicitationAgent();
+      expect(agent.getLastUsage()).toEqual({ promptTokens: 0, responseTokens: 0 });
+    });
+  });
+
   describe('quickGenerate', () => {
     it('should throw informative error for hangman request (built-in game)', async () => {
       agent = new ElicitationAgent();
@@ -54,6 +74,20 @@ describe('ElicitationAgent', () => {
       );
     });
 
+    it('should generate offline from fixtures', async () => {
+      const code = "export const GameManifest = { id: 'dodge', name: 'Dodge' };\nexport default () => null;\n";
+      agent = new ElicitationAgent(new FixtureProvider([
+        { match: 'Generate a complete, working LikuBuddy game for', text: 'draft', usage: { promptTokens: 100, responseTokens: 10 } },
+        { match: 'Critique this code', text: '```tsx\n' + code + '```', usage: { promptTokens: 200, responseTokens: 20 } },
+      ], { model: 'recorded-model' }));
+
+      const result = await agent.quickGenerate('a dodging game');
+
+      expect(result).toMatchObject({ code, gameId: 'dodge', name: 'Dodge' });
+      expect(agent.getLastUsage()).toEqual({ promptTokens: 300, responseTokens: 30 });
+      expect(agent.getModelName()).toBe('recorded-model');
+    });
+
     // Skip tests that require real API calls
     it.skip('should generate game code with API key (requires real API)', async () => {
       // This test requires a real API key
@@ -67,6 +101,102 @@ describe('ElicitationAgent', () => {
     });
   });
 
+  describe('elicitation sessions', () => {
+    const code = "export const GameManifest = { id: 'dodge', name: 'Dodge' };\nexport default () => null;\n";
+    const fixtures = () => new FixtureProvider([
+      { match: 'Ask 3-5 clarifying questions', text: '1. How do you move?' },
+      { match: 'Arrow keys', text: '1. Should asteroids speed up?' },
+      { match: 'Yes, every 10 seconds', text: 'READY\nDodge asteroids with the arrow keys; they speed up every 10 seconds.' },
+      { match: 'based on the design in this conversation', text: 'draft' },
+      { match: 'Review the generated code', text: '```tsx\n' + code + '```' },
+    ]);
+
+    it('should keep asking until the model is ready, then generate from the whole conversation', async () => {
+      const provider = fixtures();
+      const chat = vi.spyOn(provider, 'chat');
+      agent = new ElicitationAgent(provider);
+
+      const { session: started } = await agent.startElicitationSession('a dodging game');
+      const first = await agent.continueElicitation(started, 'Arrow keys');
+      expect(first.ready).toBe(false);
+      expect(first.reply).toBe('1. Should asteroids speed up?');
+
+      // Stored and loaded again between rounds
+      const resumed = JSON.parse(JSON.stringify(first.session));
+      const second = await agent.continueElicitation(resumed, 'Yes, every 10 seconds');
+      expect(second.ready).toBe(true);
+      expect(second.reply).toBe('Dodge asteroids with the arrow keys; they speed up every 10 seconds.');
+      expect(second.session.history).toHaveLength(6);
+
+      const result = await agent.generateGameFromSession(second.session);
+      expect(result).toMatchObject({ code, gameId: 'dodge', name: 'Dodge' });
+
+      const [generateHistory] = chat.mock.calls[3];
+      const seen = generateHistory.map(entry => entry.content).join('\n');
+      expect(seen).toContain('Arrow keys');
+      expect(seen).toContain('Yes, every 10 seconds');
+      expect(seen).toContain('1. Should asteroids speed up?');
+    });
+
+    it('should show the conversation without the prompt wording', async () => {
+      agent = new ElicitationAgent(fixtures());
+
+      const { session } = await agent.startElicitationSession('a dodging game');
+      const { session: answered } = await agent.continueElicitation(session, 'Arrow keys');
+
+      expect(elicitationTranscript(answered)).toEqual([
+        { speaker: 'player', text: 'a dodging game' },
+        { speaker: 'liku', text: '1. How do you move?' },
+        { speaker: 'player', text: 'Arrow keys' },
+        { speaker: 'liku', text: '1. Should asteroids speed up?' },
+      ]);
+    });
+
+    it('should estimate generation from a session with its history', async () => {
+      agent = new ElicitationAgent();
+      const history = [
+        { role: 'user' as const, content: 'x'.repeat(4000) },
+        { role: 'model' as const, content: 'y'.repeat(4000) },
+      ];
+
+      const fresh = await agent.estimateUsage('generate', 'A space shooter');
+      const resumed = await agent.estimateUsage('generate', 'A space shooter', history);
+
+      // Both passes resend the conversation
+      expect(resumed.promptTokens - fresh.promptTokens).toBeGreaterThanOrEqual(2 * 2000);
+    });
+  });
+
+  describe('refineGame', () => {
+    it('should send the source and the change, and return the changed code', async () => {
+      const source = "export const GameManifest = { id: 'snake-plus' };\nconst SPEED = 150;\n";
+      const changed = source.replace('150', '100');
+      const provider = new FixtureProvider([
+        { match: 'The player wants this change', text: '```typescript\n' + changed + '```' },
+      ]);
+      const chat = vi.spyOn(provider, 'chat');
+      agent = new ElicitationAgent(provider);
+
+      const code = await agent.refineGame(source, 'make the snake faster');
+
+      expect(code).toBe(changed);
+      const [, prompt] = chat.mock.calls[0];
+      expect(prompt).toContain('"make the snake faster"');
+      expect(prompt).toContain(source);
+      expect(agent.getLastUsage().promptTokens).toBeGreaterThan(0);
+    });
+
+    it('should estimate a change by the size of the source', async () => {
+      agent = new ElicitationAgent();
+      const source = 'x'.repeat(8000);
+
+      const usage = await agent.estimateRefineUsage(source, 'add lives');
+
+      expect(usage.responseTokens).toBe(2000);
+      expect(usage.promptTokens).toBeGreaterThan(2000);
+    });
+  });
+
   describe('validateGameCode', () => {
     beforeEach(() => {
       agent = new ElicitationAgent();
@@ -191,4 +321,23 @@ describe('ElicitationAgent', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('parseGameManifest', () => {
+    it('should read the energy cost and XP reward', () => {
+      const manifest = { id: 'space-dodge', name: 'Space Dodge', energyCost: 10, xpReward: 20 };
+
+      expect(parseGameManifest(manifest)).toEqual({ energyCost: 10, xpReward: 20 });
+    });
+
+    it('should make games without a manifest free and rewardless', () => {
+      expect(parseGameManifest(undefined)).toEqual({ energyCost: 0, xpReward: 0 });
+      expect(parseGameManifest({ name: 'Space Dodge' })).toEqual({ energyCost: 0, xpReward: 0 });
+    });
+
+    it('should reject costs and rewards out of range', () => {
+      expect(() => parseGameManifest({ energyCost: -5 })).toThrow(/energyCost/);
+      expect(() => parseGameManifest({ xpReward: 1000 })).toThrow(/xpReward/);
+      expect(() => parseGameManifest('free')).toThrow(/Invalid GameManifest/);
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildVerifyRepair, verifyGameCode } from '../src/builder/GameBuildPipeline.js';
+
+const game = (body: string) => `import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useHighScore } from 'liku-sdk';
+
+interface GameProps {
+  onExit: () => void;
+}
+
+const Game: React.FC<GameProps> = ({ onExit }) => {
+  const [score, setScore] = useState(0);
+  const { highScore } = useHighScore();
+  useInput((input, key) => {
+    if (key.escape) { onExit(); return; }
+    if (input === ' ') setScore(s => s + 1);
+  });
+  ${body}
+};
+
+export default Game;
+`;
+
+const working = game('return <Box><Text>{score} / {highScore ?? 0}</Text></Box>;');
+// Compiles with esbuild, fails on the type check
+const broken = game('return <Box flexDirection="sideways"><Text>{score.toFixed()}{highScore.missing}</Text></Box>;');
+
+describe('GameBuildPipeline', () => {
+  it('should pass code that type-checks against React, Ink and liku-sdk', () => {
+    const result = verifyGameCode(working);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.passed).toBe(true);
+  }, 20000);
+
+  it('should report type errors at the game\'s own lines', () => {
+    const result = verifyGameCode(broken);
+    const types = result.diagnostics.filter(d => d.rule === 'type');
+
+    expect(result.passed).toBe(false);
+    expect(types.length).toBeGreaterThanOrEqual(2);
+    expect(types.every(d => d.line === 16)).toBe(true);
+    expect(types.map(d => d.message).join('\n')).toMatch(/TS\d+: .*sideways/);
+  });
+
+  it('should feed errors to the repair callback until the code passes', async () => {
+    const repair = vi.fn().mockResolvedValue(working);
+    const onAttempt = vi.fn();
+
+    const result = await buildVerifyRepair(broken, { repair, onAttempt });
+
+    expect(result.success).toBe(true);
+    expect(result.code).toBe(working);
+    expect(result.attempts.map(a => a.passed)).toEqual([false, true]);
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(repair.mock.calls[0][1]).toEqual(result.attempts[0].diagnostics);
+    expect(onAttempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the allowed repair rounds', async () => {
+    const repair = vi.fn().mockResolvedValue(broken);
+
+    const result = await buildVerifyRepair(broken, { repair, maxRepairRounds: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toHaveLength(3);
+    expect(repair).toHaveBeenCalledTimes(2);
+    expect(result.diagnostics.length).toBeGreaterThan(0);
+  });
+
+  it('should stop when a repair fails', async () => {
+    const repair = vi.fn().mockRejectedValue(new Error('Not enough Pro Tokens'));
+
+    const result = await buildVerifyRepair(broken, { repair });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toHaveLength(1);
+    expect(result.error).toBe('Not enough Pro Tokens');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeGameCode, formatDiagnostic } from '../src/builder/GameCodeAnalyzer.js';
+
+const rules = (code: string) => analyzeGameCode(code).diagnostics.map(d => d.rule);
+
+const validGame = `import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useHighScore } from 'liku-sdk';
+
+const Game = ({ onExit }: { onExit: () => void }) => {
+  const [ticks, setTicks] = useState(0);
+  const { highScore } = useHighScore();
+
+  useEffect(() => {
+    const timer = setInterval(() => setTicks(t => t + 1), 100);
+    return () => clearInterval(timer);
+  }, []);
+
+  const leave = () => onExit();
+
+  useInput((input, key) => {
+    if (key.escape) {
+      leave();
+      return;
+    }
+  });
+
+  return <Box><Text>{ticks} / {highScore}</Text></Box>;
+};
+
+export default React.memo(Game);
+`;
+
+describe('GameCodeAnalyzer', () => {
+  it('should accept a well-formed game and list its imports', () => {
+    const result = analyzeGameCode(validGame);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.imports).toEqual([
+      { specifier: 'react', line: 1 },
+      { specifier: 'ink', line: 2 },
+      { specifier: 'liku-sdk', line: 3 },
+    ]);
+  });
+
+  it('should reject imports outside the allow-list with their line', () => {
+    const code = validGame.replace(
+      "import { useHighScore } from 'liku-sdk';",
+      "import fs from 'fs';\nconst cp = require('child_process');\nconst lazy = (name: string) => import(name);"
+    );
+    const result = analyzeGameCode(code);
+    const imports = result.diagnostics.filter(d => d.rule === 'import');
+
+    expect(result.valid).toBe(false);
+    expect(imports.map(d => d.line)).toEqual([3, 4, 5]);
+    expect(imports[0].message).toMatch(/'fs' cannot be imported/);
+    expect(imports[2].message).toBe('Modules cannot be loaded from a computed name');
+  });
+
+  it('should flag process and global access but not locals or property names', () => {
+    const code = validGame.replace(
+      'const leave = () => onExit();',
+      'const leave = () => { process.exit(0); globalThis.x = 1; };\n  const window = { process: 1 };\n  void window.process;'
+    );
+    const globals = analyzeGameCode(code).diagnostics.filter(d => d.rule === 'global-access');
+
+    expect(globals.map(d => d.message)).toEqual([
+      "'process' is not available to community games",
+      "'globalThis' is not available to community games",
+    ]);
+    expect(globals[0].line).toBe(14);
+  });
+
+  it('should not let a local of the same name elsewhere hide a global', () => {
+    const code = validGame.replace(
+      'const leave = () => onExit();',
+      'function shadow() { const process = 1; return process; }\n'
+        + '  const leave = () => { shadow(); process.exit(0); };\n'
+        + '  try { leave(); } catch (globalThis) { void globalThis; }\n'
+        + '  for (const fetch of [1]) void fetch;\n'
+        + '  void [1].map(function lookup(require) { return require; });\n'
+        + '  void globalThis; void fetch;'
+    );
+    const globals = analyzeGameCode(code).diagnostics.filter(d => d.rule === 'global-access');
+
+    expect(globals.map(d => [d.line, d.message])).toEqual([
+      [15, "'process' is not available to community games"],
+      [19, "'globalThis' is not available to community games"],
+      [19, "'fetch' is not available to community games"],
+    ]);
+  });
+
+  it('should treat vars as declared throughout their function', () => {
+    const code = validGame.replace(
+      'const leave = () => onExit();',
+      'const leave = () => { if (true) { var process = { exit: onExit }; } process.exit(); };'
+    );
+
+    expect(rules(code)).not.toContain('global-access');
+  });
+
+  it('should require escape to reach onExit', () => {
+    expect(rules(validGame.replace('leave();', "console.log('bye');"))).toContain('escape-exit');
+    // Mentions in comments or strings do not count
+    expect(rules(validGame.replace('if (key.escape) {', "// key.escape onExit\n    if (key.return) {"))).toContain('escape-exit');
+    expect(rules(validGame.replace(/useInput\([\s\S]*?\}\);\n/, "useInput((input, key) => key.escape && onExit());\n"))).toEqual([]);
+  });
+
+  it('should require timers to be cleaned up', () => {
+    const leaky = validGame.replace('return () => clearInterval(timer);', '');
+    const result = analyzeGameCode(leaky);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      rule: 'timer-cleanup',
+      severity: 'error',
+      line: 10,
+      message: 'setInterval in an effect needs a cleanup that calls clearInterval',
+    })]);
+
+    // A stray timeout outside an effect is only a warning
+    const stray = analyzeGameCode(validGame.replace('const leave = () => onExit();', 'const leave = () => onExit();\n  const reset = () => { setTimeout(() => setTicks(0), 100); };'));
+    expect(stray.valid).toBe(true);
+    expect(stray.diagnostics.map(d => d.severity)).toEqual(['warning']);
+  });
+
+  it('should require the default export to be a component', () => {
+    expect(rules(validGame.replace('export default React.memo(Game);', 'export default 42;'))).toEqual(['default-export']);
+    expect(rules(validGame.replace('export default React.memo(Game);', 'export { Game as default };'))).toEqual([]);
+    expect(analyzeGameCode(validGame.replace('export default React.memo(Game);', '')).diagnostics[0].message)
+      .toBe('Missing default export');
+  });
+
+  it('should report syntax errors with their position', () => {
+    const result = analyzeGameCode(validGame.replace('return <Box>', 'return <Box'));
+    const syntax = result.diagnostics.find(d => d.rule === 'syntax');
+
+    expect(result.valid).toBe(false);
+    expect(syntax?.line).toBe(23);
+    expect(formatDiagnostic(syntax!)).toMatch(/^23:\d+ error /);
+  });
+});
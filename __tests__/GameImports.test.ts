@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { build } from 'esbuild';
+import { checkGameImport, gameImportPlugin } from '../src/core/GameImports.js';
+
+const bundle = (contents: string) => build({
+  stdin: { contents, loader: 'tsx', resolveDir: process.cwd() },
+  bundle: true,
+  write: false,
+  format: 'esm',
+  platform: 'node',
+  jsx: 'automatic',
+  logLevel: 'silent',
+  plugins: [gameImportPlugin],
+});
+
+describe('GameImports', () => {
+  describe('checkGameImport', () => {
+    it('should allow react, ink and liku-sdk', () => {
+      expect(checkGameImport('react')).toBeNull();
+      expect(checkGameImport('react/jsx-runtime')).toBeNull();
+      expect(checkGameImport('ink')).toBeNull();
+      expect(checkGameImport('liku-sdk')).toBeNull();
+    });
+
+    it('should refuse node built-ins and internal paths', () => {
+      expect(checkGameImport('fs')).toMatch(/'fs' cannot be imported/);
+      expect(checkGameImport('node:child_process')).not.toBeNull();
+      expect(checkGameImport('../../services/DatabaseService.js')).not.toBeNull();
+    });
+  });
+
+  describe('gameImportPlugin', () => {
+    it('should keep allowed modules external and point liku-sdk at the hub', async () => {
+      const result = await bundle(`
+        import { Text } from 'ink';
+        import { useGameLoop } from 'liku-sdk';
+        export default () => { useGameLoop(100, () => {}); return <Text>hi</Text>; };
+      `);
+
+      const output = result.outputFiles[0].text;
+      expect(output).toContain('from "ink"');
+      expect(output).toContain('from "react/jsx-runtime"');
+      expect(output).toMatch(/from "file:\/\/.*\/sdk\/index\.js"/);
+    });
+
+    it('should fail the build on a forbidden import', async () => {
+      await expect(bundle(`import { execSync } from 'child_process'; execSync('ls');`))
+        .rejects.toThrow(/'child_process' cannot be imported by community games/);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// A database of its own instead of the one in the player's home directory
+vi.mock('../src/services/paths.js', async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-remove-'));
+  return { DB_DIR: dir, DB_PATH: path.join(dir, 'snake.db') };
+});
+
+import { DB_DIR } from '../src/services/paths.js';
+import { db } from '../src/services/DatabaseService.js';
+import { GameLoader } from '../src/core/GameLoader.js';
+import { runGamesCommand } from '../src/commands/games.js';
+
+let installed = 0;
+
+// A registered game with its versions, a leaderboard run, saved data and a played session
+const installGame = async (versions: number = 2) => {
+  const id = `test-game-${++installed}`;
+  const fileOf = (version: number) => `${id}.v${version}.js`;
+  await db.registerGame({ id, name: `Test Game ${installed}`, description: null, filePath: fileOf(versions), energyCost: 5, xpReward: 10 });
+  for (let version = 1; version <= versions; version++) {
+    await db.addGameVersion({
+      gameId: id,
+      version,
+      source: `export default () => ${version};`,
+      filePath: fileOf(version),
+      energyCost: 5,
+      xpReward: 10,
+      changeRequest: version === 1 ? null : `change ${version}`,
+      prompt: null,
+      model: null,
+      bundle: null,
+    });
+  }
+  await db.addLeaderboardEntry({ gameId: id, profileId: db.getActiveProfileId(), score: 42, metaData: '{}' });
+  await db.setGameData(id, 'level', 3);
+  await db.recordGameSession({
+    gameId: id,
+    difficulty: null,
+    startedAt: '2026-01-01T10:00:00Z',
+    endedAt: '2026-01-01T10:05:00Z',
+    score: 42,
+    xpEarned: 10,
+    energySpent: 5,
+    outcome: 'win',
+    seed: null,
+  });
+  return { id, files: Array.from({ length: versions }, (_, index) => fileOf(index + 1)) };
+};
+
+const rowsOf = async (id: string) => ({
+  game: await db.getGameById(id),
+  versions: await db.getGameVersions(id),
+  leaderboard: await db.getLeaderboard(id),
+  level: await db.getGameData(id, 'level'),
+  sessions: await db.getGameSessions({ gameId: id }),
+});
+
+describe('Removing community games', () => {
+  afterAll(() => {
+    fs.rmSync(DB_DIR, { recursive: true, force: true });
+  });
+
+  describe('DatabaseService.removeGame', () => {
+    it('should delete the registry entry, its versions, leaderboard entries and saved data', async () => {
+      const { id } = await installGame(2);
+
+      expect(await db.removeGame(id)).toEqual({ versions: 2, leaderboardEntries: 1, storedKeys: 1 });
+
+      const rows = await rowsOf(id);
+      expect(rows.game).toBeNull();
+      expect(rows.versions).toEqual([]);
+      expect(rows.leaderboard).toEqual([]);
+      expect(rows.level).toBeUndefined();
+    });
+
+    it('should keep the game\'s play history', async () => {
+      const { id } = await installGame();
+
+      await db.removeGame(id);
+
+      const { sessions } = await rowsOf(id);
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({ gameId: id, score: 42, outcome: 'win' });
+    });
+
+    it('should leave other games alone', async () => {
+      const removed = await installGame();
+      const kept = await installGame();
+      const before = await rowsOf(kept.id);
+
+      await db.removeGame(removed.id);
+
+      expect(await rowsOf(kept.id)).toEqual(before);
+      expect(before.game).not.toBeNull();
+      expect(before.versions).toHaveLength(2);
+    });
+
+    it('should return null and delete nothing for an unknown game', async () => {
+      const kept = await installGame();
+      const before = await rowsOf(kept.id);
+
+      expect(await db.removeGame('no-such-game')).toBeNull();
+
+      expect(await rowsOf(kept.id)).toEqual(before);
+    });
+  });
+
+  describe('GameLoader.removeGame', () => {
+    let gamesDir: string;
+    let loader: GameLoader;
+
+    beforeEach(() => {
+      gamesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-remove-games-'));
+      loader = new GameLoader(gamesDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(gamesDir, { recursive: true, force: true });
+    });
+
+    it('should delete the bundle of every version', async () => {
+      const removed = await installGame(3);
+      const kept = await installGame(1);
+      for (const file of [...removed.files, ...kept.files]) {
+        fs.writeFileSync(path.join(gamesDir, file), 'export default () => null;\n');
+      }
+
+      const result = await loader.removeGame(removed.id);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toMatch(/versions: 3, leaderboard entries: 1, saved values: 1/);
+      expect(fs.readdirSync(gamesDir)).toEqual(kept.files);
+    });
+
+    it('should fail for an unknown game', async () => {
+      const result = await loader.removeGame('no-such-game');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/not found/);
+    });
+  });
+
+  describe('liku games remove', () => {
+    it('should exit with code 1 for an unknown game', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await runGamesCommand(['remove', 'no-such-game'], {})).toBe(1);
+      expect(error).toHaveBeenCalledWith(expect.stringMatching(/Game 'no-such-game' not found/));
+
+      error.mockRestore();
+    });
+  });
+});
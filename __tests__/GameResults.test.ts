@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/DatabaseService.js', () => ({
+  db: {
+    recordGameSession: vi.fn(),
+    addLeaderboardEntry: vi.fn(),
+    getActiveProfileId: vi.fn(),
+  },
+}));
+
+vi.mock('../src/core/AchievementEngine.js', () => ({
+  achievementEngine: { check: vi.fn() },
+}));
+
+import { db, LeaderboardEntry } from '../src/services/DatabaseService.js';
+import { achievementEngine } from '../src/core/AchievementEngine.js';
+import { GameRunResult, getLeaderboardRanking, readLeaderboardMetaData, reportGameResult } from '../src/core/GameResults.js';
+
+const run = (overrides: Partial<GameRunResult> = {}): GameRunResult => ({
+  gameId: 'snake',
+  difficulty: 'hard',
+  startedAt: new Date('2026-03-01T10:00:00Z'),
+  endedAt: new Date('2026-03-01T10:01:30Z'),
+  outcome: 'finished',
+  score: 420,
+  xpEarned: 40,
+  energySpent: 10,
+  seed: 1234,
+  ...overrides,
+});
+
+describe('GameResults', () => {
+  beforeEach(() => {
+    vi.mocked(db.recordGameSession).mockReset().mockResolvedValue(7);
+    vi.mocked(db.addLeaderboardEntry).mockReset().mockResolvedValue(1);
+    vi.mocked(db.getActiveProfileId).mockReturnValue(3);
+    vi.mocked(achievementEngine.check).mockReset().mockResolvedValue([]);
+  });
+
+  describe('reportGameResult', () => {
+    it('should record the session and a leaderboard row with its meta data', async () => {
+      const sessionId = await reportGameResult(run());
+
+      expect(sessionId).toBe(7);
+      expect(db.recordGameSession).toHaveBeenCalledWith(expect.objectContaining({
+        gameId: 'snake',
+        startedAt: '2026-03-01T10:00:00.000Z',
+        score: 420,
+        seed: 1234,
+      }));
+      const entry = vi.mocked(db.addLeaderboardEntry).mock.calls[0][0];
+      expect(entry).toMatchObject({ gameId: 'snake', profileId: 3, score: 420 });
+      expect(JSON.parse(entry.metaData)).toEqual({
+        difficulty: 'hard',
+        durationMs: 90_000,
+        seed: 1234,
+        outcome: 'finished',
+        sessionId: 7,
+      });
+    });
+
+    it('should keep abandoned runs off the leaderboard', async () => {
+      await reportGameResult(run({ outcome: 'abandoned' }));
+
+      expect(db.recordGameSession).toHaveBeenCalled();
+      expect(db.addLeaderboardEntry).not.toHaveBeenCalled();
+    });
+
+    it('should rank runs without a score as zero', async () => {
+      await reportGameResult(run({ gameId: 'tictactoe', outcome: 'win', score: null }));
+
+      expect(vi.mocked(db.addLeaderboardEntry).mock.calls[0][0].score).toBe(0);
+    });
+
+    it('should check achievements once the run is recorded', async () => {
+      await reportGameResult(run({ outcome: 'win', difficulty: null }));
+
+      expect(achievementEngine.check).toHaveBeenCalledWith({ gameId: 'snake', outcome: 'win', score: 420, difficulty: null });
+      expect(vi.mocked(db.recordGameSession).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(achievementEngine.check).mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('getLeaderboardRanking', () => {
+    it('should rank games without a score by their fastest wins', () => {
+      expect(getLeaderboardRanking('sudoku')).toBe('time');
+      expect(getLeaderboardRanking('snake')).toBe('score');
+      expect(getLeaderboardRanking('space-dodge')).toBe('score');
+    });
+  });
+
+  describe('readLeaderboardMetaData', () => {
+    it('should tolerate entries without structured meta data', () => {
+      const entry = (metaData: string): LeaderboardEntry =>
+        ({ id: 1, gameId: 'snake', profileId: 1, score: 10, metaData, createdAt: '2026-03-01 10:00:00' });
+
+      expect(readLeaderboardMetaData(entry('{"durationMs":500}'))).toEqual({ durationMs: 500 });
+      expect(readLeaderboardMetaData(entry('not json'))).toEqual({});
+      expect(readLeaderboardMetaData(entry('null'))).toEqual({});
+    });
+  });
+});
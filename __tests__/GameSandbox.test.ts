@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+// The hub side serves storage calls from the database; these games make none
+vi.mock('../src/services/DatabaseService.js', () => ({ db: {} }));
+vi.mock('../src/core/GameStateLogger.js', () => ({ logGameState: vi.fn() }));
+
+import { GameSandbox, GameSandboxError, DEFAULT_SANDBOX_LIMITS, SandboxLimits, SandboxWorkerData } from '../src/core/GameSandbox.js';
+import { reportedOutcome, type GameReport } from '../src/core/GameLoader.js';
+
+interface Outcome {
+  manifest?: unknown;
+  // What a played game reported, until it exited
+  reports: GameReport[];
+  failure?: GameSandboxError;
+  // Times the hub's own timer fired while the game ran
+  hubTicks: number;
+}
+
+let dir: string;
+let gameCount = 0;
+
+// Loads a game module in the sandbox the way its GameManifest is read, or plays it
+const runGame = (
+  source: string,
+  limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS,
+  mode: SandboxWorkerData['mode'] = 'manifest'
+): Promise<Outcome> => {
+  const file = path.join(dir, `game-${++gameCount}.mjs`);
+  fs.writeFileSync(file, source);
+
+  return new Promise((resolve) => {
+    let hubTicks = 0;
+    const reports: GameReport[] = [];
+    const hubTimer = setInterval(() => hubTicks++, 100);
+    const finish = (outcome: Omit<Outcome, 'hubTicks' | 'reports'>) => {
+      clearInterval(hubTimer);
+      sandbox.stop();
+      resolve({ ...outcome, reports, hubTicks });
+    };
+    const sandbox = new GameSandbox({
+      mode,
+      gameUrl: pathToFileURL(file).href,
+      gameId: `game-${gameCount}`,
+      gameName: 'Test Game',
+      difficulty: null,
+      theme: null,
+      columns: 80,
+      rows: 24,
+    }, {
+      onMessage: (message) => {
+        if (message.type === 'manifest') finish({ manifest: message.manifest });
+        if (message.type === 'report') reports.push(message.report);
+        if (message.type === 'exit') finish({});
+        if (message.type === 'crash') finish({ failure: new GameSandboxError(message.message, 'crash') });
+      },
+      onFailure: (failure) => finish({ failure }),
+    }, limits);
+  });
+};
+
+describe('GameSandbox', () => {
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-sandbox-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a well-behaved game', async () => {
+    const outcome = await runGame('export const GameManifest = { energyCost: 5 };\nexport default () => null;\n');
+
+    expect(outcome.failure).toBeUndefined();
+    expect(outcome.manifest).toEqual({ energyCost: 5 });
+  }, 30000);
+
+  it('should stop a game that loops forever while the hub keeps running', async () => {
+    const started = Date.now();
+    const outcome = await runGame('await new Promise(resolve => setTimeout(resolve, 500));\nfor (;;) {}\n');
+
+    expect(outcome.failure?.reason).toBe('cpu');
+    expect(outcome.failure?.message).toMatch(/busy for more than 2s/);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(DEFAULT_SANDBOX_LIMITS.stallMs);
+    expect(outcome.hubTicks).toBeGreaterThan(DEFAULT_SANDBOX_LIMITS.stallMs / 100 - 5);
+  }, 30000);
+
+  it('should stop a game that uses more than 128 MB', async () => {
+    const outcome = await runGame('const hog = [];\nfor (;;) hog.push({ n: hog.length, text: `item ${hog.length}` });\n');
+
+    expect(outcome.failure?.reason).toBe('memory');
+    expect(outcome.failure?.message).toMatch(/more than 128 MB/);
+    expect(outcome.hubTicks).toBeGreaterThan(0);
+  }, 30000);
+
+  it('should stop a game that does not start in time', async () => {
+    const outcome = await runGame('export default () => null;\n', { ...DEFAULT_SANDBOX_LIMITS, startupMs: 100, stallMs: 60000 });
+
+    expect(outcome.failure?.reason).toBe('cpu');
+    expect(outcome.failure?.message).toMatch(/did not start within 0.1s/);
+  }, 30000);
+
+  it('should report a game that calls process.exit() as crashed', async () => {
+    const outcome = await runGame('process.exit(0);\n');
+
+    expect(outcome.failure?.reason).toBe('crash');
+    expect(outcome.failure?.message).toMatch(/process\.exit is not available to community games/);
+    expect(outcome.hubTicks).toBeGreaterThan(0);
+  }, 30000);
+
+  it('should report a game that calls eval as crashed', async () => {
+    const outcome = await runGame("export const GameManifest = eval('({ energyCost: 1 })');\n");
+
+    expect(outcome.failure?.reason).toBe('crash');
+    expect(outcome.failure?.message).toMatch(/eval is not available to community games/);
+    expect(outcome.hubTicks).toBeGreaterThan(0);
+  }, 30000);
+
+  it('should pass on only the outcomes the hub knows', async () => {
+    const outcome = await runGame(`export default ({ onReport, onExit }) => {
+  onReport({ outcome: { toString: () => 'win' }, score: 3 });
+  onReport({ outcome: 'abandoned' });
+  onReport({ outcome: 'constructor', seed: 7 });
+  onReport({ outcome: 'win', score: '12' });
+  setTimeout(onExit, 0);
+  return null;
+};
+`, DEFAULT_SANDBOX_LIMITS, 'play');
+
+    expect(outcome.failure).toBeUndefined();
+    expect(outcome.reports.map(report => report.outcome)).toEqual([undefined, undefined, undefined, 'win']);
+    expect(outcome.reports.map(report => [report.score, report.seed])).toEqual([[3, undefined], [undefined, undefined], [undefined, 7], [undefined, undefined]]);
+  }, 30000);
+
+  it('should let the hub drop unknown outcomes as well', () => {
+    expect(['win', 'loss', 'draw', 'finished'].map(reportedOutcome)).toEqual(['win', 'loss', 'draw', 'finished']);
+    expect([{}, 'abandoned', 'constructor', 'toString', null, undefined].map(reportedOutcome)).toEqual(Array(6).fill(undefined));
+  });
+
+  it('should lock down process control, native code, code from strings and the network', async () => {
+    // Collects what a game got away with, as its manifest
+    const outcome = await runGame(`const attempts = {
+  'process.exit': () => process.exit(0),
+  'process.reallyExit': () => process.reallyExit(0),
+  'process.kill': () => process.kill(process.pid, 0),
+  'process.dlopen': () => process.dlopen({ exports: {} }, '/nonexistent.node'),
+  'eval': () => eval('1'),
+  'indirect eval': () => (0, globalThis.eval)('1'),
+  'Function': () => Function('return 1')(),
+  'new Function': () => new Function('return 1')(),
+  'function constructor': () => (function () {}).constructor('return 1')(),
+  'async function constructor': () => (async function () {}).constructor('return 1')(),
+  'generator constructor': () => (function* () {}).constructor('yield 1')(),
+  'fetch': () => fetch('http://127.0.0.1:9'),
+};
+const escaped = [];
+for (const [name, attempt] of Object.entries(attempts)) {
+  try {
+    attempt();
+    escaped.push(name);
+  } catch (error) {
+    if (!/not available to community games/.test(error.message)) escaped.push(name);
+  }
+}
+export const GameManifest = { escaped };
+`);
+
+    expect(outcome.failure).toBeUndefined();
+    expect(outcome.manifest).toEqual({ escaped: [] });
+  }, 30000);
+});
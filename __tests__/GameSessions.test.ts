@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterAll, beforeAll } from 'vitest';
+import fs from 'fs';
+
+// A database of its own instead of the one in the player's home directory
+vi.mock('../src/services/paths.js', async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-sessions-'));
+  return { DB_DIR: dir, DB_PATH: path.join(dir, 'snake.db') };
+});
+
+import { DB_DIR } from '../src/services/paths.js';
+import { db, GameOutcome } from '../src/services/DatabaseService.js';
+
+// A run of `minutes` that started at `startedAt` (UTC, ISO)
+const run = (gameId: string, startedAt: string, minutes: number, outcome: GameOutcome, score: number | null, seed: number | null = null) => ({
+  gameId,
+  difficulty: gameId === 'snake' ? 'hard' : null,
+  startedAt,
+  endedAt: new Date(new Date(startedAt).getTime() + minutes * 60000).toISOString(),
+  score,
+  xpEarned: outcome === 'win' ? 20 : 5,
+  energySpent: 10,
+  outcome,
+  seed,
+});
+
+describe('DatabaseService game sessions', () => {
+  let player: number;
+  let guest: number;
+
+  beforeAll(async () => {
+    player = db.getActiveProfileId();
+    guest = (await db.createProfile('Guest')).id;
+
+    await db.recordGameSession(run('snake', '2026-03-01T10:00:00Z', 5, 'loss', 40, 1234));
+    await db.recordGameSession(run('snake', '2026-03-02T10:00:00Z', 3, 'win', 90));
+    await db.recordGameSession(run('hangman', '2026-03-01T12:00:00Z', 2, 'win', null));
+
+    await db.switchProfile(guest);
+    await db.recordGameSession(run('snake', '2026-03-03T10:00:00Z', 1, 'abandoned', 5));
+    await db.switchProfile(player);
+  });
+
+  afterAll(() => {
+    fs.rmSync(DB_DIR, { recursive: true, force: true });
+  });
+
+  it('should read back a recorded run with its duration', async () => {
+    const id = await db.recordGameSession(run('tictactoe', '2026-03-04T09:00:00Z', 1.5, 'draw', null));
+
+    const [session] = await db.getGameSessions({ gameId: 'tictactoe' });
+
+    expect(session).toEqual({
+      id,
+      profileId: player,
+      gameId: 'tictactoe',
+      difficulty: null,
+      startedAt: '2026-03-04 09:00:00',
+      endedAt: '2026-03-04 09:01:30',
+      durationMs: 90000,
+      score: null,
+      xpEarned: 5,
+      energySpent: 10,
+      outcome: 'draw',
+      seed: null,
+    });
+  });
+
+  it('should list only the active profile\'s runs, newest first', async () => {
+    const sessions = await db.getGameSessions({ gameId: 'snake' });
+
+    expect(sessions.map(session => [session.startedAt, session.outcome, session.seed])).toEqual([
+      ['2026-03-02 10:00:00', 'win', null],
+      ['2026-03-01 10:00:00', 'loss', 1234],
+    ]);
+    expect(sessions.every(session => session.profileId === player && session.difficulty === 'hard')).toBe(true);
+
+    await db.switchProfile(guest);
+    const guestSessions = await db.getGameSessions();
+    await db.switchProfile(player);
+
+    expect(guestSessions.map(session => [session.gameId, session.outcome, session.profileId])).toEqual([['snake', 'abandoned', guest]]);
+  });
+
+  it('should filter by start time and limit the list', async () => {
+    const since = await db.getGameSessions({ since: new Date('2026-03-01T11:00:00Z') });
+    expect(since.map(session => session.gameId)).toEqual(['tictactoe', 'snake', 'hangman']);
+
+    const latest = await db.getGameSessions({ limit: 1 });
+    expect(latest.map(session => session.gameId)).toEqual(['tictactoe']);
+  });
+
+  it('should sum up each game\'s runs for the active profile', async () => {
+    const summary = await db.getGameSessionSummary();
+
+    expect(summary.map(game => game.gameId)).toEqual(['snake', 'tictactoe', 'hangman']);
+    expect(summary[0]).toEqual({
+      gameId: 'snake',
+      plays: 2,
+      wins: 1,
+      losses: 1,
+      bestScore: 90,
+      averageScore: 65,
+      totalXp: 25,
+      totalEnergy: 20,
+      totalDurationMs: 8 * 60000,
+      lastPlayedAt: '2026-03-02 10:00:00',
+    });
+    expect(summary[2]).toMatchObject({ gameId: 'hangman', plays: 1, wins: 1, bestScore: null, averageScore: null });
+
+    expect(await db.getGameSessionSummary({ gameId: 'hangman', since: new Date('2026-03-02T00:00:00Z') })).toEqual([]);
+
+    await db.switchProfile(guest);
+    const guestSummary = await db.getGameSessionSummary();
+    await db.switchProfile(player);
+
+    expect(guestSummary).toEqual([expect.objectContaining({ gameId: 'snake', plays: 1, wins: 0, losses: 0, bestScore: 5 })]);
+  });
+});
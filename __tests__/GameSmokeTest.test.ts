@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import React, { useEffect, useState } from 'react';
+import { Text, useInput } from 'ink';
+
+// Built-in games read and write the profile as they play; none of it matters here
+vi.mock('../src/services/DatabaseService.js', () => {
+  const known: Record<string, (...args: unknown[]) => unknown> = {
+    getStats: async () => ({
+      highScore: 0, level: 1, xp: 0, gamesPlayed: 0, hunger: 50, energy: 100, happiness: 50,
+      hangman_wins: 0, hangman_losses: 0,
+    }),
+    getHangmanWords: async () => ['TERMINAL', 'KEYBOARD', 'SNAKE'],
+    getActiveProfileId: () => 1,
+    getProTokensSync: () => ({ profileId: 1, balance: 100, lastReset: new Date().toISOString() }),
+    getTokenBalanceSync: () => 100,
+    getTokenTransactionCountSync: () => 1,
+    recordTokenTransaction: () => null,
+    recordTokenReset: () => null,
+    onStatsUpdated: () => () => {},
+    getRegisteredGames: async () => [],
+    getUnlockedAchievements: async () => [],
+    getGameSessionSummary: async () => [],
+  };
+  return { db: new Proxy({}, { get: (_target, name: string) => known[name] ?? (async () => undefined) }) };
+});
+vi.mock('../src/core/GameStateLogger.js', () => ({ logGameState: vi.fn() }));
+// Snake writes level-up art next to the working directory
+vi.mock('fs', () => ({ default: { writeFileSync: vi.fn(), existsSync: () => false, mkdirSync: vi.fn() } }));
+
+import { runSmokeTest, randomKeySequence } from '../src/core/GameSmokeTest.js';
+import DinoRun from '../src/ui/games/DinoRun.js';
+import Hangman from '../src/ui/games/Hangman.js';
+import Snake from '../src/ui/games/Snake.js';
+import Sudoku from '../src/ui/games/Sudoku.js';
+import TicTacToe from '../src/ui/games/TicTacToe.js';
+
+const Counter = ({ onExit, crashAt }: { onExit: () => void; crashAt?: number }) => {
+  const [ticks, setTicks] = useState(0);
+  useEffect(() => {
+    const timer = setInterval(() => setTicks(t => t + 1), 500);
+    return () => clearInterval(timer);
+  }, []);
+  useInput((_input, key) => {
+    if (key.escape) onExit();
+  });
+  if (crashAt !== undefined && ticks >= crashAt) throw new Error(`tick ${ticks}`);
+  return React.createElement(Text, null, `Ticks: ${ticks}`);
+};
+
+describe('runSmokeTest', () => {
+  it('should pass a game that renders and exits on ESC, on simulated time', async () => {
+    const started = Date.now();
+    const result = await runSmokeTest(onExit => React.createElement(Counter, { onExit }), { durationMs: 5000 });
+
+    expect(result.failure).toBeUndefined();
+    expect(result.passed).toBe(true);
+    expect(result.frame).toBe('Ticks: 10');
+    expect(result.simulatedMs).toBe(5000);
+    expect(result.keysPressed.at(-1)).toBe('escape');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('should report a crash with the last good frame', async () => {
+    const result = await runSmokeTest(onExit => React.createElement(Counter, { onExit, crashAt: 3 }));
+
+    expect(result.passed).toBe(false);
+    expect(result.failure).toMatchObject({ reason: 'crash', message: expect.stringContaining('tick 3') });
+    expect(result.frame).toBe('Ticks: 2');
+  });
+
+  it('should catch errors thrown by key handlers', async () => {
+    const Thrower = () => {
+      useInput(input => {
+        if (input === 'x') throw new Error('bad key');
+      });
+      return React.createElement(Text, null, 'ready');
+    };
+    const result = await runSmokeTest(() => React.createElement(Thrower), { keys: ['up', 'x'] });
+
+    expect(result.failure).toEqual({ reason: 'crash', message: "Threw after 2 key(s): bad key" });
+  });
+
+  it('should fail games that ignore ESC, exit early or render nothing', async () => {
+    const Stuck = () => React.createElement(Text, null, 'no way out');
+    expect((await runSmokeTest(() => React.createElement(Stuck))).failure?.reason).toBe('no-exit');
+
+    const Quitter = ({ onExit }: { onExit: () => void }) => {
+      useInput(() => onExit());
+      return React.createElement(Text, null, 'bye');
+    };
+    const early = await runSmokeTest(onExit => React.createElement(Quitter, { onExit }), { keys: ['space'] });
+    expect(early.failure).toEqual({ reason: 'early-exit', message: "Called onExit before ESC, after key 'space'" });
+
+    const Blank = () => null;
+    expect((await runSmokeTest(() => React.createElement(Blank))).failure?.reason).toBe('blank');
+  });
+
+  it('should press the same random keys for the same seed', () => {
+    expect(randomKeySequence(7, 20)).toEqual(randomKeySequence(7, 20));
+    expect(randomKeySequence(7, 20)).not.toContain('escape');
+    expect(randomKeySequence(7, 20)).not.toContain('q');
+  });
+});
+
+describe('built-in games', () => {
+  const games: Array<[string, React.ComponentType<any>]> = [
+    ['DinoRun', DinoRun],
+    ['Hangman', Hangman],
+    ['Snake', Snake],
+    ['Sudoku', Sudoku],
+    ['TicTacToe', TicTacToe],
+  ];
+
+  for (const [name, Game] of games) {
+    it(`${name} should survive random play and exit on ESC`, async () => {
+      for (const seed of [1, 2, 3]) {
+        const result = await runSmokeTest(onExit => React.createElement(Game, { onExit, seed }), { seed });
+        expect(result.failure, `seed ${seed}:\n${result.frame}`).toBeUndefined();
+      }
+    }, 30000);
+  }
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { typeCheckGameCode } from '../src/builder/GameTypeChecker.js';
+
+const NODE_MODULES = path.resolve('node_modules');
+
+const validGame = `import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useHighScore } from 'liku-sdk';
+
+const Game = ({ onExit }: { onExit: () => void }) => {
+  const [score, setScore] = useState(0);
+  const { highScore } = useHighScore();
+  useInput((input, key) => {
+    if (key.escape) { onExit(); return; }
+    if (input === ' ') setScore(s => s + 1);
+  });
+  return <Box><Text>{score} / {highScore}</Text></Box>;
+};
+
+export default Game;
+`;
+
+const readManifest = (name: string): any => {
+  const file = path.join(NODE_MODULES, name, 'package.json');
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+};
+
+// Packages `npm install --omit=dev` would install: dependencies and their
+// dependencies and required peers, transitively
+const productionPackages = (): Set<string> => {
+  const root = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+  const found = new Set<string>();
+  const queue = Object.keys(root.dependencies ?? {});
+  while (queue.length > 0) {
+    const name = queue.pop()!;
+    if (found.has(name)) continue;
+    found.add(name);
+    const manifest = readManifest(name);
+    if (!manifest) continue;
+    const optionalPeers = manifest.peerDependenciesMeta ?? {};
+    queue.push(
+      ...Object.keys(manifest.dependencies ?? {}),
+      ...Object.keys(manifest.optionalDependencies ?? {}),
+      ...Object.keys(manifest.peerDependencies ?? {}).filter(peer => !optionalPeers[peer]?.optional),
+    );
+  }
+  return found;
+};
+
+// node_modules/<name> or node_modules/@scope/<name> a path is in, if any
+const packageOf = (file: string): string | null => {
+  const relative = path.relative(NODE_MODULES, path.resolve(file));
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  const parts = relative.split(path.sep);
+  if (parts[0].startsWith('@')) {
+    // The scope's own directory holds installed and missing packages alike
+    return parts.length > 1 ? `${parts[0]}/${parts[1]}` : null;
+  }
+  return parts[0] || null;
+};
+
+describe('GameTypeChecker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pass a valid game with only production dependencies installed', () => {
+    const installed = productionPackages();
+    const hidden = (file: string) => {
+      const name = packageOf(file);
+      return name !== null && !installed.has(name);
+    };
+    const { fileExists, directoryExists, readFile } = ts.sys;
+    vi.spyOn(ts.sys, 'fileExists').mockImplementation(file => !hidden(file) && fileExists(file));
+    vi.spyOn(ts.sys, 'directoryExists').mockImplementation(dir => !hidden(dir) && directoryExists(dir));
+    vi.spyOn(ts.sys, 'readFile').mockImplementation((file, encoding) => hidden(file) ? undefined : readFile(file, encoding));
+
+    expect(typeCheckGameCode(validGame)).toEqual([]);
+  });
+});
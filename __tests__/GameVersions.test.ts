@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// A database of its own instead of the one in the player's home directory
+vi.mock('../src/services/paths.js', async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-versions-'));
+  return { DB_DIR: dir, DB_PATH: path.join(dir, 'snake.db') };
+});
+
+import { DB_DIR } from '../src/services/paths.js';
+import { db } from '../src/services/DatabaseService.js';
+import { GameLoader } from '../src/core/GameLoader.js';
+
+let installed = 0;
+
+// A registered game with `versions` stored versions, the last one active
+const installGame = async (versions: number, options: { source?: string; bundles?: boolean } = {}) => {
+  const id = `versioned-${++installed}`;
+  const fileOf = (version: number) => version === 1 ? `${id}.js` : `${id}.v${version}.js`;
+  await db.registerGame({ id, name: `Versioned ${installed}`, description: null, filePath: fileOf(1), energyCost: 5, xpReward: 10 });
+  for (let version = 1; version <= versions; version++) {
+    await db.addGameVersion({
+      gameId: id,
+      version,
+      source: options.source ?? `export default () => ${version};`,
+      filePath: fileOf(version),
+      energyCost: version * 5,
+      xpReward: version * 10,
+      changeRequest: version === 1 ? null : `change ${version}`,
+      prompt: null,
+      model: null,
+      bundle: options.bundles === false ? null : `// bundle of version ${version}\n`,
+    });
+  }
+  return { id, fileOf };
+};
+
+describe('Community game versions', () => {
+  let gamesDir: string;
+  let loader: GameLoader;
+
+  beforeEach(() => {
+    gamesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'liku-versions-games-'));
+    loader = new GameLoader(gamesDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(gamesDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(DB_DIR, { recursive: true, force: true });
+  });
+
+  describe('DatabaseService', () => {
+    it('should list versions newest first and play the one activated', async () => {
+      const { id, fileOf } = await installGame(3);
+
+      expect((await db.getGameVersions(id)).map(version => version.version)).toEqual([3, 2, 1]);
+      expect(await db.getGameById(id)).toMatchObject({ version: 3, filePath: fileOf(3), energyCost: 15, xpReward: 30 });
+
+      expect(await db.activateGameVersion(id, 1)).toBe(true);
+      expect(await db.getGameById(id)).toMatchObject({ version: 1, filePath: fileOf(1), energyCost: 5, xpReward: 10 });
+      expect(await db.activateGameVersion(id, 9)).toBe(false);
+      expect((await db.getGameById(id))?.version).toBe(1);
+    });
+  });
+
+  describe('GameLoader.installGeneratedGame', () => {
+    it('should refuse IDs that are not safe file names before writing anything', async () => {
+      const ids = ['../evil', 'nested/game', '..', '', '-dash-first', 'space game', 'x'.repeat(65)];
+      for (const id of ids) {
+        const result = await loader.installGeneratedGame('export default 42;\n', { id, name: 'Evil' });
+
+        expect(result).toMatchObject({ success: false, gameId: id, message: "Cannot install game 'Evil'" });
+        expect(result.error).toMatch(/Invalid game ID/);
+        expect(await db.getGameById(id)).toBeNull();
+      }
+      expect(fs.readdirSync(gamesDir)).toEqual([]);
+      expect(fs.existsSync(path.join(gamesDir, '..', 'evil.js'))).toBe(false);
+    });
+  });
+
+  describe('GameLoader.rollbackGame', () => {
+    it('should go back one version at a time until there is none before', async () => {
+      const { id, fileOf } = await installGame(3);
+      [1, 2, 3].forEach(version => fs.writeFileSync(path.join(gamesDir, fileOf(version)), `// v${version}\n`));
+
+      expect(await loader.rollbackGame(id)).toMatchObject({ success: true, version: 2 });
+      expect(await loader.rollbackGame(id)).toMatchObject({ success: true, version: 1 });
+      expect(await db.getGameById(id)).toMatchObject({ version: 1, filePath: fileOf(1) });
+
+      const result = await loader.rollbackGame(id);
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/has no version before 1/);
+      expect((await db.getGameById(id))?.version).toBe(1);
+    });
+
+    it('should roll forward to a named version', async () => {
+      const { id, fileOf } = await installGame(3);
+      [1, 2, 3].forEach(version => fs.writeFileSync(path.join(gamesDir, fileOf(version)), `// v${version}\n`));
+      await loader.rollbackGame(id, 1);
+
+      expect(await loader.rollbackGame(id, 3)).toMatchObject({ success: true, version: 3 });
+      expect(await loader.rollbackGame(id, 7)).toMatchObject({ success: false, message: expect.stringMatching(/has no version 7/) });
+    });
+
+    it('should restore a deleted bundle from the copy stored with the version', async () => {
+      const { id, fileOf } = await installGame(2);
+
+      expect(await loader.rollbackGame(id)).toMatchObject({ success: true, version: 1 });
+      expect(fs.readFileSync(path.join(gamesDir, fileOf(1)), 'utf-8')).toBe('// bundle of version 1\n');
+    });
+
+    it('should refuse when the bundle is gone and no copy was stored', async () => {
+      const { id } = await installGame(2, { bundles: false });
+
+      const result = await loader.rollbackGame(id);
+
+      expect(result).toMatchObject({ success: false, message: expect.stringMatching(/Cannot roll back/) });
+      expect(result.error).toMatch(/Bundle of version 1 is missing/);
+      expect((await db.getGameById(id))?.version).toBe(2);
+    });
+
+    it('should return a failed result when the bundle cannot be written', async () => {
+      const { id } = await installGame(2);
+      // The games directory is a file, so nothing can be written into it
+      const blocked = path.join(gamesDir, 'not-a-directory');
+      fs.writeFileSync(blocked, '');
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await new GameLoader(blocked).rollbackGame(id);
+
+      expect(result).toMatchObject({ success: false, message: `Failed to roll back game '${id}'` });
+      expect(result.error).toBeTruthy();
+      expect((await db.getGameById(id))?.version).toBe(2);
+      error.mockRestore();
+    });
+  });
+
+  describe('GameLoader.rebuildGame', () => {
+    it('should leave the old bundle in place when the new build fails', async () => {
+      const { id, fileOf } = await installGame(2, { source: 'export default 42;\n' });
+      const bundlePath = path.join(gamesDir, fileOf(2));
+      fs.writeFileSync(bundlePath, '// working bundle\n');
+
+      const result = await loader.rebuildGame(id);
+
+      expect(result.success).toBe(false);
+      expect(result.diagnostics?.map(diagnostic => diagnostic.rule)).toContain('default-export');
+      expect(fs.readFileSync(bundlePath, 'utf-8')).toBe('// working bundle\n');
+      expect(fs.readdirSync(gamesDir)).toEqual([fileOf(2)]);
+      expect((await db.getGameVersion(id, 2))?.bundle).toBe('// bundle of version 2\n');
+    });
+
+    it('should refuse versions that were never stored', async () => {
+      const { id } = await installGame(1);
+
+      expect(await loader.rebuildGame(id, 4)).toMatchObject({ success: false, error: 'It has no version 4' });
+      expect(await loader.rebuildGame('no-such-game')).toMatchObject({ success: false, message: expect.stringMatching(/not found/) });
+    });
+
+    it('should rebuild every game with a kept source, one result each', async () => {
+      const { id } = await installGame(1, { source: 'export default 42;\n' });
+      // Registered before versions were kept: skipped
+      await db.registerGame({ id: 'sourceless', name: 'Sourceless', description: null, filePath: 'sourceless.js', energyCost: 5, xpReward: 10 });
+
+      const results = await loader.rebuildAllGames();
+      const rebuilt = results.map(result => result.gameId);
+
+      expect(rebuilt).toContain(id);
+      expect(rebuilt).not.toContain('sourceless');
+      expect(new Set(rebuilt).size).toBe(rebuilt.length);
+      // None of these sources pass static analysis, so every bundle stays
+      expect(results.every(result => !result.success && result.message.endsWith('failed static analysis'))).toBe(true);
+    });
+  });
+});
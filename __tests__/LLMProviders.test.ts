@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ChatMessage,
+  FallbackProvider,
+  FixtureProvider,
+  LLMProvider,
+  OpenAICompatibleProvider,
+  ProviderChat,
+  createProviderFromEnv,
+  fixtureKey,
+} from '../src/builder/providers/index.js';
+
+const stubProvider = (model: string, answer: (message: string) => string): LLMProvider => ({
+  name: 'stub',
+  model,
+  chat: vi.fn(async (_history: ChatMessage[], message: string) => ({ text: answer(message), model })),
+  generate: vi.fn(async (prompt: string) => ({ text: answer(prompt), model })),
+  countTokens: vi.fn(async () => 1),
+});
+
+const failing = (model: string) => stubProvider(model, () => {
+  throw new Error('model not found');
+});
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('FallbackProvider', () => {
+    it('should fall back to the next model and stay with the one that answered', async () => {
+      const first = failing('best');
+      const second = stubProvider('backup', message => `echo ${message}`);
+      const provider = new FallbackProvider([first, second]);
+
+      expect(provider.model).toBe('best');
+      expect((await provider.generate('hi')).text).toBe('echo hi');
+      expect(provider.model).toBe('backup');
+
+      await provider.generate('again');
+      expect(first.generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report every failure when no model answers', async () => {
+      const provider = new FallbackProvider([failing('a'), failing('b')]);
+
+      await expect(provider.chat([], 'hi')).rejects.toThrow('Every model failed. a: model not found; b: model not found');
+    });
+  });
+
+  describe('ProviderChat', () => {
+    it('should send the conversation so far with each message', async () => {
+      const provider = stubProvider('m', message => message.toUpperCase());
+      const chat = new ProviderChat(provider, [{ role: 'user', content: 'context' }]);
+
+      await chat.send('one');
+      await chat.send('two');
+
+      expect(vi.mocked(provider.chat).mock.calls[1]).toEqual([
+        [
+          { role: 'user', content: 'context' },
+          { role: 'user', content: 'one' },
+          { role: 'model', content: 'ONE' },
+        ],
+        'two',
+      ]);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should post the conversation to /chat/completions and read the answer and usage', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        choices: [{ message: { content: 'a game' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1/', model: 'qwen', apiKey: 'k' });
+
+      const response = await provider.chat([{ role: 'model', content: 'earlier' }], 'make a game');
+
+      expect(response).toEqual({ text: 'a game', model: 'qwen', usage: { promptTokens: 12, responseTokens: 3 } });
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://localhost:8080/v1/chat/completions');
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer k');
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        model: 'qwen',
+        messages: [{ role: 'assistant', content: 'earlier' }, { role: 'user', content: 'make a game' }],
+      });
+    });
+
+    it('should fail on HTTP errors so the next model is tried', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('no such model', { status: 404, statusText: 'Not Found' })));
+      const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'missing' });
+
+      await expect(provider.generate('hi')).rejects.toThrow('HTTP 404 Not Found - no such model');
+    });
+  });
+
+  describe('FixtureProvider', () => {
+    it('should answer by conversation key, then by message match', async () => {
+      const provider = new FixtureProvider([
+        { key: fixtureKey([], 'exact prompt'), text: 'by key' },
+        { match: 'space shooter', text: 'by match', usage: { promptTokens: 1, responseTokens: 2 } },
+      ]);
+
+      expect((await provider.generate('exact prompt')).text).toBe('by key');
+      expect(await provider.chat([], 'Make a space shooter please')).toEqual({
+        text: 'by match', model: 'fixture', usage: { promptTokens: 1, responseTokens: 2 },
+      });
+      await expect(provider.generate('something else')).rejects.toThrow(/No fixture for this prompt \(key [0-9a-f]{16}\)/);
+    });
+
+    it('should record upstream answers to a file that replays offline', async () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'liku-fixtures-')), 'session.json');
+      const upstream = stubProvider('gemini-2.0-flash', message => `answer to ${message}`);
+      const recorder = FixtureProvider.fromFile(file, { upstream, recordTo: file });
+
+      await recorder.chat([{ role: 'user', content: 'ctx' }], 'question');
+      await recorder.chat([{ role: 'user', content: 'ctx' }], 'question');
+      expect(upstream.chat).toHaveBeenCalledTimes(1);
+
+      const replay = FixtureProvider.fromFile(file);
+      expect((await replay.chat([{ role: 'user', content: 'ctx' }], 'question')).text).toBe('answer to question');
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    });
+  });
+
+  describe('createProviderFromEnv', () => {
+    it('should pick Gemini by key and fall back across its models', () => {
+      expect(createProviderFromEnv({})).toBeNull();
+      expect(createProviderFromEnv({ GEMINI_API_KEY: 'k', GEMINI_MODEL: 'gemini-1.5-pro' })?.model).toBe('gemini-1.5-pro');
+    });
+
+    it('should pick an OpenAI-compatible server from its base URL', () => {
+      const provider = createProviderFromEnv({ LIKU_LLM_BASE_URL: 'http://localhost:11434/v1', LIKU_LLM_MODEL: 'llama3, qwen' });
+
+      expect(provider?.name).toBe('openai');
+      expect(provider?.model).toBe('llama3');
+      expect(() => createProviderFromEnv({ LIKU_LLM_PROVIDER: 'openai' })).toThrow('LIKU_LLM_BASE_URL is required');
+      expect(() => createProviderFromEnv({ LIKU_LLM_PROVIDER: 'claude' })).toThrow("Unknown LIKU_LLM_PROVIDER 'claude'");
+    });
+  });
+});
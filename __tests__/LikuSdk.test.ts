@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import React, { ReactElement } from 'react';
+import { PassThrough, Writable } from 'stream';
+import { render, Text } from 'ink';
+import { LikuGameProvider, LikuGameHost, reportResult } from '../src/sdk/context.js';
+import { useGameLoop, useGameStorage, useHighScore, useSeededRandom } from '../src/sdk/hooks.js';
+import { getTheme } from '../src/sdk/theme.js';
+
+const fakeHost = (overrides: Partial<LikuGameHost> = {}): LikuGameHost => ({
+  gameId: 'space-dodge',
+  gameName: 'Space Dodge',
+  difficulty: null,
+  theme: getTheme(),
+  report: vi.fn(),
+  getPersonalBest: vi.fn(async () => null),
+  loadData: vi.fn(async () => undefined),
+  saveData: vi.fn(async () => {}),
+  logState: vi.fn(),
+  ...overrides,
+});
+
+let mounted: Array<ReturnType<typeof render>> = [];
+
+// Renders into memory like core/GameSmokeTest; frame() is the last frame drawn
+const renderInHost = (host: LikuGameHost, game: ReactElement) => {
+  let frame = '';
+  const stdin = Object.assign(new PassThrough(), { isTTY: true, setRawMode: () => stdin, ref: () => stdin, unref: () => stdin });
+  const stdout = Object.assign(new Writable({
+    write(chunk, _encoding, callback) {
+      frame = chunk.toString().replace(/\n$/, '');
+      callback();
+    },
+  }), { columns: 80, rows: 24 });
+  const instance = render(React.createElement(LikuGameProvider, { host }, game), {
+    stdin: stdin as any, stdout: stdout as any, debug: true, exitOnCtrlC: false, patchConsole: false,
+  });
+  mounted.push(instance);
+  return { frame: () => frame, unmount: () => instance.unmount() };
+};
+
+// Resolves when the test says so, to see the state before a load finishes
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+const sleep = (ms: number) => new Promise(done => setTimeout(done, ms));
+
+describe('liku-sdk', () => {
+  afterEach(() => {
+    mounted.forEach(instance => instance.unmount());
+    mounted = [];
+  });
+
+  describe('useGameStorage', () => {
+    it('should load the saved value, then save changes through the host', async () => {
+      const saved = deferred<unknown>();
+      const host = fakeHost({ loadData: vi.fn(() => saved.promise) });
+      let save!: (next: number | ((previous: number) => number)) => void;
+      const Game = () => {
+        const [best, setBest, loaded] = useGameStorage('best', 0);
+        save = setBest;
+        return React.createElement(Text, null, `${best} ${loaded ? 'loaded' : 'loading'}`);
+      };
+
+      const { frame } = renderInHost(host, React.createElement(Game));
+      expect(frame()).toBe('0 loading');
+      await vi.waitFor(() => expect(host.loadData).toHaveBeenCalledWith('best'));
+
+      saved.resolve(7);
+      await vi.waitFor(() => expect(frame()).toBe('7 loaded'));
+
+      save(previous => previous + 1);
+      await vi.waitFor(() => expect(frame()).toBe('8 loaded'));
+      expect(host.saveData).toHaveBeenCalledWith('best', 8);
+    });
+
+    it('should keep the initial value when nothing was saved', async () => {
+      const Game = () => {
+        const [level, , loaded] = useGameStorage('level', 1);
+        return React.createElement(Text, null, `${level} ${loaded ? 'loaded' : 'loading'}`);
+      };
+
+      const { frame } = renderInHost(fakeHost(), React.createElement(Game));
+
+      await vi.waitFor(() => expect(frame()).toBe('1 loaded'));
+    });
+  });
+
+  describe('useHighScore', () => {
+    it('should start from the personal best and only accept higher scores', async () => {
+      const host = fakeHost({ getPersonalBest: vi.fn(async () => 120) });
+      let submit!: (score: number) => boolean;
+      const Game = () => {
+        const highScore = useHighScore();
+        submit = highScore.submit;
+        return React.createElement(Text, null, `Best ${highScore.highScore}`);
+      };
+
+      const { frame } = renderInHost(host, React.createElement(Game));
+      await vi.waitFor(() => expect(frame()).toBe('Best 120'));
+
+      expect(submit(100)).toBe(false);
+      expect(submit(150)).toBe(true);
+      await vi.waitFor(() => expect(frame()).toBe('Best 150'));
+      expect(submit(150)).toBe(false);
+    });
+  });
+
+  describe('reportResult', () => {
+    it('should report to the playing game\'s host, and nowhere once it is gone', async () => {
+      const host = fakeHost();
+      const { unmount } = renderInHost(host, React.createElement(Text, null, 'playing'));
+
+      reportResult({ score: 10 });
+      expect(host.report).toHaveBeenCalledWith({ score: 10 });
+
+      unmount();
+      // Effect cleanups run after the unmount itself
+      await sleep(10);
+      expect(() => reportResult({ outcome: 'win' })).not.toThrow();
+      expect(host.report).toHaveBeenCalledTimes(1);
+    });
+
+    it('should follow the host of the game that started last', () => {
+      const first = fakeHost();
+      const second = fakeHost({ gameId: 'word-snake' });
+      renderInHost(first, React.createElement(Text, null, 'first')).unmount();
+      renderInHost(second, React.createElement(Text, null, 'second'));
+
+      reportResult({ outcome: 'loss' });
+
+      expect(first.report).not.toHaveBeenCalled();
+      expect(second.report).toHaveBeenCalledWith({ outcome: 'loss' });
+    });
+  });
+
+  describe('useGameLoop', () => {
+    it('should tick while running and stop when paused or unmounted', async () => {
+      const ticks: number[] = [];
+      let setRunning!: (running: boolean) => void;
+      const Game = () => {
+        const [running, set] = React.useState(true);
+        setRunning = set;
+        useGameLoop(10, tick => ticks.push(tick), running);
+        return React.createElement(Text, null, running ? 'running' : 'paused');
+      };
+
+      const { frame, unmount } = renderInHost(fakeHost(), React.createElement(Game));
+      await vi.waitFor(() => expect(ticks.length).toBeGreaterThanOrEqual(3));
+      expect(ticks.slice(0, 3)).toEqual([0, 1, 2]);
+
+      setRunning(false);
+      await vi.waitFor(() => expect(frame()).toBe('paused'));
+      await sleep(10);
+      const paused = ticks.length;
+      await sleep(50);
+      expect(ticks).toHaveLength(paused);
+
+      setRunning(true);
+      await vi.waitFor(() => expect(ticks.length).toBeGreaterThan(paused));
+      unmount();
+      await sleep(10);
+      const unmounted = ticks.length;
+      await sleep(50);
+      expect(ticks).toHaveLength(unmounted);
+    });
+  });
+
+  describe('useSeededRandom', () => {
+    it('should report the seed of every run', async () => {
+      const host = fakeHost();
+      let random!: ReturnType<typeof useSeededRandom>;
+      const Game = () => {
+        random = useSeededRandom();
+        return React.createElement(Text, null, `Seed ${random.seed}`);
+      };
+
+      renderInHost(host, React.createElement(Game));
+      const firstSeed = random.seed;
+      await vi.waitFor(() => expect(host.report).toHaveBeenCalledWith({ seed: firstSeed }));
+
+      random.newRun();
+      await vi.waitFor(() => expect(host.report).toHaveBeenCalledTimes(2));
+      expect(host.report).toHaveBeenLastCalledWith({ seed: random.seed });
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { MigrationRunner, MIGRATIONS, type Migration } from '../src/services/migrations/index.js';
+
+const tableNames = (db: Database.Database): string[] =>
+  (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name").all() as { name: string }[])
+    .map(row => row.name);
+
+const columnNames = (db: Database.Database, table: string): string[] =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(col => col.name);
+
+// Small, self-contained migrations to exercise the runner itself
+const fixtureMigrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_widgets',
+    up: (db) => db.exec('CREATE TABLE widgets (id INTEGER PRIMARY KEY)'),
+    down: (db) => db.exec('DROP TABLE widgets'),
+  },
+  {
+    version: 2,
+    name: 'add_widget_color',
+    up: (db) => db.exec("ALTER TABLE widgets ADD COLUMN color TEXT DEFAULT 'red'"),
+    down: (db) => db.exec('ALTER TABLE widgets DROP COLUMN color'),
+  },
+  {
+    version: 3,
+    name: 'create_gadgets',
+    up: (db) => db.exec('CREATE TABLE gadgets (id INTEGER PRIMARY KEY)'),
+    down: (db) => db.exec('DROP TABLE gadgets'),
+  },
+];
+
+describe('MigrationRunner', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('migrate', () => {
+    it('should apply all pending migrations in order', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+
+      const applied = runner.migrate();
+
+      expect(applied.map(m => m.version)).toEqual([1, 2, 3]);
+      expect(runner.getCurrentVersion()).toBe(3);
+      expect(columnNames(db, 'widgets')).toContain('color');
+      expect(tableNames(db)).toContain('gadgets');
+    });
+
+    it('should stop at the target version', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+
+      runner.migrate(2);
+
+      expect(runner.getCurrentVersion()).toBe(2);
+      expect(runner.getPending().map(m => m.version)).toEqual([3]);
+    });
+
+    it('should be a no-op when already up to date', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+      runner.migrate();
+
+      expect(runner.migrate()).toHaveLength(0);
+    });
+
+    it('should sort migrations registered out of order', () => {
+      const runner = new MigrationRunner(db, [...fixtureMigrations].reverse());
+
+      expect(runner.migrate().map(m => m.version)).toEqual([1, 2, 3]);
+    });
+
+    it('should roll back a failing migration and keep the previous version', () => {
+      const broken: Migration = {
+        version: 4,
+        name: 'broken',
+        up: (db) => {
+          db.exec('CREATE TABLE half_done (id INTEGER)');
+          throw new Error('boom');
+        },
+        down: () => {},
+      };
+      const runner = new MigrationRunner(db, [...fixtureMigrations, broken]);
+
+      expect(() => runner.migrate()).toThrow('Migration 4 (broken) failed: boom');
+      expect(runner.getCurrentVersion()).toBe(3);
+      expect(tableNames(db)).not.toContain('half_done');
+    });
+
+    it('should reject a migration that leaves dangling foreign keys', () => {
+      const dangling: Migration = {
+        version: 4,
+        name: 'dangling',
+        up: (db) => {
+          db.exec('CREATE TABLE parts (id INTEGER PRIMARY KEY, widget_id INTEGER REFERENCES widgets(id))');
+          db.exec('INSERT INTO parts (widget_id) VALUES (999)');
+        },
+        down: (db) => db.exec('DROP TABLE parts'),
+      };
+      const runner = new MigrationRunner(db, [...fixtureMigrations, dangling]);
+
+      expect(() => runner.migrate()).toThrow('Foreign key check failed');
+      expect(runner.getCurrentVersion()).toBe(3);
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    });
+
+    it('should refuse a database written by a newer build', () => {
+      new MigrationRunner(db, fixtureMigrations).migrate();
+      const olderBuild = new MigrationRunner(db, fixtureMigrations.slice(0, 2));
+
+      expect(() => olderBuild.migrate()).toThrow('unknown to this build');
+    });
+
+    it('should reject duplicate versions', () => {
+      expect(() => new MigrationRunner(db, [fixtureMigrations[0], fixtureMigrations[0]]))
+        .toThrow('Duplicate migration version: 1');
+    });
+  });
+
+  describe('rollback', () => {
+    it('should revert the last migration by default', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+      runner.migrate();
+
+      const reverted = runner.rollback();
+
+      expect(reverted.map(m => m.version)).toEqual([3]);
+      expect(runner.getCurrentVersion()).toBe(2);
+      expect(tableNames(db)).not.toContain('gadgets');
+    });
+
+    it('should revert newest first down to a target version', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+      runner.migrate();
+
+      const reverted = runner.rollbackTo(1);
+
+      expect(reverted.map(m => m.version)).toEqual([3, 2]);
+      expect(columnNames(db, 'widgets')).not.toContain('color');
+    });
+
+    it('should do nothing on a fresh database', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+
+      expect(runner.rollback()).toHaveLength(0);
+    });
+  });
+
+  describe('status', () => {
+    it('should report applied and pending migrations', () => {
+      const runner = new MigrationRunner(db, fixtureMigrations);
+      runner.migrate(1);
+
+      const status = runner.status();
+
+      expect(status.map(s => s.applied)).toEqual([true, false, false]);
+      expect(status[0].appliedAt).not.toBeNull();
+      expect(status[1].appliedAt).toBeNull();
+    });
+  });
+
+  describe('LikuBuddy schema', () => {
+    it('should build the full schema on a fresh database', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate();
+
+      expect(runner.getCurrentVersion()).toBe(runner.getLatestVersion());
+      expect(tableNames(db)).toEqual(expect.arrayContaining([
+        'player_stats', 'user_settings', 'hangman_words', 'pro_tokens',
+        'game_registry', 'leaderboards', 'learn_history', 'learn_settings',
+        'profiles', 'game_sessions', 'needs_state', 'token_transactions',
+        'achievements', 'daily_challenge_results', 'game_replays', 'game_storage',
+        'elicitation_sessions', 'elicitation_turns', 'game_versions',
+      ]));
+    });
+
+    it('should adopt a legacy database created before versioning', () => {
+      // Shape of player_stats before the hunger/energy/happiness columns existed
+      db.exec(`
+        CREATE TABLE player_stats (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          high_score INTEGER DEFAULT 0,
+          level INTEGER DEFAULT 1,
+          xp INTEGER DEFAULT 0,
+          games_played INTEGER DEFAULT 0
+        )
+      `);
+      db.exec('INSERT INTO player_stats (id, high_score, level) VALUES (1, 420, 7)');
+
+      new MigrationRunner(db, MIGRATIONS).migrate(1);
+
+      const row = db.prepare('SELECT * FROM player_stats WHERE id = 1').get() as any;
+      expect(row.high_score).toBe(420);
+      expect(row.level).toBe(7);
+      expect(row.energy).toBe(100);
+      expect(row.hangman_wins).toBe(0);
+    });
+
+    it('should move the singleton player into the first profile', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(1);
+      db.prepare('UPDATE player_stats SET xp = 250 WHERE id = 1').run();
+      db.prepare("UPDATE pro_tokens SET balance = 1234 WHERE user_id = 'me'").run();
+      db.prepare("INSERT INTO game_registry (id, name, file_path) VALUES ('snake', 'Snake', 'snake.js')").run();
+      db.prepare("INSERT INTO leaderboards (game_id, user_id, score) VALUES ('snake', 'me', 90)").run();
+
+      runner.migrate(2);
+
+      const profile = db.prepare('SELECT * FROM profiles').get() as any;
+      const stats = db.prepare('SELECT * FROM player_stats WHERE profile_id = ?').get(profile.id) as any;
+      const tokens = db.prepare('SELECT * FROM pro_tokens WHERE profile_id = ?').get(profile.id) as any;
+      const entry = db.prepare('SELECT * FROM leaderboards').get() as any;
+      expect(profile.id).toBe(1);
+      expect(stats.xp).toBe(250);
+      expect(tokens.balance).toBe(1234);
+      expect(entry.profile_id).toBe(1);
+      expect(columnNames(db, 'learn_history')).toContain('profile_id');
+    });
+
+    it('should restore the singleton player when profiles are rolled back', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(2);
+      db.prepare('UPDATE player_stats SET level = 9 WHERE profile_id = 1').run();
+      db.prepare("INSERT INTO profiles (name) VALUES ('Guest')").run();
+
+      runner.rollbackTo(1);
+
+      const rows = db.prepare('SELECT * FROM player_stats').all() as any[];
+      expect(rows).toHaveLength(1);
+      expect(rows[0].id).toBe(1);
+      expect(rows[0].level).toBe(9);
+      expect(tableNames(db)).not.toContain('profiles');
+    });
+
+    it('should delete game sessions together with their profile', () => {
+      new MigrationRunner(db, MIGRATIONS).migrate(3);
+      db.prepare("INSERT INTO profiles (id, name) VALUES (2, 'Guest')").run();
+      const insert = db.prepare(`
+        INSERT INTO game_sessions (profile_id, game_id, started_at, ended_at, score, outcome)
+        VALUES (?, 'snake', datetime('now'), datetime('now'), ?, 'finished')
+      `);
+      insert.run(1, 40);
+      insert.run(2, 70);
+
+      db.prepare('DELETE FROM profiles WHERE id = 2').run();
+
+      const rows = db.prepare('SELECT profile_id, score FROM game_sessions').all();
+      expect(rows).toEqual([{ profile_id: 1, score: 40 }]);
+    });
+
+    it('should turn existing balances into opening ledger entries', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(4);
+      db.prepare('UPDATE pro_tokens SET balance = 777 WHERE profile_id = 1').run();
+
+      runner.migrate(5);
+
+      const entries = db.prepare('SELECT profile_id, amount, reason FROM token_transactions').all();
+      expect(entries).toEqual([{ profile_id: 1, amount: 777, reason: 'opening_balance' }]);
+      expect(columnNames(db, 'pro_tokens')).not.toContain('balance');
+
+      runner.rollbackTo(4);
+      expect((db.prepare('SELECT balance FROM pro_tokens WHERE profile_id = 1').get() as any).balance).toBe(777);
+    });
+
+    it('should keep the token ledger append-only except for deleted profiles', () => {
+      new MigrationRunner(db, MIGRATIONS).migrate(5);
+      db.prepare("INSERT INTO profiles (id, name) VALUES (2, 'Guest')").run();
+      db.prepare("INSERT INTO token_transactions (profile_id, amount, reason) VALUES (2, 50, 'game_reward')").run();
+
+      expect(() => db.prepare('UPDATE token_transactions SET amount = 1').run()).toThrow(/append-only/);
+      expect(() => db.prepare('DELETE FROM token_transactions').run()).toThrow(/append-only/);
+
+      db.prepare('DELETE FROM profiles WHERE id = 2').run();
+      expect(db.prepare('SELECT * FROM token_transactions WHERE profile_id = 2').all()).toEqual([]);
+    });
+
+    it('should keep recorded runs when the seed column is added and removed', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(7);
+      db.prepare(`
+        INSERT INTO game_sessions (profile_id, game_id, started_at, ended_at, score, outcome)
+        VALUES (1, 'snake', datetime('now'), datetime('now'), 40, 'finished')
+      `).run();
+
+      runner.migrate(8);
+      expect((db.prepare('SELECT seed FROM game_sessions').get() as any).seed).toBeNull();
+      db.prepare('UPDATE game_sessions SET seed = 1234').run();
+
+      runner.rollbackTo(7);
+      expect(columnNames(db, 'game_sessions')).not.toContain('seed');
+      expect(db.prepare('SELECT score FROM game_sessions').all()).toEqual([{ score: 40 }]);
+    });
+
+    it('should let built-in games on the leaderboard once it drops the game_registry key', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(9);
+      db.prepare("INSERT INTO game_registry (id, name, file_path) VALUES ('space-dodge', 'Space Dodge', 'space-dodge.js')").run();
+      db.prepare("INSERT INTO leaderboards (game_id, profile_id, score, meta_data) VALUES ('space-dodge', 1, 90, 'legacy')").run();
+      expect(() => db.prepare("INSERT INTO leaderboards (game_id, profile_id, score) VALUES ('snake', 1, 40)").run()).toThrow(/FOREIGN KEY/);
+
+      runner.migrate(10);
+      db.prepare(`INSERT INTO leaderboards (game_id, profile_id, score, meta_data) VALUES ('snake', 1, 40, '{"difficulty":"hard"}')`).run();
+      expect(db.prepare('SELECT game_id, meta_data FROM leaderboards ORDER BY id').all()).toEqual([
+        { game_id: 'space-dodge', meta_data: '{}' },
+        { game_id: 'snake', meta_data: '{"difficulty":"hard"}' },
+      ]);
+
+      runner.rollbackTo(9);
+      expect(db.prepare('SELECT game_id, score FROM leaderboards').all()).toEqual([{ game_id: 'space-dodge', score: 90 }]);
+    });
+
+    it('should give registered games a free manifest until they declare one', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(10);
+      db.prepare("INSERT INTO game_registry (id, name, file_path) VALUES ('space-dodge', 'Space Dodge', 'space-dodge.js')").run();
+
+      runner.migrate(11);
+      expect(db.prepare('SELECT energy_cost, xp_reward FROM game_registry').get()).toEqual({ energy_cost: 0, xp_reward: 0 });
+
+      runner.rollbackTo(10);
+      expect(columnNames(db, 'game_registry')).not.toContain('energy_cost');
+      expect(db.prepare('SELECT id FROM game_registry').all()).toEqual([{ id: 'space-dodge' }]);
+    });
+
+    it('should delete stored game data together with its profile', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(12);
+      db.prepare("INSERT INTO profiles (id, name) VALUES (2, 'Sam')").run();
+      db.prepare(`INSERT INTO game_storage (profile_id, game_id, key, value) VALUES (1, 'space-dodge', 'best', '90'), (2, 'space-dodge', 'best', '40')`).run();
+
+      db.prepare('DELETE FROM profiles WHERE id = 2').run();
+
+      expect(db.prepare('SELECT profile_id, value FROM game_storage').all()).toEqual([{ profile_id: 1, value: '90' }]);
+    });
+
+    it('should delete design conversations and their turns together with the profile', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(13);
+      db.prepare("INSERT INTO profiles (id, name) VALUES (2, 'Sam')").run();
+      db.prepare(`INSERT INTO elicitation_sessions (id, profile_id, game_idea) VALUES ('s1', 1, 'maze'), ('s2', 2, 'racer')`).run();
+      db.prepare(`INSERT INTO elicitation_turns (session_id, seq, role, content) VALUES ('s1', 0, 'user', 'q'), ('s2', 0, 'user', 'q'), ('s2', 1, 'model', 'a')`).run();
+      expect(() => db.prepare(`INSERT INTO elicitation_turns (session_id, seq, role, content) VALUES ('s1', 1, 'system', 'x')`).run()).toThrow(/CHECK/);
+
+      db.prepare('DELETE FROM profiles WHERE id = 2').run();
+
+      expect(db.prepare('SELECT id, status FROM elicitation_sessions').all()).toEqual([{ id: 's1', status: 'eliciting' }]);
+      expect(db.prepare('SELECT session_id FROM elicitation_turns').all()).toEqual([{ session_id: 's1' }]);
+    });
+
+    it('should put installed games at version 1 and drop their versions with them', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(13);
+      db.prepare("INSERT INTO game_registry (id, name, file_path) VALUES ('space-dodge', 'Space Dodge', 'space-dodge.js')").run();
+
+      runner.migrate(14);
+      expect(db.prepare('SELECT version FROM game_registry').get()).toEqual({ version: 1 });
+      db.prepare(`INSERT INTO game_versions (game_id, version, source, file_path) VALUES ('space-dodge', 1, 'v1', 'space-dodge.js'), ('space-dodge', 2, 'v2', 'space-dodge.v2.js')`).run();
+
+      db.prepare("DELETE FROM game_registry WHERE id = 'space-dodge'").run();
+      expect(db.prepare('SELECT COUNT(*) AS count FROM game_versions').get()).toEqual({ count: 0 });
+
+      runner.rollbackTo(13);
+      expect(columnNames(db, 'game_registry')).not.toContain('version');
+    });
+
+    it('should keep earlier versions without a prompt, model or bundle', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate(14);
+      db.prepare("INSERT INTO game_registry (id, name, file_path) VALUES ('space-dodge', 'Space Dodge', 'space-dodge.js')").run();
+      db.prepare("INSERT INTO game_versions (game_id, version, source, file_path) VALUES ('space-dodge', 1, 'v1', 'space-dodge.js')").run();
+
+      runner.migrate(15);
+      expect(db.prepare('SELECT source, prompt, model, bundle FROM game_versions').get())
+        .toEqual({ source: 'v1', prompt: null, model: null, bundle: null });
+
+      runner.rollbackTo(14);
+      expect(columnNames(db, 'game_versions')).not.toContain('bundle');
+      expect(db.prepare('SELECT source FROM game_versions').get()).toEqual({ source: 'v1' });
+    });
+
+    it('should roll every migration back to an empty database', () => {
+      const runner = new MigrationRunner(db, MIGRATIONS);
+      runner.migrate();
+
+      runner.rollbackTo(0);
+
+      expect(tableNames(db)).toEqual(['schema_version']);
+    });
+  });
+});
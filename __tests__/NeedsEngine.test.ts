@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/DatabaseService.js', () => ({
+  db: {
+    getStatsSync: vi.fn(),
+    getNeedsStateSync: vi.fn(),
+    saveNeedsTick: vi.fn(),
+  },
+}));
+
+import { db } from '../src/services/DatabaseService.js';
+import {
+  NeedsEngine,
+  DEFAULT_NEEDS_CONFIG,
+  decayDelta,
+  getNeedStates,
+  simulateNeeds,
+} from '../src/core/NeedsEngine.js';
+
+const HOUR = 60 * 60 * 1000;
+const noCarry = { hunger: 0, energy: 0, happiness: 0 };
+
+describe('NeedsEngine', () => {
+  describe('decayDelta', () => {
+    it('should drift linearly and stop at the bounds', () => {
+      expect(decayDelta(50, { type: 'linear', perHour: 4 }, 2)).toBe(8);
+      expect(decayDelta(98, { type: 'linear', perHour: 4 }, 2)).toBe(2);
+      expect(decayDelta(3, { type: 'linear', perHour: -4 }, 2)).toBe(-3);
+    });
+
+    it('should cover half the distance to the target every half-life', () => {
+      const curve = { type: 'exponential' as const, halfLifeHours: 6, target: 60 };
+      expect(decayDelta(100, curve, 6)).toBeCloseTo(-20);
+      expect(decayDelta(20, curve, 12)).toBeCloseTo(30);
+    });
+
+    it('should not change anything without elapsed time', () => {
+      expect(decayDelta(50, { type: 'linear', perHour: 4 }, 0)).toBe(0);
+    });
+  });
+
+  describe('getNeedStates', () => {
+    it('should report the most severe state per need', () => {
+      expect(getNeedStates({ hunger: 95, energy: 5, happiness: 10 })).toEqual(['starving', 'exhausted', 'sad']);
+      expect(getNeedStates({ hunger: 75, energy: 20, happiness: 60 })).toEqual(['hungry', 'tired']);
+      expect(getNeedStates({ hunger: 30, energy: 80, happiness: 60 })).toEqual([]);
+    });
+  });
+
+  describe('simulateNeeds', () => {
+    it('should apply decay for the elapsed time', () => {
+      const { needs } = simulateNeeds({ hunger: 50, energy: 100, happiness: 80 }, noCarry, 6 * HOUR);
+
+      expect(needs.hunger).toBe(68);
+      expect(needs.energy).toBe(80);
+      expect(needs.happiness).toBeLessThan(80);
+    });
+
+    it('should carry fractions over instead of losing them', () => {
+      let stats = { hunger: 50, energy: 60, happiness: 20 };
+      let carry = noCarry;
+
+      // 3 points per hour in 5-minute steps: each step alone rounds to 0
+      for (let i = 0; i < 12; i++) {
+        ({ needs: stats, carry } = simulateNeeds(stats, carry, 5 * 60 * 1000));
+      }
+
+      expect(stats.hunger).toBe(53);
+    });
+
+    it('should cap very long absences', () => {
+      const week = simulateNeeds({ hunger: 0, energy: 60, happiness: 20 }, noCarry, 7 * 24 * HOUR);
+      const cap = simulateNeeds({ hunger: 0, energy: 60, happiness: 20 }, noCarry, DEFAULT_NEEDS_CONFIG.maxElapsedHours * HOUR);
+
+      expect(week.needs).toEqual(cap.needs);
+    });
+
+    it('should make a starving Liku lose happiness faster', () => {
+      const fed = simulateNeeds({ hunger: 10, energy: 60, happiness: 80 }, noCarry, 6 * HOUR);
+      const starving = simulateNeeds({ hunger: 95, energy: 60, happiness: 80 }, noCarry, 6 * HOUR);
+
+      expect(starving.needs.happiness).toBeLessThan(fed.needs.happiness);
+    });
+  });
+
+  describe('tick', () => {
+    const stats = { highScore: 0, level: 1, xp: 0, gamesPlayed: 0, hunger: 50, energy: 60, happiness: 20, hangman_wins: 0, hangman_losses: 0 };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(db.getStatsSync).mockReturnValue(stats);
+    });
+
+    it('should apply decay since the stored last tick and save it', () => {
+      vi.mocked(db.getNeedsStateSync).mockReturnValue({ lastTickAt: '2026-01-01 10:00:00.000', carry: noCarry });
+      const now = new Date('2026-01-01T12:00:00.000Z');
+
+      const result = new NeedsEngine().tick(now);
+
+      expect(result.elapsedMs).toBe(2 * HOUR);
+      expect(result.after.hunger).toBe(56);
+      expect(db.saveNeedsTick).toHaveBeenCalledWith(result.after, now, expect.any(Object));
+    });
+
+    it('should skip polls that come too soon', () => {
+      vi.mocked(db.getNeedsStateSync).mockReturnValue({ lastTickAt: '2026-01-01 10:00:00.000', carry: noCarry });
+
+      const result = new NeedsEngine().tick(new Date('2026-01-01T10:00:30.000Z'));
+
+      expect(result.after).toEqual(result.before);
+      expect(db.saveNeedsTick).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ReplayEvent,
+  ReplayPlayer,
+  ReplayRecorder,
+  decodeReplayFile,
+  encodeReplayFile,
+} from '../src/core/Replay.js';
+
+const EVENTS: ReplayEvent[] = [
+  { at: 0, type: 'input', input: '', key: { return: true } },
+  { at: 100, type: 'tick', timer: 'move' },
+  { at: 150, type: 'input', input: '', key: { upArrow: true } },
+  { at: 200, type: 'tick', timer: 'move' },
+];
+
+const collect = (player: ReplayPlayer) => {
+  const seen: string[] = [];
+  player.onInput((input, key) => seen.push(`input:${Object.keys(key).join(',') || input}`));
+  player.onTick('move', () => seen.push('tick:move'));
+  return seen;
+};
+
+describe('ReplayRecorder', () => {
+  it('should keep only the key flags that were set', () => {
+    const recorder = new ReplayRecorder();
+    recorder.input('a', { upArrow: false, return: true, shift: true });
+    recorder.tick('move');
+
+    const events = recorder.take();
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ type: 'input', input: 'a', key: { return: true, shift: true } });
+    expect(events[1]).toMatchObject({ type: 'tick', timer: 'move' });
+    expect(recorder.take()).toEqual([]);
+  });
+});
+
+describe('ReplayPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should dispatch events in order, paced by their offsets', () => {
+    const player = new ReplayPlayer(EVENTS);
+    const seen = collect(player);
+
+    player.play();
+    vi.advanceTimersByTime(1);
+    expect(seen).toEqual(['input:return']);
+
+    vi.advanceTimersByTime(100);
+    expect(seen).toEqual(['input:return', 'tick:move']);
+
+    vi.advanceTimersByTime(200);
+    expect(seen).toEqual(['input:return', 'tick:move', 'input:upArrow', 'tick:move']);
+    expect(player.isFinished()).toBe(true);
+    expect(player.getElapsedMs()).toBe(200);
+  });
+
+  it('should play faster at a higher speed', () => {
+    const player = new ReplayPlayer(EVENTS);
+    const seen = collect(player);
+
+    player.setSpeed(4);
+    player.play();
+    vi.advanceTimersByTime(60);
+
+    expect(seen).toHaveLength(4);
+  });
+
+  it('should step one event at a time while paused', () => {
+    const player = new ReplayPlayer(EVENTS);
+    const seen = collect(player);
+
+    player.play();
+    player.step();
+    vi.advanceTimersByTime(1000);
+
+    expect(player.isPaused()).toBe(true);
+    expect(seen).toEqual(['input:return']);
+
+    player.step();
+    expect(seen).toEqual(['input:return', 'tick:move']);
+    expect(player.getPosition()).toBe(2);
+  });
+
+  it('should clamp speed changes to the supported speeds', () => {
+    const player = new ReplayPlayer(EVENTS);
+    player.pause();
+
+    player.changeSpeed(-1);
+    player.changeSpeed(-1);
+    expect(player.getSpeed()).toBe(0.5);
+
+    for (let i = 0; i < 10; i++) player.changeSpeed(1);
+    expect(player.getSpeed()).toBe(8);
+  });
+});
+
+describe('replay files', () => {
+  const run = {
+    gameId: 'snake',
+    difficulty: 'medium',
+    seed: 1234,
+    score: 90,
+    outcome: 'finished',
+    durationMs: 200,
+    events: EVENTS,
+  };
+
+  it('should round-trip a run', () => {
+    expect(decodeReplayFile(encodeReplayFile(run))).toEqual(run);
+  });
+
+  it('should reject files that are not replays', () => {
+    expect(() => decodeReplayFile('not json')).toThrow(/invalid JSON/);
+    expect(() => decodeReplayFile(JSON.stringify({ ...run, format: 'other' }))).toThrow(/Not a valid replay file/);
+    expect(() => decodeReplayFile(encodeReplayFile({ ...run, seed: -1 }))).toThrow(/seed/);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/DatabaseService.js', () => ({
+  db: {
+    getStats: vi.fn(),
+    updateStats: vi.fn(),
+  },
+}));
+
+import { db, GameOutcome, PlayerStats } from '../src/services/DatabaseService.js';
+import {
+  RewardEngine,
+  DEFAULT_REWARD_RULES,
+  applyLevelUps,
+  communityGameRule,
+  computeRunDeltas,
+  describeReward,
+} from '../src/core/RewardEngine.js';
+
+const stats = (overrides: Partial<PlayerStats> = {}): PlayerStats => ({
+  highScore: 100, level: 1, xp: 0, gamesPlayed: 0, hunger: 50, energy: 60, happiness: 50,
+  hangman_wins: 0, hangman_losses: 0,
+  ...overrides,
+});
+
+describe('RewardEngine', () => {
+  const engine = new RewardEngine();
+  const { games } = DEFAULT_REWARD_RULES;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getStats).mockResolvedValue(stats());
+  });
+
+  describe('computeRunDeltas', () => {
+    it('should pay XP by outcome and charge the run energy', () => {
+      expect(computeRunDeltas(games.tictactoe, { gameId: 'tictactoe', outcome: 'win' }))
+        .toEqual({ xp: 20, happiness: 10, energy: -5, hunger: 0 });
+      expect(computeRunDeltas(games.tictactoe, { gameId: 'tictactoe', outcome: 'loss' }))
+        .toEqual({ xp: 5, happiness: -5, energy: -5, hunger: 0 });
+    });
+
+    it('should add score, pickup and no-hint XP', () => {
+      expect(computeRunDeltas(games.dinorun, { gameId: 'dinorun', outcome: 'finished', score: 257 }).xp).toBe(25);
+      expect(computeRunDeltas(games.snake, { gameId: 'snake', outcome: 'finished', score: 120, pickups: 2 }).xp).toBe(100);
+      expect(computeRunDeltas(games.sudoku, { gameId: 'sudoku', outcome: 'win', hintsUsed: 0 }).xp).toBe(30);
+      expect(computeRunDeltas(games.sudoku, { gameId: 'sudoku', outcome: 'win', hintsUsed: 2 }).xp).toBe(20);
+    });
+  });
+
+  describe('communityGameRule', () => {
+    it('should give half the XP for a draw and none for a loss', () => {
+      const rule = communityGameRule({ energyCost: 5, xpReward: 25 });
+
+      expect(computeRunDeltas(rule, { gameId: 'space-dodge', outcome: 'win' })).toEqual({ xp: 25, happiness: 0, energy: -5, hunger: 0 });
+      expect(computeRunDeltas(rule, { gameId: 'space-dodge', outcome: 'draw' }).xp).toBe(12);
+      expect(computeRunDeltas(rule, { gameId: 'space-dodge', outcome: 'loss' }).xp).toBe(0);
+    });
+  });
+
+  describe('applyLevelUps', () => {
+    it('should turn every full level of XP into a level and keep the rest', () => {
+      expect(applyLevelUps(1, 80, 100)).toEqual({ level: 1, xp: 80, levelsGained: 0 });
+      expect(applyLevelUps(1, 250, 100)).toEqual({ level: 3, xp: 50, levelsGained: 2 });
+    });
+  });
+
+  describe('applyGameResult', () => {
+    it('should update stats once, level up and summarise what changed', async () => {
+      vi.mocked(db.getStats).mockResolvedValue(stats({ xp: 90, happiness: 95 }));
+
+      const summary = await engine.applyGameResult({ gameId: 'snake', outcome: 'finished', score: 250, pickups: 1 });
+
+      expect(db.updateStats).toHaveBeenCalledTimes(1);
+      expect(db.updateStats).toHaveBeenCalledWith({
+        xp: 40, level: 2, energy: 50, happiness: 100, hunger: 55, gamesPlayed: 1, highScore: 250,
+      });
+      expect(summary).toMatchObject({ xp: 50, happiness: 5, energy: -10, hunger: 5, levelsGained: 1, level: 2, levelXp: 40 });
+      expect(describeReward(summary!)).toBe('+50 XP, +5 Happiness, -10 Energy, +5 Hunger, Level 2!');
+    });
+
+    it('should count Hangman wins and losses', async () => {
+      await engine.applyGameResult({ gameId: 'hangman', outcome: 'loss', score: 0 });
+
+      expect(db.updateStats).toHaveBeenCalledWith(expect.objectContaining({ hangman_losses: 1, xp: 0 }));
+    });
+
+    it('should include hints already paid for in the energy spent', async () => {
+      const summary = await engine.applyGameResult({ gameId: 'sudoku', outcome: 'win', hintsUsed: 3 });
+
+      expect(summary?.energySpent).toBe(15);
+    });
+
+    it('should leave games without a rule alone', async () => {
+      expect(await engine.applyGameResult({ gameId: 'space-dodge', outcome: 'win' })).toBeNull();
+      expect(db.updateStats).not.toHaveBeenCalled();
+    });
+
+    it('should grant nothing for an outcome it does not know', async () => {
+      const community = new RewardEngine();
+      community.setCommunityGame('space-dodge', { energyCost: 5, xpReward: 25 });
+
+      for (const outcome of ['constructor', 'toString', '__proto__', { win: true }]) {
+        // What a community game could report if nothing checked it
+        const result = { gameId: 'space-dodge', outcome: outcome as GameOutcome, score: 10 };
+        expect(await community.applyGameResult(result)).toBeNull();
+        expect(computeRunDeltas(games.hangman, { ...result, gameId: 'hangman' })).toMatchObject({ xp: 0, happiness: 0 });
+      }
+      expect(db.updateStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('energy', () => {
+    it('should require the start energy of a game', () => {
+      expect(engine.canStart(stats({ energy: 9 }), 'snake')).toBe(false);
+      expect(engine.canStart(stats({ energy: 5 }), 'sudoku')).toBe(true);
+      expect(engine.canStart(stats({ energy: 0 }), 'space-dodge')).toBe(true);
+    });
+
+    it('should charge community games what their manifest declares', async () => {
+      const community = new RewardEngine();
+      community.setCommunityGame('space-dodge', { energyCost: 15, xpReward: 30 });
+      expect(community.canStart(stats({ energy: 10 }), 'space-dodge')).toBe(false);
+
+      const summary = await community.applyGameResult({ gameId: 'space-dodge', outcome: 'finished', score: 12 });
+
+      expect(summary).toMatchObject({ xp: 30, energy: -15, energySpent: 15 });
+      expect(db.updateStats).toHaveBeenCalledWith(expect.objectContaining({ xp: 30, energy: 45, gamesPlayed: 1 }));
+    });
+
+    it('should refuse a hint Liku cannot afford', async () => {
+      vi.mocked(db.getStats).mockResolvedValue(stats({ energy: 4 }));
+
+      expect(await engine.chargeHint('sudoku')).toBe(false);
+      expect(db.updateStats).not.toHaveBeenCalled();
+    });
+  });
+});
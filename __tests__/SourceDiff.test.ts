@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffHunks, diffStats, formatUnifiedDiff } from '../src/builder/SourceDiff.js';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('SourceDiff', () => {
+  it('should mark kept, removed and added lines with their line numbers', () => {
+    const lines = diffLines('a\nb\nc\n', 'a\nB\nc\nd\n');
+
+    expect(lines).toEqual([
+      { kind: 'context', text: 'a', oldLine: 1, newLine: 1 },
+      { kind: 'remove', text: 'b', oldLine: 2, newLine: null },
+      { kind: 'add', text: 'B', oldLine: null, newLine: 2 },
+      { kind: 'context', text: 'c', oldLine: 3, newLine: 3 },
+      { kind: 'add', text: 'd', oldLine: null, newLine: 4 },
+    ]);
+    expect(diffStats(lines)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('should find no changes between equal sources', () => {
+    expect(diffHunks('same\ntext\n', 'same\ntext\n')).toEqual([]);
+    expect(formatUnifiedDiff('same\n', 'same\n')).toBe('');
+  });
+
+  it('should print unified diffs like diff -u', () => {
+    const before = numbered(20);
+    const after = before
+      .replace('line 3\n', 'line three\n')
+      .replace('line 15\n', '')
+      .replace('line 20\n', 'line 20\nline 21\n');
+
+    expect(formatUnifiedDiff(before, after)).toBe([
+      '--- before',
+      '+++ after',
+      '@@ -1,6 +1,6 @@',
+      ' line 1',
+      ' line 2',
+      '-line 3',
+      '+line three',
+      ' line 4',
+      ' line 5',
+      ' line 6',
+      '@@ -12,9 +12,9 @@',
+      ' line 12',
+      ' line 13',
+      ' line 14',
+      '-line 15',
+      ' line 16',
+      ' line 17',
+      ' line 18',
+      ' line 19',
+      ' line 20',
+      '+line 21',
+      '',
+    ].join('\n'));
+  });
+
+  it('should merge changes whose context overlaps into one hunk', () => {
+    const before = numbered(12);
+    const after = before.replace('line 4\n', 'four\n').replace('line 9\n', 'nine\n');
+
+    const hunks = diffHunks(before, after);
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 12, newStart: 1, newLines: 12 });
+  });
+
+  it('should start a side with no lines at the line before the hunk', () => {
+    expect(formatUnifiedDiff('', 'x\n')).toContain('@@ -0,0 +1,1 @@');
+    expect(formatUnifiedDiff('x\n', '')).toContain('@@ -1,1 +0,0 @@');
+  });
+});
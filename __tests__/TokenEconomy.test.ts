@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../src/services/DatabaseService.js', () => ({
+  db: {
+    getTokenBalanceSync: vi.fn(),
+    getTokenTransactionCountSync: vi.fn(),
+    getProTokensSync: vi.fn(),
+    recordTokenTransaction: vi.fn((transaction) => ({ id: 1, profileId: 1, ...transaction })),
+    recordTokenReset: vi.fn(),
+  },
+}));
+
+import { db } from '../src/services/DatabaseService.js';
+import { TokenEconomy, DEFAULT_TOKEN_RULES, getPeriodStart, isResetDue } from '../src/core/TokenEconomy.js';
+
+describe('TokenEconomy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('reset periods', () => {
+    // Wednesday afternoon, local time
+    const now = new Date(2026, 9, 21, 15, 30);
+
+    it('should start days at local midnight and weeks on Monday', () => {
+      expect(getPeriodStart('daily', now)).toEqual(new Date(2026, 9, 21));
+      expect(getPeriodStart('weekly', now)).toEqual(new Date(2026, 9, 19));
+      expect(getPeriodStart('never', now)).toBeNull();
+    });
+
+    it('should be due once the last reset is before the current period', () => {
+      const toUtc = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+      expect(isResetDue(toUtc(new Date(2026, 9, 20, 23, 0)), 'daily', now)).toBe(true);
+      expect(isResetDue(toUtc(new Date(2026, 9, 21, 0, 5)), 'daily', now)).toBe(false);
+      expect(isResetDue(toUtc(new Date(2026, 9, 19, 9, 0)), 'weekly', now)).toBe(false);
+      expect(isResetDue(null, 'daily', now)).toBe(true);
+      expect(isResetDue(null, 'never', now)).toBe(false);
+    });
+  });
+
+  describe('applyPeriodicReset', () => {
+    it('should grant the allowance to a profile without transactions', () => {
+      vi.mocked(db.getTokenTransactionCountSync).mockReturnValue(0);
+
+      new TokenEconomy().applyPeriodicReset();
+
+      expect(db.recordTokenTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        amount: DEFAULT_TOKEN_RULES.allowance,
+        reason: 'opening_balance',
+      }));
+    });
+
+    it('should top up to the allowance when a reset is due', () => {
+      vi.mocked(db.getTokenTransactionCountSync).mockReturnValue(3);
+      vi.mocked(db.getProTokensSync).mockReturnValue({ profileId: 1, balance: 9200, lastReset: '2020-01-01 00:00:00' });
+
+      new TokenEconomy().applyPeriodicReset();
+
+      expect(db.recordTokenReset).toHaveBeenCalledWith(800, expect.any(String), expect.any(Date));
+    });
+
+    it('should keep savings above the allowance in top-up mode but not in set mode', () => {
+      vi.mocked(db.getTokenTransactionCountSync).mockReturnValue(3);
+      vi.mocked(db.getProTokensSync).mockReturnValue({ profileId: 1, balance: 10500, lastReset: '2020-01-01 00:00:00' });
+
+      new TokenEconomy().applyPeriodicReset();
+      new TokenEconomy({ ...DEFAULT_TOKEN_RULES, reset: { period: 'weekly', mode: 'set' } }).applyPeriodicReset();
+
+      expect(vi.mocked(db.recordTokenReset).mock.calls.map(call => call[0])).toEqual([0, -500]);
+    });
+  });
+
+  describe('spending', () => {
+    it('should refuse to spend more than the balance', () => {
+      vi.mocked(db.getTokenBalanceSync).mockReturnValue(40);
+
+      expect(() => new TokenEconomy().spend(100, 'builder_generation', 'Snake clone')).toThrow(/need 100, have 40/);
+      expect(db.recordTokenTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should charge feeding only up to the remaining balance', () => {
+      vi.mocked(db.getTokenBalanceSync).mockReturnValue(20);
+
+      const transaction = new TokenEconomy().chargeFeeding();
+
+      expect(transaction?.amount).toBe(-20);
+    });
+
+    it('should price generations from prompt and response tokens', () => {
+      const economy = new TokenEconomy();
+
+      expect(economy.priceGeneration({ promptTokens: 10000, responseTokens: 8000 })).toBe(840);
+      expect(economy.priceGeneration({ promptTokens: 50, responseTokens: 10 })).toBe(DEFAULT_TOKEN_RULES.spend.generation.minimum);
+      expect(economy.priceGeneration({ promptTokens: 0, responseTokens: 0 })).toBe(0);
+    });
+
+    it('should charge the actual generation usage even past the balance', () => {
+      vi.mocked(db.getTokenBalanceSync).mockReturnValue(100);
+
+      const transaction = new TokenEconomy().chargeGeneration({ promptTokens: 10000, responseTokens: 8000 }, 'Space shooter');
+
+      expect(transaction).toMatchObject({ amount: -840, reason: 'builder_generation' });
+    });
+
+    it('should pay game rewards by outcome', () => {
+      const economy = new TokenEconomy();
+
+      expect(economy.rewardGame('snake', 'win')?.amount).toBe(DEFAULT_TOKEN_RULES.earn.gameOutcome.win);
+      expect(economy.rewardGame('snake', 'abandoned')).toBeNull();
+    });
+  });
+});
@@ -1,13 +1,15 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import { z } from 'zod';
+import { ChatMessage, createProviderFromEnv, LLMProvider, LLMResponse, ProviderChat, TokenUsage, estimateTokens } from './providers/index.js';
+import { validateGameCode, formatDiagnostic, CodeDiagnostic, GameCodeValidation } from './GameCodeAnalyzer.js';
 
 // Zod schemas for type-safe validation
 export const GameMetadataSchema = z.object({
   id: z.string().optional(),
   name: z.string().optional(),
   description: z.string().optional(),
-  energyCost: z.number().optional(),
-  xpReward: z.number().optional(),
+  // Charged and granted by the hub per reported round (core/RewardEngine)
+  energyCost: z.number().int().min(0).max(100).optional(),
+  xpReward: z.number().int().min(0).max(100).optional(),
   difficultyLevels: z.boolean().optional(),
 });
 
@@ -19,6 +21,25 @@ export const GameOutputSchema = z.object({
 export type GameOutput = z.infer<typeof GameOutputSchema>;
 export type GameMetadata = z.infer<typeof GameMetadataSchema>;
 
+export interface GameManifestRewards {
+  energyCost: number;
+  xpReward: number;
+}
+
+/**
+ * Validate a game's exported GameManifest. Games without one cost no
+ * energy and earn no XP; an invalid one throws with the offending fields.
+ */
+export const parseGameManifest = (manifest: unknown): GameManifestRewards => {
+  if (manifest === undefined) return { energyCost: 0, xpReward: 0 };
+  const parsed = GameMetadataSchema.safeParse(manifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'GameManifest'}: ${issue.message}`);
+    throw new Error(`Invalid GameManifest - ${issues.join('; ')}`);
+  }
+  return { energyCost: parsed.data.energyCost ?? 0, xpReward: parsed.data.xpReward ?? 0 };
+};
+
 // SDK Contract that teaches Gemini how to write LikuBuddy games
 const LIKU_SDK_CONTEXT = `
 You are the LikuGame Engine Builder. Generate React+Ink terminal games for LikuBuddy.
@@ -26,7 +47,12 @@ You are the LikuGame Engine Builder. Generate React+Ink terminal games for LikuB
 === ENVIRONMENT ===
 - Runtime: Node.js 20+, TypeScript strict, React 18 + Ink 5
 - Output: Terminal/TTY (monospace font, 16 ANSI colors, keyboard-only)
-- Imports ALLOWED: react, ink ONLY. No filesystem, no internal paths.
+- Imports ALLOWED: react, ink, liku-sdk ONLY. No filesystem, no internal paths.
+- Games run in a sandbox: no process, fetch, eval or new Function; a game that
+  blocks for 2+ seconds or uses 128+ MB of memory is stopped.
+- Code is statically analyzed before install: unknown imports, process/
+  globalThis/window access, uncleared timers or a missing escape → onExit
+  handler are rejected.
 
 === REQUIRED STRUCTURE ===
 \`\`\`typescript
@@ -36,9 +62,10 @@ import { Box, Text, useInput } from 'ink';
 interface GameProps {
   onExit: () => void;
   difficulty?: 'easy' | 'medium' | 'hard';
+  onReport?: (result: { outcome?: 'win' | 'loss' | 'draw' | 'finished'; score?: number }) => void;
 }
 
-const GameName: React.FC<GameProps> = ({ onExit, difficulty = 'medium' }) => {
+const GameName: React.FC<GameProps> = ({ onExit, difficulty = 'medium', onReport }) => {
   useInput((input, key) => {
     if (key.escape) { onExit(); return; }  // MANDATORY
     // Game controls...
@@ -101,6 +128,24 @@ useInput((input, key) => {
 - Immutable: setBoard(prev => prev.map(...))
 - Timer cleanup: useEffect(() => { const t = setInterval(...); return () => clearInterval(t); }, []);
 
+=== LIKU SDK (import from 'liku-sdk') ===
+Prefer these over hand-written timers, storage or state logging:
+- useGameLoop(tickMs, (tick) => { ... }, running?)  // interval with fresh state
+- useSeededRandom() → { seed, random, newRun }      // random.next(), random.int(n), random.pick(items), random.chance(p)
+- useHighScore() → { highScore, submit(score) }      // submit returns true on a new best
+- useGameStorage(key, initialValue) → [value, setValue, loaded]  // kept per player
+- useStateLogger(status, visualState, controls?)    // screen text for the AI helper
+- useTheme() → { border, title, accent, success, danger, muted }  // Ink color names
+- reportResult({ outcome?, score? })                 // same as onReport
+- <Grid cells={string[][]} cellWidth={3} colorOf={(cell, x, y) => color} cursor={{ x, y }} />
+- <ScoreBar score={score} highScore={highScore} lives={lives} level={level} />
+- <GameOverPanel outcome="win" score={score} highScore={highScore} newHighScore={isNew} />
+
+=== REPORTING RESULTS ===
+Call onReport?.({ score }) when the score changes and
+onReport?.({ outcome: 'win' | 'loss' | 'draw' | 'finished', score }) when a round ends.
+Reported results count toward the player's history and achievements.
+
 === DIFFICULTY SCALING ===
 \`\`\`typescript
 const config = { easy: {speed:300}, medium: {speed:150}, hard: {speed:75} }[difficulty];
@@ -113,149 +158,274 @@ export const GameManifest = {
   energyCost: 10, xpReward: 20
 };
 \`\`\`
+energyCost and xpReward are whole numbers from 0 to 100. The hub charges the
+energy for each play and grants the XP unless the reported outcome is a loss
+(half for a draw); games never touch stats themselves.
 
 === OUTPUT FORMAT ===
 Respond with ONLY TypeScript code in a single \`\`\`typescript code block.
 No explanations. No multiple blocks. Complete, working code.
 `;
 
+export type { TokenUsage } from './providers/index.js';
+
+export type GenerationKind = 'questions' | 'followup' | 'generate' | 'quick';
+
+// Expected model output per call, used to estimate cost before calling
+const EXPECTED_RESPONSE_TOKENS = {
+  questions: 400,
+  code: 4000,
+} as const;
+
+// Instructions wrapped around the code in the self-critique pass
+const CRITIQUE_INSTRUCTION_TOKENS = 200;
+
+// Diagnostics listed in a repair prompt; fixing these usually fixes the rest
+const MAX_REPAIR_DIAGNOSTICS = 20;
+
+/**
+ * A design conversation. `history` is every question and answer after the
+ * SDK briefing, so it can be stored and picked up again later.
+ */
 export interface ElicitationSession {
   sessionId: string;
-  history: Array<{ role: 'user' | 'model'; content: string }>;
+  history: ChatMessage[];
   gameIdea: string;
+  // The model has no more questions
+  ready: boolean;
 }
 
-// Supported Gemini models with fallback chain
-const GEMINI_MODELS = [
-  'gemini-2.0-flash',           // Latest 2025 model
-  'gemini-1.5-pro',             // Fallback
-  'gemini-1.5-flash',           // Fast fallback
-] as const;
+// First line of a follow-up reply when the design is complete
+const READY_MARKER = /^\s*READY\b[:.!\s-]*/i;
 
-export class ElicitationAgent {
-  private genAI?: GoogleGenerativeAI;
-  private model?: GenerativeModel;
-  private modelName: string = '';
-
-  constructor(apiKey?: string) {
-    const key = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_AI_API_KEY;
-    if (key) {
-      this.genAI = new GoogleGenerativeAI(key);
-      // Use env override or default to latest model
-      const preferredModel = process.env.GEMINI_MODEL || GEMINI_MODELS[0];
-      this.modelName = preferredModel;
-      this.model = this.genAI.getGenerativeModel({ 
-        model: preferredModel,
-        generationConfig: {
-          temperature: 0.2, // Low for code determinism
-          topP: 0.95,
-          maxOutputTokens: 8192,
-        },
-      });
+// Wording around the player's answers in a follow-up prompt
+const ANSWERS_HEADER = 'My answers:\n';
+const FOLLOW_UP_INSTRUCTIONS = `
+
+If anything important about the game is still unclear, ask up to 3 short follow-up questions. Number them.
+If you have enough to build it, reply with READY on the first line, then a short summary of the game we designed.`;
+
+export interface TranscriptEntry {
+  speaker: 'player' | 'liku';
+  text: string;
+}
+
+/**
+ * What was said in a session, without the prompt wording around it
+ */
+export const elicitationTranscript = (session: ElicitationSession): TranscriptEntry[] =>
+  session.history.map((turn, index): TranscriptEntry => {
+    if (turn.role === 'model') {
+      return { speaker: 'liku', text: turn.content.replace(READY_MARKER, '').trim() };
     }
+    if (index === 0) {
+      return { speaker: 'player', text: session.gameIdea };
+    }
+    const { content } = turn;
+    const answers = content.startsWith(ANSWERS_HEADER) && content.endsWith(FOLLOW_UP_INSTRUCTIONS)
+      ? content.slice(ANSWERS_HEADER.length, content.length - FOLLOW_UP_INSTRUCTIONS.length)
+      : content;
+    return { speaker: 'player', text: answers };
+  });
+
+const DESIGN_ACKNOWLEDGEMENT = 'I understand. I will help design and generate LikuBuddy games following the SDK contract.';
+
+const NOT_CONFIGURED = 'Gemini API key is not configured. Set GEMINI_API_KEY, or LIKU_LLM_PROVIDER for another model provider.';
+
+export class ElicitationAgent {
+  private provider: LLMProvider | null;
+  private lastUsage: TokenUsage = { promptTokens: 0, responseTokens: 0 };
+
+  /**
+   * Uses the given provider, or the one configured in the environment
+   * (builder/providers); a string is a Gemini API key.
+   */
+  constructor(apiKeyOrProvider?: string | LLMProvider) {
+    this.provider = typeof apiKeyOrProvider === 'object'
+      ? apiKeyOrProvider
+      : createProviderFromEnv(process.env, apiKeyOrProvider);
   }
 
   /**
    * Get the current model name being used
    */
   getModelName(): string {
-    return this.modelName;
+    return this.provider?.model ?? '';
   }
 
   /**
    * Check if the agent is properly configured
    */
   isConfigured(): boolean {
-    return !!this.model;
+    return this.provider !== null;
+  }
+
+  /**
+   * Model tokens used by the most recent public call, including calls that
+   * failed part-way, so they can still be billed
+   */
+  getLastUsage(): TokenUsage {
+    return { ...this.lastUsage };
+  }
+
+  /**
+   * Estimate the model tokens a call will use before making it.
+   * Code generation runs twice (draft + self-critique), and the critique
+   * pass sees the draft again as input. Follow-ups and generation from a
+   * session resend its `history`; `answers` are the follow-up's answers.
+   */
+  async estimateUsage(kind: GenerationKind, gameIdea: string, history: ChatMessage[] = [], answers: string = ''): Promise<TokenUsage> {
+    const contextTokens = await this.countTokens(LIKU_SDK_CONTEXT);
+    const historyTokens = history.length > 0
+      ? await this.countTokens(history.map(entry => entry.content).join('\n'))
+      : 0;
+
+    if (kind === 'questions' || kind === 'followup') {
+      const prompt = kind === 'questions'
+        ? this.buildQuestionsPrompt(gameIdea)
+        : this.buildFollowUpPrompt(answers);
+      return {
+        promptTokens: contextTokens + historyTokens + await this.countTokens(prompt),
+        responseTokens: EXPECTED_RESPONSE_TOKENS.questions,
+      };
+    }
+
+    const prompt = kind === 'quick'
+      ? this.buildQuickPrompt(gameIdea)
+      : this.buildGeneratePrompt(gameIdea);
+    const firstPass = contextTokens + historyTokens + await this.countTokens(prompt);
+    const draft = EXPECTED_RESPONSE_TOKENS.code;
+
+    return {
+      promptTokens: firstPass + (firstPass + draft + CRITIQUE_INSTRUCTION_TOKENS + draft),
+      responseTokens: 2 * draft,
+    };
+  }
+
+  /**
+   * Estimate a repair round: the code and its diagnostics go in, a fixed
+   * version of the same size comes back
+   */
+  async estimateRepairUsage(code: string, diagnostics: CodeDiagnostic[]): Promise<TokenUsage> {
+    const prompt = LIKU_SDK_CONTEXT + this.buildRepairPrompt(code, diagnostics);
+    return {
+      promptTokens: await this.countTokens(prompt),
+      responseTokens: await this.countTokens(code),
+    };
+  }
+
+  /**
+   * Estimate a change to an installed game: its source and the request go
+   * in, a changed version of about the same size comes back
+   */
+  async estimateRefineUsage(code: string, change: string): Promise<TokenUsage> {
+    const prompt = LIKU_SDK_CONTEXT + this.buildRefinePrompt(code, change);
+    return {
+      promptTokens: await this.countTokens(prompt),
+      responseTokens: await this.countTokens(code),
+    };
+  }
+
+  private async countTokens(text: string): Promise<number> {
+    if (this.provider) {
+      try {
+        return await this.provider.countTokens(text);
+      } catch {
+        // Fall back to the heuristic below when offline
+      }
+    }
+    return estimateTokens(text);
+  }
+
+  private resetUsage(): void {
+    this.lastUsage = { promptTokens: 0, responseTokens: 0 };
+  }
+
+  private recordUsage(prompt: string, response: LLMResponse): void {
+    this.lastUsage.promptTokens += response.usage?.promptTokens ?? estimateTokens(prompt);
+    this.lastUsage.responseTokens += response.usage?.responseTokens ?? estimateTokens(response.text);
   }
 
   /**
    * Start an elicitation session to gather game requirements
    */
-  async startElicitationSession(userIdea: string): Promise<{ questions: string; sessionId: string }> {
-    if (!this.model) {
-      throw new Error('Gemini API key is not configured.');
+  async startElicitationSession(userIdea: string): Promise<{ questions: string; sessionId: string; session: ElicitationSession }> {
+    if (!this.provider) {
+      throw new Error(NOT_CONFIGURED);
     }
 
-    const sessionId = `session_${Date.now()}`;
-    
-    const chat = this.model.startChat({
-      history: [
-        {
-          role: 'user',
-          parts: [{ text: LIKU_SDK_CONTEXT }]
-        },
-        {
-          role: 'model',
-          parts: [{ text: 'I understand. I will help design and generate LikuBuddy games following the SDK contract.' }]
-        }
-      ]
-    });
-
-    const prompt = `The user wants to create this game: "${userIdea}". 
-    
-Ask 3-5 clarifying questions about:
-1. Core game mechanics (how does the player interact?)
-2. Win/lose conditions (what defines success?)
-3. Difficulty progression (how does it get harder?)
-4. Scoring system (how are points earned?)
-5. Visual style (what should it look like in ASCII?)
+    this.resetUsage();
+    const sessionId = `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const chat = this.openDesignChat(this.provider, []);
 
-Keep questions concise and specific. Number them.`;
+    const prompt = this.buildQuestionsPrompt(userIdea);
 
-    const result = await chat.sendMessage(prompt);
-    const questions = result.response.text();
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
+    const questions = result.text;
 
-    return { questions, sessionId };
+    const session: ElicitationSession = {
+      sessionId,
+      gameIdea: userIdea,
+      history: [{ role: 'user', content: prompt }, { role: 'model', content: questions }],
+      ready: false,
+    };
+    return { questions, sessionId, session };
   }
 
   /**
-   * Process user answers and generate the game code with self-critique
+   * Answer the latest questions of a session. The model either asks
+   * follow-up questions or replies READY with a summary of the design.
    */
-  async generateGameFromAnswers(
-    gameIdea: string,
+  async continueElicitation(
+    session: ElicitationSession,
     answers: string
-  ): Promise<{ code: string; gameId: string; name: string; description: string }> {
-    if (!this.model) {
-      throw new Error('Gemini API key is not configured.');
+  ): Promise<{ reply: string; ready: boolean; session: ElicitationSession }> {
+    if (!this.provider) {
+      throw new Error(NOT_CONFIGURED);
     }
 
-    const chat = this.model.startChat({
-      history: [
-        {
-          role: 'user',
-          parts: [{ text: LIKU_SDK_CONTEXT }]
-        },
-        {
-          role: 'model',
-          parts: [{ text: 'I understand. I will help design and generate LikuBuddy games following the SDK contract.' }]
-        }
-      ]
-    });
-
-    const prompt = `Generate a complete, working LikuBuddy game based on:
-    
-GAME IDEA: ${gameIdea}
-USER REQUIREMENTS: ${answers}
+    this.resetUsage();
+    const chat = this.openDesignChat(this.provider, session.history);
 
-Think step-by-step before coding:
-1. First, identify the core game loop
-2. Plan the state variables needed
-3. Design the input handling
-4. Plan the ASCII visual representation
+    const prompt = this.buildFollowUpPrompt(answers);
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
 
-Generate the complete TypeScript code including:
-- All necessary imports
-- Proper TypeScript interfaces and types
-- Game logic and state management
-- Input handling with useInput
-- ASCII rendering with Ink components
-- GameManifest export with appropriate energyCost and xpReward
+    const ready = READY_MARKER.test(result.text);
+    const reply = ready ? result.text.replace(READY_MARKER, '').trim() : result.text;
 
-Respond with ONLY the TypeScript code wrapped in a code block. No explanations.`;
+    return {
+      reply,
+      ready,
+      session: {
+        ...session,
+        history: [...session.history, { role: 'user', content: prompt }, { role: 'model', content: result.text }],
+        ready,
+      },
+    };
+  }
+
+  /**
+   * Generate the game designed in a session, with self-critique. The model
+   * sees the whole conversation, so every answer counts.
+   */
+  async generateGameFromSession(
+    session: ElicitationSession
+  ): Promise<{ code: string; gameId: string; name: string; description: string }> {
+    if (!this.provider) {
+      throw new Error(NOT_CONFIGURED);
+    }
 
-    const result = await chat.sendMessage(prompt);
-    let responseText = result.response.text();
+    const { gameIdea } = session;
+    this.resetUsage();
+    const chat = this.openDesignChat(this.provider, session.history);
+
+    const prompt = this.buildGeneratePrompt(gameIdea);
+
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
+    let responseText = result.text;
 
     // Self-critique: Best practice for improved code quality
     const critiquePrompt = `Review the generated code for:
@@ -263,7 +433,7 @@ Respond with ONLY the TypeScript code wrapped in a code block. No explanations.`
 2. TypeScript type errors
 3. Ink component best practices
 4. Game playability issues
-5. REMOVE any imports from internal paths like '../../core/' or '../../services/' - games must be self-contained
+5. REMOVE any imports from internal paths like '../../core/' or '../../services/' - use 'liku-sdk' instead
 
 If issues found, output corrected code. Otherwise, output the same code.
 Respond with ONLY the TypeScript code wrapped in a code block.
@@ -271,12 +441,11 @@ Respond with ONLY the TypeScript code wrapped in a code block.
 Original code:
 ${responseText}`;
 
-    const critiqueResult = await chat.sendMessage(critiquePrompt);
-    responseText = critiqueResult.response.text();
+    const critiqueResult = await chat.send(critiquePrompt);
+    this.recordUsage(critiquePrompt, critiqueResult);
+    responseText = critiqueResult.text;
 
-    // Extract code from markdown code blocks
-    const codeBlockMatch = responseText.match(/```(?:typescript|tsx?)?\n([\s\S]*?)```/);
-    const code = codeBlockMatch ? codeBlockMatch[1] : responseText;
+    const code = this.extractCode(responseText);
 
     // Extract game metadata from the code
     const gameId = this.extractGameId(code, gameIdea);
@@ -298,39 +467,21 @@ ${responseText}`;
     }
 
     // If not a built-in game and AI is not configured, throw error
-    if (!this.model) {
-      throw new Error('Gemini API key is not configured. Cannot generate this game.');
+    if (!this.provider) {
+      throw new Error(`${NOT_CONFIGURED} Cannot generate this game.`);
     }
-    
-    const chat = this.model.startChat({
-      history: [
-        {
-          role: 'user',
-          parts: [{ text: LIKU_SDK_CONTEXT }]
-        },
-        {
-          role: 'model',
-          parts: [{ text: 'I understand. I will generate LikuBuddy games following the SDK contract. I will only import from react and ink, no internal paths.' }]
-        }
-      ]
-    });
-
-    const prompt = `Generate a complete, working LikuBuddy game for: "${gameIdea}"
-
-Think step-by-step before coding:
-1. Identify the core mechanics and game loop
-2. Plan necessary state variables
-3. Design input handling (arrows, keys, escape)
-4. Plan ASCII visual output
 
-Make reasonable assumptions about mechanics, difficulty, and scoring.
-Generate complete TypeScript code with proper types, input handling, and ASCII rendering.
-Include GameManifest export.
+    this.resetUsage();
+    const chat = new ProviderChat(this.provider, [
+      { role: 'user', content: LIKU_SDK_CONTEXT },
+      { role: 'model', content: 'I understand. I will generate LikuBuddy games following the SDK contract. I will only import from react, ink and liku-sdk, no internal paths.' },
+    ]);
 
-Respond with ONLY the TypeScript code wrapped in a code block.`;
+    const prompt = this.buildQuickPrompt(gameIdea);
 
-    const result = await chat.sendMessage(prompt);
-    let responseText = result.response.text();
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
+    let responseText = result.text;
 
     // Self-critique pass for code quality
     const critiquePrompt = `Critique this code for Ink 5.x/SDK compliance and playability. 
@@ -338,20 +489,19 @@ Check for:
 - Proper useInput with escape → onExit
 - TypeScript strict mode compatibility
 - Proper Box/Text component usage
-- REMOVE any imports from '../../core/' or '../../services/' paths - games must be self-contained
-- Only allow imports from 'react' and 'ink'
+- REMOVE any imports from '../../core/' or '../../services/' paths - use 'liku-sdk' instead
+- Only allow imports from 'react', 'ink' and 'liku-sdk'
 
 If issues found, output corrected code. Otherwise, output the same code.
 Respond with ONLY the TypeScript code wrapped in a code block.
 
 ${responseText}`;
 
-    const critiqueResult = await chat.sendMessage(critiquePrompt);
-    responseText = critiqueResult.response.text();
+    const critiqueResult = await chat.send(critiquePrompt);
+    this.recordUsage(critiquePrompt, critiqueResult);
+    responseText = critiqueResult.text;
 
-    // Extract code from markdown code blocks
-    const codeBlockMatch = responseText.match(/```(?:typescript|tsx?)?\n([\s\S]*?)```/);
-    const code = codeBlockMatch ? codeBlockMatch[1] : responseText;
+    const code = this.extractCode(responseText);
 
     const gameId = this.extractGameId(code, gameIdea);
     const name = this.extractGameName(code, gameIdea);
@@ -361,40 +511,164 @@ ${responseText}`;
   }
 
   /**
-   * Validate generated game code structure
+   * Ask for a fixed version of generated code, given the compile errors and
+   * static analysis findings it failed with (builder/GameBuildPipeline)
    */
-  validateGameCode(code: string): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // Check for required imports
-    if (!code.includes("from 'ink'") && !code.includes('from "ink"')) {
-      errors.push('Missing Ink library import');
+  async repairGameCode(code: string, diagnostics: CodeDiagnostic[]): Promise<string> {
+    if (!this.provider) {
+      throw new Error(NOT_CONFIGURED);
     }
 
-    // Check for useInput handler
-    if (!code.includes('useInput')) {
-      errors.push('Missing useInput hook for keyboard handling');
-    }
+    this.resetUsage();
+    const chat = new ProviderChat(this.provider, [
+      { role: 'user', content: LIKU_SDK_CONTEXT },
+      { role: 'model', content: 'I understand. I will fix LikuBuddy games so they compile and follow the SDK contract.' },
+    ]);
 
-    // Check for onExit prop usage
-    if (!code.includes('onExit')) {
-      errors.push('Missing onExit prop or handler');
-    }
+    const prompt = this.buildRepairPrompt(code, diagnostics);
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
 
-    // Check for escape key handling
-    if (!code.includes('key.escape') && !code.includes("key.escape")) {
-      errors.push('Missing escape key handler for exit');
-    }
+    return this.extractCode(result.text);
+  }
 
-    // Check for default export
-    if (!code.includes('export default')) {
-      errors.push('Missing default export');
+  /**
+   * Change an installed game as the player asks, keeping the rest of it
+   * as it is. The result goes through the same checks as a new game.
+   */
+  async refineGame(code: string, change: string): Promise<string> {
+    if (!this.provider) {
+      throw new Error(NOT_CONFIGURED);
     }
 
-    return {
-      valid: errors.length === 0,
-      errors
-    };
+    this.resetUsage();
+    const chat = new ProviderChat(this.provider, [
+      { role: 'user', content: LIKU_SDK_CONTEXT },
+      { role: 'model', content: 'I understand. I will change LikuBuddy games as asked and keep them following the SDK contract.' },
+    ]);
+
+    const prompt = this.buildRefinePrompt(code, change);
+    const result = await chat.send(prompt);
+    this.recordUsage(prompt, result);
+
+    return this.extractCode(result.text);
+  }
+
+  /**
+   * Validate generated game code structure
+   */
+  validateGameCode(code: string): GameCodeValidation {
+    return validateGameCode(code);
+  }
+
+  private buildQuestionsPrompt(userIdea: string): string {
+    return `The user wants to create this game: "${userIdea}". 
+    
+Ask 3-5 clarifying questions about:
+1. Core game mechanics (how does the player interact?)
+2. Win/lose conditions (what defines success?)
+3. Difficulty progression (how does it get harder?)
+4. Scoring system (how are points earned?)
+5. Visual style (what should it look like in ASCII?)
+
+Keep questions concise and specific. Number them.`;
+  }
+
+  private buildFollowUpPrompt(answers: string): string {
+    return `${ANSWERS_HEADER}${answers}${FOLLOW_UP_INSTRUCTIONS}`;
+  }
+
+  private buildGeneratePrompt(gameIdea: string): string {
+    return `Generate a complete, working LikuBuddy game based on the design in this conversation:
+
+GAME IDEA: ${gameIdea}
+Follow every answer above; where something was left open, make a reasonable choice.
+
+Think step-by-step before coding:
+1. First, identify the core game loop
+2. Plan the state variables needed
+3. Design the input handling
+4. Plan the ASCII visual representation
+
+Generate the complete TypeScript code including:
+- All necessary imports
+- Proper TypeScript interfaces and types
+- Game logic and state management
+- Input handling with useInput
+- ASCII rendering with Ink components
+- GameManifest export with appropriate energyCost and xpReward
+
+Respond with ONLY the TypeScript code wrapped in a code block. No explanations.`;
+  }
+
+  private buildQuickPrompt(gameIdea: string): string {
+    return `Generate a complete, working LikuBuddy game for: "${gameIdea}"
+
+Think step-by-step before coding:
+1. Identify the core mechanics and game loop
+2. Plan necessary state variables
+3. Design input handling (arrows, keys, escape)
+4. Plan ASCII visual output
+
+Make reasonable assumptions about mechanics, difficulty, and scoring.
+Generate complete TypeScript code with proper types, input handling, and ASCII rendering.
+Include GameManifest export.
+
+Respond with ONLY the TypeScript code wrapped in a code block.`;
+  }
+
+  private buildRefinePrompt(code: string, change: string): string {
+    return `This is an installed LikuBuddy game. The player wants this change:
+"${change}"
+
+Change only what the request needs; everything else must keep working as before.
+Keep the GameManifest export and its id.
+
+Respond with ONLY the complete updated TypeScript code wrapped in a code block.
+
+CODE:
+\`\`\`typescript
+${code}
+\`\`\``;
+  }
+
+  private buildRepairPrompt(code: string, diagnostics: CodeDiagnostic[]): string {
+    // Line numbers refer to the code exactly as sent
+    const problems = diagnostics.slice(0, MAX_REPAIR_DIAGNOSTICS).map(formatDiagnostic).join('\n');
+    const more = diagnostics.length > MAX_REPAIR_DIAGNOSTICS
+      ? `\n...and ${diagnostics.length - MAX_REPAIR_DIAGNOSTICS} more`
+      : '';
+
+    return `This LikuBuddy game does not pass its checks (TypeScript strict type check and static analysis).
+
+PROBLEMS (line:column severity message):
+${problems}${more}
+
+Fix every problem without changing how the game plays. Keep the GameManifest export.
+
+Respond with ONLY the complete corrected TypeScript code wrapped in a code block.
+
+CODE:
+\`\`\`typescript
+${code}
+\`\`\``;
+  }
+
+  /**
+   * A chat briefed on the SDK contract, continuing a design conversation
+   */
+  private openDesignChat(provider: LLMProvider, history: ChatMessage[]): ProviderChat {
+    return new ProviderChat(provider, [
+      { role: 'user', content: LIKU_SDK_CONTEXT },
+      { role: 'model', content: DESIGN_ACKNOWLEDGEMENT },
+      ...history,
+    ]);
+  }
+
+  private extractCode(responseText: string): string {
+    // Extract code from markdown code blocks
+    const codeBlockMatch = responseText.match(/```(?:typescript|tsx?)?\n([\s\S]*?)```/);
+    return codeBlockMatch ? codeBlockMatch[1] : responseText;
   }
 
   private extractGameId(code: string, fallback: string): string {
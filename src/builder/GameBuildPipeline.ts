@@ -0,0 +1,101 @@
+import { analyzeGameCode, CodeDiagnostic } from './GameCodeAnalyzer.js';
+import { typeCheckGameCode } from './GameTypeChecker.js';
+
+/**
+ * GameBuildPipeline - Verify generated code and have the model repair it
+ *
+ * Each attempt is type-checked (builder/GameTypeChecker) and run through
+ * the static gate (builder/GameCodeAnalyzer). Errors go back to the model
+ * for another try, up to a number of repair rounds; only code that passes
+ * both is handed on to be installed.
+ */
+
+export const DEFAULT_REPAIR_ROUNDS = 3;
+
+// ============================================================
+// Results
+// ============================================================
+
+export interface BuildAttempt {
+  // 0 is the code as generated, then one per repair round
+  round: number;
+  diagnostics: CodeDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+  passed: boolean;
+  durationMs: number;
+}
+
+export interface GameBuildResult {
+  success: boolean;
+  // The last attempt's code
+  code: string;
+  attempts: BuildAttempt[];
+  diagnostics: CodeDiagnostic[];
+  // Why repairing stopped early, when it did
+  error?: string;
+}
+
+export interface GameBuildOptions {
+  // Asks the model for a fixed version of the code
+  repair: (code: string, diagnostics: CodeDiagnostic[], round: number) => Promise<string>;
+  maxRepairRounds?: number;
+  // Called after each attempt is verified, and before each repair
+  onAttempt?: (attempt: BuildAttempt, attempts: BuildAttempt[]) => void;
+  onRepair?: (round: number) => void;
+}
+
+// ============================================================
+// Pipeline
+// ============================================================
+
+/**
+ * Static gate plus type check. Code that does not parse is not
+ * type-checked, its syntax errors already say what is wrong.
+ */
+export const verifyGameCode = (code: string): { passed: boolean; diagnostics: CodeDiagnostic[] } => {
+  const analysis = analyzeGameCode(code);
+  const parses = !analysis.diagnostics.some(d => d.rule === 'syntax');
+  const diagnostics = [...analysis.diagnostics, ...(parses ? typeCheckGameCode(code) : [])]
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+  return { passed: !diagnostics.some(d => d.severity === 'error'), diagnostics };
+};
+
+export const buildVerifyRepair = async (code: string, options: GameBuildOptions): Promise<GameBuildResult> => {
+  const maxRounds = options.maxRepairRounds ?? DEFAULT_REPAIR_ROUNDS;
+  const attempts: BuildAttempt[] = [];
+
+  for (let round = 0; ; round++) {
+    // Checking blocks for a moment; let the builder draw its progress first
+    await new Promise(resolve => setImmediate(resolve));
+    const started = Date.now();
+    const { passed, diagnostics } = verifyGameCode(code);
+    const attempt: BuildAttempt = {
+      round,
+      diagnostics,
+      errorCount: diagnostics.filter(d => d.severity === 'error').length,
+      warningCount: diagnostics.filter(d => d.severity === 'warning').length,
+      passed,
+      durationMs: Date.now() - started,
+    };
+    attempts.push(attempt);
+    options.onAttempt?.(attempt, attempts);
+
+    if (passed || round >= maxRounds) {
+      return { success: passed, code, attempts, diagnostics };
+    }
+
+    options.onRepair?.(round + 1);
+    try {
+      code = await options.repair(code, diagnostics.filter(d => d.severity === 'error'), round + 1);
+    } catch (error) {
+      return {
+        success: false,
+        code,
+        attempts,
+        diagnostics,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+};
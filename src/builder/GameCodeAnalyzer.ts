@@ -0,0 +1,545 @@
+import ts from 'typescript';
+import { checkGameImport } from '../core/GameImports.js';
+
+/**
+ * GameCodeAnalyzer - Static checks on generated game code
+ *
+ * Parses the TSX with the TypeScript compiler API and walks the syntax
+ * tree, so comments, strings and formatting cannot fool it. Every finding
+ * is a diagnostic with a line and column that BuilderUI can show; errors
+ * keep a game from being installed (core/GameLoader), warnings do not.
+ */
+
+// ============================================================
+// Results
+// ============================================================
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticRule =
+  | 'syntax'
+  | 'import'
+  | 'ink-import'
+  | 'default-export'
+  | 'use-input'
+  | 'escape-exit'
+  | 'timer-cleanup'
+  | 'global-access'
+  // Reported by builder/GameTypeChecker
+  | 'type';
+
+export interface CodeDiagnostic {
+  rule: DiagnosticRule;
+  severity: DiagnosticSeverity;
+  message: string;
+  // 1-based
+  line: number;
+  column: number;
+}
+
+export interface GameImport {
+  specifier: string;
+  line: number;
+}
+
+export interface GameCodeAnalysis {
+  valid: boolean;
+  imports: GameImport[];
+  diagnostics: CodeDiagnostic[];
+}
+
+/**
+ * "12:5 error Missing default export" style line for lists and logs
+ */
+export const formatDiagnostic = (diagnostic: CodeDiagnostic): string =>
+  `${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.message}`;
+
+// Identifiers games must not reach for; the sandbox blocks most of them
+// at run time too (core/GameSandboxWorker)
+const FORBIDDEN_GLOBALS = new Set([
+  'process', 'globalThis', 'global', 'window', 'self', 'require', 'module', 'exports',
+  '__dirname', '__filename', 'eval', 'Function', 'fetch', 'XMLHttpRequest', 'WebSocket',
+  'Buffer', 'Deno', 'Bun',
+]);
+
+const TIMER_CLEANUP: Record<string, string> = {
+  setInterval: 'clearInterval',
+  setTimeout: 'clearTimeout',
+};
+
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect']);
+
+// How deep escape handling may go through local helpers to reach onExit
+const MAX_HELPER_DEPTH = 3;
+
+// ============================================================
+// Tree helpers
+// ============================================================
+
+type FunctionLike = ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration;
+
+const isFunctionLike = (node: ts.Node): node is FunctionLike =>
+  ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node);
+
+const calleeName = (call: ts.CallExpression): string | null => {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return null;
+};
+
+const someDescendant = (node: ts.Node, predicate: (child: ts.Node) => boolean): boolean => {
+  let found = false;
+  const visit = (child: ts.Node) => {
+    if (found) return;
+    if (predicate(child)) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return found;
+};
+
+const isWithin = (node: ts.Node, container: ts.Node): boolean =>
+  node.getStart() >= container.getStart() && node.getEnd() <= container.getEnd();
+
+const inTypePosition = (node: ts.Node): boolean => {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isTypeNode(current) || ts.isInterfaceDeclaration(current) || ts.isTypeAliasDeclaration(current)) return true;
+    if (ts.isStatement(current)) return false;
+  }
+  return false;
+};
+
+// Whether an identifier reads a variable, rather than naming a property,
+// a JSX attribute, an import or a type
+const isValueReference = (node: ts.Identifier): boolean => {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent)
+    || ts.isPropertySignature(parent) || ts.isEnumMember(parent) || ts.isBindingElement(parent)) && parent.name === node) return false;
+  if (ts.isJsxAttribute(parent) || ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent)) return false;
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) return false;
+  return !inTypePosition(node);
+};
+
+// require('x') is reported as an import rather than as a global
+const isRequireCall = (node: ts.Identifier): boolean =>
+  node.text === 'require' && ts.isCallExpression(node.parent) && node.parent.expression === node;
+
+// ============================================================
+// Scopes
+// ============================================================
+
+// Names a binding introduces: `x`, or every name in `{ a, b: [c] }`
+const bindingNames = (name: ts.BindingName): string[] =>
+  ts.isIdentifier(name)
+    ? [name.text]
+    : name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : bindingNames(element.name));
+
+const isBlockScoped = (list: ts.VariableDeclarationList): boolean =>
+  (list.flags & ts.NodeFlags.BlockScoped) !== 0;
+
+const declarationListNames = (list: ts.VariableDeclarationList): string[] =>
+  list.declarations.flatMap(declaration => bindingNames(declaration.name));
+
+// A `var` belongs to the function (or module) it is written in, at any depth
+const varNames = (scope: ts.Node): string[] => {
+  const names: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) return;
+    if (ts.isVariableDeclarationList(node) && !isBlockScoped(node)) names.push(...declarationListNames(node));
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(scope, visit);
+  return names;
+};
+
+const statementNames = (statement: ts.Statement): string[] => {
+  if (ts.isVariableStatement(statement) && isBlockScoped(statement.declarationList)) {
+    return declarationListNames(statement.declarationList);
+  }
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) && statement.name) {
+    return [statement.name.text];
+  }
+  if (ts.isImportDeclaration(statement) && statement.importClause) {
+    const { name, namedBindings } = statement.importClause;
+    const names = name ? [name.text] : [];
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) names.push(namedBindings.name.text);
+    if (namedBindings && ts.isNamedImports(namedBindings)) names.push(...namedBindings.elements.map(element => element.name.text));
+    return names;
+  }
+  return [];
+};
+
+// Names a node declares for the code inside it
+const scopeNames = (scope: ts.Node): string[] => {
+  if (ts.isSourceFile(scope)) return [...scope.statements.flatMap(statementNames), ...varNames(scope)];
+  if (ts.isBlock(scope)) return scope.statements.flatMap(statementNames);
+  if (ts.isCaseBlock(scope)) return scope.clauses.flatMap(clause => clause.statements.flatMap(statementNames));
+  if (ts.isFunctionLike(scope)) {
+    const names = scope.parameters.flatMap(parameter => bindingNames(parameter.name));
+    if (ts.isFunctionExpression(scope) && scope.name) names.push(scope.name.text);
+    return [...names, ...varNames(scope)];
+  }
+  if (ts.isClassExpression(scope) && scope.name) return [scope.name.text];
+  if (ts.isCatchClause(scope) && scope.variableDeclaration) return bindingNames(scope.variableDeclaration.name);
+  if ((ts.isForStatement(scope) || ts.isForInStatement(scope) || ts.isForOfStatement(scope))
+    && scope.initializer && ts.isVariableDeclarationList(scope.initializer)) {
+    return declarationListNames(scope.initializer);
+  }
+  return [];
+};
+
+// Whether an identifier names a binding of the game's own rather than a
+// global: one declared in a scope around it, not just anywhere in the file
+const isLocalName = (node: ts.Identifier): boolean => {
+  for (let scope = node.parent; scope; scope = scope.parent) {
+    if (scopeNames(scope).includes(node.text)) return true;
+  }
+  return false;
+};
+
+// ============================================================
+// Analyzer
+// ============================================================
+
+class GameCodeChecker {
+  private diagnostics: CodeDiagnostic[] = [];
+  private imports: GameImport[] = [];
+  // Top-level and nested named functions, for following helpers
+  private functions = new Map<string, ts.Node>();
+
+  constructor(private code: string, private sourceFile: ts.SourceFile) {}
+
+  run(): GameCodeAnalysis {
+    this.checkSyntax();
+    this.collectFunctions(this.sourceFile);
+    this.checkImports();
+    this.checkDefaultExport();
+    this.checkInput();
+    this.checkTimers();
+    this.checkGlobals();
+
+    this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    return {
+      valid: !this.diagnostics.some(d => d.severity === 'error'),
+      imports: this.imports,
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  private report(rule: DiagnosticRule, severity: DiagnosticSeverity, message: string, position: ts.Node | number): void {
+    const start = typeof position === 'number' ? position : position.getStart(this.sourceFile);
+    const { line, character } = this.sourceFile.getLineAndCharacterOfPosition(start);
+    this.diagnostics.push({ rule, severity, message, line: line + 1, column: character + 1 });
+  }
+
+  private lineOf(node: ts.Node): number {
+    return this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile)).line + 1;
+  }
+
+  private checkSyntax(): void {
+    const { diagnostics = [] } = ts.transpileModule(this.code, {
+      fileName: this.sourceFile.fileName,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.ReactJSX, target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+    });
+    for (const diagnostic of diagnostics) {
+      this.report('syntax', 'error', ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'), diagnostic.start ?? 0);
+    }
+  }
+
+  private collectFunctions(root: ts.Node): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+        this.functions.set(node.name.text, node.initializer);
+      } else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+        this.functions.set(node.name.text, node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(root);
+  }
+
+  // ------------------------------------------------------------
+  // Imports
+  // ------------------------------------------------------------
+
+  private checkImports(): void {
+    const visit = (node: ts.Node) => {
+      let specifier: ts.Expression | undefined;
+      if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+        specifier = node.moduleSpecifier;
+        if (ts.isImportDeclaration(node) && node.importClause?.isTypeOnly) specifier = undefined;
+      } else if (ts.isCallExpression(node) && (node.expression.kind === ts.SyntaxKind.ImportKeyword
+        || (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+        specifier = node.arguments[0];
+        if (!specifier || !ts.isStringLiteralLike(specifier)) {
+          this.report('import', 'error', 'Modules cannot be loaded from a computed name', node);
+          specifier = undefined;
+        }
+      }
+
+      if (specifier && ts.isStringLiteralLike(specifier)) {
+        this.imports.push({ specifier: specifier.text, line: this.lineOf(specifier) });
+        const error = checkGameImport(specifier.text);
+        if (error) this.report('import', 'error', error, specifier);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+
+    if (!this.imports.some(entry => entry.specifier === 'ink')) {
+      this.report('ink-import', 'error', 'Missing Ink library import', 0);
+    }
+  }
+
+  // ------------------------------------------------------------
+  // Default export
+  // ------------------------------------------------------------
+
+  private checkDefaultExport(): void {
+    let exported: ts.Node | null = null;
+    let anchor: ts.Node | null = null;
+
+    for (const statement of this.sourceFile.statements) {
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        exported = statement.expression;
+        anchor = statement;
+      } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement))
+        && statement.modifiers?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword)) {
+        exported = statement;
+        anchor = statement;
+      } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        const element = statement.exportClause.elements.find(e => e.name.text === 'default');
+        if (element) {
+          exported = element.propertyName ?? element.name;
+          anchor = statement;
+        }
+      }
+    }
+
+    if (!exported || !anchor) {
+      this.report('default-export', 'error', 'Missing default export', this.sourceFile.getEnd());
+      return;
+    }
+    if (!this.isComponent(exported, 0)) {
+      this.report('default-export', 'error', 'The default export must be a React component that renders the game', anchor);
+    }
+  }
+
+  private isComponent(node: ts.Node, depth: number): boolean {
+    if (depth > MAX_HELPER_DEPTH) return false;
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return this.isComponent(node.expression, depth);
+    if (ts.isIdentifier(node)) {
+      const declaration = this.functions.get(node.text);
+      return declaration ? this.isComponent(declaration, depth + 1) : false;
+    }
+    if (isFunctionLike(node)) {
+      return someDescendant(node, child => ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)
+        || ts.isJsxFragment(child) || (ts.isCallExpression(child) && calleeName(child) === 'createElement'));
+    }
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+      return !!node.heritageClauses?.some(clause => clause.types.some(type => /Component$/.test(type.expression.getText(this.sourceFile))));
+    }
+    // memo(Game), React.memo(Game), forwardRef(...)
+    if (ts.isCallExpression(node) && ['memo', 'forwardRef'].includes(calleeName(node) ?? '')) {
+      return node.arguments.length > 0 && this.isComponent(node.arguments[0], depth);
+    }
+    return false;
+  }
+
+  // ------------------------------------------------------------
+  // Input and exit
+  // ------------------------------------------------------------
+
+  private checkInput(): void {
+    const calls: ts.CallExpression[] = [];
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && calleeName(node) === 'useInput') calls.push(node);
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+
+    if (calls.length === 0) {
+      this.report('use-input', 'error', 'Missing useInput hook for keyboard handling', 0);
+      return;
+    }
+
+    const handlesEscape = calls.some(call => {
+      const handler = call.arguments[0] && this.resolveFunction(call.arguments[0]);
+      return handler ? this.escapeCallsExit(handler) : false;
+    });
+    if (!handlesEscape) {
+      this.report('escape-exit', 'error', 'Missing escape key handler for exit', calls[0]);
+    }
+  }
+
+  private resolveFunction(node: ts.Node): ts.Node | null {
+    if (isFunctionLike(node)) return node;
+    if (ts.isIdentifier(node)) {
+      const declaration = this.functions.get(node.text);
+      if (declaration && isFunctionLike(declaration)) return declaration;
+      // useCallback((input, key) => ...)
+      if (declaration && ts.isCallExpression(declaration) && calleeName(declaration) === 'useCallback' && declaration.arguments[0]) {
+        return this.resolveFunction(declaration.arguments[0]);
+      }
+    }
+    return null;
+  }
+
+  // Some `key.escape` check in the handler guards a call that reaches onExit
+  private escapeCallsExit(handler: ts.Node): boolean {
+    const checks: ts.PropertyAccessExpression[] = [];
+    const visit = (node: ts.Node) => {
+      if (ts.isPropertyAccessExpression(node) && node.name.text === 'escape') checks.push(node);
+      ts.forEachChild(node, visit);
+    };
+    visit(handler);
+
+    return checks.some(check => {
+      for (let current: ts.Node = check; current !== handler && current.parent; current = current.parent) {
+        const parent = current.parent;
+        if (ts.isIfStatement(parent) && parent.expression === current) {
+          return this.callsExit(parent.thenStatement, 0);
+        }
+        if (ts.isConditionalExpression(parent) && parent.condition === current) {
+          return this.callsExit(parent.whenTrue, 0);
+        }
+        if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken && parent.left === current) {
+          return this.callsExit(parent.right, 0);
+        }
+        if (isFunctionLike(parent)) return false;
+      }
+      return false;
+    });
+  }
+
+  private callsExit(node: ts.Node, depth: number): boolean {
+    const isExitCall = (child: ts.Node): boolean => {
+      if (!ts.isCallExpression(child)) return false;
+      const name = calleeName(child);
+      if (name === 'onExit') return true;
+      if (name && depth < MAX_HELPER_DEPTH && ts.isIdentifier(child.expression)) {
+        const helper = this.resolveFunction(child.expression);
+        return helper !== null && this.callsExit(helper, depth + 1);
+      }
+      return false;
+    };
+    return isExitCall(node) || someDescendant(node, isExitCall);
+  }
+
+  // ------------------------------------------------------------
+  // Timers
+  // ------------------------------------------------------------
+
+  private checkTimers(): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && TIMER_CLEANUP[node.expression.text]) {
+        this.checkTimer(node, node.expression.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+  }
+
+  private checkTimer(timer: ts.CallExpression, kind: string): void {
+    const clear = TIMER_CLEANUP[kind];
+    const effect = this.enclosingEffect(timer);
+
+    if (effect) {
+      // The effect has to hand React a cleanup that clears the timer
+      const cleans = this.effectCleanups(effect).some(cleanup => this.callsFunction(cleanup, clear));
+      if (!cleans) {
+        this.report('timer-cleanup', 'error', `${kind} in an effect needs a cleanup that calls ${clear}`, timer);
+      }
+      return;
+    }
+
+    // Outside effects the handle has to be kept and cleared somewhere
+    const parent = timer.parent;
+    const stored = (ts.isVariableDeclaration(parent) && parent.initializer === timer)
+      || (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken && parent.right === timer);
+    if (!stored || !this.callsFunction(this.sourceFile, clear)) {
+      this.report('timer-cleanup', kind === 'setInterval' ? 'error' : 'warning', `${kind} is never cleared with ${clear}`, timer);
+    }
+  }
+
+  private enclosingEffect(node: ts.Node): FunctionLike | null {
+    for (let current = node.parent; current; current = current.parent) {
+      if (isFunctionLike(current) && ts.isCallExpression(current.parent)
+        && EFFECT_HOOKS.has(calleeName(current.parent) ?? '') && current.parent.arguments[0] === current) {
+        return current;
+      }
+    }
+    return null;
+  }
+
+  // Functions an effect returns, directly or from its own return statements
+  private effectCleanups(effect: FunctionLike): ts.Node[] {
+    const body = effect.body;
+    if (!body) return [];
+    if (!ts.isBlock(body)) return [body];
+
+    const cleanups: ts.Node[] = [];
+    const visit = (node: ts.Node) => {
+      if (isFunctionLike(node) && node !== effect) return;
+      if (ts.isReturnStatement(node) && node.expression) {
+        const returned = ts.isIdentifier(node.expression) ? this.resolveFunction(node.expression) : node.expression;
+        if (returned) cleanups.push(returned);
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(body, visit);
+    return cleanups;
+  }
+
+  private callsFunction(node: ts.Node, name: string): boolean {
+    return someDescendant(node, child => ts.isCallExpression(child) && calleeName(child) === name);
+  }
+
+  // ------------------------------------------------------------
+  // Globals
+  // ------------------------------------------------------------
+
+  private checkGlobals(): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && FORBIDDEN_GLOBALS.has(node.text) && !isRequireCall(node)
+        && isValueReference(node) && !isLocalName(node)) {
+        this.report('global-access', 'error', `'${node.text}' is not available to community games`, node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(this.sourceFile);
+  }
+}
+
+/**
+ * Analyze a generated game's TSX source
+ */
+export const analyzeGameCode = (code: string, fileName: string = 'game.tsx'): GameCodeAnalysis => {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.ES2022, true, ts.ScriptKind.TSX);
+  return new GameCodeChecker(code, sourceFile).run();
+};
+
+export interface GameCodeValidation {
+  valid: boolean;
+  // Messages of the error diagnostics
+  errors: string[];
+  diagnostics: CodeDiagnostic[];
+}
+
+/**
+ * Analyze and summarize for callers that gate on the result
+ */
+export const validateGameCode = (code: string): GameCodeValidation => {
+  const { valid, diagnostics } = analyzeGameCode(code);
+  return {
+    valid,
+    errors: diagnostics.filter(d => d.severity === 'error').map(d => d.message),
+    diagnostics,
+  };
+};
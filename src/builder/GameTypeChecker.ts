@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import type { CodeDiagnostic } from './GameCodeAnalyzer.js';
+
+/**
+ * GameTypeChecker - Type-checks generated game code in memory
+ *
+ * esbuild strips types without checking them, so a game with a wrong prop
+ * or a misspelled hook installs fine and crashes on its first render. This
+ * checks the TSX against the React, Ink and liku-sdk typings the game will
+ * run with, without writing it to disk.
+ *
+ * Those typings must be installed wherever `liku` is, which is why
+ * typescript and @types/react are dependencies rather than devDependencies.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// The same from src/builder and dist/builder
+const PROJECT_ROOT = path.join(__dirname, '..', '..');
+// Never written; resolving imports from the project root finds node_modules
+const GAME_FILE = path.join(PROJECT_ROOT, '__liku_game__.tsx');
+const SDK_SOURCE = path.join(PROJECT_ROOT, 'src', 'sdk', 'index.ts');
+// Installs without the sources still check everything but liku-sdk calls
+const SDK_FALLBACK = path.join(PROJECT_ROOT, '__liku_sdk__.d.ts');
+const SDK_FALLBACK_TEXT = "declare module 'liku-sdk';\n";
+
+// How games are bundled (core/GameLoader), checked the way the prompt
+// promises: TypeScript strict
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noEmit: true,
+  types: [],
+};
+
+// Kept between checks so repair rounds reuse the parsed typings
+let previousProgram: ts.Program | undefined;
+
+const createHost = (code: string, options: ts.CompilerOptions): ts.CompilerHost => {
+  const host = ts.createCompilerHost(options, true);
+  const virtualFiles = new Map([[GAME_FILE, code], [SDK_FALLBACK, SDK_FALLBACK_TEXT]]);
+
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const text = virtualFiles.get(path.resolve(fileName));
+    if (text !== undefined) {
+      return ts.createSourceFile(fileName, text, languageVersion, true, ts.ScriptKind.TSX);
+    }
+    // Library files do not change between checks
+    const previous = previousProgram?.getSourceFile(fileName);
+    return previous ?? getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+  };
+  const fileExists = host.fileExists;
+  host.fileExists = (fileName) => virtualFiles.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+  const readFile = host.readFile;
+  host.readFile = (fileName) => virtualFiles.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+  return host;
+};
+
+/**
+ * Type errors in a game's source, with the game's own line numbers
+ */
+export const typeCheckGameCode = (code: string): CodeDiagnostic[] => {
+  const hasSdkSource = fs.existsSync(SDK_SOURCE);
+  const options: ts.CompilerOptions = hasSdkSource
+    ? { ...COMPILER_OPTIONS, baseUrl: PROJECT_ROOT, paths: { 'liku-sdk': [SDK_SOURCE] } }
+    : COMPILER_OPTIONS;
+  const rootNames = hasSdkSource ? [GAME_FILE] : [GAME_FILE, SDK_FALLBACK];
+
+  const program = ts.createProgram({ rootNames, options, host: createHost(code, options) });
+  previousProgram = program;
+
+  const sourceFile = program.getSourceFile(GAME_FILE)!;
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ];
+
+  return diagnostics.map(diagnostic => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    return {
+      rule: 'type' as const,
+      severity: 'error' as const,
+      message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')}`,
+      line: line + 1,
+      column: character + 1,
+    };
+  });
+};
@@ -0,0 +1,166 @@
+/**
+ * SourceDiff - Line diffs between two versions of a game's source, shown
+ * before a change to an installed game is applied
+ */
+
+export type DiffLineKind = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  // 1-based; null on the side the line is missing from
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  // A trailing newline ends the last line rather than starting another
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+/**
+ * Every line of both texts, in order, marked as kept, added or removed
+ * (longest common subsequence; removals before additions)
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Lines shared at the start and end need no table
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const n = a.length - head - tail;
+  const m = b.length - head - tail;
+  // lcs[i * (m + 1) + j]: common lines of a[head + i..] and b[head + j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[head + i] === b[head + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  const keep = (ai: number, bi: number) =>
+    result.push({ kind: 'context', text: a[ai], oldLine: ai + 1, newLine: bi + 1 });
+
+  for (let k = 0; k < head; k++) keep(k, k);
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[head + i] === b[head + j]) {
+      keep(head + i, head + j);
+      i++;
+      j++;
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      result.push({ kind: 'remove', text: a[head + i], oldLine: head + i + 1, newLine: null });
+      i++;
+    } else {
+      result.push({ kind: 'add', text: b[head + j], oldLine: null, newLine: head + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < tail; k++) keep(a.length - tail + k, b.length - tail + k);
+  return result;
+};
+
+/**
+ * Changed lines grouped with `context` unchanged lines around them
+ */
+export const diffHunks = (before: string, after: string, context: number = 3): DiffHunk[] => {
+  const lines = diffLines(before, after);
+  const hunks: DiffHunk[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const change = lines.findIndex((line, at) => at >= index && line.kind !== 'context');
+    if (change === -1) break;
+
+    const start = Math.max(index, change - context);
+    // Extend while the next change is close enough to share context
+    let end = change;
+    for (let at = change; at < lines.length; at++) {
+      if (lines[at].kind !== 'context') {
+        end = at;
+      } else if (at - end > 2 * context) {
+        break;
+      }
+    }
+    const stop = Math.min(lines.length, end + context + 1);
+    const hunkLines = lines.slice(start, stop);
+
+    const firstOld = hunkLines.find(line => line.oldLine !== null)?.oldLine;
+    const firstNew = hunkLines.find(line => line.newLine !== null)?.newLine;
+    const oldLines = hunkLines.filter(line => line.kind !== 'add').length;
+    const newLines = hunkLines.filter(line => line.kind !== 'remove').length;
+    hunks.push({
+      // Unified diff convention: a side with no lines starts at the line before
+      oldStart: firstOld ?? precedingLine(lines, start, 'oldLine'),
+      oldLines,
+      newStart: firstNew ?? precedingLine(lines, start, 'newLine'),
+      newLines,
+      lines: hunkLines,
+    });
+    index = stop;
+  }
+  return hunks;
+};
+
+const precedingLine = (lines: DiffLine[], before: number, side: 'oldLine' | 'newLine'): number => {
+  for (let at = before - 1; at >= 0; at--) {
+    const line = lines[at][side];
+    if (line !== null) return line;
+  }
+  return 0;
+};
+
+export const diffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.kind === 'add').length,
+  removed: lines.filter(line => line.kind === 'remove').length,
+});
+
+export const formatHunkHeader = (hunk: DiffHunk): string =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+/**
+ * The diff in unified format, as `diff -u` or git print it
+ */
+export const formatUnifiedDiff = (
+  before: string,
+  after: string,
+  labels: { from: string; to: string } = { from: 'before', to: 'after' },
+  context: number = 3
+): string => {
+  const hunks = diffHunks(before, after, context);
+  if (hunks.length === 0) return '';
+
+  const marks: Record<DiffLineKind, string> = { context: ' ', add: '+', remove: '-' };
+  const out = [`--- ${labels.from}`, `+++ ${labels.to}`];
+  for (const hunk of hunks) {
+    out.push(formatHunkHeader(hunk));
+    out.push(...hunk.lines.map(line => marks[line.kind] + line.text));
+  }
+  return out.join('\n') + '\n';
+};
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { ChatMessage, estimateTokens, LLMProvider, LLMResponse, TokenUsage } from './LLMProvider.js';
+
+/**
+ * FixtureProvider - Canned model answers, for offline tests and CI
+ *
+ * Answers are looked up by a hash of the whole conversation (`key`), or by
+ * a piece of the last message (`match`, for hand-written fixtures). Given
+ * an upstream provider it records instead: unknown prompts go upstream
+ * and the answers are added to the fixtures, and saved to `recordTo`, so
+ * a real session can be replayed later without a network.
+ */
+
+export interface LLMFixture {
+  // fixtureKey() of the conversation
+  key?: string;
+  // Used when no key matches: the last message contains this
+  match?: string;
+  text: string;
+  usage?: TokenUsage;
+  // Start of the prompt, to find recorded fixtures by eye
+  prompt?: string;
+}
+
+export interface LLMFixtureFile {
+  version: 1;
+  fixtures: LLMFixture[];
+}
+
+export interface FixtureProviderOptions {
+  model?: string;
+  // Record unknown prompts from here
+  upstream?: LLMProvider;
+  // File recorded fixtures are saved to
+  recordTo?: string;
+}
+
+export const fixtureKey = (history: ChatMessage[], message: string): string =>
+  createHash('sha256').update(JSON.stringify([history, message])).digest('hex').slice(0, 16);
+
+const preview = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, 120);
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  private fixtures: LLMFixture[];
+
+  constructor(fixtures: LLMFixture[], private options: FixtureProviderOptions = {}) {
+    this.fixtures = [...fixtures];
+  }
+
+  /**
+   * Fixtures from a file; a missing file is fine when recording
+   */
+  static fromFile(filePath: string, options: FixtureProviderOptions = {}): FixtureProvider {
+    if (!fs.existsSync(filePath) && options.upstream) {
+      return new FixtureProvider([], options);
+    }
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LLMFixtureFile;
+    if (file.version !== 1 || !Array.isArray(file.fixtures)) {
+      throw new Error(`${filePath} is not an LLM fixture file`);
+    }
+    return new FixtureProvider(file.fixtures, options);
+  }
+
+  get model(): string {
+    return this.options.upstream?.model ?? this.options.model ?? 'fixture';
+  }
+
+  getFixtures(): LLMFixture[] {
+    return [...this.fixtures];
+  }
+
+  async chat(history: ChatMessage[], message: string): Promise<LLMResponse> {
+    const key = fixtureKey(history, message);
+    const fixture = this.fixtures.find(entry => entry.key === key)
+      ?? this.fixtures.find(entry => entry.match !== undefined && message.includes(entry.match));
+    if (fixture) {
+      return {
+        text: fixture.text,
+        model: this.model,
+        usage: fixture.usage ?? { promptTokens: estimateTokens(message), responseTokens: estimateTokens(fixture.text) },
+      };
+    }
+
+    const { upstream, recordTo } = this.options;
+    if (!upstream) {
+      throw new Error(`No fixture for this prompt (key ${key}): "${preview(message)}"`);
+    }
+    const response = await upstream.chat(history, message);
+    this.fixtures.push({ key, text: response.text, usage: response.usage, prompt: preview(message) });
+    if (recordTo) {
+      const file: LLMFixtureFile = { version: 1, fixtures: this.fixtures };
+      await fs.promises.writeFile(recordTo, JSON.stringify(file, null, 2), 'utf-8');
+    }
+    return response;
+  }
+
+  generate(prompt: string): Promise<LLMResponse> {
+    return this.chat([], prompt);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
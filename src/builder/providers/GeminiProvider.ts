@@ -0,0 +1,62 @@
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { ChatMessage, FallbackProvider, LLMProvider, LLMResponse } from './LLMProvider.js';
+
+/**
+ * GeminiProvider - Google's Gemini models through @google/generative-ai
+ */
+
+// Supported Gemini models, best first; the fallback chain
+export const GEMINI_MODELS = [
+  'gemini-2.0-flash',           // Latest 2025 model
+  'gemini-1.5-pro',             // Fallback
+  'gemini-1.5-flash',           // Fast fallback
+] as const;
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private generativeModel: GenerativeModel;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model,
+      generationConfig: {
+        temperature: 0.2, // Low for code determinism
+        topP: 0.95,
+        maxOutputTokens: 8192,
+      },
+    });
+  }
+
+  async chat(history: ChatMessage[], message: string): Promise<LLMResponse> {
+    const chat = this.generativeModel.startChat({
+      history: history.map(entry => ({ role: entry.role, parts: [{ text: entry.content }] })),
+    });
+    const { response } = await chat.sendMessage(message);
+    const metadata = response.usageMetadata;
+    return {
+      text: response.text(),
+      model: this.model,
+      usage: metadata && {
+        promptTokens: metadata.promptTokenCount,
+        responseTokens: metadata.candidatesTokenCount,
+      },
+    };
+  }
+
+  generate(prompt: string): Promise<LLMResponse> {
+    return this.chat([], prompt);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const { totalTokens } = await this.generativeModel.countTokens(text);
+    return totalTokens;
+  }
+}
+
+/**
+ * The preferred model first, then the rest of GEMINI_MODELS
+ */
+export const createGeminiProvider = (apiKey: string, preferredModel: string = GEMINI_MODELS[0]): LLMProvider => {
+  const models = [preferredModel, ...GEMINI_MODELS.filter(model => model !== preferredModel)];
+  return new FallbackProvider(models.map(model => new GeminiProvider(apiKey, model)));
+};
@@ -0,0 +1,114 @@
+/**
+ * LLMProvider - What the game builder needs from a language model
+ *
+ * Providers are stateless: every call gets the whole conversation, so a
+ * conversation can move to another model half-way (FallbackProvider).
+ */
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Model that answered
+  model: string;
+  // When the provider reports it; callers estimate otherwise
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  // 'gemini', 'openai' or 'fixture'
+  readonly name: string;
+  // Model the next call goes to
+  readonly model: string;
+  chat(history: ChatMessage[], message: string): Promise<LLMResponse>;
+  generate(prompt: string): Promise<LLMResponse>;
+  countTokens(text: string): Promise<number>;
+}
+
+// ~4 characters per token for English text and code
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// ============================================================
+// Conversations
+// ============================================================
+
+/**
+ * A conversation with a provider: keeps the history between messages
+ */
+export class ProviderChat {
+  private history: ChatMessage[];
+
+  constructor(private provider: LLMProvider, history: ChatMessage[] = []) {
+    this.history = [...history];
+  }
+
+  async send(message: string): Promise<LLMResponse> {
+    const response = await this.provider.chat([...this.history], message);
+    this.history.push({ role: 'user', content: message }, { role: 'model', content: response.text });
+    return response;
+  }
+}
+
+// ============================================================
+// Fallback
+// ============================================================
+
+/**
+ * Tries each provider in turn until one answers, starting from the last
+ * one that did. Usually one provider per model, best first.
+ */
+export class FallbackProvider implements LLMProvider {
+  private current = 0;
+
+  constructor(private providers: LLMProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+  }
+
+  get name(): string {
+    return this.providers[this.current].name;
+  }
+
+  get model(): string {
+    return this.providers[this.current].model;
+  }
+
+  chat(history: ChatMessage[], message: string): Promise<LLMResponse> {
+    return this.attempt(provider => provider.chat(history, message));
+  }
+
+  generate(prompt: string): Promise<LLMResponse> {
+    return this.attempt(provider => provider.generate(prompt));
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.providers[this.current].countTokens(text);
+  }
+
+  private async attempt(call: (provider: LLMProvider) => Promise<LLMResponse>): Promise<LLMResponse> {
+    const failures: string[] = [];
+    for (let offset = 0; offset < this.providers.length; offset++) {
+      const index = (this.current + offset) % this.providers.length;
+      const provider = this.providers[index];
+      try {
+        const response = await call(provider);
+        this.current = index;
+        return response;
+      } catch (error) {
+        failures.push(`${provider.model}: ${errorMessage(error)}`);
+      }
+    }
+    throw new Error(`Every model failed. ${failures.join('; ')}`);
+  }
+}
@@ -0,0 +1,83 @@
+import { ChatMessage, estimateTokens, FallbackProvider, LLMProvider, LLMResponse } from './LLMProvider.js';
+
+/**
+ * OpenAICompatibleProvider - Any server with an OpenAI-style
+ * /chat/completions endpoint: OpenAI itself, or local models through
+ * llama.cpp's server, Ollama (http://localhost:11434/v1), LM Studio...
+ */
+
+export interface OpenAICompatibleOptions {
+  // e.g. http://localhost:8080/v1
+  baseUrl: string;
+  model: string;
+  // Local servers usually need none
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+// Local models on a CPU can take minutes for a whole game
+const DEFAULT_TIMEOUT_MS = 300_000;
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.model = options.model;
+  }
+
+  async chat(history: ChatMessage[], message: string): Promise<LLMResponse> {
+    const messages = [
+      ...history.map(entry => ({ role: entry.role === 'model' ? 'assistant' : 'user', content: entry.content })),
+      { role: 'user', content: message },
+    ];
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, messages, temperature: 0.2, top_p: 0.95, max_tokens: 8192 }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} ${response.statusText}${body ? ` - ${body.slice(0, 200)}` : ''}`);
+    }
+
+    const completion = await response.json() as ChatCompletion;
+    const text = completion.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('The response has no message content');
+    }
+    const usage = completion.usage;
+    return {
+      text,
+      model: this.model,
+      usage: usage?.prompt_tokens !== undefined && usage.completion_tokens !== undefined
+        ? { promptTokens: usage.prompt_tokens, responseTokens: usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  generate(prompt: string): Promise<LLMResponse> {
+    return this.chat([], prompt);
+  }
+
+  // No standard endpoint for this
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
+
+/**
+ * One provider per model, falling back in the given order
+ */
+export const createOpenAICompatibleProvider = (options: Omit<OpenAICompatibleOptions, 'model'>, models: string[]): LLMProvider =>
+  new FallbackProvider(models.map(model => new OpenAICompatibleProvider({ ...options, model })));
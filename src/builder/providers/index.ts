@@ -0,0 +1,68 @@
+import { LLMProvider } from './LLMProvider.js';
+import { createGeminiProvider } from './GeminiProvider.js';
+import { createOpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { FixtureProvider } from './FixtureProvider.js';
+
+/**
+ * Model providers for the game builder. Picked from the environment:
+ *
+ *   LIKU_LLM_PROVIDER   gemini (default), openai or fixture
+ *   GEMINI_API_KEY      Gemini; GEMINI_MODEL is tried first, then GEMINI_MODELS
+ *   LIKU_LLM_BASE_URL   OpenAI-compatible server, e.g. http://localhost:11434/v1
+ *   LIKU_LLM_MODEL      its models, comma-separated, tried in order
+ *   LIKU_LLM_API_KEY    its key, if it needs one
+ *   LIKU_LLM_FIXTURES   fixture file to answer from (fixture provider)
+ *   LIKU_LLM_RECORD     fixture file to record the real provider's answers to
+ */
+
+export * from './LLMProvider.js';
+export { GeminiProvider, GEMINI_MODELS, createGeminiProvider } from './GeminiProvider.js';
+export { OpenAICompatibleProvider, createOpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+export type { OpenAICompatibleOptions } from './OpenAICompatibleProvider.js';
+export { FixtureProvider, fixtureKey } from './FixtureProvider.js';
+export type { LLMFixture, LLMFixtureFile, FixtureProviderOptions } from './FixtureProvider.js';
+
+export type ProviderName = 'gemini' | 'openai' | 'fixture';
+
+const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'fixture'];
+
+/**
+ * The configured provider, or null when none is (e.g. no Gemini key).
+ * `apiKey` overrides the Gemini key from the environment.
+ */
+export const createProviderFromEnv = (env: NodeJS.ProcessEnv = process.env, apiKey?: string): LLMProvider | null => {
+  const name = (env.LIKU_LLM_PROVIDER?.toLowerCase() || (env.LIKU_LLM_BASE_URL ? 'openai' : 'gemini')) as ProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Unknown LIKU_LLM_PROVIDER '${env.LIKU_LLM_PROVIDER}' (use ${PROVIDER_NAMES.join(', ')})`);
+  }
+
+  let provider: LLMProvider | null;
+  switch (name) {
+    case 'gemini': {
+      const key = apiKey || env.GEMINI_API_KEY || env.GOOGLE_AI_API_KEY;
+      provider = key ? createGeminiProvider(key, env.GEMINI_MODEL || undefined) : null;
+      break;
+    }
+    case 'openai': {
+      if (!env.LIKU_LLM_BASE_URL) {
+        throw new Error('LIKU_LLM_BASE_URL is required for the openai provider');
+      }
+      const models = (env.LIKU_LLM_MODEL ?? '').split(',').map(model => model.trim()).filter(Boolean);
+      if (models.length === 0) {
+        throw new Error('LIKU_LLM_MODEL is required for the openai provider');
+      }
+      provider = createOpenAICompatibleProvider({ baseUrl: env.LIKU_LLM_BASE_URL, apiKey: env.LIKU_LLM_API_KEY }, models);
+      break;
+    }
+    case 'fixture':
+      if (!env.LIKU_LLM_FIXTURES) {
+        throw new Error('LIKU_LLM_FIXTURES is required for the fixture provider');
+      }
+      return FixtureProvider.fromFile(env.LIKU_LLM_FIXTURES);
+  }
+
+  if (provider && env.LIKU_LLM_RECORD) {
+    return FixtureProvider.fromFile(env.LIKU_LLM_RECORD, { upstream: provider, recordTo: env.LIKU_LLM_RECORD });
+  }
+  return provider;
+};
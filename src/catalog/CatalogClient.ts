@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import os from 'os';
+import type { CatalogEntry, CatalogErrorBody, CatalogQuery, CatalogRating, PublishRequest } from './types.js';
+
+/**
+ * CatalogClient - The hub's side of a community catalog (catalog/CatalogServer)
+ *
+ * The catalog to use comes from LIKU_CATALOG_URL (or `--catalog <url>` on
+ * the command line), e.g. http://localhost:4780 for one run on this machine.
+ */
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+interface CatalogRequest {
+  method?: string;
+  // Sent as JSON
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export class CatalogClient {
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private options: { publishToken?: string; timeoutMs?: number } = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  search(query: CatalogQuery = {}): Promise<CatalogEntry[]> {
+    const params = new URLSearchParams();
+    if (query.q) params.set('q', query.q);
+    if (query.tag) params.set('tag', query.tag);
+    const search = params.toString();
+    return this.request<CatalogEntry[]>(`/api/games${search ? `?${search}` : ''}`);
+  }
+
+  getGame(gameId: string): Promise<CatalogEntry> {
+    return this.request<CatalogEntry>(`/api/games/${encodeURIComponent(gameId)}`);
+  }
+
+  /**
+   * A game's cartridge file, counted as a download. Decode it with
+   * decodeCartridge before installing it.
+   */
+  async downloadCartridge(gameId: string): Promise<string> {
+    const response = await this.fetch(`/api/games/${encodeURIComponent(gameId)}/cartridge`);
+    return response.text();
+  }
+
+  publish(request: PublishRequest): Promise<CatalogEntry> {
+    return this.request<CatalogEntry>('/api/games', {
+      method: 'POST',
+      body: request,
+      headers: this.options.publishToken ? { Authorization: `Bearer ${this.options.publishToken}` } : {},
+    });
+  }
+
+  rate(gameId: string, rater: string, stars: number): Promise<CatalogEntry> {
+    return this.request<CatalogEntry>(`/api/games/${encodeURIComponent(gameId)}/ratings`, {
+      method: 'POST',
+      body: { rater, stars },
+    });
+  }
+
+  private async request<T>(pathname: string, init: CatalogRequest = {}): Promise<T> {
+    const response = await this.fetch(pathname, init);
+    return await response.json() as T;
+  }
+
+  private async fetch(pathname: string, init: CatalogRequest = {}): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${pathname}`, {
+        method: init.method ?? 'GET',
+        headers: {
+          ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...init.headers,
+        },
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(`Cannot reach the catalog at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as CatalogErrorBody | null;
+      throw new Error(body?.error ?? `Catalog answered HTTP ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Client for the configured catalog, or null when none is configured
+ */
+export const createCatalogClient = (env: NodeJS.ProcessEnv = process.env, url?: string): CatalogClient | null => {
+  const baseUrl = url || env.LIKU_CATALOG_URL;
+  return baseUrl ? new CatalogClient(baseUrl, { publishToken: env.LIKU_CATALOG_TOKEN || undefined }) : null;
+};
+
+/**
+ * Anonymous, stable ID for this player's ratings: the same player rating a
+ * game again replaces their rating instead of adding one
+ */
+export const raterId = (profileId: number): string =>
+  createHash('sha256').update(`${os.hostname()}\0${os.userInfo().username}\0${profileId}`).digest('hex').slice(0, 16);
+
+// e.g. "★★★★☆ 4.2 (12)", or "unrated"
+export const describeRating = (rating: CatalogRating): string => {
+  if (rating.average === null) return 'unrated';
+  const full = Math.round(rating.average);
+  return `${'★'.repeat(full)}${'☆'.repeat(5 - full)} ${rating.average.toFixed(1)} (${rating.count})`;
+};
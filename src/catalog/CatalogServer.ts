@@ -0,0 +1,275 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { decodeCartridge, keyFingerprint, CARTRIDGE_EXTENSION } from '../core/Cartridge.js';
+import type { CatalogEntry, CatalogErrorBody, CatalogQuery } from './types.js';
+
+/**
+ * CatalogServer - A self-hostable community catalog (`liku catalog serve`)
+ *
+ * Games are kept in a directory: catalog.json holds their metadata, tags,
+ * ratings and download counts, cartridges/ the published cartridges. The
+ * server checks a cartridge's hashes and signature before publishing it but
+ * never runs it; hubs validate games themselves when they install them.
+ */
+
+export interface CatalogServerOptions {
+  // Where catalog.json and cartridges/ live; created if missing
+  dir: string;
+  // When set, publishing needs `Authorization: Bearer <token>`
+  publishToken?: string;
+}
+
+// A published game as stored: every rating, by rater
+interface CatalogRecord extends Omit<CatalogEntry, 'rating'> {
+  ratings: Record<string, number>;
+}
+
+interface CatalogFile {
+  games: CatalogRecord[];
+}
+
+// Cartridges carry a bundle and its source; a few hundred KB at most
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]{0,23}$/;
+
+const PublishSchema = z.object({
+  cartridge: z.string().min(1),
+  tags: z.array(z.string().trim().toLowerCase().regex(TAG_PATTERN, 'must be short lowercase words')).max(8).default([]),
+});
+
+const RatingSchema = z.object({
+  rater: z.string().min(1).max(100),
+  stars: z.number().int().min(1).max(5),
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const parseBody = <T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new HttpError(400, `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}`);
+  }
+  return parsed.data;
+};
+
+const toEntry = ({ ratings, ...record }: CatalogRecord): CatalogEntry => {
+  const stars = Object.values(ratings);
+  return {
+    ...record,
+    rating: {
+      average: stars.length ? Math.round(stars.reduce((sum, star) => sum + star, 0) / stars.length * 10) / 10 : null,
+      count: stars.length,
+    },
+  };
+};
+
+export class CatalogServer {
+  private server: http.Server | null = null;
+  private catalogPath: string;
+  private cartridgesDir: string;
+
+  constructor(private options: CatalogServerOptions) {
+    this.catalogPath = path.join(options.dir, 'catalog.json');
+    this.cartridgesDir = path.join(options.dir, 'cartridges');
+  }
+
+  /**
+   * Start serving; resolves with the port (useful when asking for port 0)
+   */
+  listen(port: number, host: string = '127.0.0.1'): Promise<number> {
+    fs.mkdirSync(this.cartridgesDir, { recursive: true });
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const body: CatalogErrorBody = { error: error instanceof Error ? error.message : String(error) };
+        this.send(response, status, body);
+      });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://catalog');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (parts[0] !== 'api' || parts[1] !== 'games' || parts.length > 4) {
+      throw new HttpError(404, `No such endpoint: ${url.pathname}`);
+    }
+    const [, , gameId, sub] = parts;
+
+    if (request.method === 'GET' && !gameId) {
+      const query: CatalogQuery = { q: url.searchParams.get('q') ?? undefined, tag: url.searchParams.get('tag') ?? undefined };
+      this.send(response, 200, this.search(query));
+    } else if (request.method === 'GET' && !sub) {
+      this.send(response, 200, toEntry(this.find(gameId)));
+    } else if (request.method === 'GET' && sub === 'cartridge') {
+      const cartridge = this.download(gameId);
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(cartridge);
+    } else if (request.method === 'POST' && !gameId) {
+      this.authorize(request);
+      const entry = this.publish(parseBody(PublishSchema, await this.readJson(request)));
+      this.send(response, 201, entry);
+    } else if (request.method === 'POST' && sub === 'ratings') {
+      this.send(response, 200, this.rate(gameId, parseBody(RatingSchema, await this.readJson(request))));
+    } else {
+      throw new HttpError(404, `No such endpoint: ${request.method} ${url.pathname}`);
+    }
+  }
+
+  private search({ q, tag }: CatalogQuery): CatalogEntry[] {
+    const words = (q ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    return this.load().games
+      .filter(game => !tag || game.tags.includes(tag.toLowerCase()))
+      .filter(game => {
+        const text = [game.id, game.name, game.description, ...game.tags].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+      })
+      .map(toEntry)
+      .sort((a, b) => b.downloads - a.downloads || a.name.localeCompare(b.name));
+  }
+
+  private publish(request: z.infer<typeof PublishSchema>): CatalogEntry {
+    let cartridge;
+    try {
+      cartridge = decodeCartridge(request.cartridge);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    const { manifest, signature } = cartridge;
+    const fingerprint = signature ? keyFingerprint(signature.publicKey) : null;
+
+    const catalog = this.load();
+    const existing = catalog.games.find(game => game.id === manifest.id);
+    // A signed game can only be replaced by its author
+    if (existing?.fingerprint && existing.fingerprint !== fingerprint) {
+      throw new HttpError(409, `'${manifest.id}' was published by ${existing.author} (key ${existing.fingerprint}); only they can update it`);
+    }
+
+    const now = new Date().toISOString();
+    const record: CatalogRecord = {
+      id: manifest.id,
+      name: manifest.name,
+      description: manifest.description,
+      version: manifest.version,
+      energyCost: manifest.energyCost,
+      xpReward: manifest.xpReward,
+      tags: [...new Set(request.tags)],
+      author: signature?.author ?? null,
+      fingerprint,
+      downloads: existing?.downloads ?? 0,
+      publishedAt: existing?.publishedAt ?? now,
+      updatedAt: now,
+      ratings: existing?.ratings ?? {},
+    };
+
+    fs.writeFileSync(this.cartridgePath(manifest.id), request.cartridge);
+    catalog.games = [...catalog.games.filter(game => game.id !== manifest.id), record];
+    this.save(catalog);
+    return toEntry(record);
+  }
+
+  private download(gameId: string): string {
+    const catalog = this.load();
+    const record = this.find(gameId, catalog);
+    const cartridge = fs.readFileSync(this.cartridgePath(record.id), 'utf-8');
+    record.downloads++;
+    this.save(catalog);
+    return cartridge;
+  }
+
+  private rate(gameId: string, { rater, stars }: z.infer<typeof RatingSchema>): CatalogEntry {
+    const catalog = this.load();
+    const record = this.find(gameId, catalog);
+    record.ratings[rater] = stars;
+    this.save(catalog);
+    return toEntry(record);
+  }
+
+  private find(gameId: string, catalog: CatalogFile = this.load()): CatalogRecord {
+    const record = catalog.games.find(game => game.id === gameId);
+    if (!record) {
+      throw new HttpError(404, `No game '${gameId}' in this catalog`);
+    }
+    return record;
+  }
+
+  private authorize(request: http.IncomingMessage): void {
+    if (this.options.publishToken && request.headers.authorization !== `Bearer ${this.options.publishToken}`) {
+      throw new HttpError(401, 'Publishing to this catalog needs its token');
+    }
+  }
+
+  private readJson(request: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'Request body is too large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch {
+          reject(new HttpError(400, 'Request body is not JSON'));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private send(response: http.ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) return;
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private cartridgePath(gameId: string): string {
+    return path.join(this.cartridgesDir, `${gameId}${CARTRIDGE_EXTENSION}`);
+  }
+
+  private load(): CatalogFile {
+    try {
+      return JSON.parse(fs.readFileSync(this.catalogPath, 'utf-8')) as CatalogFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { games: [] };
+      throw error;
+    }
+  }
+
+  // Written to a temporary file first, so a crash never leaves half a catalog
+  private save(catalog: CatalogFile): void {
+    const temp = `${this.catalogPath}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(catalog, null, 2));
+    fs.renameSync(temp, this.catalogPath);
+  }
+}
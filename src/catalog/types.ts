@@ -0,0 +1,62 @@
+/**
+ * Community catalog - Types shared by the catalog server and the hub's client
+ *
+ * A catalog publishes cartridges (core/Cartridge) with tags, ratings and
+ * download counts over a small JSON API:
+ *
+ *   GET  /api/games?q=&tag=          Search the catalog
+ *   GET  /api/games/:id              One game
+ *   GET  /api/games/:id/cartridge    Download a game's cartridge
+ *   POST /api/games                  Publish { cartridge, tags }
+ *   POST /api/games/:id/ratings      Rate { rater, stars }
+ */
+
+export interface CatalogRating {
+  // null until someone rates the game
+  average: number | null;
+  count: number;
+}
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  description: string;
+  // Version of the game in the published cartridge
+  version: number;
+  energyCost: number;
+  xpReward: number;
+  tags: string[];
+  // Signer of the cartridge and their key's fingerprint; null when unsigned
+  author: string | null;
+  fingerprint: string | null;
+  rating: CatalogRating;
+  downloads: number;
+  publishedAt: string;
+  updatedAt: string;
+}
+
+export interface CatalogQuery {
+  // Matched against IDs, names, descriptions and tags
+  q?: string;
+  tag?: string;
+}
+
+export interface PublishRequest {
+  // A cartridge file's contents
+  cartridge: string;
+  tags?: string[];
+}
+
+export interface RatingRequest {
+  // Stable, anonymous ID of whoever rates; a second rating replaces the first
+  rater: string;
+  // 1-5
+  stars: number;
+}
+
+// Body of every error response
+export interface CatalogErrorBody {
+  error: string;
+}
+
+export const DEFAULT_CATALOG_PORT = 4780;
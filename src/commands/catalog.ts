@@ -0,0 +1,149 @@
+/**
+ * `liku catalog` - Share community games through a catalog server
+ *
+ * Usage:
+ *   liku catalog serve                    Run a catalog (--port, --host, --dir)
+ *   liku catalog search [words]           Search the catalog (--tag <tag> to filter)
+ *   liku catalog info <id>                Show a game's details
+ *   liku catalog install <id>             Download, check and install a game
+ *   liku catalog rate <id> <1-5>          Rate a game
+ *   liku catalog publish <id>             Publish an installed game (--tag a,b; --key signs it)
+ *
+ * Commands other than `serve` talk to `--catalog <url>` or LIKU_CATALOG_URL.
+ * A catalog run with LIKU_CATALOG_TOKEN set only lets clients with the same
+ * LIKU_CATALOG_TOKEN publish. `--profile <name>` picks who rates.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CatalogServer } from '../catalog/CatalogServer.js';
+import { createCatalogClient, describeRating, raterId } from '../catalog/CatalogClient.js';
+import { DEFAULT_CATALOG_PORT, type CatalogEntry } from '../catalog/types.js';
+import { decodeCartridge, keyFingerprint } from '../core/Cartridge.js';
+import { DB_DIR } from '../services/paths.js';
+
+export interface CatalogCommandFlags {
+  catalog?: string;
+  port?: number;
+  host?: string;
+  dir?: string;
+  tag?: string;
+  key?: string;
+  author?: string;
+  profile?: string;
+}
+
+const describeEntry = (entry: CatalogEntry): string =>
+  `${entry.id.padEnd(24)} ${describeRating(entry.rating).padEnd(16)} ⬇ ${String(entry.downloads).padEnd(5)} ${entry.name}` +
+  (entry.tags.length ? ` [${entry.tags.join(', ')}]` : '');
+
+export async function runCatalogCommand(args: string[], flags: CatalogCommandFlags): Promise<number> {
+  const [action = 'search', ...rest] = args;
+
+  try {
+    if (action === 'serve') {
+      const dir = path.resolve(flags.dir ?? path.join(DB_DIR, 'catalog'));
+      const server = new CatalogServer({ dir, publishToken: process.env.LIKU_CATALOG_TOKEN || undefined });
+      const port = await server.listen(flags.port ?? DEFAULT_CATALOG_PORT, flags.host);
+      console.log(`📚 Catalog of ${dir} serving on http://${flags.host ?? '127.0.0.1'}:${port} (Ctrl+C to stop)`);
+      await new Promise(resolve => process.once('SIGINT', resolve));
+      await server.close();
+      return 0;
+    }
+
+    const client = createCatalogClient(process.env, flags.catalog);
+    if (!client) {
+      console.error('❌ No catalog configured. Set LIKU_CATALOG_URL or pass --catalog <url>.');
+      return 1;
+    }
+    const gameId = rest[0];
+    if (action !== 'search' && !gameId) {
+      console.error(`❌ Usage: liku catalog ${action} <id>`);
+      return 1;
+    }
+
+    switch (action) {
+      case 'search': {
+        const entries = await client.search({ q: rest.join(' '), tag: flags.tag });
+        if (entries.length === 0) {
+          console.log('No games found.');
+        }
+        entries.forEach(entry => console.log(describeEntry(entry)));
+        return 0;
+      }
+
+      case 'info': {
+        const entry = await client.getGame(gameId);
+        console.log(describeEntry(entry));
+        console.log(`  ${entry.description}`);
+        console.log(`  v${entry.version} • Energy -${entry.energyCost}, XP +${entry.xpReward}`);
+        console.log(`  ${entry.author ? `by ${entry.author} (key ${entry.fingerprint})` : 'unsigned'} • updated ${entry.updatedAt}`);
+        return 0;
+      }
+
+      case 'install': {
+        // Imported lazily: DatabaseService migrates the database on import
+        const { gameLoader } = await import('../core/GameLoader.js');
+        const { db } = await import('../services/DatabaseService.js');
+        if (await db.getGameById(gameId)) {
+          console.error(`❌ '${gameId}' is already installed. Remove it first with \`liku games remove ${gameId}\`.`);
+          return 1;
+        }
+        const cartridge = decodeCartridge(await client.downloadCartridge(gameId));
+        const { signature } = cartridge;
+        console.log(signature
+          ? `🔏 Signed by ${signature.author} (key ${keyFingerprint(signature.publicKey)})`
+          : '⚠️  Unsigned cartridge: its hashes match, but there is no telling who made it');
+        const result = await gameLoader.installCartridge(cartridge);
+        if (!result.success) {
+          console.error(`❌ ${result.message}${result.error ? `: ${result.error}` : ''}`);
+          return 1;
+        }
+        console.log(result.message);
+        return 0;
+      }
+
+      case 'rate': {
+        const stars = Number(rest[1]);
+        if (!Number.isInteger(stars) || stars < 1 || stars > 5) {
+          console.error('❌ Usage: liku catalog rate <id> <1-5>');
+          return 1;
+        }
+        const { db } = await import('../services/DatabaseService.js');
+        if (flags.profile) {
+          const profile = await db.getProfileByName(flags.profile);
+          if (!profile) {
+            console.error(`❌ No profile named "${flags.profile}".`);
+            return 1;
+          }
+          await db.switchProfile(profile.id);
+        }
+        const entry = await client.rate(gameId, raterId(db.getActiveProfileId()), stars);
+        console.log(`✅ Rated ${entry.name}: ${describeRating(entry.rating)}`);
+        return 0;
+      }
+
+      case 'publish': {
+        const { gameLoader } = await import('../core/GameLoader.js');
+        const signer = flags.key
+          ? { author: flags.author ?? os.userInfo().username, privateKey: fs.readFileSync(path.resolve(flags.key), 'utf-8') }
+          : undefined;
+        const cartridge = await gameLoader.exportCartridge(gameId, signer);
+        const tags = (flags.tag ?? '').split(',').map(tag => tag.trim()).filter(Boolean);
+        const entry = await client.publish({ cartridge, tags });
+        console.log(`✅ Published ${entry.name} v${entry.version}${entry.author ? `, signed by ${entry.author}` : ''}`);
+        return 0;
+      }
+
+      default: {
+        console.error(`❌ Unknown catalog command: ${action}`);
+        console.error('   Available: serve, search, info, install, rate, publish');
+        return 1;
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
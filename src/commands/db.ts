@@ -0,0 +1,96 @@
+/**
+ * `liku db` - Schema migration commands
+ *
+ * Usage:
+ *   liku db status              Show applied and pending migrations
+ *   liku db migrate [--to N]    Apply pending migrations (up to version N)
+ *   liku db rollback [--steps N | --to N]
+ *                               Revert the last N migrations (default 1) or down to version N
+ *
+ * Opens its own connection instead of using the shared DatabaseService,
+ * which migrates to the latest version as soon as it is imported.
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import { DB_DIR, DB_PATH } from '../services/paths.js';
+import { MigrationRunner, MIGRATIONS } from '../services/migrations/index.js';
+
+export interface DbCommandFlags {
+  to?: number;
+  steps?: number;
+}
+
+const openRunner = (): { db: Database.Database; runner: MigrationRunner } => {
+  if (!fs.existsSync(DB_DIR)) {
+    fs.mkdirSync(DB_DIR, { recursive: true });
+  }
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  return { db, runner: new MigrationRunner(db, MIGRATIONS) };
+};
+
+const printStatus = (runner: MigrationRunner): void => {
+  console.log(`📦 Database: ${DB_PATH}`);
+  console.log(`   Schema version: ${runner.getCurrentVersion()} (latest: ${runner.getLatestVersion()})\n`);
+
+  for (const entry of runner.status()) {
+    const mark = entry.applied ? '✅' : '⏳';
+    const when = entry.appliedAt ? `  ${entry.appliedAt}` : '  pending';
+    console.log(`${mark} ${String(entry.version).padStart(3, '0')} ${entry.name}${when}`);
+  }
+};
+
+export async function runDbCommand(args: string[], flags: DbCommandFlags): Promise<number> {
+  const [action = 'status'] = args;
+  const { db, runner } = openRunner();
+
+  try {
+    switch (action) {
+      case 'status': {
+        printStatus(runner);
+        return 0;
+      }
+
+      case 'migrate': {
+        const applied = runner.migrate(flags.to);
+        if (applied.length === 0) {
+          console.log('✅ Database is already up to date.');
+        } else {
+          for (const migration of applied) {
+            console.log(`⬆️  Applied ${migration.version} ${migration.name}`);
+          }
+          console.log(`\n✅ Schema version is now ${runner.getCurrentVersion()}.`);
+        }
+        return 0;
+      }
+
+      case 'rollback': {
+        const reverted = flags.to !== undefined
+          ? runner.rollbackTo(flags.to)
+          : runner.rollback(flags.steps ?? 1);
+        if (reverted.length === 0) {
+          console.log('Nothing to roll back.');
+        } else {
+          for (const migration of reverted) {
+            console.log(`⬇️  Reverted ${migration.version} ${migration.name}`);
+          }
+          console.log(`\n✅ Schema version is now ${runner.getCurrentVersion()}.`);
+        }
+        return 0;
+      }
+
+      default: {
+        console.error(`❌ Unknown db command: ${action}`);
+        console.error('   Available: status, migrate, rollback');
+        return 1;
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    db.close();
+  }
+}
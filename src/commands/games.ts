@@ -0,0 +1,169 @@
+/**
+ * `liku games` - Community games and their versions
+ *
+ * Usage:
+ *   liku games list                       List community games and their versions
+ *   liku games versions <id>              List a game's versions, newest first
+ *   liku games diff <id> <from> [to]      Diff two versions' sources (to: the one being played)
+ *   liku games rollback <id> [version]    Play an earlier version (default: the one before)
+ *   liku games rebuild <id> [version]     Build a version again from its source
+ *   liku games rebuild --all              Rebuild every game, e.g. after a React or Ink upgrade
+ *   liku games remove <id>                Uninstall a game with its versions, scores and saved data
+ *   liku games export <id> [file]         Write the game being played to a .liku-cartridge.json file
+ *   liku games import <file>              Check a cartridge file and install its game
+ *
+ * `--key <file>` signs an exported cartridge with an Ed25519 private key
+ * (PEM, e.g. from `openssl genpkey -algorithm ed25519`); `--author <name>`
+ * names the signer, by default the user running the command.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { formatUnifiedDiff } from '../builder/SourceDiff.js';
+import { decodeCartridge, keyFingerprint, CARTRIDGE_EXTENSION } from '../core/Cartridge.js';
+
+export interface GamesCommandFlags {
+  all?: boolean;
+  key?: string;
+  author?: string;
+}
+
+const parseVersion = (value: string | undefined): number | undefined | null => {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+export async function runGamesCommand(args: string[], flags: GamesCommandFlags): Promise<number> {
+  const [action = 'list', gameId, ...rest] = args;
+  // Imported lazily: DatabaseService migrates the database on import
+  const { db } = await import('../services/DatabaseService.js');
+  const { gameLoader } = await import('../core/GameLoader.js');
+
+  const report = (result: { success: boolean; message: string; error?: string }): number => {
+    if (result.success) {
+      console.log(result.message);
+      return 0;
+    }
+    console.error(`❌ ${result.message}${result.error ? `: ${result.error}` : ''}`);
+    return 1;
+  };
+
+  try {
+    if (action !== 'list' && !(action === 'rebuild' && flags.all) && !gameId) {
+      console.error(`❌ Usage: liku games ${action} ${action === 'import' ? '<file>' : '<id>'}`);
+      return 1;
+    }
+
+    switch (action) {
+      case 'list': {
+        const games = await gameLoader.listCommunityGames();
+        if (games.length === 0) {
+          console.log('No community games yet. Build one from the Game Builder.');
+          return 0;
+        }
+        for (const game of games) {
+          const versions = await db.getGameVersions(game.id);
+          console.log(`${game.id.padEnd(24)} v${String(game.version).padEnd(4)} ${String(versions.length).padStart(3)} version(s)  ${game.name}`);
+        }
+        return 0;
+      }
+
+      case 'versions': {
+        const game = await db.getGameById(gameId);
+        if (!game) {
+          console.error(`❌ Game '${gameId}' not found.`);
+          return 1;
+        }
+        const versions = await db.getGameVersions(gameId);
+        if (versions.length === 0) {
+          console.log(`${game.name} was installed before versions were kept; it has no stored source.`);
+          return 0;
+        }
+        for (const version of versions) {
+          const active = version.version === game.version ? '▶' : ' ';
+          const what = version.changeRequest ? `"${version.changeRequest}"` : 'first version';
+          console.log(`${active} v${String(version.version).padEnd(4)} ${version.createdAt}  ${(version.model ?? '-').padEnd(18)} ${what}`);
+        }
+        return 0;
+      }
+
+      case 'diff': {
+        const game = await db.getGameById(gameId);
+        const from = parseVersion(rest[0]);
+        const to = parseVersion(rest[1]) ?? game?.version;
+        if (!game || !from || !to) {
+          console.error('❌ Usage: liku games diff <id> <from> [to]');
+          return 1;
+        }
+        const [before, after] = await Promise.all([db.getGameVersion(gameId, from), db.getGameVersion(gameId, to)]);
+        if (!before || !after) {
+          console.error(`❌ ${game.name} has no version ${before ? to : from}.`);
+          return 1;
+        }
+        const diff = formatUnifiedDiff(before.source, after.source, { from: `${gameId} v${from}`, to: `${gameId} v${to}` });
+        process.stdout.write(diff || `No differences between v${from} and v${to}.\n`);
+        return 0;
+      }
+
+      case 'rollback': {
+        const version = parseVersion(rest[0]);
+        if (version === null) {
+          console.error('❌ Usage: liku games rollback <id> [version]');
+          return 1;
+        }
+        return report(await gameLoader.rollbackGame(gameId, version));
+      }
+
+      case 'rebuild': {
+        if (flags.all) {
+          const results = await gameLoader.rebuildAllGames();
+          if (results.length === 0) {
+            console.log('No games with a stored source to rebuild.');
+          }
+          return results.map(report).some(code => code !== 0) ? 1 : 0;
+        }
+        const version = parseVersion(rest[0]);
+        if (version === null) {
+          console.error('❌ Usage: liku games rebuild <id> [version]');
+          return 1;
+        }
+        return report(await gameLoader.rebuildGame(gameId, version));
+      }
+
+      case 'remove':
+        return report(await gameLoader.removeGame(gameId));
+
+      case 'export': {
+        const signer = flags.key
+          ? { author: flags.author ?? os.userInfo().username, privateKey: fs.readFileSync(path.resolve(flags.key), 'utf-8') }
+          : undefined;
+        const cartridge = await gameLoader.exportCartridge(gameId, signer);
+        const file = path.resolve(rest[0] ?? `${gameId}${CARTRIDGE_EXTENSION}`);
+        fs.writeFileSync(file, cartridge);
+        console.log(`✅ Exported ${gameId}${signer ? `, signed by ${signer.author},` : ''} to ${file}`);
+        return 0;
+      }
+
+      case 'import': {
+        // The file takes the place of the game ID here
+        const cartridge = decodeCartridge(fs.readFileSync(path.resolve(gameId), 'utf-8'));
+        const { signature } = cartridge;
+        console.log(signature
+          ? `🔏 Signed by ${signature.author} (key ${keyFingerprint(signature.publicKey)})`
+          : '⚠️  Unsigned cartridge: its hashes match, but there is no telling who made it');
+        return report(await gameLoader.installCartridge(cartridge));
+      }
+
+      default: {
+        console.error(`❌ Unknown games command: ${action}`);
+        console.error('   Available: list, versions, diff, rollback, rebuild, remove, export, import');
+        return 1;
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Subcommands for the `liku` binary.
+ *
+ * `liku` with no arguments starts the TUI; anything else is dispatched here
+ * and runs as a plain command-line tool.
+ */
+
+import { runDbCommand, type DbCommandFlags } from './db.js';
+import { runReplayCommand, type ReplayCommandFlags } from './replay.js';
+import { runGamesCommand, type GamesCommandFlags } from './games.js';
+import { runCatalogCommand, type CatalogCommandFlags } from './catalog.js';
+
+export type CommandFlags = DbCommandFlags & ReplayCommandFlags & GamesCommandFlags & CatalogCommandFlags;
+
+export const COMMAND_HELP = `
+	Commands
+	  db status                       Show applied and pending schema migrations
+	  db migrate [--to N]             Apply pending migrations
+	  db rollback [--steps N|--to N]  Revert migrations (default: the last one)
+	  replay list                     List recorded game runs
+	  replay export <id> [file]       Save a recorded run as a shareable file
+	  replay import <file>            Add a shared run to the Replays screen
+	  games list                      List community games and their versions
+	  games versions <id>             List a game's versions
+	  games diff <id> <from> [to]     Diff two versions' sources
+	  games rollback <id> [version]   Play an earlier version of a game
+	  games rebuild <id>|--all        Rebuild games from source (e.g. after an Ink upgrade)
+	  games remove <id>               Uninstall a game with its scores and saved data
+	  games export <id> [file]        Save a game as a shareable cartridge (--key <pem> signs it)
+	  games import <file>             Check a cartridge and install its game
+	  catalog serve                   Run a community catalog (--port, --host, --dir)
+	  catalog search [words]          Search the catalog at LIKU_CATALOG_URL (--tag <tag>)
+	  catalog info <id>               Show a catalog game's details
+	  catalog install <id>            Download, check and install a catalog game
+	  catalog rate <id> <1-5>         Rate a catalog game
+	  catalog publish <id>            Publish a game to the catalog (--tag a,b; --key signs it)
+`;
+
+export async function runCommand(input: string[], flags: CommandFlags): Promise<number> {
+  const [command, ...args] = input;
+
+  switch (command) {
+    case 'db':
+      return runDbCommand(args, flags);
+    case 'replay':
+      return runReplayCommand(args, flags);
+    case 'games':
+      return runGamesCommand(args, flags);
+    case 'catalog':
+      return runCatalogCommand(args, flags);
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.error('   Run `liku --help` for usage.');
+      return 1;
+  }
+}
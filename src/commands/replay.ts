@@ -0,0 +1,92 @@
+/**
+ * `liku replay` - Share recorded game runs as files
+ *
+ * Usage:
+ *   liku replay list                   List the active profile's replays
+ *   liku replay export <id> [file]     Write a replay to a .liku-replay.json file
+ *   liku replay import <file>          Add a replay file to the active profile
+ *
+ * `--profile <name>` picks the profile; otherwise the most recently used one.
+ * Imported replays are watched from the Replays screen in the games menu.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { decodeReplayFile, encodeReplayFile } from '../core/Replay.js';
+
+export interface ReplayCommandFlags {
+  profile?: string;
+}
+
+export async function runReplayCommand(args: string[], flags: ReplayCommandFlags): Promise<number> {
+  const [action = 'list', ...rest] = args;
+  // Imported lazily: DatabaseService migrates the database on import
+  const { db } = await import('../services/DatabaseService.js');
+
+  try {
+    if (flags.profile) {
+      const profile = await db.getProfileByName(flags.profile);
+      if (!profile) {
+        console.error(`❌ No profile named "${flags.profile}".`);
+        return 1;
+      }
+      await db.switchProfile(profile.id);
+    }
+
+    switch (action) {
+      case 'list': {
+        const replays = await db.getReplays();
+        if (replays.length === 0) {
+          console.log('No replays yet. Every built-in game run is recorded automatically.');
+          return 0;
+        }
+        for (const replay of replays) {
+          console.log(
+            `#${String(replay.id).padEnd(5)} ${replay.gameId.padEnd(10)} ${replay.outcome.padEnd(10)} ` +
+            `score ${String(replay.score ?? '-').padEnd(6)} seed ${String(replay.seed).padEnd(11)} ${replay.createdAt}`
+          );
+        }
+        return 0;
+      }
+
+      case 'export': {
+        const replayId = Number(rest[0]);
+        if (!Number.isInteger(replayId)) {
+          console.error('❌ Usage: liku replay export <id> [file]');
+          return 1;
+        }
+        const replay = await db.getReplay(replayId);
+        if (!replay) {
+          console.error(`❌ Replay #${replayId} not found.`);
+          return 1;
+        }
+
+        const file = path.resolve(rest[1] ?? `${replay.gameId}-${replay.id}.liku-replay.json`);
+        const { gameId, difficulty, seed, score, outcome, durationMs, events } = replay;
+        fs.writeFileSync(file, encodeReplayFile({ gameId, difficulty, seed, score, outcome, durationMs, events }));
+        console.log(`✅ Exported replay #${replay.id} to ${file}`);
+        return 0;
+      }
+
+      case 'import': {
+        if (!rest[0]) {
+          console.error('❌ Usage: liku replay import <file>');
+          return 1;
+        }
+        const run = decodeReplayFile(fs.readFileSync(path.resolve(rest[0]), 'utf-8'));
+        const replayId = await db.saveReplay(run);
+        console.log(`✅ Imported ${run.gameId} replay as #${replayId}. Watch it from Games → Replays.`);
+        return 0;
+      }
+
+      default: {
+        console.error(`❌ Unknown replay command: ${action}`);
+        console.error('   Available: list, export, import');
+        return 1;
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
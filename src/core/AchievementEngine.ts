@@ -0,0 +1,245 @@
+import { db, GameOutcome, GameSessionSummary, PlayerStats } from '../services/DatabaseService.js';
+
+/**
+ * AchievementEngine - Milestones unlocked by game results and stats
+ *
+ * Achievements are declared as data below. They are checked whenever a game
+ * ends (built-in games via useGameSession, community games via their
+ * onReport results) and after every stats update; unlocks are stored per
+ * profile with their timestamp.
+ */
+
+// ============================================================
+// Definitions
+// ============================================================
+
+type NumericStat = {
+  [K in keyof PlayerStats]: PlayerStats[K] extends number ? K : never;
+}[keyof PlayerStats];
+
+export type AchievementCondition =
+  // A single run, checked when a game ends. Omitted fields match anything.
+  | {
+      type: 'run';
+      gameId?: string;
+      community?: boolean;
+      outcome?: GameOutcome;
+      difficulty?: string;
+      minScore?: number;
+    }
+  // Totals over the profile's game history
+  | { type: 'history'; gameId?: string; count: 'plays' | 'wins'; atLeast: number }
+  // A player stat
+  | { type: 'stat'; stat: NumericStat; atLeast: number }
+  // Community games built with the Game Builder
+  | { type: 'community_games'; atLeast: number };
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  condition: AchievementCondition;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_game',
+    name: 'First Steps',
+    description: 'Play your first game',
+    icon: '👣',
+    condition: { type: 'history', count: 'plays', atLeast: 1 },
+  },
+  {
+    id: 'snake_500',
+    name: 'Snake Charmer',
+    description: 'Score 500 in Snake',
+    icon: '🐍',
+    condition: { type: 'run', gameId: 'snake', minScore: 500 },
+  },
+  {
+    id: 'tictactoe_win',
+    name: 'Three in a Row',
+    description: 'Beat Liku at Tic-Tac-Toe',
+    icon: '❌',
+    condition: { type: 'run', gameId: 'tictactoe', outcome: 'win' },
+  },
+  {
+    id: 'dinorun_1000',
+    name: 'Dino Marathon',
+    description: 'Score 1000 in Dino Run',
+    icon: '🦖',
+    condition: { type: 'run', gameId: 'dinorun', minScore: 1000 },
+  },
+  {
+    id: 'hangman_10',
+    name: 'Wordsmith',
+    description: 'Win 10 Hangman games',
+    icon: '📝',
+    condition: { type: 'stat', stat: 'hangman_wins', atLeast: 10 },
+  },
+  {
+    id: 'sudoku_hard',
+    name: 'Grid Master',
+    description: 'Solve a hard Sudoku',
+    icon: '🧩',
+    condition: { type: 'run', gameId: 'sudoku', outcome: 'win', difficulty: 'hard' },
+  },
+  {
+    id: 'games_50',
+    name: 'Regular',
+    description: 'Play 50 games',
+    icon: '🎮',
+    condition: { type: 'history', count: 'plays', atLeast: 50 },
+  },
+  {
+    id: 'level_5',
+    name: 'Growing Up',
+    description: 'Reach level 5',
+    icon: '⭐',
+    condition: { type: 'stat', stat: 'level', atLeast: 5 },
+  },
+  {
+    id: 'level_10',
+    name: 'Seasoned',
+    description: 'Reach level 10',
+    icon: '🌟',
+    condition: { type: 'stat', stat: 'level', atLeast: 10 },
+  },
+  {
+    id: 'builder_first',
+    name: 'Game Maker',
+    description: 'Build your first community game',
+    icon: '🔨',
+    condition: { type: 'community_games', atLeast: 1 },
+  },
+  {
+    id: 'community_win',
+    name: 'Explorer',
+    description: 'Win a community game',
+    icon: '🌍',
+    condition: { type: 'run', community: true, outcome: 'win' },
+  },
+];
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+/**
+ * Result of one finished run, as reported by a game
+ */
+export interface GameResult {
+  gameId: string;
+  outcome: GameOutcome;
+  score?: number | null;
+  difficulty?: string | null;
+}
+
+export interface AchievementContext {
+  stats: PlayerStats;
+  history: GameSessionSummary[];
+  communityGameIds: string[];
+  result?: GameResult;
+}
+
+export interface AchievementStatus extends AchievementDefinition {
+  unlockedAt: string | null;
+}
+
+export const isAchieved = (condition: AchievementCondition, context: AchievementContext): boolean => {
+  switch (condition.type) {
+    case 'run': {
+      const { result } = context;
+      if (!result) return false;
+      if (condition.gameId && result.gameId !== condition.gameId) return false;
+      if (condition.community !== undefined && context.communityGameIds.includes(result.gameId) !== condition.community) return false;
+      if (condition.outcome && result.outcome !== condition.outcome) return false;
+      if (condition.difficulty && result.difficulty !== condition.difficulty) return false;
+      if (condition.minScore !== undefined && (result.score ?? -Infinity) < condition.minScore) return false;
+      return true;
+    }
+    case 'history': {
+      const games = condition.gameId
+        ? context.history.filter(entry => entry.gameId === condition.gameId)
+        : context.history;
+      const total = games.reduce((sum, entry) => sum + entry[condition.count], 0);
+      return total >= condition.atLeast;
+    }
+    case 'stat':
+      return context.stats[condition.stat] >= condition.atLeast;
+    case 'community_games':
+      return context.communityGameIds.length >= condition.atLeast;
+  }
+};
+
+// ============================================================
+// Engine
+// ============================================================
+
+export class AchievementEngine {
+  // Unlocks not yet announced to the player
+  private pending: AchievementDefinition[] = [];
+
+  constructor(private definitions: AchievementDefinition[] = ACHIEVEMENTS) {}
+
+  public getDefinitions(): AchievementDefinition[] {
+    return this.definitions;
+  }
+
+  /**
+   * Every definition with its unlock time for the active profile
+   */
+  public async getProgress(): Promise<AchievementStatus[]> {
+    const unlocked = new Map((await db.getUnlockedAchievements()).map(entry => [entry.achievementId, entry.unlockedAt]));
+    return this.definitions.map(definition => ({ ...definition, unlockedAt: unlocked.get(definition.id) ?? null }));
+  }
+
+  /**
+   * Unlock everything the current stats, history and (optionally) the run
+   * that just ended qualify for. Returns the newly unlocked achievements.
+   */
+  public async check(result?: GameResult): Promise<AchievementDefinition[]> {
+    const unlocked = new Set((await db.getUnlockedAchievements()).map(entry => entry.achievementId));
+    const candidates = this.definitions.filter(definition => !unlocked.has(definition.id));
+    if (candidates.length === 0) return [];
+
+    const [stats, history, registered] = await Promise.all([
+      db.getStats(),
+      db.getGameSessionSummary(),
+      db.getRegisteredGames(),
+    ]);
+    const context: AchievementContext = {
+      stats,
+      history,
+      communityGameIds: registered.map(game => game.id),
+      result,
+    };
+
+    const earned: AchievementDefinition[] = [];
+    for (const definition of candidates) {
+      if (isAchieved(definition.condition, context) && await db.unlockAchievement(definition.id, result?.gameId ?? null)) {
+        earned.push(definition);
+      }
+    }
+
+    this.pending.push(...earned);
+    return earned;
+  }
+
+  /**
+   * Unlocks since the last call, for the hub to announce
+   */
+  public takeNewUnlocks(): AchievementDefinition[] {
+    const unlocks = this.pending;
+    this.pending = [];
+    return unlocks;
+  }
+}
+
+export const achievementEngine = new AchievementEngine();
+
+// Stat-based achievements can be reached outside of games (e.g. feeding)
+db.onStatsUpdated(() => {
+  achievementEngine.check().catch(err => console.error('Achievement check failed:', err));
+});
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { createHash, createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+
+/**
+ * Cartridge - A community game as one self-describing file
+ * (`liku games export/import`)
+ *
+ * A cartridge holds the game's manifest, TSX source and built bundle, with
+ * SHA-256 hashes of each. An author can sign the hashes with an Ed25519 key;
+ * the signature travels with the public key, so importers see who signed a
+ * cartridge and that nothing changed since.
+ *
+ * Importing never runs the shipped bundle: the game is built again from its
+ * source and validated like a freshly generated one (core/GameLoader).
+ */
+
+const CARTRIDGE_FORMAT = 'liku-cartridge';
+const CARTRIDGE_VERSION = 1;
+
+export const CARTRIDGE_EXTENSION = '.liku-cartridge.json';
+
+export interface CartridgeManifest {
+  id: string;
+  name: string;
+  description: string;
+  // Version of the game that was exported
+  version: number;
+  energyCost: number;
+  xpReward: number;
+  // What the model was asked for and which model wrote it, when known
+  prompt: string | null;
+  model: string | null;
+}
+
+export interface CartridgeContents {
+  manifest: CartridgeManifest;
+  source: string;
+  bundle: string;
+}
+
+// Hex SHA-256 of the manifest (see manifestText), source and bundle
+export interface CartridgeHashes {
+  manifest: string;
+  source: string;
+  bundle: string;
+}
+
+export interface CartridgeSignature {
+  author: string;
+  // Ed25519 public key, DER (SPKI) in base64
+  publicKey: string;
+  // Signature of signedText, base64
+  value: string;
+}
+
+export interface Cartridge extends CartridgeContents {
+  hashes: CartridgeHashes;
+  signature: CartridgeSignature | null;
+}
+
+export interface CartridgeSigner {
+  author: string;
+  // Ed25519 private key in PEM, e.g. from `openssl genpkey -algorithm ed25519`
+  privateKey: string;
+}
+
+// Characters a game ID may use; it names the bundle file (core/GameLoader)
+export const GAME_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+const MANIFEST_KEYS = [
+  'id', 'name', 'description', 'version', 'energyCost', 'xpReward', 'prompt', 'model',
+] as const satisfies readonly (keyof CartridgeManifest)[];
+
+const CartridgeFileSchema = z.object({
+  format: z.literal(CARTRIDGE_FORMAT),
+  version: z.literal(CARTRIDGE_VERSION),
+  manifest: z.object({
+    id: z.string().regex(GAME_ID_PATTERN, 'must be letters, digits, - or _'),
+    name: z.string().min(1).max(100),
+    description: z.string(),
+    version: z.number().int().positive(),
+    energyCost: z.number().int().min(0).max(100),
+    xpReward: z.number().int().min(0).max(100),
+    prompt: z.string().nullable(),
+    model: z.string().nullable(),
+  }),
+  source: z.string().min(1),
+  bundle: z.string().min(1),
+  hashes: z.object({
+    manifest: z.string(),
+    source: z.string(),
+    bundle: z.string(),
+  }),
+  signature: z.object({
+    author: z.string().min(1).max(100),
+    publicKey: z.string().min(1),
+    value: z.string().min(1),
+  }).nullable(),
+});
+
+const sha256 = (text: string): string => createHash('sha256').update(text, 'utf-8').digest('hex');
+
+// The manifest with its keys in a fixed order, so its hash is stable
+const manifestText = (manifest: CartridgeManifest): string =>
+  JSON.stringify(MANIFEST_KEYS.map(key => [key, manifest[key]]));
+
+// What an author signs: the hashes cover everything else in the cartridge
+const signedText = (hashes: CartridgeHashes, author: string): string =>
+  JSON.stringify([CARTRIDGE_FORMAT, CARTRIDGE_VERSION, author, hashes.manifest, hashes.source, hashes.bundle]);
+
+export const hashCartridge = ({ manifest, source, bundle }: CartridgeContents): CartridgeHashes => ({
+  manifest: sha256(manifestText(manifest)),
+  source: sha256(source),
+  bundle: sha256(bundle),
+});
+
+/**
+ * Short fingerprint of an author's public key (base64 DER), shown on import
+ * so players can tell authors with the same name apart
+ */
+export const keyFingerprint = (publicKey: string): string =>
+  createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex').slice(0, 16);
+
+const signCartridge = (hashes: CartridgeHashes, signer: CartridgeSigner): CartridgeSignature => {
+  const privateKey = createPrivateKey(signer.privateKey);
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Cartridges are signed with Ed25519 keys, not ${privateKey.asymmetricKeyType}`);
+  }
+  return {
+    author: signer.author,
+    publicKey: createPublicKey(privateKey).export({ type: 'spki', format: 'der' }).toString('base64'),
+    value: sign(null, Buffer.from(signedText(hashes, signer.author)), privateKey).toString('base64'),
+  };
+};
+
+const verifySignature = (hashes: CartridgeHashes, signature: CartridgeSignature): boolean => {
+  try {
+    const publicKey = createPublicKey({ key: Buffer.from(signature.publicKey, 'base64'), format: 'der', type: 'spki' });
+    if (publicKey.asymmetricKeyType !== 'ed25519') return false;
+    return verify(null, Buffer.from(signedText(hashes, signature.author)), publicKey, Buffer.from(signature.value, 'base64'));
+  } catch {
+    return false;
+  }
+};
+
+export const encodeCartridge = (contents: CartridgeContents, signer?: CartridgeSigner): string => {
+  const hashes = hashCartridge(contents);
+  const signature = signer ? signCartridge(hashes, signer) : null;
+  return JSON.stringify({
+    format: CARTRIDGE_FORMAT,
+    version: CARTRIDGE_VERSION,
+    manifest: contents.manifest,
+    source: contents.source,
+    bundle: contents.bundle,
+    hashes,
+    signature,
+  }, null, 2) + '\n';
+};
+
+/**
+ * Parse a cartridge and check its hashes and signature, throwing a readable
+ * error if it is not a cartridge or was changed after it was exported
+ */
+export const decodeCartridge = (text: string): Cartridge => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a cartridge: invalid JSON');
+  }
+
+  const parsed = CartridgeFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a valid cartridge: ${issue.path.join('.') || 'file'} ${issue.message}`);
+  }
+  const { format: _format, version: _version, ...cartridge } = parsed.data;
+
+  const hashes = hashCartridge(cartridge);
+  for (const part of ['manifest', 'source', 'bundle'] as const) {
+    if (hashes[part] !== cartridge.hashes[part]) {
+      throw new Error(`Cartridge is damaged: its ${part} does not match its SHA-256 hash`);
+    }
+  }
+  if (cartridge.signature && !verifySignature(hashes, cartridge.signature)) {
+    throw new Error(`Cartridge signature by '${cartridge.signature.author}' is not valid`);
+  }
+  return cartridge;
+};
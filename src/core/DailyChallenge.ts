@@ -0,0 +1,56 @@
+import { hashSeed } from './SeededRandom.js';
+
+/**
+ * DailyChallenge - One seeded run per day, the same for every player
+ *
+ * The game and the seed are derived from the local date only, so every
+ * install picks the same challenge on the same day without a server.
+ */
+
+export type DailyChallengeGameId = 'snake' | 'dinorun' | 'sudoku';
+
+// How runs are ranked on the day's leaderboard
+export type DailyRanking = 'score' | 'time';
+
+export interface DailyChallengeGame {
+  gameId: DailyChallengeGameId;
+  name: string;
+  difficulty: 'medium';
+  ranking: DailyRanking;
+}
+
+export const DAILY_CHALLENGE_GAMES: DailyChallengeGame[] = [
+  { gameId: 'snake', name: '🐍 Snake', difficulty: 'medium', ranking: 'score' },
+  { gameId: 'dinorun', name: '🦖 Dino Run', difficulty: 'medium', ranking: 'score' },
+  // Only solved puzzles count, fastest first
+  { gameId: 'sudoku', name: '🧩 Sudoku', difficulty: 'medium', ranking: 'time' },
+];
+
+export interface DailyChallenge extends DailyChallengeGame {
+  date: string;   // Local 'YYYY-MM-DD'
+  seed: number;
+}
+
+export const toChallengeDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * The challenge for a local date ('YYYY-MM-DD')
+ */
+export const getDailyChallenge = (date: string): DailyChallenge => {
+  const game = DAILY_CHALLENGE_GAMES[hashSeed(`liku-daily-game:${date}`) % DAILY_CHALLENGE_GAMES.length];
+  return { ...game, date, seed: hashSeed(`liku-daily-seed:${date}`) };
+};
+
+export const getTodaysChallenge = (now: Date = new Date()): DailyChallenge =>
+  getDailyChallenge(toChallengeDate(now));
+
+/**
+ * Shift a 'YYYY-MM-DD' date by whole days
+ */
+export const shiftChallengeDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toChallengeDate(new Date(year, month - 1, day + days));
+};
@@ -0,0 +1,41 @@
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * GameImports - The modules community games may import
+ *
+ * Checked twice: statically before a game is installed
+ * (builder/GameCodeAnalyzer) and again when esbuild bundles it
+ * (gameImportPlugin, used by core/GameLoader).
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const SDK_PATH = path.join(__dirname, '..', 'sdk', 'index.js');
+
+export const ALLOWED_GAME_IMPORTS = ['react', 'react/jsx-runtime', 'ink', 'liku-sdk'];
+
+/**
+ * Why a game may not import a module, or null when it may
+ */
+export const checkGameImport = (specifier: string): string | null =>
+  ALLOWED_GAME_IMPORTS.includes(specifier)
+    ? null
+    : `'${specifier}' cannot be imported by community games (allowed: ${ALLOWED_GAME_IMPORTS.join(', ')})`;
+
+/**
+ * esbuild plugin that keeps the allowed modules external, points liku-sdk
+ * at the hub's copy and fails the build on anything else
+ */
+export const gameImportPlugin = {
+  name: 'liku-game-imports',
+  setup(build: { onResolve: (options: { filter: RegExp }, callback: (args: { path: string; kind: string }) => any) => void }) {
+    build.onResolve({ filter: /.*/ }, (args) => {
+      if (args.kind === 'entry-point') return undefined;
+      const error = checkGameImport(args.path);
+      if (error) return { errors: [{ text: error }] };
+      if (args.path === 'liku-sdk') return { path: pathToFileURL(SDK_PATH).href, external: true };
+      return { path: args.path, external: true };
+    });
+  },
+};
@@ -1,21 +1,63 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { db } from '../services/DatabaseService.js';
-import { fileURLToPath, pathToFileURL } from 'url';
+import { db, GameOutcome, GameVersion } from '../services/DatabaseService.js';
+import { parseGameManifest, GameManifestRewards } from '../builder/ElicitationAgent.js';
+import { rewardEngine } from './RewardEngine.js';
+import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { build } from 'esbuild';
 import os from 'os';
-import React, { ComponentType, Suspense, Component, ReactNode } from 'react';
-import { Text, Box } from 'ink';
+import React, { ComponentType, Component, ReactNode } from 'react';
+import { Text, Box, useInput } from 'ink';
+import { readGameManifest, smokeTestGame, SandboxedGame, GameSandboxError } from './GameSandbox.js';
+import type { SmokeTestResult } from './GameSmokeTest.js';
+import { gameImportPlugin } from './GameImports.js';
+import { validateGameCode, GameCodeValidation, CodeDiagnostic } from '../builder/GameCodeAnalyzer.js';
+import { encodeCartridge, Cartridge, CartridgeSigner, GAME_ID_PATTERN } from './Cartridge.js';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Result a community game reports through its onReport prop. Reports are
+// merged, so a game can send the score as it changes and the outcome at the end.
+export interface GameReport {
+  outcome?: Exclude<GameOutcome, 'abandoned'>;
+  score?: number;
+  // Seed of the run's random numbers (liku-sdk useSeededRandom reports it)
+  seed?: number;
+}
+
+const REPORTED_OUTCOMES: ReadonlyArray<NonNullable<GameReport['outcome']>> = ['win', 'loss', 'draw', 'finished'];
+
+/**
+ * A reported outcome the hub can use, or undefined. Reports come from
+ * untrusted game code, which the worker's own check cannot fully contain.
+ */
+export const reportedOutcome = (value: unknown): GameReport['outcome'] =>
+  REPORTED_OUTCOMES.find(outcome => outcome === value);
+
+export interface CommunityGameProps {
+  onExit: () => void;
+  difficulty?: string;
+  onReport?: (report: GameReport) => void;
+  // Hub theme, handed to the game through liku-sdk
+  theme?: string;
+}
+
 // Type for loaded game components
 export interface LoadedGame {
-  Component: ComponentType<{ onExit: () => void; difficulty?: string }>;
-  metadata: { id: string; name: string; description: string };
+  Component: ComponentType<CommunityGameProps>;
+  metadata: { id: string; name: string; description: string; energyCost: number; xpReward: number };
+}
+
+export interface CommunityGameInfo {
+  id: string;
+  name: string;
+  description: string;
+  energyCost: number;
+  xpReward: number;
+  version: number;
 }
 
 // Cache for performance - avoids re-importing on repeat plays
@@ -26,13 +68,28 @@ export interface GameInstallResult {
   gameId: string;
   message: string;
   error?: string;
+  // Findings of the static analysis gate (builder/GameCodeAnalyzer)
+  diagnostics?: CodeDiagnostic[];
+  // Set when the game was refused for failing its smoke test
+  smokeTest?: SmokeTestResult;
+  // Version installed, updated to or rolled back to
+  version?: number;
 }
 
+type GameBuild =
+  | { built: true; manifest: GameManifestRewards; bundle: string }
+  | { built: false; result: GameInstallResult };
+
+// Bundle of a version in games/community; the first keeps the plain name
+const bundleFileName = (gameId: string, version: number) =>
+  version === 1 ? `${gameId}.js` : `${gameId}.v${version}.js`;
+
 // ============================================================
 // Error Boundary - Prevents broken AI games from crashing app
 // ============================================================
 interface ErrorBoundaryProps {
   gameName: string;
+  onExit: () => void;
   children?: ReactNode;
 }
 
@@ -41,6 +98,28 @@ interface ErrorBoundaryState {
   error: Error | null;
 }
 
+const CrashScreen: React.FC<{ gameName: string; error: Error | null; onExit: () => void }> = ({ gameName, error, onExit }) => {
+  useInput((_input, key) => {
+    if (key.escape) onExit();
+  });
+
+  // Games the sandbox's watchdogs stopped did not crash by themselves
+  const stopped = error instanceof GameSandboxError && error.reason !== 'crash';
+  return React.createElement(Box, { flexDirection: 'column', padding: 1 },
+    React.createElement(Text, { color: 'red', bold: true }, 
+      stopped ? `🛑 Game "${gameName}" was stopped!` : `💥 Game "${gameName}" crashed!`
+    ),
+    React.createElement(Text, { color: 'yellow' }, 
+      error?.message || 'Unknown error'
+    ),
+    React.createElement(Box, { marginTop: 1 },
+      React.createElement(Text, { dimColor: true }, 
+        'Press ESC to return to menu'
+      )
+    )
+  );
+};
+
 class GameErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
   constructor(props: ErrorBoundaryProps) {
     super(props);
@@ -57,37 +136,22 @@ class GameErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState
 
   render() {
     if (this.state.hasError) {
-      return React.createElement(Box, { flexDirection: 'column', padding: 1 },
-        React.createElement(Text, { color: 'red', bold: true }, 
-          `💥 Game "${this.props.gameName}" crashed!`
-        ),
-        React.createElement(Text, { color: 'yellow' }, 
-          this.state.error?.message || 'Unknown error'
-        ),
-        React.createElement(Box, { marginTop: 1 },
-          React.createElement(Text, { dimColor: true }, 
-            'Press ESC to return to menu'
-          )
-        )
-      );
+      return React.createElement(CrashScreen, {
+        gameName: this.props.gameName,
+        error: this.state.error,
+        onExit: this.props.onExit,
+      });
     }
     return this.props.children;
   }
 }
 
-// Loading fallback component
-const LoadingFallback: React.FC<{ name: string }> = ({ name }) => {
-  return React.createElement(Box, { padding: 1 },
-    React.createElement(Text, { color: 'yellow' }, `⏳ Loading ${name}...`)
-  );
-};
-
 export class GameLoader {
   private gamesDir: string;
 
-  constructor() {
+  constructor(gamesDir?: string) {
     // Path to community games directory
-    this.gamesDir = path.join(__dirname, '..', 'games', 'community');
+    this.gamesDir = gamesDir ?? path.join(__dirname, '..', 'games', 'community');
   }
 
   /**
@@ -95,16 +159,22 @@ export class GameLoader {
    */
   async installGeneratedGame(
     code: string,
-    meta: { id: string; name: string; description?: string }
+    meta: { id: string; name: string; description?: string; prompt?: string; model?: string }
   ): Promise<GameInstallResult> {
+    // Generated IDs come from model output and name files in the games directory
+    if (!GAME_ID_PATTERN.test(meta.id)) {
+      return {
+        success: false,
+        gameId: meta.id,
+        message: `Cannot install game '${meta.name}'`,
+        error: `Invalid game ID '${meta.id}': use up to 64 letters, digits, - or _, starting with a letter or digit`
+      };
+    }
+
     try {
       // Ensure community games directory exists
       await fs.mkdir(this.gamesDir, { recursive: true });
 
-      // Generate file name - save as .js since we transpile TSX to JS
-      const fileName = `${meta.id}.js`;
-      const filePath = path.join(this.gamesDir, fileName);
-
       // Check if game already exists
       const existingGame = await db.getGameById(meta.id);
       if (existingGame) {
@@ -115,47 +185,32 @@ export class GameLoader {
         };
       }
 
-      // Transpile and bundle TSX to JS using esbuild
-      // Use bundle mode with external dependencies to ensure proper module resolution
-      const tempInputFile = path.join(os.tmpdir(), `liku-game-${meta.id}-input.tsx`);
-      
-      // Strip out any internal imports that shouldn't be in community games
-      // These are internal modules that the AI might incorrectly include
-      const cleanedCode = code
-        .replace(/import.*GameStateLogger.*\n?/g, '')
-        .replace(/import.*logGameState.*\n?/g, '')
-        .replace(/logGameState\([^)]*\);?\n?/g, '');
-      
-      await fs.writeFile(tempInputFile, cleanedCode, 'utf-8');
-
-      await build({
-        entryPoints: [tempInputFile],
-        outfile: filePath,
-        bundle: true,
-        format: 'esm',
-        platform: 'node',
-        target: 'node20',
-        jsx: 'automatic',
-        jsxImportSource: 'react',
-        // Mark dependencies as external so they use the parent's instances
-        external: [
-          'react', 
-          'react/jsx-runtime', 
-          'ink',
-          '*/services/DatabaseService.js',
-          '*/core/GameStateLogger.js',  // In case any slip through
-        ],
-      });
-
-      // Clean up temp file
-      await fs.unlink(tempInputFile).catch(() => {});
+      const fileName = bundleFileName(meta.id, 1);
+      const gameBuild = await this.buildGame(code, meta, fileName);
+      if (!gameBuild.built) {
+        return gameBuild.result;
+      }
 
-      // Register in database
+      // Register in database, keeping the source for later changes
       await db.registerGame({
         id: meta.id,
         name: meta.name,
         description: meta.description || '',
-        filePath: fileName
+        filePath: fileName,
+        energyCost: gameBuild.manifest.energyCost,
+        xpReward: gameBuild.manifest.xpReward
+      });
+      await db.addGameVersion({
+        gameId: meta.id,
+        version: 1,
+        source: code,
+        filePath: fileName,
+        energyCost: gameBuild.manifest.energyCost,
+        xpReward: gameBuild.manifest.xpReward,
+        changeRequest: null,
+        prompt: meta.prompt ?? null,
+        model: meta.model ?? null,
+        bundle: gameBuild.bundle
       });
 
       console.log(`⚡ Cartridge '${meta.name}' burned successfully.`);
@@ -163,7 +218,8 @@ export class GameLoader {
       return {
         success: true,
         gameId: meta.id,
-        message: `✅ Game '${meta.name}' installed successfully! You can now play it from the games menu.`
+        message: `✅ Game '${meta.name}' installed successfully! You can now play it from the games menu.`,
+        version: 1
       };
     } catch (error) {
       console.error('Error installing game:', error);
@@ -177,10 +233,345 @@ export class GameLoader {
   }
 
   /**
-   * Load a game dynamically by ID
-   * Uses direct ESM import with file:// URL for Windows compatibility
-   * Games are bundled with react/ink as externals, so they share the parent's instances
-   * Wrapped with ErrorBoundary + Suspense for resilience
+   * Install the game in a checked cartridge (core/Cartridge decodeCartridge).
+   * It is built again from its source and validated like a generated game;
+   * the cartridge's bundle is never run.
+   */
+  async installCartridge(cartridge: Cartridge): Promise<GameInstallResult> {
+    const { manifest } = cartridge;
+    return this.installGeneratedGame(cartridge.source, {
+      id: manifest.id,
+      name: manifest.name,
+      description: manifest.description,
+      prompt: manifest.prompt ?? undefined,
+      model: manifest.model ?? undefined,
+    });
+  }
+
+  /**
+   * Install a changed version of an installed game. The previous versions
+   * stay stored, so the change can be rolled back.
+   */
+  async updateGame(
+    gameId: string,
+    code: string,
+    options: { changeRequest: string; prompt?: string; model?: string }
+  ): Promise<GameInstallResult> {
+    try {
+      const game = await db.getGameById(gameId);
+      if (!game) {
+        return { success: false, gameId, message: `Game '${gameId}' not found` };
+      }
+
+      const versions = await db.getGameVersions(gameId);
+      const version = Math.max(game.version, versions[0]?.version ?? 0) + 1;
+      const fileName = bundleFileName(gameId, version);
+      const meta = { id: game.id, name: game.name, description: game.description ?? undefined };
+
+      await fs.mkdir(this.gamesDir, { recursive: true });
+      const gameBuild = await this.buildGame(code, meta, fileName);
+      if (!gameBuild.built) {
+        return gameBuild.result;
+      }
+
+      await db.addGameVersion({
+        gameId,
+        version,
+        source: code,
+        filePath: fileName,
+        energyCost: gameBuild.manifest.energyCost,
+        xpReward: gameBuild.manifest.xpReward,
+        changeRequest: options.changeRequest,
+        prompt: options.prompt ?? null,
+        model: options.model ?? null,
+        bundle: gameBuild.bundle
+      });
+      this.clearCache(gameId);
+
+      return {
+        success: true,
+        gameId,
+        message: `✅ Game '${game.name}' updated to version ${version}.`,
+        version
+      };
+    } catch (error) {
+      console.error('Error updating game:', error);
+      return {
+        success: false,
+        gameId,
+        message: `Failed to update game '${gameId}'`,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Go back to a stored version of a game; by default the newest one
+   * before the version being played
+   */
+  async rollbackGame(gameId: string, toVersion?: number): Promise<GameInstallResult> {
+    try {
+      const game = await db.getGameById(gameId);
+      if (!game) {
+        return { success: false, gameId, message: `Game '${gameId}' not found` };
+      }
+
+      const versions = await db.getGameVersions(gameId);
+      const target = toVersion !== undefined
+        ? versions.find(v => v.version === toVersion)
+        : versions.find(v => v.version < game.version);
+      if (!target) {
+        return {
+          success: false,
+          gameId,
+          message: toVersion !== undefined
+            ? `Game '${game.name}' has no version ${toVersion}`
+            : `Game '${game.name}' has no version before ${game.version}`
+        };
+      }
+
+      // A deleted bundle comes back from the copy kept with the version
+      const bundlePath = path.join(this.gamesDir, target.filePath);
+      try {
+        await fs.access(bundlePath);
+      } catch {
+        const stored = await db.getGameVersion(gameId, target.version);
+        if (!stored?.bundle) {
+          return {
+            success: false,
+            gameId,
+            message: `Cannot roll back '${game.name}'`,
+            error: `Bundle of version ${target.version} is missing: ${target.filePath}. Rebuild it from source first.`
+          };
+        }
+        await fs.mkdir(this.gamesDir, { recursive: true });
+        await fs.writeFile(bundlePath, stored.bundle, 'utf-8');
+      }
+
+      await db.activateGameVersion(gameId, target.version);
+      this.clearCache(gameId);
+      return {
+        success: true,
+        gameId,
+        message: `↩️ Game '${game.name}' rolled back to version ${target.version}.`,
+        version: target.version
+      };
+    } catch (error) {
+      console.error('Error rolling back game:', error);
+      return {
+        success: false,
+        gameId,
+        message: `Failed to roll back game '${gameId}'`,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Build a stored version of a game (by default the one being played)
+   * again from its source, e.g. after a React or Ink upgrade. The old
+   * bundle stays in place when the new build fails.
+   */
+  async rebuildGame(gameId: string, version?: number): Promise<GameInstallResult> {
+    try {
+      const game = await db.getGameById(gameId);
+      if (!game) {
+        return { success: false, gameId, message: `Game '${gameId}' not found` };
+      }
+      const target = await db.getGameVersion(gameId, version ?? game.version);
+      if (!target) {
+        return {
+          success: false,
+          gameId,
+          message: `Cannot rebuild '${game.name}'`,
+          error: version !== undefined
+            ? `It has no version ${version}`
+            : 'Its source was not kept (installed before game versions existed)'
+        };
+      }
+
+      const meta = { id: game.id, name: game.name, description: game.description ?? undefined };
+      const staging = target.filePath.replace(/\.js$/, '.rebuild.js');
+      await fs.mkdir(this.gamesDir, { recursive: true });
+      const gameBuild = await this.buildGame(target.source, meta, staging);
+      if (!gameBuild.built) {
+        return gameBuild.result;
+      }
+
+      await fs.rename(path.join(this.gamesDir, staging), path.join(this.gamesDir, target.filePath));
+      await db.updateGameVersionBuild(gameId, target.version, {
+        bundle: gameBuild.bundle,
+        energyCost: gameBuild.manifest.energyCost,
+        xpReward: gameBuild.manifest.xpReward
+      });
+      this.clearCache(gameId);
+
+      return {
+        success: true,
+        gameId,
+        message: `🔧 Game '${game.name}' version ${target.version} rebuilt.`,
+        version: target.version
+      };
+    } catch (error) {
+      console.error('Error rebuilding game:', error);
+      return {
+        success: false,
+        gameId,
+        message: `Failed to rebuild game '${gameId}'`,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Rebuild the version being played of every community game with a kept
+   * source, one at a time
+   */
+  async rebuildAllGames(): Promise<GameInstallResult[]> {
+    const results: GameInstallResult[] = [];
+    for (const game of await db.getRegisteredGames()) {
+      if (await db.getGameVersion(game.id, game.version)) {
+        results.push(await this.rebuildGame(game.id));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Source of the version of a game being played; null for games installed
+   * before sources were kept
+   */
+  async getGameSource(gameId: string): Promise<GameVersion | null> {
+    const game = await db.getGameById(gameId);
+    return game ? db.getGameVersion(gameId, game.version) : null;
+  }
+
+  /**
+   * The version of a game being played as a cartridge file (core/Cartridge),
+   * signed when a signer is given
+   */
+  async exportCartridge(gameId: string, signer?: CartridgeSigner): Promise<string> {
+    const game = await db.getGameById(gameId);
+    if (!game) {
+      throw new Error(`Game '${gameId}' not found`);
+    }
+    const version = await db.getGameVersion(gameId, game.version);
+    if (!version) {
+      throw new Error(`${game.name} was installed before sources were kept, so it cannot be exported`);
+    }
+
+    // Versions stored before bundles were kept still have theirs on disk
+    const bundle = version.bundle ?? await fs.readFile(path.join(this.gamesDir, version.filePath), 'utf-8');
+    return encodeCartridge({
+      manifest: {
+        id: game.id,
+        name: game.name,
+        description: game.description ?? '',
+        version: version.version,
+        energyCost: version.energyCost,
+        xpReward: version.xpReward,
+        prompt: version.prompt,
+        model: version.model,
+      },
+      source: version.source,
+      bundle,
+    }, signer);
+  }
+
+  /**
+   * Analyze, bundle and smoke-test a game's code into games/community/
+   * `fileName`, reading its GameManifest on the way. A bundle that fails is
+   * deleted again.
+   */
+  private async buildGame(
+    code: string,
+    meta: { id: string; name: string; description?: string },
+    fileName: string
+  ): Promise<GameBuild> {
+    const filePath = path.join(this.gamesDir, fileName);
+
+    // Static analysis gate: the code is installed exactly as analyzed, so
+    // diagnostics point at the lines the builder shows
+    const validation = validateGameCode(code);
+    if (!validation.valid) {
+      return {
+        built: false,
+        result: {
+          success: false,
+          gameId: meta.id,
+          message: `Game '${meta.name}' failed static analysis`,
+          error: validation.errors.join('; '),
+          diagnostics: validation.diagnostics
+        }
+      };
+    }
+
+    // Transpile and bundle TSX to JS using esbuild
+    // Use bundle mode with external dependencies to ensure proper module resolution
+    const tempInputFile = path.join(os.tmpdir(), `liku-game-${meta.id}-input.tsx`);
+    await fs.writeFile(tempInputFile, code, 'utf-8');
+
+    try {
+      await build({
+        entryPoints: [tempInputFile],
+        outfile: filePath,
+        bundle: true,
+        format: 'esm',
+        platform: 'node',
+        target: 'node20',
+        jsx: 'automatic',
+        jsxImportSource: 'react',
+        // Only react, ink and liku-sdk may be imported; they stay external
+        // so the game uses the sandbox's instances (see core/GameSandbox)
+        plugins: [gameImportPlugin],
+        // No import() of computed names
+        supported: { 'dynamic-import': false },
+      });
+    } finally {
+      // Clean up temp file
+      await fs.unlink(tempInputFile).catch(() => {});
+    }
+
+    // The energy cost and XP reward come from the game's own GameManifest
+    let manifest;
+    try {
+      manifest = await this.readManifest(filePath, meta);
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => {});
+      throw error;
+    }
+
+    // A few seconds of headless play must render, not throw and exit on ESC
+    const smokeTest = await smokeTestGame(filePath, meta);
+    if (!smokeTest.passed) {
+      await fs.unlink(filePath).catch(() => {});
+      return {
+        built: false,
+        result: {
+          success: false,
+          gameId: meta.id,
+          message: `Game '${meta.name}' failed its smoke test`,
+          error: smokeTest.failure?.message,
+          smokeTest
+        }
+      };
+    }
+
+    return { built: true, manifest, bundle: await fs.readFile(filePath, 'utf-8') };
+  }
+
+  /**
+   * Read a freshly built game's GameManifest export (in a sandbox) and
+   * validate it
+   */
+  private async readManifest(filePath: string, meta: { id: string; name: string }): Promise<{ energyCost: number; xpReward: number }> {
+    return parseGameManifest(await readGameManifest(filePath, meta));
+  }
+
+  /**
+   * Load a game by ID. The game itself only runs once it is rendered, in a
+   * sandboxed worker (core/GameSandbox); crashes and games stopped by the
+   * sandbox's watchdogs end up in GameErrorBoundary.
    */
   async loadGame(gameId: string): Promise<LoadedGame> {
     // Return cached game if available
@@ -203,30 +594,21 @@ export class GameLoader {
         throw new Error(`Game file not found: ${game.filePath}`);
       }
 
-      // Convert Windows path to file:// URL for ESM compatibility
-      const gameUrl = pathToFileURL(gamePath).href;
-
-      // Dynamic import - since we bundled with external: ['react', 'ink'],
-      // the game will use the same React/Ink instances as the parent
-      const gameModule = await import(gameUrl);
-      const GameComponent = gameModule.default || gameModule;
-
-      // Wrap component with ErrorBoundary + Suspense + safe props handling
-      const WrappedComponent: ComponentType<{ onExit: () => void; difficulty?: string }> = (props) => {
+      const WrappedComponent: ComponentType<CommunityGameProps> = (props) => {
         const safeProps = props || {};
         const safeOnExit = safeProps.onExit || (() => {});
-        
+        const safeOnReport = safeProps.onReport || (() => {});
+
         return React.createElement(
           GameErrorBoundary,
-          { gameName: game.name },
-          React.createElement(
-            Suspense,
-            { fallback: React.createElement(LoadingFallback, { name: game.name }) },
-            React.createElement(GameComponent, {
-              ...safeProps,
-              onExit: safeOnExit,
-            })
-          )
+          { gameName: game.name, onExit: safeOnExit },
+          React.createElement(SandboxedGame, {
+            game: { id: game.id, name: game.name, filePath: gamePath },
+            onExit: safeOnExit,
+            onReport: safeOnReport,
+            difficulty: safeProps.difficulty,
+            theme: safeProps.theme,
+          })
         );
       };
 
@@ -236,11 +618,14 @@ export class GameLoader {
           id: game.id,
           name: game.name,
           description: game.description || 'No description',
+          energyCost: game.energyCost,
+          xpReward: game.xpReward,
         },
       };
 
       // Cache for future loads
       gameCache.set(gameId, loaded);
+      rewardEngine.setCommunityGame(game.id, game);
       return loaded;
     } catch (error) {
       console.error(`Error loading game '${gameId}':`, error);
@@ -262,13 +647,16 @@ export class GameLoader {
   /**
    * List all available community games
    */
-  async listCommunityGames(): Promise<Array<{ id: string; name: string; description: string }>> {
+  async listCommunityGames(): Promise<CommunityGameInfo[]> {
     try {
       const games = await db.getRegisteredGames();
       return games.map(g => ({
         id: g.id,
         name: g.name,
-        description: g.description || 'No description'
+        description: g.description || 'No description',
+        energyCost: g.energyCost,
+        xpReward: g.xpReward,
+        version: g.version
       }));
     } catch (error) {
       console.error('Error listing community games:', error);
@@ -277,7 +665,8 @@ export class GameLoader {
   }
 
   /**
-   * Remove a game from the file system and database
+   * Uninstall a game: its registry entry and versions, leaderboard entries
+   * and saved data (db.removeGame), then the bundle of every version
    */
   async removeGame(gameId: string): Promise<GameInstallResult> {
     try {
@@ -290,21 +679,27 @@ export class GameLoader {
         };
       }
 
-      // Delete the file
-      const filePath = path.join(this.gamesDir, game.filePath);
-      try {
-        await fs.unlink(filePath);
-      } catch (error) {
-        console.warn(`Could not delete game file: ${error}`);
+      // Read before the versions are deleted with the game
+      const versions = await db.getGameVersions(gameId);
+      const files = new Set([game.filePath, ...versions.map(version => version.filePath)]);
+
+      const removed = await db.removeGame(gameId);
+      this.clearCache(gameId);
+      if (!removed) {
+        return { success: false, gameId, message: `Game '${gameId}' not found` };
       }
 
-      // TODO: Remove from database (needs new DB method)
-      // For now, we just delete the file
+      for (const file of files) {
+        await fs.rm(path.join(this.gamesDir, file), { force: true }).catch(error => {
+          console.warn(`Could not delete game file: ${error}`);
+        });
+      }
 
       return {
         success: true,
         gameId,
-        message: `Game '${game.name}' removed successfully`
+        message: `🗑️ Game '${game.name}' removed (versions: ${removed.versions}, `
+          + `leaderboard entries: ${removed.leaderboardEntries}, saved values: ${removed.storedKeys}).`
       };
     } catch (error) {
       return {
@@ -319,31 +714,8 @@ export class GameLoader {
   /**
    * Validate game code before installation
    */
-  validateGameCode(code: string): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // Check for required imports
-    if (!code.includes("from 'react'") && !code.includes('from "react"')) {
-      errors.push('Missing React import');
-    }
-    if (!code.includes("from 'ink'") && !code.includes('from "ink"')) {
-      errors.push('Missing Ink import');
-    }
-
-    // Check for export
-    if (!code.includes('export default') && !code.includes('export {')) {
-      errors.push('Missing default export');
-    }
-
-    // Check for basic component structure
-    if (!code.includes('const ') && !code.includes('function ')) {
-      errors.push('No component definition found');
-    }
-
-    return {
-      valid: errors.length === 0,
-      errors
-    };
+  validateGameCode(code: string): GameCodeValidation {
+    return validateGameCode(code);
   }
 }
 
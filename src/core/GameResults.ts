@@ -0,0 +1,101 @@
+import { db, GameOutcome, LeaderboardEntry } from '../services/DatabaseService.js';
+import { achievementEngine } from './AchievementEngine.js';
+
+/**
+ * GameResults - The one path every finished run goes through
+ *
+ * Built-in games report via useGameSession, community games via their
+ * onReport results. Each run is stored in game_sessions, completed runs also
+ * get a leaderboard row, and achievements are checked afterwards.
+ */
+
+export interface GameRunResult {
+  gameId: string;
+  difficulty: string | null;
+  startedAt: Date;
+  endedAt: Date;
+  outcome: GameOutcome;
+  score: number | null;
+  xpEarned: number;
+  energySpent: number;
+  seed: number | null;
+}
+
+// ============================================================
+// Leaderboards
+// ============================================================
+
+// Stored as leaderboards.meta_data
+export interface LeaderboardMetaData {
+  difficulty: string | null;
+  durationMs: number;
+  seed: number | null;
+  outcome: GameOutcome;
+  sessionId: number;
+}
+
+export type LeaderboardRanking = 'score' | 'time';
+
+// Games without a meaningful score rank their wins by time instead
+const TIME_RANKED_GAMES: Record<string, true> = {
+  tictactoe: true,
+  sudoku: true,
+};
+
+export const getLeaderboardRanking = (gameId: string): LeaderboardRanking =>
+  TIME_RANKED_GAMES[gameId] ? 'time' : 'score';
+
+/**
+ * The structured meta_data of an entry; rows written before it existed
+ * only have what they have
+ */
+export const readLeaderboardMetaData = (entry: LeaderboardEntry): Partial<LeaderboardMetaData> => {
+  try {
+    const data = JSON.parse(entry.metaData);
+    return data && typeof data === 'object' ? data : {};
+  } catch {
+    return {};
+  }
+};
+
+// ============================================================
+// Reporting
+// ============================================================
+
+/**
+ * Record a run. Abandoned runs only go to the game history.
+ * Resolves with the game_sessions id.
+ */
+export const reportGameResult = async (run: GameRunResult): Promise<number> => {
+  const sessionId = await db.recordGameSession({
+    gameId: run.gameId,
+    difficulty: run.difficulty,
+    startedAt: run.startedAt.toISOString(),
+    endedAt: run.endedAt.toISOString(),
+    score: run.score,
+    xpEarned: run.xpEarned,
+    energySpent: run.energySpent,
+    outcome: run.outcome,
+    seed: run.seed
+  });
+
+  if (run.outcome !== 'abandoned') {
+    const metaData: LeaderboardMetaData = {
+      difficulty: run.difficulty,
+      durationMs: Math.max(0, run.endedAt.getTime() - run.startedAt.getTime()),
+      seed: run.seed,
+      outcome: run.outcome,
+      sessionId
+    };
+    await db.addLeaderboardEntry({
+      gameId: run.gameId,
+      profileId: db.getActiveProfileId(),
+      score: run.score ?? 0,
+      metaData: JSON.stringify(metaData)
+    });
+  }
+
+  // Checked after recording so history-based achievements count this run
+  await achievementEngine.check({ gameId: run.gameId, outcome: run.outcome, score: run.score, difficulty: run.difficulty });
+  return sessionId;
+};
@@ -0,0 +1,366 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Text, useStdin, useStdout } from 'ink';
+import { db } from '../services/DatabaseService.js';
+import { logGameState } from './GameStateLogger.js';
+import type { GameReport } from './GameLoader.js';
+import type { SmokeTestOptions, SmokeTestResult } from './GameSmokeTest.js';
+
+/**
+ * GameSandbox - Runs community games away from the hub
+ *
+ * Generated code is untrusted, so it never runs in the hub's thread:
+ * - At bundle time only react, ink and liku-sdk can be imported
+ *   (core/GameImports)
+ * - At run time each game gets its own worker thread (GameSandboxWorker)
+ *   with an empty environment, process.exit/fetch/eval and friends
+ *   disabled, and a heap limit. It renders with its own Ink instance and
+ *   sends finished frames here; keys are forwarded to it, and liku-sdk
+ *   calls (storage, best score, state logging) come back as messages.
+ * - A watchdog expects a heartbeat from the worker; a game that keeps its
+ *   thread busy (an endless loop) or runs out of memory is terminated and
+ *   the failure is thrown to GameErrorBoundary.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Run from the sources (the test suite), the worker is TypeScript too and
+// loads through ts-node, a dev dependency
+const FROM_SOURCES = path.extname(__filename) === '.ts';
+const WORKER_PATH = path.join(__dirname, FROM_SOURCES ? 'GameSandboxWorker.ts' : 'GameSandboxWorker.js');
+const WORKER_EXEC_ARGV = FROM_SOURCES
+  ? ['--loader', pathToFileURL(createRequire(import.meta.url).resolve('ts-node/esm/transpile-only')).href, '--no-warnings']
+  : undefined;
+
+// ============================================================
+// Limits
+// ============================================================
+
+export interface SandboxLimits {
+  // Heap a game may use
+  memoryMb: number;
+  // How long a game may keep its thread busy without a heartbeat
+  stallMs: number;
+  // Time to load the game before the first heartbeat is due
+  startupMs: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  memoryMb: 128,
+  stallMs: 2000,
+  startupMs: 10000,
+};
+
+const HEARTBEAT_MS = 250;
+
+// Largest value a game may keep per useGameStorage key
+const MAX_GAME_DATA_BYTES = 64 * 1024;
+
+// ============================================================
+// Messages
+// ============================================================
+
+export interface SandboxWorkerData {
+  mode: 'play' | 'manifest' | 'smoke';
+  gameUrl: string;
+  gameId: string;
+  gameName: string;
+  difficulty: string | null;
+  theme: string | null;
+  columns: number;
+  rows: number;
+  heartbeatMs: number;
+  smoke?: SmokeTestOptions;
+}
+
+export type SandboxCall = 'getPersonalBest' | 'loadData' | 'saveData';
+
+// Worker to hub
+export type SandboxMessage =
+  | { type: 'heartbeat' }
+  | { type: 'frame'; frame: string }
+  | { type: 'report'; report: GameReport }
+  | { type: 'log'; status: string; visualState: string; controls?: string }
+  | { type: 'call'; id: number; method: SandboxCall; args: unknown[] }
+  | { type: 'exit' }
+  | { type: 'crash'; message: string }
+  | { type: 'manifest'; manifest: unknown }
+  | { type: 'smoke'; result: SmokeTestResult };
+
+// Hub to worker
+export type HubMessage =
+  | { type: 'input'; data: string }
+  | { type: 'reply'; id: number; value?: unknown; error?: string };
+
+export type SandboxFailure = 'cpu' | 'memory' | 'crash';
+
+export class GameSandboxError extends Error {
+  constructor(message: string, public readonly reason: SandboxFailure) {
+    super(message);
+    this.name = 'GameSandboxError';
+  }
+}
+
+// ============================================================
+// Sandbox
+// ============================================================
+
+interface SandboxHandlers {
+  onMessage: (message: SandboxMessage) => void;
+  onFailure: (error: GameSandboxError) => void;
+}
+
+// Colors the worker's Ink may use, matching the hub's terminal
+const colorLevel = (): string => {
+  if (process.env.FORCE_COLOR !== undefined) return process.env.FORCE_COLOR;
+  const depth = process.stdout.isTTY ? process.stdout.getColorDepth() : 1;
+  return depth >= 24 ? '3' : depth >= 8 ? '2' : depth >= 4 ? '1' : '0';
+};
+
+export class GameSandbox {
+  private worker: Worker;
+  private watchdog: NodeJS.Timeout;
+  private deadline: number;
+  private stopped = false;
+  // Whether the worker has answered once, ending the startup allowance
+  private started = false;
+  // Last lines the game wrote to stderr, shown when it crashes
+  private stderrTail = '';
+
+  constructor(
+    data: Omit<SandboxWorkerData, 'heartbeatMs'>,
+    private handlers: SandboxHandlers,
+    private limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+  ) {
+    this.deadline = Date.now() + limits.startupMs;
+    this.worker = new Worker(WORKER_PATH, {
+      workerData: { ...data, heartbeatMs: HEARTBEAT_MS } satisfies SandboxWorkerData,
+      env: { FORCE_COLOR: colorLevel() },
+      execArgv: WORKER_EXEC_ARGV,
+      stdout: true,
+      stderr: true,
+      resourceLimits: { maxOldGenerationSizeMb: limits.memoryMb },
+    });
+    this.worker.stdout.resume();
+    this.worker.stderr.on('data', (chunk: Buffer) => {
+      this.stderrTail = (this.stderrTail + chunk.toString()).slice(-500);
+    });
+
+    this.worker.on('message', (message: SandboxMessage) => {
+      if (this.stopped) return;
+      this.started = true;
+      this.deadline = Date.now() + limits.stallMs;
+      if (message.type !== 'heartbeat') handlers.onMessage(message);
+    });
+    this.worker.on('error', (error: Error & { code?: string }) => {
+      if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        this.fail(new GameSandboxError(`Stopped: used more than ${limits.memoryMb} MB of memory`, 'memory'));
+      } else {
+        this.fail(new GameSandboxError(error.message || this.stderrTail.trim() || 'Unknown error', 'crash'));
+      }
+    });
+    this.worker.on('exit', (code) => {
+      this.fail(new GameSandboxError(`The game stopped unexpectedly (exit code ${code})`, 'crash'));
+    });
+
+    this.watchdog = setInterval(() => {
+      if (Date.now() <= this.deadline) return;
+      this.fail(new GameSandboxError(this.started
+        ? `Stopped: the game was busy for more than ${limits.stallMs / 1000}s without responding`
+        : `Stopped: the game did not start within ${limits.startupMs / 1000}s`, 'cpu'));
+    }, Math.min(HEARTBEAT_MS, limits.stallMs / 4));
+  }
+
+  send(message: HubMessage): void {
+    if (!this.stopped) this.worker.postMessage(message);
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    clearInterval(this.watchdog);
+    this.worker.terminate().catch(() => {});
+  }
+
+  private fail(error: GameSandboxError): void {
+    if (this.stopped) return;
+    this.stop();
+    this.handlers.onFailure(error);
+  }
+}
+
+/**
+ * Load a built game in a sandbox just long enough to read its exported
+ * GameManifest (undefined when it has none)
+ */
+export const readGameManifest = (filePath: string, meta: { id: string; name: string }): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const sandbox = new GameSandbox({
+      mode: 'manifest',
+      gameUrl: pathToFileURL(filePath).href,
+      gameId: meta.id,
+      gameName: meta.name,
+      difficulty: null,
+      theme: null,
+      columns: 80,
+      rows: 24,
+    }, {
+      onMessage: (message) => {
+        if (message.type === 'manifest') {
+          sandbox.stop();
+          resolve(message.manifest);
+        } else if (message.type === 'crash') {
+          sandbox.stop();
+          reject(new GameSandboxError(message.message, 'crash'));
+        }
+      },
+      onFailure: reject,
+    });
+  });
+
+/**
+ * Smoke-test a built game in a sandbox (core/GameSmokeTest). Storage and
+ * reports go nowhere. A game the watchdogs stop fails the test.
+ */
+export const smokeTestGame = (
+  filePath: string,
+  meta: { id: string; name: string },
+  options: SmokeTestOptions = {}
+): Promise<SmokeTestResult> =>
+  new Promise((resolve) => {
+    const sandbox = new GameSandbox({
+      mode: 'smoke',
+      gameUrl: pathToFileURL(filePath).href,
+      gameId: meta.id,
+      gameName: meta.name,
+      difficulty: null,
+      theme: null,
+      columns: 80,
+      rows: 24,
+      smoke: options,
+    }, {
+      onMessage: (message) => {
+        if (message.type === 'smoke') {
+          sandbox.stop();
+          resolve(message.result);
+        } else if (message.type === 'crash') {
+          sandbox.stop();
+          resolve(stoppedResult('crash', message.message));
+        }
+      },
+      onFailure: (error) => resolve(stoppedResult(error.reason === 'crash' ? 'crash' : 'stopped', error.message)),
+    });
+  });
+
+const stoppedResult = (reason: 'crash' | 'stopped', message: string): SmokeTestResult => ({
+  passed: false,
+  failure: { reason, message },
+  frame: '',
+  frameCount: 0,
+  keysPressed: [],
+  simulatedMs: 0,
+});
+
+// ============================================================
+// Hub side of a running game
+// ============================================================
+
+const serveCall = async (gameId: string, method: SandboxCall, args: unknown[]): Promise<unknown> => {
+  switch (method) {
+    case 'getPersonalBest':
+      return db.getPersonalBest(gameId);
+    case 'loadData':
+      return db.getGameData(gameId, String(args[0]));
+    case 'saveData': {
+      const size = JSON.stringify(args[1] ?? null).length;
+      if (size > MAX_GAME_DATA_BYTES) {
+        throw new Error(`Game data '${String(args[0])}' is too large (${size} bytes, limit ${MAX_GAME_DATA_BYTES})`);
+      }
+      return db.setGameData(gameId, String(args[0]), args[1]);
+    }
+  }
+};
+
+export interface SandboxedGameProps {
+  game: { id: string; name: string; filePath: string };
+  onExit: () => void;
+  onReport: (report: GameReport) => void;
+  difficulty?: string;
+  theme?: string;
+}
+
+/**
+ * Shows a game running in its sandbox. Failures are thrown while
+ * rendering so the surrounding GameErrorBoundary reports them.
+ */
+export const SandboxedGame: React.FC<SandboxedGameProps> = ({ game, onExit, onReport, difficulty, theme }) => {
+  const [frame, setFrame] = useState<string | null>(null);
+  const [failure, setFailure] = useState<GameSandboxError | null>(null);
+  const { stdout } = useStdout();
+  const { internal_eventEmitter: inputEvents, setRawMode, isRawModeSupported } = useStdin();
+  const callbacksRef = useRef({ onExit, onReport });
+  callbacksRef.current = { onExit, onReport };
+
+  useEffect(() => {
+    const sandbox = new GameSandbox({
+      mode: 'play',
+      gameUrl: pathToFileURL(game.filePath).href,
+      gameId: game.id,
+      gameName: game.name,
+      difficulty: difficulty ?? null,
+      theme: theme ?? null,
+      columns: stdout.columns ?? 80,
+      rows: stdout.rows ?? 24,
+    }, {
+      onMessage: (message) => {
+        switch (message.type) {
+          case 'frame':
+            setFrame(message.frame.replace(/\n$/, ''));
+            break;
+          case 'report':
+            callbacksRef.current.onReport(message.report);
+            break;
+          case 'log':
+            logGameState(game.name, message.status, message.visualState, message.controls);
+            break;
+          case 'call':
+            serveCall(game.id, message.method, message.args)
+              .then(value => sandbox.send({ type: 'reply', id: message.id, value }))
+              .catch(err => sandbox.send({ type: 'reply', id: message.id, error: err instanceof Error ? err.message : String(err) }));
+            break;
+          case 'exit':
+            sandbox.stop();
+            callbacksRef.current.onExit();
+            break;
+          case 'crash':
+            sandbox.stop();
+            setFailure(new GameSandboxError(message.message, 'crash'));
+            break;
+        }
+      },
+      onFailure: setFailure,
+    });
+
+    const forwardInput = (data: string | Buffer) => sandbox.send({ type: 'input', data: String(data) });
+    if (isRawModeSupported) setRawMode(true);
+    inputEvents.on('input', forwardInput);
+    return () => {
+      inputEvents.off('input', forwardInput);
+      if (isRawModeSupported) setRawMode(false);
+      sandbox.stop();
+    };
+  }, []);
+
+  if (failure) throw failure;
+
+  if (frame === null) {
+    return React.createElement(Box, { padding: 1 },
+      React.createElement(Text, { color: 'yellow' }, `⏳ Loading ${game.name}...`)
+    );
+  }
+  return React.createElement(Text, null, frame);
+};
@@ -0,0 +1,201 @@
+import { parentPort, workerData } from 'worker_threads';
+import { PassThrough, Writable } from 'stream';
+import React, { Component, ReactNode } from 'react';
+import 'react/jsx-runtime';
+import { render } from 'ink';
+import '../sdk/index.js';
+import { LikuGameProvider, LikuGameHost } from '../sdk/context.js';
+import { getTheme } from '../sdk/theme.js';
+import { runSmokeTest } from './GameSmokeTest.js';
+import type { GameReport } from './GameLoader.js';
+import type { HubMessage, SandboxCall, SandboxMessage, SandboxWorkerData } from './GameSandbox.js';
+
+/**
+ * GameSandboxWorker - The worker thread a community game runs in
+ *
+ * Everything the game may use (react, ink, liku-sdk) is loaded first, then
+ * the thread is locked down before the game's own code is imported. The
+ * game is then played, asked for its GameManifest, or smoke-tested
+ * (core/GameSmokeTest), depending on the mode. See core/GameSandbox for
+ * the hub side.
+ */
+
+const data = workerData as SandboxWorkerData;
+const port = parentPort!;
+const post = (message: SandboxMessage) => port.postMessage(message);
+
+// ============================================================
+// Lockdown
+// ============================================================
+
+const blocked = (name: string) => (): never => {
+  throw new Error(`${name} is not available to community games`);
+};
+
+const lockDown = () => {
+  for (const name of ['exit', 'reallyExit', 'abort', 'kill', 'chdir', 'dlopen', 'binding', '_linkedBinding', 'getBuiltinModule']) {
+    Object.defineProperty(process, name, { value: blocked(`process.${name}`), writable: false, configurable: false });
+  }
+  for (const name of ['fetch', 'eval', 'WebSocket', 'EventSource']) {
+    Object.defineProperty(globalThis, name, { value: blocked(name), writable: false, configurable: false });
+  }
+
+  // No compiling code from strings, through any of the function constructors
+  const noConstructor: ProxyHandler<Function> = {
+    apply: blocked('The Function constructor'),
+    construct: blocked('The Function constructor'),
+  };
+  for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    const prototype = Object.getPrototypeOf(fn);
+    Object.defineProperty(prototype, 'constructor', { value: new Proxy(prototype.constructor, noConstructor), writable: false, configurable: false });
+  }
+  Object.defineProperty(globalThis, 'Function', { value: Function.prototype.constructor, writable: false, configurable: false });
+};
+
+// ============================================================
+// Calls back to the hub
+// ============================================================
+
+let nextCallId = 0;
+const pendingCalls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+const call = (method: SandboxCall, ...args: unknown[]): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const id = ++nextCallId;
+    pendingCalls.set(id, { resolve, reject });
+    try {
+      post({ type: 'call', id, method, args });
+    } catch (error) {
+      // Values that cannot be copied to the hub (functions, classes)
+      pendingCalls.delete(id);
+      reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+
+// Outcomes the hub knows; a game could report anything
+const REPORTED_OUTCOMES: unknown[] = ['win', 'loss', 'draw', 'finished'];
+
+// Only plain values cross to the hub. Each is read once: a getter could
+// answer the check and the copy differently.
+const toReport = (report: GameReport): GameReport => {
+  const { outcome, score, seed } = report ?? {};
+  return {
+    outcome: REPORTED_OUTCOMES.includes(outcome) ? outcome : undefined,
+    score: typeof score === 'number' ? score : undefined,
+    seed: typeof seed === 'number' ? seed : undefined,
+  };
+};
+
+const host: LikuGameHost = {
+  gameId: data.gameId,
+  gameName: data.gameName,
+  difficulty: data.difficulty,
+  theme: getTheme(data.theme),
+  report: (report) => post({ type: 'report', report: toReport(report) }),
+  getPersonalBest: () => call('getPersonalBest') as Promise<number | null>,
+  loadData: (key) => call('loadData', key),
+  saveData: (key, value) => call('saveData', key, value) as Promise<void>,
+  logState: (status, visualState, controls) => post({ type: 'log', status: String(status), visualState: String(visualState), controls }),
+};
+
+// Smoke tests keep nothing: the game is not installed yet
+const smokeHost: LikuGameHost = {
+  ...host,
+  report: () => {},
+  getPersonalBest: async () => null,
+  loadData: async () => undefined,
+  saveData: async () => {},
+  logState: () => {},
+};
+
+// ============================================================
+// Running the game
+// ============================================================
+
+class CrashReporter extends Component<{ children?: ReactNode }, { crashed: boolean }> {
+  state = { crashed: false };
+
+  static getDerivedStateFromError() {
+    return { crashed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    post({ type: 'crash', message: error?.message || String(error) });
+  }
+
+  render() {
+    return this.state.crashed ? null : this.props.children;
+  }
+}
+
+const play = (GameComponent: React.ComponentType<any>) => {
+  const stdin = Object.assign(new PassThrough(), {
+    isTTY: true,
+    setRawMode: () => stdin,
+    ref: () => stdin,
+    unref: () => stdin,
+  });
+  // Ink in debug mode writes each whole frame at once
+  const stdout = Object.assign(new Writable({
+    write(chunk, _encoding, callback) {
+      post({ type: 'frame', frame: chunk.toString() });
+      callback();
+    },
+  }), { columns: data.columns, rows: data.rows });
+
+  port.on('message', (message: HubMessage) => {
+    if (message.type === 'input') {
+      stdin.write(message.data);
+    } else if (message.type === 'reply') {
+      const pending = pendingCalls.get(message.id);
+      pendingCalls.delete(message.id);
+      if (message.error !== undefined) pending?.reject(new Error(message.error));
+      else pending?.resolve(message.value);
+    }
+  });
+
+  render(
+    React.createElement(LikuGameProvider, { host },
+      React.createElement(CrashReporter, null,
+        React.createElement(GameComponent, {
+          onExit: () => post({ type: 'exit' }),
+          onReport: host.report,
+          difficulty: data.difficulty ?? undefined,
+          theme: data.theme ?? undefined,
+        })
+      )
+    ),
+    { stdin: stdin as any, stdout: stdout as any, debug: true, exitOnCtrlC: false, patchConsole: false }
+  );
+};
+
+const run = async () => {
+  setInterval(() => post({ type: 'heartbeat' }), data.heartbeatMs);
+  lockDown();
+
+  const gameModule = await import(data.gameUrl);
+  if (data.mode === 'manifest') {
+    // Through JSON, so functions or cycles in the manifest cannot break the copy
+    const manifest = gameModule.GameManifest;
+    post({ type: 'manifest', manifest: manifest === undefined ? undefined : JSON.parse(JSON.stringify(manifest) ?? 'null') });
+    return;
+  }
+
+  const GameComponent = gameModule.default;
+  if (!GameComponent) {
+    throw new Error('The game has no default export to render');
+  }
+  if (data.mode === 'smoke') {
+    const result = await runSmokeTest(onExit =>
+      React.createElement(LikuGameProvider, { host: smokeHost },
+        React.createElement(GameComponent, { onExit, onReport: smokeHost.report })
+      ), data.smoke);
+    post({ type: 'smoke', result });
+    return;
+  }
+  play(GameComponent);
+};
+
+run().catch(error => {
+  post({ type: 'crash', message: error instanceof Error ? error.message : String(error) });
+});
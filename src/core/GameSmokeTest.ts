@@ -0,0 +1,331 @@
+import { EventEmitter } from 'events';
+import { PassThrough, Writable } from 'stream';
+import React, { Component, ReactElement, ReactNode, useEffect } from 'react';
+import { render, useStdin } from 'ink';
+import { createRandom } from './SeededRandom.js';
+
+/**
+ * GameSmokeTest - Plays a game headlessly for a few seconds
+ *
+ * The game is rendered with Ink into memory and fed a scripted or seeded
+ * random key sequence while its timers run on a virtual clock, so seconds
+ * of play take milliseconds. It passes when it renders, never throws, and
+ * calls onExit when ESC is pressed at the end.
+ *
+ * Generated games are smoke-tested in their sandbox before they are
+ * installed (core/GameSandbox, core/GameLoader); built-in games in the
+ * test suite.
+ */
+
+// ============================================================
+// Options and results
+// ============================================================
+
+export interface SmokeTestOptions {
+  // Simulated play time for random keys
+  durationMs?: number;
+  // Simulated time between keys
+  stepMs?: number;
+  // Keys to press instead of random ones: names from KEY_SEQUENCES or raw input
+  keys?: string[];
+  // Seed of the random key sequence
+  seed?: number;
+}
+
+export const DEFAULT_SMOKE_TEST: Required<Omit<SmokeTestOptions, 'keys'>> = {
+  durationMs: 3000,
+  stepMs: 100,
+  seed: 1,
+};
+
+export type SmokeTestFailureReason = 'blank' | 'crash' | 'early-exit' | 'no-exit' | 'stopped';
+
+export interface SmokeTestResult {
+  passed: boolean;
+  failure?: {
+    reason: SmokeTestFailureReason;
+    message: string;
+  };
+  // Last non-blank frame; the failing frame when the test failed
+  frame: string;
+  frameCount: number;
+  keysPressed: string[];
+  simulatedMs: number;
+}
+
+export const KEY_SEQUENCES: Record<string, string> = {
+  up: '\u001B[A',
+  down: '\u001B[B',
+  right: '\u001B[C',
+  left: '\u001B[D',
+  enter: '\r',
+  space: ' ',
+  tab: '\t',
+  backspace: '\u007F',
+  escape: '\u001B',
+};
+
+// Random presses avoid ESC and q (built-in games quit on both)
+const RANDOM_KEYS = [
+  'up', 'down', 'left', 'right', 'up', 'down', 'left', 'right',
+  'enter', 'space', 'backspace',
+  ...'abcdefghijklmnoprstuvwxyz123456789'.split(''),
+];
+
+/**
+ * The keys a random smoke test presses, given its seed and length
+ */
+export const randomKeySequence = (seed: number, length: number): string[] => {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => random.pick(RANDOM_KEYS));
+};
+
+// ============================================================
+// Virtual clock
+// ============================================================
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: (...args: unknown[]) => void;
+  args: unknown[];
+  // Repeat period for intervals
+  every: number | null;
+}
+
+// Handle returned by the virtual setTimeout; games may call unref() on it
+const timerHandle = (id: number) => ({
+  id,
+  ref() { return this; },
+  unref() { return this; },
+  hasRef: () => true,
+  [Symbol.toPrimitive]: () => id,
+});
+
+const handleId = (handle: unknown): number | undefined =>
+  typeof handle === 'number' ? handle : (handle as { id?: number } | undefined)?.id;
+
+/**
+ * Replaces the global timers and Date.now() while installed. Time only
+ * moves in advance(); due timers fire in order, with `flush` run after
+ * each so React can apply what they changed.
+ */
+export class VirtualClock {
+  private now: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextId = 1;
+  private originals: Partial<typeof globalThis> & { dateNow?: () => number; performanceNow?: () => number } = {};
+
+  constructor(private onError: (error: unknown) => void, start: number = Date.now()) {
+    this.now = start;
+  }
+
+  install(): void {
+    this.originals = {
+      setTimeout: globalThis.setTimeout,
+      setInterval: globalThis.setInterval,
+      clearTimeout: globalThis.clearTimeout,
+      clearInterval: globalThis.clearInterval,
+      dateNow: Date.now,
+      performanceNow: performance.now.bind(performance),
+    };
+    const schedule = (every: boolean) => (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+      const id = this.nextId++;
+      const ms = Math.max(every ? 1 : 0, Number(delay) || 0);
+      this.timers.set(id, { id, at: this.now + ms, callback, args, every: every ? ms : null });
+      return timerHandle(id);
+    };
+    const clear = (handle: unknown) => {
+      const id = handleId(handle);
+      if (id !== undefined) this.timers.delete(id);
+    };
+    const start = this.now;
+    const performanceStart = performance.now();
+
+    Object.assign(globalThis, {
+      setTimeout: schedule(false),
+      setInterval: schedule(true),
+      clearTimeout: clear,
+      clearInterval: clear,
+    });
+    Date.now = () => this.now;
+    performance.now = () => performanceStart + (this.now - start);
+  }
+
+  uninstall(): void {
+    const { dateNow, performanceNow, ...timers } = this.originals;
+    Object.assign(globalThis, timers);
+    if (dateNow) Date.now = dateNow;
+    if (performanceNow) performance.now = performanceNow;
+    this.timers.clear();
+  }
+
+  async advance(ms: number, flush: () => Promise<void>): Promise<void> {
+    const target = this.now + ms;
+    for (;;) {
+      let due: VirtualTimer | null = null;
+      for (const timer of this.timers.values()) {
+        if (timer.at <= target && (!due || timer.at < due.at)) due = timer;
+      }
+      if (!due) break;
+
+      this.now = due.at;
+      if (due.every === null) this.timers.delete(due.id);
+      else due.at += due.every;
+      try {
+        due.callback(...due.args);
+      } catch (error) {
+        this.onError(error);
+      }
+      await flush();
+    }
+    this.now = target;
+  }
+}
+
+// ============================================================
+// Harness
+// ============================================================
+
+// Real setImmediate, captured before any clock is installed
+const nextTurn = setImmediate;
+
+// Let React commit and run effects
+const flush = async (): Promise<void> => {
+  for (let i = 0; i < 3; i++) {
+    await new Promise<void>(resolve => nextTurn(() => resolve()));
+  }
+};
+
+class SmokeBoundary extends Component<{ onCrash: (error: Error) => void; children?: ReactNode }, { crashed: boolean }> {
+  state = { crashed: false };
+
+  static getDerivedStateFromError() {
+    return { crashed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onCrash(error);
+  }
+
+  render() {
+    return this.state.crashed ? null : this.props.children;
+  }
+}
+
+// Hands the harness Ink's input emitter, so key presses are delivered
+// synchronously and handler errors can be caught
+const InputDriver: React.FC<{ onReady: (events: EventEmitter) => void }> = ({ onReady }) => {
+  const { internal_eventEmitter } = useStdin();
+  useEffect(() => onReady(internal_eventEmitter), []);
+  return null;
+};
+
+const isBlank = (frame: string) => frame.replace(/\u001B\[[0-9;]*m/g, '').trim() === '';
+
+/**
+ * Smoke-test a game. `renderGame` gets the onExit to pass to the game.
+ */
+export const runSmokeTest = async (
+  renderGame: (onExit: () => void) => ReactElement,
+  options: SmokeTestOptions = {}
+): Promise<SmokeTestResult> => {
+  const { durationMs, stepMs, seed } = { ...DEFAULT_SMOKE_TEST, ...options };
+  const keys = options.keys ?? randomKeySequence(seed, Math.max(1, Math.floor(durationMs / stepMs)));
+
+  let crash: unknown = null;
+  let exitedAfter: number | null = null;
+  let frame = '';
+  let frameCount = 0;
+  let inputEvents: EventEmitter | null = null;
+  const keysPressed: string[] = [];
+  const started = Date.now();
+
+  const clock = new VirtualClock(error => { crash ??= error; }, started);
+  clock.install();
+
+  const stdin = Object.assign(new PassThrough(), {
+    isTTY: true,
+    setRawMode: () => stdin,
+    ref: () => stdin,
+    unref: () => stdin,
+  });
+  // Ink in debug mode writes each whole frame at once
+  const stdout = Object.assign(new Writable({
+    write(chunk, _encoding, callback) {
+      const text = chunk.toString();
+      if (!isBlank(text) && crash === null) {
+        frame = text.replace(/\n$/, '');
+        frameCount++;
+      }
+      callback();
+    },
+  }), { columns: 80, rows: 24 });
+
+  const press = (key: string) => {
+    keysPressed.push(key);
+    try {
+      inputEvents?.emit('input', KEY_SEQUENCES[key] ?? key);
+    } catch (error) {
+      crash ??= error;
+    }
+  };
+
+  let instance: ReturnType<typeof render> | null = null;
+  let simulatedMs = 0;
+  try {
+    instance = render(
+      React.createElement(SmokeBoundary, { onCrash: (error: Error) => { crash ??= error; } },
+        React.createElement(InputDriver, { onReady: (events: EventEmitter) => { inputEvents = events; } }),
+        renderGame(() => { exitedAfter ??= keysPressed.length; })
+      ),
+      { stdin: stdin as any, stdout: stdout as any, debug: true, exitOnCtrlC: false, patchConsole: false }
+    );
+    await flush();
+
+    for (const key of keys) {
+      if (crash !== null || exitedAfter !== null) break;
+      press(key);
+      await flush();
+      await clock.advance(stepMs, flush);
+    }
+    if (crash === null && exitedAfter === null) {
+      press('escape');
+      await flush();
+    }
+  } catch (error) {
+    crash ??= error;
+  } finally {
+    try {
+      instance?.unmount();
+    } catch (error) {
+      crash ??= error;
+    }
+    simulatedMs = Date.now() - started;
+    clock.uninstall();
+  }
+
+  const result: SmokeTestResult = {
+    passed: true,
+    frame,
+    frameCount,
+    keysPressed,
+    simulatedMs,
+  };
+  const fail = (reason: SmokeTestFailureReason, message: string): SmokeTestResult =>
+    ({ ...result, passed: false, failure: { reason, message } });
+
+  if (crash !== null) {
+    return fail('crash', `Threw after ${keysPressed.length} key(s): ${crash instanceof Error ? crash.message : String(crash)}`);
+  }
+  if (frameCount === 0) {
+    return fail('blank', 'Never rendered anything');
+  }
+  if (exitedAfter !== null && keysPressed[exitedAfter - 1] !== 'escape') {
+    return fail('early-exit', `Called onExit before ESC, after key '${keysPressed[exitedAfter - 1] ?? '(none)'}'`);
+  }
+  if (exitedAfter === null) {
+    return fail('no-exit', 'Did not call onExit when ESC was pressed');
+  }
+  return result;
+};
@@ -0,0 +1,184 @@
+import { db, PlayerStats, NeedsState } from '../services/DatabaseService.js';
+
+/**
+ * NeedsEngine - Time-based simulation of Liku's hunger, energy and happiness
+ *
+ * Needs drift with real elapsed time, including while the app is closed.
+ * The last tick is stored per profile, so decay is applied on startup and
+ * whenever the hub or LikuOS polls.
+ */
+
+// ============================================================
+// Configuration
+// ============================================================
+
+export type Need = 'hunger' | 'energy' | 'happiness';
+
+export type DecayCurve =
+  // Constant drift per hour (negative values decrease the need)
+  | { type: 'linear'; perHour: number }
+  // Eases toward `target`, covering half the remaining distance every `halfLifeHours`
+  | { type: 'exponential'; halfLifeHours: number; target: number };
+
+export type NeedState = 'starving' | 'hungry' | 'exhausted' | 'tired' | 'sad';
+
+export interface NeedsConfig {
+  curves: Record<Need, DecayCurve>;
+  thresholds: {
+    starving: number;   // hunger at or above
+    hungry: number;     // hunger at or above
+    exhausted: number;  // energy at or below
+    tired: number;      // energy at or below
+    sad: number;        // happiness at or below
+  };
+  // A starving Liku loses happiness this many times faster
+  starvingHappinessMultiplier: number;
+  // Time away beyond this is ignored so a long holiday isn't fatal
+  maxElapsedHours: number;
+  // Polls closer together than this are skipped
+  minTickMs: number;
+}
+
+export const DEFAULT_NEEDS_CONFIG: NeedsConfig = {
+  curves: {
+    hunger: { type: 'linear', perHour: 3 },
+    energy: { type: 'exponential', halfLifeHours: 6, target: 60 },
+    happiness: { type: 'exponential', halfLifeHours: 12, target: 20 },
+  },
+  thresholds: {
+    starving: 90,
+    hungry: 70,
+    exhausted: 10,
+    tired: 25,
+    sad: 20,
+  },
+  starvingHappinessMultiplier: 2,
+  maxElapsedHours: 72,
+  minTickMs: 60 * 1000,
+};
+
+export const NEED_STATE_LABELS: Record<NeedState, string> = {
+  starving: '🍽️ Starving',
+  hungry: '🍖 Hungry',
+  exhausted: '😵 Exhausted',
+  tired: '🥱 Tired',
+  sad: '😢 Sad',
+};
+
+type NeedValues = Pick<PlayerStats, Need>;
+
+export interface NeedsTickResult {
+  elapsedMs: number;
+  before: NeedValues;
+  after: NeedValues;
+  states: NeedState[];
+}
+
+// ============================================================
+// Pure simulation
+// ============================================================
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Exact change of a need over `hours` following its curve
+ */
+export const decayDelta = (value: number, curve: DecayCurve, hours: number): number => {
+  if (hours <= 0) return 0;
+  if (curve.type === 'linear') {
+    return clamp(value + curve.perHour * hours) - value;
+  }
+  const remaining = Math.pow(0.5, hours / curve.halfLifeHours);
+  return (curve.target + (value - curve.target) * remaining) - value;
+};
+
+/**
+ * Needs flags for the given stats, most severe first
+ */
+export const getNeedStates = (stats: NeedValues, config: NeedsConfig = DEFAULT_NEEDS_CONFIG): NeedState[] => {
+  const { thresholds } = config;
+  const states: NeedState[] = [];
+
+  if (stats.hunger >= thresholds.starving) states.push('starving');
+  else if (stats.hunger >= thresholds.hungry) states.push('hungry');
+
+  if (stats.energy <= thresholds.exhausted) states.push('exhausted');
+  else if (stats.energy <= thresholds.tired) states.push('tired');
+
+  if (stats.happiness <= thresholds.sad) states.push('sad');
+
+  return states;
+};
+
+/**
+ * Apply `elapsedMs` of decay. Only whole points reach the stats; the
+ * fractional rest is carried over to the next tick so slow curves still move.
+ */
+export const simulateNeeds = (
+  stats: NeedValues,
+  carry: NeedsState['carry'],
+  elapsedMs: number,
+  config: NeedsConfig = DEFAULT_NEEDS_CONFIG
+): { needs: NeedValues; carry: NeedsState['carry'] } => {
+  const hours = Math.min(Math.max(0, elapsedMs) / 3_600_000, config.maxElapsedHours);
+  const needs = { ...stats };
+  const nextCarry = { ...carry };
+
+  for (const need of ['hunger', 'energy', 'happiness'] as Need[]) {
+    let needHours = hours;
+    if (need === 'happiness' && getNeedStates(stats, config).includes('starving')) {
+      needHours *= config.starvingHappinessMultiplier;
+    }
+
+    const exact = carry[need] + decayDelta(stats[need], config.curves[need], needHours);
+    const whole = Math.trunc(exact);
+    needs[need] = clamp(stats[need] + whole);
+    // Drop the remainder once the need is pinned at a bound
+    nextCarry[need] = needs[need] === stats[need] + whole ? exact - whole : 0;
+  }
+
+  return { needs, carry: nextCarry };
+};
+
+/**
+ * Parse SQLite's UTC 'YYYY-MM-DD HH:MM:SS[.SSS]' timestamps
+ */
+const parseTimestamp = (value: string): Date => new Date(value.replace(' ', 'T') + 'Z');
+
+// ============================================================
+// Engine
+// ============================================================
+
+export class NeedsEngine {
+  constructor(private config: NeedsConfig = DEFAULT_NEEDS_CONFIG) {}
+
+  public getConfig(): NeedsConfig {
+    return this.config;
+  }
+
+  public getStates(stats: NeedValues): NeedState[] {
+    return getNeedStates(stats, this.config);
+  }
+
+  /**
+   * Apply decay for the time since the active profile's last tick.
+   * Synchronous so concurrent pollers can't apply the same interval twice.
+   */
+  public tick(now: Date = new Date()): NeedsTickResult {
+    const stats = db.getStatsSync();
+    const before = { hunger: stats.hunger, energy: stats.energy, happiness: stats.happiness };
+    const state = db.getNeedsStateSync();
+    const elapsedMs = now.getTime() - parseTimestamp(state.lastTickAt).getTime();
+
+    if (elapsedMs < this.config.minTickMs) {
+      return { elapsedMs: 0, before, after: before, states: this.getStates(before) };
+    }
+
+    const { needs, carry } = simulateNeeds(before, state.carry, elapsedMs, this.config);
+    db.saveNeedsTick(needs, now, carry);
+
+    return { elapsedMs, before, after: needs, states: this.getStates(needs) };
+  }
+}
+
+export const needsEngine = new NeedsEngine();
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+
+/**
+ * Replay - Recorded input and timer ticks of a built-in game run
+ *
+ * Built-in games are deterministic given their seed (see SeededRandom), the
+ * keys pressed and the order in which their timers fired. Recording those
+ * events is enough to play a run back exactly:
+ *
+ * - ReplayRecorder collects the events while a game is played live
+ * - ReplayPlayer feeds them back to a freshly mounted game, with pause,
+ *   speed and single-step controls
+ *
+ * Events carry their time offset only to pace playback; order is what
+ * makes the run reproducible.
+ */
+
+const REPLAY_KEY_NAMES = [
+  'upArrow', 'downArrow', 'leftArrow', 'rightArrow', 'pageUp', 'pageDown',
+  'return', 'escape', 'ctrl', 'shift', 'tab', 'backspace', 'delete', 'meta',
+] as const;
+
+// Ink's key flags; only the ones that were set are stored
+export type ReplayKey = Partial<Record<(typeof REPLAY_KEY_NAMES)[number], boolean>>;
+
+export type ReplayEvent =
+  | { at: number; type: 'input'; input: string; key: ReplayKey }
+  | { at: number; type: 'tick'; timer: string };
+
+export interface ReplayRun {
+  gameId: string;
+  difficulty: string | null;
+  seed: number;
+  score: number | null;
+  outcome: string;
+  durationMs: number;
+  events: ReplayEvent[];
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+// Pause between events during playback, so React renders each one
+const MIN_EVENT_GAP_MS = 1;
+
+export const toReplayKey = (key: object): ReplayKey => {
+  const flags = key as Record<string, unknown>;
+  const result: ReplayKey = {};
+  for (const name of REPLAY_KEY_NAMES) {
+    if (flags[name] === true) result[name] = true;
+  }
+  return result;
+};
+
+// ============================================================
+// Recording
+// ============================================================
+
+export class ReplayRecorder {
+  private events: ReplayEvent[] = [];
+  private startedAt = Date.now();
+
+  public input(input: string, key: object): void {
+    this.events.push({ at: this.elapsed(), type: 'input', input, key: toReplayKey(key) });
+  }
+
+  public tick(timer: string): void {
+    this.events.push({ at: this.elapsed(), type: 'tick', timer });
+  }
+
+  /**
+   * Hand over everything recorded so far and start a new recording
+   */
+  public take(): ReplayEvent[] {
+    const events = this.events;
+    this.events = [];
+    this.startedAt = Date.now();
+    return events;
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+// ============================================================
+// Playback
+// ============================================================
+
+type InputListener = (input: string, key: ReplayKey) => void;
+
+/**
+ * Starts paused; call play() once the game has mounted and subscribed
+ */
+export class ReplayPlayer {
+  private position = 0;
+  private paused = true;
+  private speed = 1;
+  private timer: NodeJS.Timeout | null = null;
+  private inputListeners = new Set<InputListener>();
+  private tickListeners = new Map<string, () => void>();
+  private changeListeners = new Set<() => void>();
+
+  constructor(private readonly events: ReplayEvent[]) {}
+
+  // Listeners (the game's recorded hooks and the playback UI)
+
+  public onInput(listener: InputListener): () => void {
+    this.inputListeners.add(listener);
+    return () => this.inputListeners.delete(listener);
+  }
+
+  public onTick(timer: string, listener: () => void): () => void {
+    this.tickListeners.set(timer, listener);
+    return () => {
+      if (this.tickListeners.get(timer) === listener) this.tickListeners.delete(timer);
+    };
+  }
+
+  public onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  // State
+
+  public getPosition(): number {
+    return this.position;
+  }
+
+  public getLength(): number {
+    return this.events.length;
+  }
+
+  public getElapsedMs(): number {
+    return this.position > 0 ? this.events[this.position - 1].at : 0;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public isFinished(): boolean {
+    return this.position >= this.events.length;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  // Controls
+
+  public play(): void {
+    this.paused = false;
+    this.schedule();
+    this.notify();
+  }
+
+  public pause(): void {
+    this.paused = true;
+    this.clearTimer();
+    this.notify();
+  }
+
+  public togglePause(): void {
+    if (this.paused) this.play();
+    else this.pause();
+  }
+
+  /**
+   * Play exactly one event; pauses playback first
+   */
+  public step(): void {
+    if (!this.paused) this.pause();
+    this.dispatchNext();
+    this.notify();
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+    if (!this.paused) this.schedule();
+    this.notify();
+  }
+
+  /**
+   * Move to the next (faster: +1) or previous (-1) entry of REPLAY_SPEEDS
+   */
+  public changeSpeed(direction: 1 | -1): void {
+    const index = REPLAY_SPEEDS.indexOf(this.speed as (typeof REPLAY_SPEEDS)[number]);
+    const next = Math.min(REPLAY_SPEEDS.length - 1, Math.max(0, (index === -1 ? 1 : index) + direction));
+    this.setSpeed(REPLAY_SPEEDS[next]);
+  }
+
+  public stop(): void {
+    this.clearTimer();
+    this.inputListeners.clear();
+    this.tickListeners.clear();
+    this.changeListeners.clear();
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (this.paused || this.isFinished()) return;
+
+    const previousAt = this.getElapsedMs();
+    const gap = (this.events[this.position].at - previousAt) / this.speed;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.dispatchNext();
+      this.schedule();
+      this.notify();
+    }, Math.max(MIN_EVENT_GAP_MS, gap));
+  }
+
+  private dispatchNext(): void {
+    const event = this.events[this.position];
+    if (!event) return;
+    this.position++;
+
+    if (event.type === 'input') {
+      for (const listener of [...this.inputListeners]) listener(event.input, event.key);
+    } else {
+      this.tickListeners.get(event.timer)?.();
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify(): void {
+    for (const listener of [...this.changeListeners]) listener();
+  }
+}
+
+// ============================================================
+// Replay files (`liku replay export/import`)
+// ============================================================
+
+const REPLAY_FILE_FORMAT = 'liku-replay';
+const REPLAY_FILE_VERSION = 1;
+
+const ReplayEventSchema = z.union([
+  z.object({
+    at: z.number().nonnegative(),
+    type: z.literal('input'),
+    input: z.string(),
+    key: z.record(z.enum(REPLAY_KEY_NAMES), z.boolean()),
+  }),
+  z.object({
+    at: z.number().nonnegative(),
+    type: z.literal('tick'),
+    timer: z.string().min(1),
+  }),
+]);
+
+const ReplayFileSchema = z.object({
+  format: z.literal(REPLAY_FILE_FORMAT),
+  version: z.literal(REPLAY_FILE_VERSION),
+  gameId: z.string().min(1),
+  difficulty: z.string().nullable(),
+  seed: z.number().int().nonnegative(),
+  score: z.number().nullable(),
+  outcome: z.string(),
+  durationMs: z.number().nonnegative(),
+  events: z.array(ReplayEventSchema),
+});
+
+export const encodeReplayFile = (run: ReplayRun): string =>
+  JSON.stringify({ format: REPLAY_FILE_FORMAT, version: REPLAY_FILE_VERSION, ...run });
+
+/**
+ * Parse a replay file, throwing a readable error if it is not one
+ */
+export const decodeReplayFile = (text: string): ReplayRun => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a replay file: invalid JSON');
+  }
+
+  const parsed = ReplayFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a valid replay file: ${issue.path.join('.') || 'file'} ${issue.message}`);
+  }
+  const { format: _format, version: _version, ...run } = parsed.data;
+  return run as ReplayRun;
+};
@@ -0,0 +1,318 @@
+import { db, GameOutcome, PlayerStats } from '../services/DatabaseService.js';
+
+/**
+ * RewardEngine - What a game run, feeding and resting do to Liku's stats
+ *
+ * Games report a typed result when a run ends (through useGameSession);
+ * the per-game rules below turn it into XP, happiness, energy and hunger
+ * changes, level-ups are applied the same way for every game, and the
+ * summary is handed back for the game to show. Balancing the economy
+ * means editing this table, not the games.
+ */
+
+// ============================================================
+// Configuration
+// ============================================================
+
+export interface StatDeltas {
+  xp: number;
+  happiness: number;
+  energy: number;
+  hunger: number;
+}
+
+export interface GameRewardRule {
+  // Energy a finished run costs
+  energyCost: number;
+  // Energy Liku needs to start a run (defaults to energyCost)
+  energyToStart?: number;
+  xp: Partial<Record<GameOutcome, number>>;
+  // Extra XP per point of score, rounded down
+  xpPerScore?: number;
+  // XP per bonus item picked up during the run
+  xpPerPickup?: number;
+  happiness: Partial<Record<GameOutcome, number>>;
+  // Hunger added per finished run
+  hunger: number;
+  // Energy each hint costs, paid when it is used
+  hintEnergyCost?: number;
+  // Extra XP for a win without hints
+  noHintXpBonus?: number;
+  // The run's score counts towards player_stats.high_score
+  recordsHighScore?: boolean;
+  // Win/loss counters kept in player_stats
+  counters?: Partial<Record<GameOutcome, 'hangman_wins' | 'hangman_losses'>>;
+}
+
+export interface RewardRules {
+  xpPerLevel: number;
+  games: Record<string, GameRewardRule>;
+  care: {
+    feed: { xpCost: number; hunger: number; happiness: number };
+    rest: { energy: number; hunger: number };
+  };
+}
+
+export const DEFAULT_REWARD_RULES: RewardRules = {
+  xpPerLevel: 100,
+  games: {
+    snake: {
+      energyCost: 10,
+      xp: {},
+      xpPerPickup: 50,
+      happiness: { finished: 10 },
+      hunger: 5,
+      recordsHighScore: true,
+    },
+    dinorun: {
+      energyCost: 10,
+      xp: {},
+      xpPerScore: 0.1,
+      happiness: { finished: 10 },
+      hunger: 0,
+    },
+    tictactoe: {
+      energyCost: 5,
+      xp: { win: 20, draw: 10, loss: 5 },
+      happiness: { win: 10, loss: -5 },
+      hunger: 0,
+    },
+    hangman: {
+      energyCost: 5,
+      xp: { win: 25 },
+      happiness: {},
+      hunger: 0,
+      counters: { win: 'hangman_wins', loss: 'hangman_losses' },
+    },
+    sudoku: {
+      energyCost: 0,
+      energyToStart: 5,
+      xp: { win: 20 },
+      happiness: { win: 10 },
+      hunger: 0,
+      hintEnergyCost: 5,
+      noHintXpBonus: 10,
+    },
+  },
+  care: {
+    feed: { xpCost: 10, hunger: -20, happiness: 5 },
+    rest: { energy: 30, hunger: 10 },
+  },
+};
+
+/**
+ * Rule for a community game, built from the energyCost and xpReward its
+ * GameManifest declares: the full XP for a win or a finished run, half
+ * for a draw, none for a loss
+ */
+export const communityGameRule = (manifest: { energyCost: number; xpReward: number }): GameRewardRule => ({
+  energyCost: manifest.energyCost,
+  xp: {
+    win: manifest.xpReward,
+    finished: manifest.xpReward,
+    draw: Math.floor(manifest.xpReward / 2),
+  },
+  happiness: {},
+  hunger: 0,
+});
+
+// ============================================================
+// Results and summaries
+// ============================================================
+
+export interface GameRunReport {
+  gameId: string;
+  outcome: GameOutcome;
+  score?: number | null;
+  difficulty?: string | null;
+  durationMs?: number;
+  hintsUsed?: number;
+  // Bonus items picked up (Snake's bananas)
+  pickups?: number;
+}
+
+export interface RewardSummary extends StatDeltas {
+  gameId: string;
+  outcome: GameOutcome;
+  // Run cost plus hints already paid for
+  energySpent: number;
+  levelsGained: number;
+  level: number;
+  // XP towards the next level, and what the next level needs
+  levelXp: number;
+  xpPerLevel: number;
+}
+
+const clampStat = (value: number) => Math.min(100, Math.max(0, value));
+
+const GAME_OUTCOMES: ReadonlyArray<GameOutcome> = ['win', 'loss', 'draw', 'finished', 'abandoned'];
+
+// Own entries only: an outcome like 'constructor' must not find Object.prototype members
+const forOutcome = <T>(table: Partial<Record<GameOutcome, T>> | undefined, outcome: GameOutcome): T | undefined =>
+  table && Object.hasOwn(table, outcome) ? table[outcome] : undefined;
+
+/**
+ * Stat changes a rule gives for a run, before clamping and level-ups
+ */
+export const computeRunDeltas = (rule: GameRewardRule, result: GameRunReport): StatDeltas => {
+  let xp = (forOutcome(rule.xp, result.outcome) ?? 0) + (rule.xpPerPickup ?? 0) * (result.pickups ?? 0);
+  if (rule.xpPerScore && result.score) {
+    xp += Math.floor(result.score * rule.xpPerScore);
+  }
+  if (rule.noHintXpBonus && result.outcome === 'win' && !result.hintsUsed) {
+    xp += rule.noHintXpBonus;
+  }
+
+  return {
+    xp,
+    happiness: forOutcome(rule.happiness, result.outcome) ?? 0,
+    energy: -rule.energyCost,
+    hunger: rule.hunger,
+  };
+};
+
+/**
+ * Turn every full xpPerLevel of XP into a level, keeping the remainder
+ */
+export const applyLevelUps = (level: number, xp: number, xpPerLevel: number): { level: number; xp: number; levelsGained: number } => {
+  const levelsGained = Math.floor(Math.max(0, xp) / xpPerLevel);
+  return { level: level + levelsGained, xp: xp - levelsGained * xpPerLevel, levelsGained };
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+/**
+ * One line for a game's result screen, e.g. "+20 XP, +10 Happiness, -5 Energy"
+ */
+export const describeReward = (summary: RewardSummary): string => {
+  const parts: string[] = [];
+  if (summary.xp !== 0) parts.push(`${signed(summary.xp)} XP`);
+  if (summary.happiness !== 0) parts.push(`${signed(summary.happiness)} Happiness`);
+  if (summary.energy !== 0) parts.push(`${signed(summary.energy)} Energy`);
+  if (summary.hunger !== 0) parts.push(`${signed(summary.hunger)} Hunger`);
+  if (summary.levelsGained > 0) parts.push(`Level ${summary.level}!`);
+  return parts.length > 0 ? parts.join(', ') : 'No rewards';
+};
+
+// ============================================================
+// Engine
+// ============================================================
+
+export class RewardEngine {
+  // Filled in by core/GameLoader as community games are loaded
+  private communityRules = new Map<string, GameRewardRule>();
+
+  constructor(private rules: RewardRules = DEFAULT_REWARD_RULES) {}
+
+  public getRules(): RewardRules {
+    return this.rules;
+  }
+
+  public getRule(gameId: string): GameRewardRule | undefined {
+    return this.rules.games[gameId] ?? this.communityRules.get(gameId);
+  }
+
+  /**
+   * Use a community game's manifest for its runs; built-in rules win
+   */
+  public setCommunityGame(gameId: string, manifest: { energyCost: number; xpReward: number }): void {
+    this.communityRules.set(gameId, communityGameRule(manifest));
+  }
+
+  public getEnergyToStart(gameId: string): number {
+    const rule = this.getRule(gameId);
+    return rule ? rule.energyToStart ?? rule.energyCost : 0;
+  }
+
+  public canStart(stats: PlayerStats, gameId: string): boolean {
+    return stats.energy >= this.getEnergyToStart(gameId);
+  }
+
+  /**
+   * Apply a finished run to the active profile's stats. Games without a
+   * rule, and runs with an outcome that is not a GameOutcome, get nothing
+   * and resolve to null.
+   */
+  public async applyGameResult(result: GameRunReport): Promise<RewardSummary | null> {
+    const rule = this.getRule(result.gameId);
+    if (!rule || !GAME_OUTCOMES.includes(result.outcome)) return null;
+
+    const stats = await db.getStats();
+    const deltas = computeRunDeltas(rule, result);
+    const leveled = applyLevelUps(stats.level, Math.max(0, stats.xp + deltas.xp), this.rules.xpPerLevel);
+    const energy = clampStat(stats.energy + deltas.energy);
+    const happiness = clampStat(stats.happiness + deltas.happiness);
+    const hunger = clampStat(stats.hunger + deltas.hunger);
+
+    const updates: Partial<PlayerStats> = {
+      xp: leveled.xp,
+      level: leveled.level,
+      energy,
+      happiness,
+      hunger,
+      gamesPlayed: stats.gamesPlayed + 1,
+    };
+    if (rule.recordsHighScore && result.score) {
+      updates.highScore = Math.max(stats.highScore, result.score);
+    }
+    const counter = forOutcome(rule.counters, result.outcome);
+    if (counter) {
+      updates[counter] = stats[counter] + 1;
+    }
+    await db.updateStats(updates);
+
+    return {
+      gameId: result.gameId,
+      outcome: result.outcome,
+      xp: deltas.xp,
+      happiness: happiness - stats.happiness,
+      energy: energy - stats.energy,
+      hunger: hunger - stats.hunger,
+      energySpent: stats.energy - energy + this.getHintEnergy(result.gameId, result.hintsUsed ?? 0),
+      levelsGained: leveled.levelsGained,
+      level: leveled.level,
+      levelXp: leveled.xp,
+      xpPerLevel: this.rules.xpPerLevel,
+    };
+  }
+
+  /**
+   * Energy already paid for a run's hints
+   */
+  public getHintEnergy(gameId: string, hintsUsed: number): number {
+    return (this.getRule(gameId)?.hintEnergyCost ?? 0) * hintsUsed;
+  }
+
+  /**
+   * Pay for one hint; false when Liku does not have the energy
+   */
+  public async chargeHint(gameId: string): Promise<boolean> {
+    const cost = this.getRule(gameId)?.hintEnergyCost ?? 0;
+    const stats = await db.getStats();
+    if (stats.energy < cost) return false;
+    if (cost > 0) await db.updateStats({ energy: stats.energy - cost });
+    return true;
+  }
+
+  /**
+   * Feeding spends XP; a starving Liku is fed even without enough of it
+   */
+  public async feed(stats: PlayerStats): Promise<void> {
+    const { xpCost, hunger, happiness } = this.rules.care.feed;
+    await db.updateStats({
+      xp: Math.max(0, stats.xp - xpCost),
+      hunger: clampStat(stats.hunger + hunger),
+      happiness: clampStat(stats.happiness + happiness),
+    });
+  }
+
+  public async rest(stats: PlayerStats): Promise<void> {
+    const { energy, hunger } = this.rules.care.rest;
+    await db.updateStats({
+      energy: clampStat(stats.energy + energy),
+      hunger: clampStat(stats.hunger + hunger),
+    });
+  }
+}
+
+export const rewardEngine = new RewardEngine();
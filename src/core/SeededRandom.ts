@@ -0,0 +1,53 @@
+/**
+ * SeededRandom - Small deterministic pseudo-random generator
+ *
+ * The same seed always produces the same sequence, on every machine, so
+ * runs can be shared (daily challenges) and reproduced. Not for security.
+ */
+
+export interface Random {
+  readonly seed: number;
+  // Float in [0, 1), like Math.random()
+  next(): number;
+  // Integer in [0, maxExclusive)
+  int(maxExclusive: number): number;
+  pick<T>(items: readonly T[]): T;
+  chance(probability: number): boolean;
+}
+
+/**
+ * 32-bit FNV-1a hash, for turning text (e.g. a date) into a seed
+ */
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/**
+ * mulberry32: fast, well distributed and only 32 bits of state
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    chance: (probability) => next() < probability,
+  };
+};
@@ -0,0 +1,207 @@
+import { db, GameOutcome, TokenReason, TokenTransaction } from '../services/DatabaseService.js';
+import type { TokenUsage } from '../builder/ElicitationAgent.js';
+
+/**
+ * TokenEconomy - Earn/spend rules on top of the Pro Tokens ledger
+ *
+ * Every change to a balance is a row in token_transactions; this module
+ * decides how much each event is worth and when the periodic reset runs.
+ */
+
+// ============================================================
+// Configuration
+// ============================================================
+
+export type ResetPeriod = 'daily' | 'weekly' | 'never';
+
+export interface TokenRules {
+  // Granted to new profiles and restored by the periodic reset
+  allowance: number;
+  reset: {
+    period: ResetPeriod;
+    // 'top_up' only raises balances below the allowance; 'set' also trims savings
+    mode: 'top_up' | 'set';
+  };
+  earn: {
+    gameOutcome: Record<GameOutcome, number>;
+  };
+  spend: {
+    feeding: number;
+    // AI game generation is priced from the model tokens it uses
+    generation: {
+      perThousandPromptTokens: number;
+      perThousandResponseTokens: number;
+      minimum: number;
+    };
+  };
+}
+
+export const DEFAULT_TOKEN_RULES: TokenRules = {
+  allowance: 10000,
+  reset: { period: 'daily', mode: 'top_up' },
+  earn: {
+    gameOutcome: { win: 100, draw: 50, finished: 50, loss: 25, abandoned: 0 },
+  },
+  spend: {
+    feeding: 50,
+    generation: {
+      perThousandPromptTokens: 20,
+      perThousandResponseTokens: 80,
+      minimum: 10,
+    },
+  },
+};
+
+export const TOKEN_REASON_LABELS: Record<TokenReason, string> = {
+  opening_balance: 'Opening balance',
+  game_reward: 'Game reward',
+  feeding: 'Feeding',
+  builder_generation: 'Game generation',
+  reset: 'Reset',
+  adjustment: 'Adjustment',
+};
+
+// ============================================================
+// Reset periods
+// ============================================================
+
+/**
+ * Start of the period containing `now`, in local time (weeks start on Monday)
+ */
+export const getPeriodStart = (period: ResetPeriod, now: Date): Date | null => {
+  if (period === 'never') return null;
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+};
+
+/**
+ * Parse SQLite's UTC 'YYYY-MM-DD HH:MM:SS' timestamps
+ */
+const parseTimestamp = (value: string): Date => new Date(value.replace(' ', 'T') + 'Z');
+
+export const isResetDue = (lastReset: string | null, period: ResetPeriod, now: Date): boolean => {
+  const periodStart = getPeriodStart(period, now);
+  if (!periodStart) return false;
+  return !lastReset || parseTimestamp(lastReset) < periodStart;
+};
+
+// ============================================================
+// Economy
+// ============================================================
+
+export class TokenEconomy {
+  constructor(private rules: TokenRules = DEFAULT_TOKEN_RULES) {}
+
+  public getRules(): TokenRules {
+    return this.rules;
+  }
+
+  public getBalance(): number {
+    return db.getTokenBalanceSync();
+  }
+
+  public canAfford(amount: number): boolean {
+    return this.getBalance() >= amount;
+  }
+
+  /**
+   * Grant the opening balance to new profiles and run the daily/weekly
+   * reset once per period. Safe to call on every poll.
+   */
+  public applyPeriodicReset(now: Date = new Date()): TokenTransaction | null {
+    if (db.getTokenTransactionCountSync() === 0) {
+      const opening = db.recordTokenTransaction({
+        amount: this.rules.allowance,
+        reason: 'opening_balance',
+        description: 'Welcome allowance'
+      });
+      db.recordTokenReset(0, 'Opening balance', now);
+      return opening;
+    }
+
+    const { lastReset, balance } = db.getProTokensSync();
+    if (!isResetDue(lastReset, this.rules.reset.period, now)) return null;
+
+    const difference = this.rules.allowance - balance;
+    const amount = this.rules.reset.mode === 'set' ? difference : Math.max(0, difference);
+    const label = this.rules.reset.period === 'daily' ? 'Daily' : 'Weekly';
+    return db.recordTokenReset(amount, `${label} reset to ${this.rules.allowance}`, now);
+  }
+
+  /**
+   * Tokens earned for finishing a run of a game
+   */
+  public rewardGame(gameId: string, outcome: GameOutcome, metaData?: Record<string, unknown>): TokenTransaction | null {
+    const amount = this.rules.earn.gameOutcome[outcome] ?? 0;
+    if (amount <= 0) return null;
+
+    return db.recordTokenTransaction({
+      amount,
+      reason: 'game_reward',
+      description: `${gameId}: ${outcome}`,
+      metaData: JSON.stringify({ gameId, outcome, ...metaData })
+    });
+  }
+
+  /**
+   * Feeding costs tokens when there are any; a broke Liku still gets fed
+   */
+  public chargeFeeding(): TokenTransaction | null {
+    const amount = Math.min(this.rules.spend.feeding, Math.max(0, this.getBalance()));
+    if (amount <= 0) return null;
+
+    return db.recordTokenTransaction({ amount: -amount, reason: 'feeding', description: 'Fed Liku' });
+  }
+
+  /**
+   * Pro Tokens charged for the given model usage
+   */
+  public priceGeneration(usage: TokenUsage): number {
+    if (usage.promptTokens + usage.responseTokens <= 0) return 0;
+    const { perThousandPromptTokens, perThousandResponseTokens, minimum } = this.rules.spend.generation;
+    const cost = (usage.promptTokens * perThousandPromptTokens + usage.responseTokens * perThousandResponseTokens) / 1000;
+    return Math.max(minimum, Math.ceil(cost));
+  }
+
+  /**
+   * Bill the model usage of a generation after the call. The model has
+   * already been paid for, so this may take the balance below zero when the
+   * estimate was short; the next reset brings it back.
+   */
+  public chargeGeneration(usage: TokenUsage, description: string, metaData?: Record<string, unknown>): TokenTransaction | null {
+    const amount = this.priceGeneration(usage);
+    if (amount <= 0) return null;
+
+    return db.recordTokenTransaction({
+      amount: -amount,
+      reason: 'builder_generation',
+      description,
+      metaData: JSON.stringify({ ...usage, ...metaData })
+    });
+  }
+
+  /**
+   * Spend tokens, refusing if the balance can't cover it
+   */
+  public spend(amount: number, reason: TokenReason, description: string, metaData?: Record<string, unknown>): TokenTransaction {
+    if (amount < 0) {
+      throw new Error(`Cannot spend a negative amount (${amount})`);
+    }
+    const balance = this.getBalance();
+    if (balance < amount) {
+      throw new Error(`Not enough Pro Tokens: need ${amount}, have ${balance}`);
+    }
+
+    return db.recordTokenTransaction({
+      amount: -amount,
+      reason,
+      description,
+      metaData: metaData ? JSON.stringify(metaData) : undefined
+    });
+  }
+}
+
+export const tokenEconomy = new TokenEconomy();
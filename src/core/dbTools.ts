@@ -1,4 +1,6 @@
 import { db } from '../services/DatabaseService.js';
+import { achievementEngine } from './AchievementEngine.js';
+import { getLeaderboardRanking } from './GameResults.js';
 
 /**
  * Database tools for Gemini CLI integration
@@ -73,7 +75,7 @@ export const queryLikuStatsSync = (query: string): DbToolResult => {
  */
 export const getGameHighScores = async (gameId: string, limit: number = 10): Promise<DbToolResult> => {
   try {
-    const leaderboard = await db.getLeaderboard(gameId, limit);
+    const leaderboard = await db.getLeaderboard(gameId, { ranking: getLeaderboardRanking(gameId), limit });
     return {
       success: true,
       data: leaderboard
@@ -123,11 +125,11 @@ export const getPlayerStatsSync = (): DbToolResult => {
 };
 
 /**
- * Get pro tokens balance
+ * Get pro tokens balance (defaults to the active profile)
  */
-export const getProTokensBalance = async (userId: string = 'me'): Promise<DbToolResult> => {
+export const getProTokensBalance = async (profileId?: number): Promise<DbToolResult> => {
   try {
-    const tokens = await db.getProTokens(userId);
+    const tokens = await db.getProTokens(profileId);
     return {
       success: true,
       data: tokens
@@ -140,6 +142,60 @@ export const getProTokensBalance = async (userId: string = 'me'): Promise<DbTool
   }
 };
 
+/**
+ * Get recent game sessions of the active profile
+ */
+export const getGameHistory = async (gameId?: string, limit: number = 20): Promise<DbToolResult> => {
+  try {
+    const sessions = await db.getGameSessions({ gameId, limit });
+    return {
+      success: true,
+      data: sessions
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+/**
+ * Get the most recent Pro Tokens ledger entries
+ */
+export const getTokenTransactions = async (limit: number = 10, profileId?: number): Promise<DbToolResult> => {
+  try {
+    const transactions = await db.getTokenTransactions(limit, profileId);
+    return {
+      success: true,
+      data: transactions
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+/**
+ * Get every achievement with its unlock time (null while locked)
+ */
+export const getAchievements = async (): Promise<DbToolResult> => {
+  try {
+    const achievements = await achievementEngine.getProgress();
+    return {
+      success: true,
+      data: achievements.map(({ condition, ...achievement }) => achievement)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
 /**
  * List all registered games
  */
@@ -192,7 +248,7 @@ export const dbToolDefinitions = [
       properties: {
         query: {
           type: 'string',
-          description: 'SQL SELECT query to execute (read-only). Example: SELECT * FROM player_stats WHERE id = 1'
+          description: 'SQL SELECT query to execute (read-only). Example: SELECT * FROM player_stats WHERE profile_id = 1'
         }
       },
       required: ['query']
@@ -234,14 +290,61 @@ export const dbToolDefinitions = [
     parameters: {
       type: 'object',
       properties: {
-        userId: {
+        profileId: {
+          type: 'number',
+          description: 'Profile ID (default: the active profile)'
+        }
+      }
+    },
+    execute: async (params: { profileId?: number }) => 
+      getProTokensBalance(params.profileId)
+  },
+  {
+    name: 'get_liku_token_transactions',
+    description: 'Get the most recent Pro Tokens transactions (game rewards, feeding, game generation, resets) with their amounts',
+    parameters: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Number of transactions to return (default: 10)'
+        },
+        profileId: {
+          type: 'number',
+          description: 'Profile ID (default: the active profile)'
+        }
+      }
+    },
+    execute: async (params: { limit?: number; profileId?: number }) =>
+      getTokenTransactions(params.limit, params.profileId)
+  },
+  {
+    name: 'get_liku_game_history',
+    description: 'Get the most recent game runs (score, outcome, duration, XP earned, energy spent) for the active profile',
+    parameters: {
+      type: 'object',
+      properties: {
+        gameId: {
           type: 'string',
-          description: 'User ID (default: "me")'
+          description: 'Only return runs of this game (default: all games)'
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of runs to return (default: 20)'
         }
       }
     },
-    execute: async (params: { userId?: string }) => 
-      getProTokensBalance(params.userId)
+    execute: async (params: { gameId?: string; limit?: number }) =>
+      getGameHistory(params.gameId, params.limit)
+  },
+  {
+    name: 'get_liku_achievements',
+    description: 'Get all achievements for the active profile, with the unlock time of those already earned',
+    parameters: {
+      type: 'object',
+      properties: {}
+    },
+    execute: getAchievements
   },
   {
     name: 'list_liku_games',
@@ -3,7 +3,7 @@ import { render, useStdin, useApp, useStdout } from 'ink';
 import meow from 'meow';
 import fs from 'node:fs';
 import path from 'node:path';
-import GameHub from './ui/LikuTUI.js';
+import { COMMAND_HELP, runCommand } from './commands/index.js';
 
 // State file path for AI visibility
 const STATE_FILE = path.join(process.cwd(), 'likubuddy-state.txt');
@@ -64,25 +64,87 @@ export const getBufferedLogs = () => [...logsBuffer];
 const cli = meow(`
 	Usage
 	  $ liku
+	  $ liku <command> [options]
 
 	Description
 	  LikuBuddy - Terminal Based ASCII Game Hub
-
+${COMMAND_HELP}
 	Options
-		--ai  Enable AI interaction mode
+		--ai              Enable AI interaction mode
+		--profile <name>  Play as this profile (created if missing), skipping the picker
+		--seed <n>        Play every built-in game with this random seed (replays a run)
 
 	Examples
 	  $ liku
 	  $ liku --ai
+	  $ liku --profile alice
+	  $ liku --seed 1234
+	  $ liku db status
 `, {
 	importMeta: import.meta,
 	flags: {
 		ai: {
 			type: 'boolean',
+		},
+		profile: {
+			type: 'string',
+		},
+		seed: {
+			type: 'number',
+		},
+		to: {
+			type: 'number',
+		},
+		steps: {
+			type: 'number',
+		},
+		all: {
+			type: 'boolean',
+		},
+		key: {
+			type: 'string',
+		},
+		author: {
+			type: 'string',
+		},
+		catalog: {
+			type: 'string',
+		},
+		port: {
+			type: 'number',
+		},
+		host: {
+			type: 'string',
+		},
+		dir: {
+			type: 'string',
+		},
+		tag: {
+			type: 'string',
 		}
 	}
 });
 
+// ============================================================
+// Subcommands (e.g. `liku db migrate`) run without the TUI.
+// The hub is imported lazily below so that commands can inspect
+// the database before DatabaseService migrates it.
+// ============================================================
+if (cli.input.length > 0) {
+	const exitCode = await runCommand(cli.input, cli.flags);
+	process.exit(exitCode);
+}
+
+const { default: GameHub } = await import('./ui/LikuTUI.js');
+const { GameSeedContext } = await import('./ui/games/useSeededRandom.js');
+
+if (cli.flags.profile) {
+	const { db } = await import('./services/DatabaseService.js');
+	const existing = await db.getProfileByName(cli.flags.profile);
+	const profile = existing ?? await db.createProfile(cli.flags.profile);
+	await db.switchProfile(profile.id);
+}
+
 // ============================================================
 // Fullscreen Mode Initialization
 // Uses alternate screen buffer to prevent scroll artifacts
@@ -171,7 +233,16 @@ const App: React.FC<AppProps> = ({ ai = false }) => {
 		};
 	}, [ai, exit, stdin, setRawMode]);
 
-	return <GameHub ai={ai} actionQueue={actionQueue} setActionQueue={setActionQueue} />;
+	return (
+		<GameSeedContext.Provider value={cli.flags.seed}>
+			<GameHub
+				ai={ai}
+				showProfilePicker={!ai && !cli.flags.profile}
+				actionQueue={actionQueue}
+				setActionQueue={setActionQueue}
+			/>
+		</GameSeedContext.Provider>
+	);
 };
 
 // ============================================================
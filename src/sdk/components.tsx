@@ -0,0 +1,99 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { GameReport } from '../core/GameLoader.js';
+import { useTheme } from './hooks.js';
+
+/**
+ * Building blocks community games share, drawn in the hub's theme
+ */
+
+interface GridProps {
+  // Rows of cells, each drawn as its text padded to cellWidth
+  cells: string[][];
+  cellWidth?: number;
+  colorOf?: (cell: string, x: number, y: number) => string | undefined;
+  // Highlighted with a background, like the built-in games' cursors
+  cursor?: { x: number; y: number } | null;
+  border?: boolean;
+}
+
+export const Grid: React.FC<GridProps> = ({ cells, cellWidth = 1, colorOf, cursor = null, border = true }) => {
+  const theme = useTheme();
+  return (
+    <Box flexDirection="column" alignSelf="flex-start" borderStyle={border ? 'round' : undefined} borderColor={theme.border}>
+      {cells.map((row, y) => (
+        <Text key={y}>
+          {row.map((cell, x) => {
+            const selected = cursor !== null && cursor.x === x && cursor.y === y;
+            return (
+              <Text key={x} color={colorOf?.(cell, x, y)} backgroundColor={selected ? 'blue' : undefined}>
+                {cell.padEnd(cellWidth).slice(0, cellWidth)}
+              </Text>
+            );
+          })}
+        </Text>
+      ))}
+    </Box>
+  );
+};
+
+interface ScoreBarProps {
+  score: number;
+  highScore?: number;
+  lives?: number;
+  level?: number;
+  // Anything else worth a slot, e.g. { Time: '0:42' }
+  extra?: Record<string, string | number>;
+}
+
+export const ScoreBar: React.FC<ScoreBarProps> = ({ score, highScore, lives, level, extra = {} }) => {
+  const theme = useTheme();
+  return (
+    <Box gap={3}>
+      <Text>Score: <Text bold color={theme.accent}>{score}</Text></Text>
+      {highScore !== undefined && <Text>Best: <Text color={theme.success}>{Math.max(highScore, score)}</Text></Text>}
+      {level !== undefined && <Text>Level: <Text color={theme.title}>{level}</Text></Text>}
+      {lives !== undefined && <Text>Lives: <Text color={theme.danger}>{'♥'.repeat(Math.max(0, lives))}</Text></Text>}
+      {Object.entries(extra).map(([label, value]) => (
+        <Text key={label}>{label}: <Text color={theme.accent}>{value}</Text></Text>
+      ))}
+    </Box>
+  );
+};
+
+const OUTCOME_TITLES: Record<NonNullable<GameReport['outcome']>, string> = {
+  win: '🏆 You Win!',
+  loss: '💀 Game Over',
+  draw: '🤝 Draw',
+  finished: '🏁 Finished',
+};
+
+interface GameOverPanelProps {
+  outcome?: GameReport['outcome'];
+  score?: number;
+  highScore?: number;
+  newHighScore?: boolean;
+  title?: string;
+  hint?: string;
+}
+
+export const GameOverPanel: React.FC<GameOverPanelProps> = ({
+  outcome = 'finished',
+  score,
+  highScore,
+  newHighScore = false,
+  title,
+  hint = 'R to play again • Esc to exit',
+}) => {
+  const theme = useTheme();
+  const color = outcome === 'win' ? theme.success : outcome === 'loss' ? theme.danger : theme.title;
+  return (
+    <Box flexDirection="column" alignSelf="flex-start" alignItems="center" borderStyle="double" borderColor={color} paddingX={2}>
+      <Text bold color={color}>{title ?? OUTCOME_TITLES[outcome]}</Text>
+      {score !== undefined && <Text>Score: <Text bold color={theme.accent}>{score}</Text></Text>}
+      {newHighScore && <Text color={theme.success}>★ New best! ★</Text>}
+      {!newHighScore && highScore !== undefined && <Text dimColor>Best: {highScore}</Text>}
+      <Text color={theme.muted}>{hint}</Text>
+    </Box>
+  );
+};
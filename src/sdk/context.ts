@@ -0,0 +1,63 @@
+import { createContext, createElement, useContext, useEffect, ReactNode } from 'react';
+import type { GameReport } from '../core/GameLoader.js';
+import { getTheme, Theme } from './theme.js';
+
+/**
+ * What the hub tells a community game about the run it is playing, and
+ * the services it lends it. Games run in a sandbox (core/GameSandbox),
+ * which wraps them in a LikuGameProvider whose host forwards these calls
+ * to the hub.
+ */
+export interface LikuGameHost {
+  gameId: string;
+  gameName: string;
+  difficulty: string | null;
+  theme: Theme;
+  report: (report: GameReport) => void;
+  // The active profile's best leaderboard score in this game
+  getPersonalBest: () => Promise<number | null>;
+  loadData: (key: string) => Promise<unknown>;
+  saveData: (key: string, value: unknown) => Promise<void>;
+  // Write the screen to the AI state file (core/GameStateLogger)
+  logState: (status: string, visualState: string, controls?: string) => void;
+}
+
+// Games rendered outside the hub still work, they just report nowhere
+const DETACHED_HOST: LikuGameHost = {
+  gameId: 'unknown',
+  gameName: 'Community Game',
+  difficulty: null,
+  theme: getTheme(),
+  report: () => {},
+  getPersonalBest: async () => null,
+  loadData: async () => undefined,
+  saveData: async () => {},
+  logState: () => {},
+};
+
+const LikuGameContext = createContext<LikuGameHost>(DETACHED_HOST);
+
+// Only one game plays at a time; reportResult() outside of hooks goes here
+let activeHost: LikuGameHost | null = null;
+
+export const LikuGameProvider = ({ host, children }: { host: LikuGameHost; children?: ReactNode }) => {
+  // Also set while rendering: the game's own mount effects run before ours
+  activeHost = host;
+  useEffect(() => {
+    activeHost = host;
+    return () => {
+      if (activeHost === host) activeHost = null;
+    };
+  }, [host]);
+  return createElement(LikuGameContext.Provider, { value: host }, children);
+};
+
+export const useGameHost = (): LikuGameHost => useContext(LikuGameContext);
+
+/**
+ * Send the run's result to the hub. Reports are merged, so a game can send
+ * the score as it changes and the outcome when the round ends.
+ */
+export const reportResult = (report: GameReport): void => {
+  (activeHost ?? DETACHED_HOST).report(report);
+};
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSeededRandom as useRunRandom } from '../ui/games/useSeededRandom.js';
+import { useGameHost } from './context.js';
+import type { Theme } from './theme.js';
+
+/**
+ * Hooks community games use instead of reaching into the hub's internals
+ */
+
+/**
+ * Call onTick every tickMs while running. The latest onTick is always
+ * used, so it can read current state without resetting the timer.
+ */
+export const useGameLoop = (tickMs: number, onTick: (tick: number) => void, running: boolean = true): void => {
+  const onTickRef = useRef(onTick);
+  onTickRef.current = onTick;
+  const tickRef = useRef(0);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => onTickRef.current(tickRef.current++), tickMs);
+    return () => clearInterval(timer);
+  }, [tickMs, running]);
+};
+
+/**
+ * Per-run random numbers; the seed is reported with the run so it is saved
+ * in the game history. Call newRun() when a new round starts.
+ */
+export const useSeededRandom = () => {
+  const host = useGameHost();
+  const run = useRunRandom();
+
+  useEffect(() => {
+    host.report({ seed: run.seed });
+  }, [host, run.seed]);
+
+  return run;
+};
+
+/**
+ * The active profile's best reported score in this game. submit() updates
+ * it right away and tells whether the score is a new best; the score itself
+ * is saved when the game reports it.
+ */
+export const useHighScore = () => {
+  const host = useGameHost();
+  const [highScore, setHighScore] = useState(0);
+  const highScoreRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    host.getPersonalBest()
+      .then(best => {
+        if (cancelled || best === null) return;
+        highScoreRef.current = Math.max(highScoreRef.current, best);
+        setHighScore(highScoreRef.current);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [host]);
+
+  const submit = useCallback((score: number): boolean => {
+    if (score <= highScoreRef.current) return false;
+    highScoreRef.current = score;
+    setHighScore(score);
+    return true;
+  }, []);
+
+  return { highScore, submit };
+};
+
+/**
+ * useState that survives restarts: the value is kept per profile and game.
+ * `loaded` is false until the saved value has been read.
+ */
+export const useGameStorage = <T>(key: string, initialValue: T) => {
+  const host = useGameHost();
+  const [value, setValue] = useState<T>(initialValue);
+  const [loaded, setLoaded] = useState(false);
+  const valueRef = useRef(value);
+
+  useEffect(() => {
+    let cancelled = false;
+    host.loadData(key)
+      .then(saved => {
+        if (cancelled) return;
+        if (saved !== undefined) {
+          valueRef.current = saved as T;
+          setValue(saved as T);
+        }
+        setLoaded(true);
+      })
+      .catch(err => {
+        console.error(`Failed to load game data '${key}':`, err);
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [host, key]);
+
+  const save = useCallback((next: T | ((previous: T) => T)) => {
+    const resolved = typeof next === 'function' ? (next as (previous: T) => T)(valueRef.current) : next;
+    valueRef.current = resolved;
+    setValue(resolved);
+    host.saveData(key, resolved).catch(err => console.error(`Failed to save game data '${key}':`, err));
+  }, [host, key]);
+
+  return [value, save, loaded] as const;
+};
+
+/**
+ * Write the game's screen to the AI state file whenever it changes
+ * (see core/GameStateLogger)
+ */
+export const useStateLogger = (status: string, visualState: string, controls?: string): void => {
+  const host = useGameHost();
+
+  useEffect(() => {
+    host.logState(status, visualState, controls);
+  }, [host, status, visualState, controls]);
+};
+
+export const useTheme = (): Theme => useGameHost().theme;
+
+/**
+ * The difficulty the hub started the game with
+ */
+export const useDifficulty = (): string | null => useGameHost().difficulty;
@@ -0,0 +1,24 @@
+/**
+ * liku-sdk - The module community games import to talk to the hub
+ *
+ * core/GameLoader bundles games with `liku-sdk` as an external that points
+ * at this file, so games share the hub's instance: reported results,
+ * storage and the AI state file go through the same services as the
+ * built-in games, without games importing internal paths.
+ */
+
+export { reportResult } from './context.js';
+export {
+  useGameLoop,
+  useSeededRandom,
+  useHighScore,
+  useGameStorage,
+  useStateLogger,
+  useTheme,
+  useDifficulty,
+} from './hooks.js';
+export { Grid, ScoreBar, GameOverPanel } from './components.js';
+export { THEMES, getTheme } from './theme.js';
+export type { Theme, ThemeName } from './theme.js';
+export type { GameReport } from '../core/GameLoader.js';
+export type { Random } from '../core/SeededRandom.js';
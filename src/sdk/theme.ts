@@ -0,0 +1,30 @@
+import type { UserSettings } from '../services/DatabaseService.js';
+
+/**
+ * Colors of the hub themes (Settings > Theme), shared by the hub's own
+ * screens and community games through liku-sdk
+ */
+
+export type ThemeName = UserSettings['theme'];
+
+export interface Theme {
+  name: ThemeName;
+  // Borders of panels and boards
+  border: string;
+  title: string;
+  // Scores, highlights and the cursor
+  accent: string;
+  success: string;
+  danger: string;
+  muted: string;
+}
+
+export const THEMES: Record<ThemeName, Theme> = {
+  default: { name: 'default', border: 'cyan', title: 'magenta', accent: 'yellow', success: 'green', danger: 'red', muted: 'gray' },
+  matrix: { name: 'matrix', border: 'green', title: 'green', accent: 'greenBright', success: 'green', danger: 'red', muted: 'gray' },
+  cyberpunk: { name: 'cyberpunk', border: 'yellow', title: 'yellow', accent: 'magenta', success: 'cyan', danger: 'red', muted: 'gray' },
+  retro: { name: 'retro', border: 'magenta', title: 'red', accent: 'yellow', success: 'green', danger: 'red', muted: 'gray' },
+};
+
+export const getTheme = (name?: string | null): Theme =>
+  THEMES[name as ThemeName] ?? THEMES.default;
@@ -1,10 +1,8 @@
 import Database from 'better-sqlite3';
-import path from 'path';
 import fs from 'fs';
-import os from 'os';
-
-const DB_DIR = path.join(os.homedir(), '.gemini-liku');
-const DB_PATH = path.join(DB_DIR, 'snake.db');
+import { DB_DIR, DB_PATH } from './paths.js';
+import { MigrationRunner, MIGRATIONS } from './migrations/index.js';
+import type { ReplayEvent, ReplayRun } from '../core/Replay.js';
 
 if (!fs.existsSync(DB_DIR)) {
     fs.mkdirSync(DB_DIR, { recursive: true });
@@ -27,25 +25,196 @@ export interface UserSettings {
     snakeDifficulty: 'easy' | 'medium' | 'hard' | 'ai';
 }
 
+export interface Profile {
+    id: number;
+    name: string;
+    createdAt: string;
+    lastActiveAt: string;
+}
+
 export interface ProTokens {
-    userId: string;
-    balance: number;
+    profileId: number;
+    balance: number;      // Sum of the profile's token_transactions
     lastReset: string;
 }
 
+export type TokenReason =
+    | 'opening_balance'
+    | 'game_reward'
+    | 'feeding'
+    | 'builder_generation'
+    | 'reset'
+    | 'adjustment';
+
+export interface TokenTransaction {
+    id: number;
+    profileId: number;
+    amount: number;       // Positive = earned, negative = spent
+    reason: TokenReason;
+    description: string | null;
+    metaData: string | null; // JSON string
+    createdAt: string;
+}
+
+export interface NeedsState {
+    lastTickAt: string;   // UTC, 'YYYY-MM-DD HH:MM:SS.SSS'
+    // Fractional decay not yet applied to the integer stats
+    carry: {
+        hunger: number;
+        energy: number;
+        happiness: number;
+    };
+}
+
+export interface DailyChallengeResult {
+    challengeDate: string;   // Local 'YYYY-MM-DD'
+    gameId: string;
+    seed: number;
+    score: number | null;
+    outcome: GameOutcome;
+    durationMs: number;
+}
+
+export interface DailyLeaderboardEntry {
+    profileId: number;
+    profileName: string;
+    score: number | null;
+    durationMs: number;
+    attempts: number;
+    playedAt: string;
+}
+
+export interface GameReplaySummary {
+    id: number;
+    sessionId: number | null;
+    gameId: string;
+    difficulty: string | null;
+    seed: number;
+    score: number | null;
+    outcome: string;
+    durationMs: number;
+    eventCount: number;
+    createdAt: string;
+}
+
+export interface GameReplay extends GameReplaySummary {
+    events: ReplayEvent[];
+}
+
+// 'ready': the model has no more questions; 'completed': the game was installed
+export type ElicitationStatus = 'eliciting' | 'ready' | 'completed';
+
+export interface ElicitationTurn {
+    role: 'user' | 'model';
+    content: string;
+}
+
+export interface ElicitationSessionSummary {
+    sessionId: string;
+    gameIdea: string;
+    status: ElicitationStatus;
+    gameId: string | null;    // Installed game, once completed
+    turnCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface StoredElicitationSession extends ElicitationSessionSummary {
+    history: ElicitationTurn[];
+}
+
+export interface UnlockedAchievement {
+    achievementId: string;
+    gameId: string | null;   // Game whose result unlocked it, if any
+    unlockedAt: string;
+}
+
 export interface GameRegistryEntry {
     id: string;
     name: string;
     description: string | null;
     filePath: string;
+    energyCost: number;     // From the game's GameManifest
+    xpReward: number;
+    version: number;        // Active entry of game_versions
+    createdAt: string;
+}
+
+export interface GameVersionSummary {
+    gameId: string;
+    version: number;
+    filePath: string;        // Bundle, relative to games/community
+    energyCost: number;
+    xpReward: number;
+    changeRequest: string | null;   // What the player asked to change; null for the first version
+    prompt: string | null;   // What the model was asked for
+    model: string | null;    // Model that wrote it
     createdAt: string;
 }
 
+export interface GameVersion extends GameVersionSummary {
+    source: string;          // TSX the bundle was built from
+    bundle: string | null;   // Contents of filePath when it was built
+}
+
+// What went with an uninstalled game (counts of deleted rows)
+export interface RemovedGameData {
+    versions: number;
+    leaderboardEntries: number;
+    storedKeys: number;     // game_storage keys, across profiles
+}
+
 export interface LeaderboardEntry {
+    id: number;
     gameId: string;
-    userId: string;
+    profileId: number;
+    profileName?: string;
     score: number;
-    metaData: string; // JSON string
+    metaData: string; // JSON object, see LeaderboardMetaData in core/GameResults
+    createdAt: string;
+}
+
+export interface LeaderboardFilter {
+    difficulty?: string;
+    since?: Date;       // Only runs recorded at or after this moment
+    ranking?: 'score' | 'time';   // 'time': fastest wins first
+    limit?: number;
+}
+
+export type GameOutcome = 'win' | 'loss' | 'draw' | 'finished' | 'abandoned';
+
+export interface GameSession {
+    id: number;
+    profileId: number;
+    gameId: string;
+    difficulty: string | null;
+    startedAt: string;
+    endedAt: string;
+    durationMs: number;
+    score: number | null;
+    xpEarned: number;
+    energySpent: number;
+    outcome: GameOutcome;
+    seed: number | null;      // RNG seed of the run, to replay it
+}
+
+export interface GameSessionFilter {
+    gameId?: string;
+    since?: Date;       // Only sessions started at or after this moment
+    limit?: number;
+}
+
+export interface GameSessionSummary {
+    gameId: string;
+    plays: number;
+    wins: number;
+    losses: number;
+    bestScore: number | null;
+    averageScore: number | null;
+    totalXp: number;
+    totalEnergy: number;
+    totalDurationMs: number;
+    lastPlayedAt: string;
 }
 
 // Liku Learn Types
@@ -73,9 +242,33 @@ export interface LearnHistoryEntry {
     createdAt: string;
 }
 
+const MAX_PROFILE_NAME_LENGTH = 24;
+
+// Older replays of a profile are dropped beyond this many
+const MAX_REPLAYS_PER_PROFILE = 50;
+
+// Tables whose rows belong to a single profile (deleted with it)
+const PROFILE_SCOPED_TABLES = [
+    'player_stats',
+    'user_settings',
+    'learn_settings',
+    'learn_history',
+    'pro_tokens',
+    'leaderboards',
+    'game_sessions',
+    'needs_state',
+    'achievements',
+    'daily_challenge_results',
+    'game_replays',
+    'game_storage',
+    'elicitation_sessions',
+];
+
 class DatabaseService {
     private db: Database.Database;
     private initialized: boolean = false;
+    private activeProfileId: number = 1;
+    private statsListeners: Array<(stats: PlayerStats) => void> = [];
 
     constructor() {
         this.db = new Database(DB_PATH);
@@ -87,148 +280,13 @@ class DatabaseService {
 
     private init(): void {
         if (this.initialized) return;
-        
-        // Player Stats Table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS player_stats (
-                id INTEGER PRIMARY KEY CHECK (id = 1),
-                high_score INTEGER DEFAULT 0,
-                level INTEGER DEFAULT 1,
-                xp INTEGER DEFAULT 0,
-                games_played INTEGER DEFAULT 0
-            )
-        `);
-
-        // Add new columns if they don't exist (migrations)
-        const columns = [
-            { name: 'hunger', sql: 'ALTER TABLE player_stats ADD COLUMN hunger INTEGER DEFAULT 50' },
-            { name: 'energy', sql: 'ALTER TABLE player_stats ADD COLUMN energy INTEGER DEFAULT 100' },
-            { name: 'happiness', sql: 'ALTER TABLE player_stats ADD COLUMN happiness INTEGER DEFAULT 50' },
-            { name: 'hangman_wins', sql: 'ALTER TABLE player_stats ADD COLUMN hangman_wins INTEGER DEFAULT 0' },
-            { name: 'hangman_losses', sql: 'ALTER TABLE player_stats ADD COLUMN hangman_losses INTEGER DEFAULT 0' }
-        ];
-
-        // Check existing columns
-        const tableInfo = this.db.prepare('PRAGMA table_info(player_stats)').all() as { name: string }[];
-        const existingColumns = new Set(tableInfo.map(col => col.name));
-
-        for (const col of columns) {
-            if (!existingColumns.has(col.name)) {
-                try {
-                    this.db.exec(col.sql);
-                } catch {
-                    // Column might already exist
-                }
-            }
-        }
 
-        // Insert default row if not exists
-        this.db.exec(`
-            INSERT OR IGNORE INTO player_stats (id, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses)
-            VALUES (1, 0, 1, 0, 0, 50, 100, 50, 0, 0)
-        `);
+        // Bring the schema up to the latest version (see services/migrations)
+        new MigrationRunner(this.db, MIGRATIONS).migrate();
 
-        // User Settings Table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS user_settings (
-                id INTEGER PRIMARY KEY CHECK (id = 1),
-                theme TEXT DEFAULT 'default',
-                snake_difficulty TEXT DEFAULT 'medium'
-            )
-        `);
-
-        this.db.exec(`
-            INSERT OR IGNORE INTO user_settings (id, theme, snake_difficulty)
-            VALUES (1, 'default', 'medium')
-        `);
-
-        // Hangman Words Table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS hangman_words (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                word TEXT NOT NULL UNIQUE
-            )
-        `);
-
-        // Seed Hangman words
-        const words = ['react', 'typescript', 'javascript', 'nodejs', 'gemini', 'python', 'docker', 'database', 'component', 'interface'];
-        const insertWord = this.db.prepare('INSERT OR IGNORE INTO hangman_words (word) VALUES (?)');
-        for (const word of words) {
-            insertWord.run(word);
-        }
-
-        // Pro Tokens Table (Economy System)
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS pro_tokens (
-                user_id TEXT PRIMARY KEY,
-                balance INTEGER DEFAULT 10000,
-                last_reset DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        this.db.exec(`
-            INSERT OR IGNORE INTO pro_tokens (user_id, balance)
-            VALUES ('me', 10000)
-        `);
-
-        // Game Registry Table (Dynamic Games)
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS game_registry (
-                id TEXT PRIMARY KEY,
-                name TEXT NOT NULL,
-                description TEXT,
-                file_path TEXT NOT NULL,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        // Universal Leaderboard (Relational)
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS leaderboards (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                game_id TEXT,
-                user_id TEXT,
-                score INTEGER,
-                meta_data TEXT,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-                FOREIGN KEY(game_id) REFERENCES game_registry(id)
-            )
-        `);
-
-        // Liku Learn - Research History Table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS learn_history (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                query TEXT NOT NULL,
-                query_type TEXT NOT NULL,
-                response TEXT NOT NULL,
-                sources TEXT,
-                is_favorite INTEGER DEFAULT 0,
-                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-            )
-        `);
-
-        // Liku Learn - Settings Table
-        this.db.exec(`
-            CREATE TABLE IF NOT EXISTS learn_settings (
-                id INTEGER PRIMARY KEY CHECK (id = 1),
-                enabled INTEGER DEFAULT 1,
-                hint_style TEXT DEFAULT 'progressive',
-                save_history INTEGER DEFAULT 1,
-                max_history_items INTEGER DEFAULT 100,
-                safe_search INTEGER DEFAULT 1,
-                max_search_results INTEGER DEFAULT 5,
-                codebase_scope TEXT DEFAULT 'likubuddy',
-                custom_codebase_path TEXT,
-                wolfram_app_id TEXT,
-                show_sources INTEGER DEFAULT 1,
-                show_confidence INTEGER DEFAULT 0
-            )
-        `);
-
-        this.db.exec(`
-            INSERT OR IGNORE INTO learn_settings (id) VALUES (1)
-        `);
+        // Resume the most recently used profile
+        const row = this.db.prepare('SELECT id FROM profiles ORDER BY last_active_at DESC, id ASC LIMIT 1').get() as any;
+        this.activeProfileId = row?.id ?? this.createProfileSync('Player').id;
 
         this.initialized = true;
     }
@@ -246,7 +304,7 @@ class DatabaseService {
 
     // Sync methods returning promises for backward compatibility
     public async getStats(): Promise<PlayerStats> {
-        const row = this.db.prepare('SELECT * FROM player_stats WHERE id = 1').get() as any;
+        const row = this.db.prepare('SELECT * FROM player_stats WHERE profile_id = ?').get(this.activeProfileId) as any;
         return {
             highScore: row.high_score,
             level: row.level,
@@ -264,7 +322,7 @@ class DatabaseService {
      * Sync version of getStats for polling scenarios
      */
     public getStatsSync(): PlayerStats {
-        const row = this.db.prepare('SELECT * FROM player_stats WHERE id = 1').get() as any;
+        const row = this.db.prepare('SELECT * FROM player_stats WHERE profile_id = ?').get(this.activeProfileId) as any;
         return {
             highScore: row.high_score,
             level: row.level,
@@ -279,7 +337,7 @@ class DatabaseService {
     }
 
     public async getSettings(): Promise<UserSettings> {
-        const row = this.db.prepare('SELECT * FROM user_settings WHERE id = 1').get() as any;
+        const row = this.db.prepare('SELECT * FROM user_settings WHERE profile_id = ?').get(this.activeProfileId) as any;
         return {
             theme: row.theme,
             snakeDifficulty: row.snake_difficulty
@@ -287,7 +345,7 @@ class DatabaseService {
     }
 
     public getSettingsSync(): UserSettings {
-        const row = this.db.prepare('SELECT * FROM user_settings WHERE id = 1').get() as any;
+        const row = this.db.prepare('SELECT * FROM user_settings WHERE profile_id = ?').get(this.activeProfileId) as any;
         return {
             theme: row.theme,
             snakeDifficulty: row.snake_difficulty
@@ -309,8 +367,8 @@ class DatabaseService {
 
         if (fields.length === 0) return;
 
-        const query = `UPDATE user_settings SET ${fields.join(', ')} WHERE id = 1`;
-        this.db.prepare(query).run(...values);
+        const query = `UPDATE user_settings SET ${fields.join(', ')} WHERE profile_id = ?`;
+        this.db.prepare(query).run(...values, this.activeProfileId);
     }
 
     public async updateStats(stats: Partial<PlayerStats>): Promise<void> {
@@ -356,61 +414,453 @@ class DatabaseService {
 
         if (fields.length === 0) return;
 
-        const query = `UPDATE player_stats SET ${fields.join(', ')} WHERE id = 1`;
-        this.db.prepare(query).run(...values);
+        const query = `UPDATE player_stats SET ${fields.join(', ')} WHERE profile_id = ?`;
+        this.db.prepare(query).run(...values, this.activeProfileId);
         
         // Checkpoint to prevent WAL bloat on frequent updates
         this.checkpoint();
+
+        if (this.statsListeners.length > 0) {
+            const updated = this.getStatsSync();
+            for (const listener of this.statsListeners) {
+                try {
+                    listener(updated);
+                } catch (err) {
+                    console.error('Stats listener failed:', err);
+                }
+            }
+        }
     }
 
-    // Pro Tokens Methods
-    public async getProTokens(userId: string = 'me'): Promise<ProTokens> {
-        let row = this.db.prepare('SELECT * FROM pro_tokens WHERE user_id = ?').get(userId) as any;
-        
+    /**
+     * Call `listener` after every updateStats; returns an unsubscribe function
+     */
+    public onStatsUpdated(listener: (stats: PlayerStats) => void): () => void {
+        this.statsListeners.push(listener);
+        return () => {
+            this.statsListeners = this.statsListeners.filter(l => l !== listener);
+        };
+    }
+
+    // Needs Simulation Methods (see core/NeedsEngine)
+    public getNeedsStateSync(): NeedsState {
+        let row = this.db.prepare('SELECT * FROM needs_state WHERE profile_id = ?').get(this.activeProfileId) as any;
         if (!row) {
-            // Create default entry if not exists
-            this.db.prepare('INSERT INTO pro_tokens (user_id, balance) VALUES (?, 10000)').run(userId);
-            return { userId, balance: 10000, lastReset: new Date().toISOString() };
+            this.db.prepare(
+                "INSERT INTO needs_state (profile_id, last_tick_at) VALUES (?, strftime('%Y-%m-%d %H:%M:%f', 'now'))"
+            ).run(this.activeProfileId);
+            row = this.db.prepare('SELECT * FROM needs_state WHERE profile_id = ?').get(this.activeProfileId);
         }
 
         return {
-            userId: row.user_id,
-            balance: row.balance,
+            lastTickAt: row.last_tick_at,
+            carry: {
+                hunger: row.hunger_carry,
+                energy: row.energy_carry,
+                happiness: row.happiness_carry
+            }
+        };
+    }
+
+    /**
+     * Write decayed needs and the new tick bookkeeping in one transaction
+     */
+    public saveNeedsTick(needs: Pick<PlayerStats, 'hunger' | 'energy' | 'happiness'>, tickAt: Date, carry: NeedsState['carry']): void {
+        const save = this.db.transaction(() => {
+            this.db.prepare(
+                'UPDATE player_stats SET hunger = ?, energy = ?, happiness = ? WHERE profile_id = ?'
+            ).run(needs.hunger, needs.energy, needs.happiness, this.activeProfileId);
+            this.db.prepare(`
+                UPDATE needs_state
+                SET last_tick_at = strftime('%Y-%m-%d %H:%M:%f', ?), hunger_carry = ?, energy_carry = ?, happiness_carry = ?
+                WHERE profile_id = ?
+            `).run(tickAt.toISOString(), carry.hunger, carry.energy, carry.happiness, this.activeProfileId);
+        });
+        save();
+        this.checkpoint();
+    }
+
+    // Pro Tokens Methods (ledger; earn/spend rules live in core/TokenEconomy)
+    public async getProTokens(profileId: number = this.activeProfileId): Promise<ProTokens> {
+        return this.getProTokensSync(profileId);
+    }
+
+    public getProTokensSync(profileId: number = this.activeProfileId): ProTokens {
+        let row = this.db.prepare('SELECT * FROM pro_tokens WHERE profile_id = ?').get(profileId) as any;
+        if (!row) {
+            this.db.prepare('INSERT INTO pro_tokens (profile_id) VALUES (?)').run(profileId);
+            row = this.db.prepare('SELECT * FROM pro_tokens WHERE profile_id = ?').get(profileId);
+        }
+
+        return {
+            profileId: row.profile_id,
+            balance: this.getTokenBalanceSync(profileId),
             lastReset: row.last_reset
         };
     }
 
-    public async updateProTokens(userId: string, balance: number): Promise<void> {
-        this.db.prepare('UPDATE pro_tokens SET balance = ? WHERE user_id = ?').run(balance, userId);
+    public getTokenBalanceSync(profileId: number = this.activeProfileId): number {
+        const row = this.db.prepare(
+            'SELECT COALESCE(SUM(amount), 0) AS balance FROM token_transactions WHERE profile_id = ?'
+        ).get(profileId) as any;
+        return row.balance;
     }
 
-    // Game Registry Methods
-    public async registerGame(game: Omit<GameRegistryEntry, 'createdAt'>): Promise<void> {
-        this.db.prepare(
-            'INSERT OR REPLACE INTO game_registry (id, name, description, file_path) VALUES (?, ?, ?, ?)'
-        ).run(game.id, game.name, game.description, game.filePath);
+    public getTokenTransactionCountSync(profileId: number = this.activeProfileId): number {
+        const row = this.db.prepare('SELECT COUNT(*) AS count FROM token_transactions WHERE profile_id = ?').get(profileId) as any;
+        return row.count;
     }
 
-    public async getRegisteredGames(): Promise<GameRegistryEntry[]> {
-        const rows = this.db.prepare('SELECT * FROM game_registry ORDER BY created_at DESC').all() as any[];
-        return rows.map(row => ({
+    /**
+     * Append a transaction to the ledger. Transactions are never updated or
+     * deleted; corrections are new 'adjustment' rows.
+     */
+    public recordTokenTransaction(
+        transaction: { amount: number; reason: TokenReason; description?: string; metaData?: string },
+        profileId: number = this.activeProfileId
+    ): TokenTransaction {
+        const result = this.db.prepare(
+            'INSERT INTO token_transactions (profile_id, amount, reason, description, meta_data) VALUES (?, ?, ?, ?, ?)'
+        ).run(profileId, transaction.amount, transaction.reason, transaction.description ?? null, transaction.metaData ?? null);
+
+        const row = this.db.prepare('SELECT * FROM token_transactions WHERE id = ?').get(result.lastInsertRowid);
+        return this.mapTokenTransaction(row);
+    }
+
+    /**
+     * Record a periodic reset and move last_reset forward atomically
+     */
+    public recordTokenReset(amount: number, description: string, resetAt: Date, profileId: number = this.activeProfileId): TokenTransaction | null {
+        const reset = this.db.transaction(() => {
+            const transaction = amount !== 0
+                ? this.recordTokenTransaction({ amount, reason: 'reset', description }, profileId)
+                : null;
+            this.db.prepare(
+                'UPDATE pro_tokens SET last_reset = datetime(?) WHERE profile_id = ?'
+            ).run(resetAt.toISOString(), profileId);
+            return transaction;
+        });
+        return reset();
+    }
+
+    /**
+     * Most recent transactions, newest first
+     */
+    public async getTokenTransactions(limit: number = 10, profileId: number = this.activeProfileId): Promise<TokenTransaction[]> {
+        const rows = this.db.prepare(
+            'SELECT * FROM token_transactions WHERE profile_id = ? ORDER BY id DESC LIMIT ?'
+        ).all(profileId, limit) as any[];
+        return rows.map(row => this.mapTokenTransaction(row));
+    }
+
+    private mapTokenTransaction(row: any): TokenTransaction {
+        return {
             id: row.id,
-            name: row.name,
+            profileId: row.profile_id,
+            amount: row.amount,
+            reason: row.reason as TokenReason,
             description: row.description,
-            filePath: row.file_path,
+            metaData: row.meta_data,
             createdAt: row.created_at
-        }));
+        };
+    }
+
+    // ============================================================================
+    // Profile Methods
+    // ============================================================================
+
+    public getActiveProfileId(): number {
+        return this.activeProfileId;
+    }
+
+    public async getActiveProfile(): Promise<Profile> {
+        const profile = this.getProfileSync(this.activeProfileId);
+        if (!profile) {
+            throw new Error(`Active profile ${this.activeProfileId} no longer exists`);
+        }
+        return profile;
+    }
+
+    public async listProfiles(): Promise<Profile[]> {
+        const rows = this.db.prepare('SELECT * FROM profiles ORDER BY last_active_at DESC, id ASC').all() as any[];
+        return rows.map(row => this.mapProfile(row));
+    }
+
+    public async getProfileByName(name: string): Promise<Profile | null> {
+        const row = this.db.prepare('SELECT * FROM profiles WHERE name = ?').get(name.trim()) as any;
+        return row ? this.mapProfile(row) : null;
+    }
+
+    /**
+     * Create a profile with fresh stats, settings and tokens
+     */
+    public async createProfile(name: string): Promise<Profile> {
+        return this.createProfileSync(name);
+    }
+
+    /**
+     * Make a profile the active one for this process.
+     * All stats, settings, tokens and history calls are scoped to it.
+     */
+    public async switchProfile(profileId: number): Promise<Profile> {
+        const profile = this.getProfileSync(profileId);
+        if (!profile) {
+            throw new Error(`Profile ${profileId} not found`);
+        }
+
+        this.ensureProfileRows(profileId);
+        this.db.prepare('UPDATE profiles SET last_active_at = CURRENT_TIMESTAMP WHERE id = ?').run(profileId);
+        this.activeProfileId = profileId;
+        return this.getProfileSync(profileId)!;
+    }
+
+    public async renameProfile(profileId: number, name: string): Promise<void> {
+        const cleanName = this.validateProfileName(name);
+        const existing = this.db.prepare('SELECT id FROM profiles WHERE name = ? AND id != ?').get(cleanName, profileId);
+        if (existing) {
+            throw new Error(`A profile named '${cleanName}' already exists`);
+        }
+
+        const result = this.db.prepare('UPDATE profiles SET name = ? WHERE id = ?').run(cleanName, profileId);
+        if (result.changes === 0) {
+            throw new Error(`Profile ${profileId} not found`);
+        }
+    }
+
+    /**
+     * Delete a profile and everything keyed by it.
+     * The active profile cannot be deleted; switch away from it first.
+     */
+    public async deleteProfile(profileId: number): Promise<void> {
+        if (profileId === this.activeProfileId) {
+            throw new Error('Cannot delete the active profile. Switch to another profile first.');
+        }
+        if (!this.getProfileSync(profileId)) {
+            throw new Error(`Profile ${profileId} not found`);
+        }
+
+        // token_transactions is append-only and goes with the profile via ON DELETE CASCADE
+        const remove = this.db.transaction(() => {
+            for (const table of PROFILE_SCOPED_TABLES) {
+                this.db.prepare(`DELETE FROM ${table} WHERE profile_id = ?`).run(profileId);
+            }
+            this.db.prepare('DELETE FROM profiles WHERE id = ?').run(profileId);
+        });
+        remove();
+    }
+
+    private createProfileSync(name: string): Profile {
+        const cleanName = this.validateProfileName(name);
+        if (this.db.prepare('SELECT id FROM profiles WHERE name = ?').get(cleanName)) {
+            throw new Error(`A profile named '${cleanName}' already exists`);
+        }
+
+        const create = this.db.transaction(() => {
+            const result = this.db.prepare('INSERT INTO profiles (name) VALUES (?)').run(cleanName);
+            const profileId = Number(result.lastInsertRowid);
+            this.ensureProfileRows(profileId);
+            return profileId;
+        });
+
+        return this.getProfileSync(create())!;
+    }
+
+    private getProfileSync(profileId: number): Profile | null {
+        const row = this.db.prepare('SELECT * FROM profiles WHERE id = ?').get(profileId) as any;
+        return row ? this.mapProfile(row) : null;
+    }
+
+    /**
+     * Insert default per-profile rows that are missing
+     */
+    private ensureProfileRows(profileId: number): void {
+        this.db.prepare('INSERT OR IGNORE INTO player_stats (profile_id) VALUES (?)').run(profileId);
+        this.db.prepare('INSERT OR IGNORE INTO user_settings (profile_id) VALUES (?)').run(profileId);
+        this.db.prepare('INSERT OR IGNORE INTO learn_settings (profile_id) VALUES (?)').run(profileId);
+        this.db.prepare('INSERT OR IGNORE INTO pro_tokens (profile_id) VALUES (?)').run(profileId);
+        this.db.prepare(
+            "INSERT OR IGNORE INTO needs_state (profile_id, last_tick_at) VALUES (?, strftime('%Y-%m-%d %H:%M:%f', 'now'))"
+        ).run(profileId);
+    }
+
+    private validateProfileName(name: string): string {
+        const cleanName = name.trim();
+        if (!cleanName) {
+            throw new Error('Profile name cannot be empty');
+        }
+        if (cleanName.length > MAX_PROFILE_NAME_LENGTH) {
+            throw new Error(`Profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters`);
+        }
+        return cleanName;
+    }
+
+    private mapProfile(row: any): Profile {
+        return {
+            id: row.id,
+            name: row.name,
+            createdAt: row.created_at,
+            lastActiveAt: row.last_active_at
+        };
+    }
+
+    // Game Registry Methods
+    public async registerGame(game: Omit<GameRegistryEntry, 'createdAt' | 'version'>): Promise<void> {
+        // An upsert, not INSERT OR REPLACE: replacing the row would cascade to its versions
+        this.db.prepare(`
+            INSERT INTO game_registry (id, name, description, file_path, energy_cost, xp_reward) VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET
+                name = excluded.name,
+                description = excluded.description,
+                file_path = excluded.file_path,
+                energy_cost = excluded.energy_cost,
+                xp_reward = excluded.xp_reward
+        `).run(game.id, game.name, game.description, game.filePath, game.energyCost, game.xpReward);
+    }
+
+    public async getRegisteredGames(): Promise<GameRegistryEntry[]> {
+        const rows = this.db.prepare('SELECT * FROM game_registry ORDER BY created_at DESC').all() as any[];
+        return rows.map(row => this.mapGameRegistryEntry(row));
     }
 
     public async getGameById(id: string): Promise<GameRegistryEntry | null> {
         const row = this.db.prepare('SELECT * FROM game_registry WHERE id = ?').get(id) as any;
-        if (!row) return null;
-        
+        return row ? this.mapGameRegistryEntry(row) : null;
+    }
+
+    /**
+     * Uninstall a game for every profile: its registry row and versions,
+     * leaderboard entries and saved data. Game history (game_sessions) and
+     * the token ledger are kept.
+     */
+    public async removeGame(gameId: string): Promise<RemovedGameData | null> {
+        const remove = this.db.transaction((): RemovedGameData | null => {
+            if (!this.db.prepare('SELECT 1 FROM game_registry WHERE id = ?').get(gameId)) {
+                return null;
+            }
+            const leaderboardEntries = this.db.prepare('DELETE FROM leaderboards WHERE game_id = ?').run(gameId).changes;
+            const storedKeys = this.db.prepare('DELETE FROM game_storage WHERE game_id = ?').run(gameId).changes;
+            const { count: versions } = this.db.prepare(
+                'SELECT COUNT(*) AS count FROM game_versions WHERE game_id = ?'
+            ).get(gameId) as { count: number };
+            // game_versions goes with the registry row via ON DELETE CASCADE
+            this.db.prepare('DELETE FROM game_registry WHERE id = ?').run(gameId);
+            return { versions, leaderboardEntries, storedKeys };
+        });
+        return remove();
+    }
+
+    private mapGameRegistryEntry(row: any): GameRegistryEntry {
         return {
             id: row.id,
             name: row.name,
             description: row.description,
             filePath: row.file_path,
+            energyCost: row.energy_cost,
+            xpReward: row.xp_reward,
+            version: row.version,
+            createdAt: row.created_at
+        };
+    }
+
+    // Game Version Methods (community game sources and bundles, see core/GameLoader)
+    /**
+     * Store a new version of a registered game and make it the one played
+     */
+    public async addGameVersion(version: Omit<GameVersion, 'createdAt'>): Promise<void> {
+        const add = this.db.transaction(() => {
+            this.db.prepare(`
+                INSERT INTO game_versions (game_id, version, source, file_path, energy_cost, xp_reward, change_request, prompt, model, bundle)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                version.gameId,
+                version.version,
+                version.source,
+                version.filePath,
+                version.energyCost,
+                version.xpReward,
+                version.changeRequest,
+                version.prompt,
+                version.model,
+                version.bundle
+            );
+            this.activateGameVersionSync(version.gameId, version.version);
+        });
+        add();
+    }
+
+    /**
+     * Play a stored version of a game from now on (rollback)
+     */
+    public async activateGameVersion(gameId: string, version: number): Promise<boolean> {
+        return this.activateGameVersionSync(gameId, version);
+    }
+
+    private activateGameVersionSync(gameId: string, version: number): boolean {
+        const result = this.db.prepare(`
+            UPDATE game_registry SET
+                version = v.version,
+                file_path = v.file_path,
+                energy_cost = v.energy_cost,
+                xp_reward = v.xp_reward
+            FROM (SELECT * FROM game_versions WHERE game_id = ? AND version = ?) AS v
+            WHERE game_registry.id = v.game_id
+        `).run(gameId, version);
+        return result.changes > 0;
+    }
+
+    /**
+     * A version rebuilt from its source, e.g. after a React or Ink upgrade
+     */
+    public async updateGameVersionBuild(gameId: string, version: number, build: { bundle: string; energyCost: number; xpReward: number }): Promise<void> {
+        const update = this.db.transaction(() => {
+            this.db.prepare(`
+                UPDATE game_versions SET bundle = ?, energy_cost = ?, xp_reward = ?
+                WHERE game_id = ? AND version = ?
+            `).run(build.bundle, build.energyCost, build.xpReward, gameId, version);
+            this.db.prepare(`
+                UPDATE game_registry SET energy_cost = ?, xp_reward = ?
+                WHERE id = ? AND version = ?
+            `).run(build.energyCost, build.xpReward, gameId, version);
+        });
+        update();
+    }
+
+    /**
+     * Versions of a game without their source and bundle, newest first
+     */
+    public async getGameVersions(gameId: string): Promise<GameVersionSummary[]> {
+        const rows = this.db.prepare(`
+            SELECT game_id, version, file_path, energy_cost, xp_reward, change_request, prompt, model, created_at
+            FROM game_versions WHERE game_id = ? ORDER BY version DESC
+        `).all(gameId) as any[];
+        return rows.map(row => this.mapGameVersionSummary(row));
+    }
+
+    public async getGameVersion(gameId: string, version: number): Promise<GameVersion | null> {
+        const row = this.db.prepare(
+            'SELECT * FROM game_versions WHERE game_id = ? AND version = ?'
+        ).get(gameId, version) as any;
+        return row ? this.mapGameVersion(row) : null;
+    }
+
+    private mapGameVersion(row: any): GameVersion {
+        return {
+            ...this.mapGameVersionSummary(row),
+            source: row.source,
+            bundle: row.bundle
+        };
+    }
+
+    private mapGameVersionSummary(row: any): GameVersionSummary {
+        return {
+            gameId: row.game_id,
+            version: row.version,
+            filePath: row.file_path,
+            energyCost: row.energy_cost,
+            xpReward: row.xp_reward,
+            changeRequest: row.change_request,
+            prompt: row.prompt,
+            model: row.model,
             createdAt: row.created_at
         };
     }
@@ -420,31 +870,428 @@ class DatabaseService {
             id: 'hangman',
             name: 'Hangman',
             description: 'Guess the word before you run out of attempts!',
-            filePath: './games/Hangman.js'
+            filePath: './games/Hangman.js',
+            energyCost: 0,
+            xpReward: 0
         };
         return this.registerGame(hangmanGame);
     }
 
-    // Leaderboard Methods
-    public async addLeaderboardEntry(entry: Omit<LeaderboardEntry, 'id' | 'createdAt'>): Promise<void> {
-        this.db.prepare(
-            'INSERT INTO leaderboards (game_id, user_id, score, meta_data) VALUES (?, ?, ?, ?)'
-        ).run(entry.gameId, entry.userId, entry.score, entry.metaData);
+    // Leaderboard Methods (runs are reported through core/GameResults)
+    public async addLeaderboardEntry(entry: Omit<LeaderboardEntry, 'id' | 'profileName' | 'createdAt'>): Promise<number> {
+        const result = this.db.prepare(
+            'INSERT INTO leaderboards (game_id, profile_id, score, meta_data) VALUES (?, ?, ?, ?)'
+        ).run(entry.gameId, entry.profileId, entry.score, entry.metaData);
+        return result.lastInsertRowid as number;
     }
 
-    public async getLeaderboard(gameId: string, limit: number = 10): Promise<LeaderboardEntry[]> {
+    /**
+     * Best runs of a game across all profiles
+     */
+    public async getLeaderboard(gameId: string, filter: LeaderboardFilter = {}): Promise<LeaderboardEntry[]> {
+        const clauses = ['l.game_id = ?'];
+        const values: any[] = [gameId];
+        if (filter.difficulty) {
+            clauses.push("json_extract(l.meta_data, '$.difficulty') = ?");
+            values.push(filter.difficulty);
+        }
+        if (filter.since) {
+            clauses.push('l.created_at >= datetime(?)');
+            values.push(filter.since.toISOString());
+        }
+        if (filter.ranking === 'time') {
+            clauses.push("json_extract(l.meta_data, '$.outcome') = 'win'");
+        }
+        const order = filter.ranking === 'time'
+            ? "json_extract(l.meta_data, '$.durationMs') ASC"
+            : "l.score DESC, json_extract(l.meta_data, '$.durationMs') ASC";
+
+        const rows = this.db.prepare(`
+            SELECT l.*, p.name AS profile_name
+            FROM leaderboards l
+            LEFT JOIN profiles p ON p.id = l.profile_id
+            WHERE ${clauses.join(' AND ')}
+            ORDER BY ${order}, l.id ASC LIMIT ?
+        `).all(...values, filter.limit ?? 10) as any[];
+
+        return rows.map(row => ({
+            id: row.id,
+            gameId: row.game_id,
+            profileId: row.profile_id,
+            profileName: row.profile_name ?? undefined,
+            score: row.score,
+            metaData: row.meta_data,
+            createdAt: row.created_at
+        }));
+    }
+
+    /**
+     * Games that have leaderboard entries, most entries first
+     */
+    public async getLeaderboardGameIds(): Promise<string[]> {
         const rows = this.db.prepare(
-            'SELECT * FROM leaderboards WHERE game_id = ? ORDER BY score DESC LIMIT ?'
-        ).all(gameId, limit) as any[];
-        
+            'SELECT game_id FROM leaderboards GROUP BY game_id ORDER BY COUNT(*) DESC, game_id'
+        ).all() as any[];
+        return rows.map(row => row.game_id);
+    }
+
+    /**
+     * The active profile's best leaderboard score in a game
+     */
+    public async getPersonalBest(gameId: string): Promise<number | null> {
+        const row = this.db.prepare(
+            'SELECT MAX(score) AS best FROM leaderboards WHERE game_id = ? AND profile_id = ?'
+        ).get(gameId, this.activeProfileId) as any;
+        return row?.best ?? null;
+    }
+
+    // Game Storage Methods (liku-sdk useGameStorage)
+    public async getGameData(gameId: string, key: string): Promise<unknown> {
+        const row = this.db.prepare(
+            'SELECT value FROM game_storage WHERE profile_id = ? AND game_id = ? AND key = ?'
+        ).get(this.activeProfileId, gameId, key) as any;
+        return row ? JSON.parse(row.value) : undefined;
+    }
+
+    public async setGameData(gameId: string, key: string, value: unknown): Promise<void> {
+        const json = JSON.stringify(value);
+        if (json === undefined) {
+            this.db.prepare('DELETE FROM game_storage WHERE profile_id = ? AND game_id = ? AND key = ?')
+                .run(this.activeProfileId, gameId, key);
+            return;
+        }
+        this.db.prepare(`
+            INSERT INTO game_storage (profile_id, game_id, key, value, updated_at)
+            VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+            ON CONFLICT (profile_id, game_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+        `).run(this.activeProfileId, gameId, key, json);
+    }
+
+    // Game Session Methods
+    public async recordGameSession(session: Omit<GameSession, 'id' | 'profileId' | 'durationMs'>): Promise<number> {
+        const durationMs = Math.max(0, new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime());
+        const result = this.db.prepare(`
+            INSERT INTO game_sessions (profile_id, game_id, difficulty, started_at, ended_at, duration_ms, score, xp_earned, energy_spent, outcome, seed)
+            VALUES (?, ?, ?, datetime(?), datetime(?), ?, ?, ?, ?, ?, ?)
+        `).run(
+            this.activeProfileId,
+            session.gameId,
+            session.difficulty,
+            session.startedAt,
+            session.endedAt,
+            durationMs,
+            session.score,
+            session.xpEarned,
+            session.energySpent,
+            session.outcome,
+            session.seed
+        );
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Most recent sessions of the active profile, newest first
+     */
+    public async getGameSessions(filter: GameSessionFilter = {}): Promise<GameSession[]> {
+        const { where, values } = this.buildSessionFilter(filter);
+        const rows = this.db.prepare(
+            `SELECT * FROM game_sessions WHERE ${where} ORDER BY started_at DESC, id DESC LIMIT ?`
+        ).all(...values, filter.limit ?? 20) as any[];
+
         return rows.map(row => ({
+            id: row.id,
+            profileId: row.profile_id,
             gameId: row.game_id,
-            userId: row.user_id,
+            difficulty: row.difficulty,
+            startedAt: row.started_at,
+            endedAt: row.ended_at,
+            durationMs: row.duration_ms,
             score: row.score,
-            metaData: row.meta_data
+            xpEarned: row.xp_earned,
+            energySpent: row.energy_spent,
+            outcome: row.outcome as GameOutcome,
+            seed: row.seed
         }));
     }
 
+    /**
+     * Per-game aggregates of the active profile's sessions, most played first
+     */
+    public async getGameSessionSummary(filter: Omit<GameSessionFilter, 'limit'> = {}): Promise<GameSessionSummary[]> {
+        const { where, values } = this.buildSessionFilter(filter);
+        const rows = this.db.prepare(`
+            SELECT game_id,
+                COUNT(*) AS plays,
+                SUM(outcome = 'win') AS wins,
+                SUM(outcome = 'loss') AS losses,
+                MAX(score) AS best_score,
+                AVG(score) AS average_score,
+                SUM(xp_earned) AS total_xp,
+                SUM(energy_spent) AS total_energy,
+                SUM(duration_ms) AS total_duration_ms,
+                MAX(started_at) AS last_played_at
+            FROM game_sessions
+            WHERE ${where}
+            GROUP BY game_id
+            ORDER BY plays DESC, last_played_at DESC
+        `).all(...values) as any[];
+
+        return rows.map(row => ({
+            gameId: row.game_id,
+            plays: row.plays,
+            wins: row.wins,
+            losses: row.losses,
+            bestScore: row.best_score,
+            averageScore: row.average_score === null ? null : Math.round(row.average_score),
+            totalXp: row.total_xp,
+            totalEnergy: row.total_energy,
+            totalDurationMs: row.total_duration_ms,
+            lastPlayedAt: row.last_played_at
+        }));
+    }
+
+    private buildSessionFilter(filter: GameSessionFilter): { where: string; values: any[] } {
+        const clauses = ['profile_id = ?'];
+        const values: any[] = [this.activeProfileId];
+        if (filter.gameId) {
+            clauses.push('game_id = ?');
+            values.push(filter.gameId);
+        }
+        if (filter.since) {
+            clauses.push('started_at >= datetime(?)');
+            values.push(filter.since.toISOString());
+        }
+        return { where: clauses.join(' AND '), values };
+    }
+
+    // Daily Challenge Methods (challenges are derived in core/DailyChallenge)
+    public async recordDailyChallengeResult(result: DailyChallengeResult): Promise<void> {
+        this.db.prepare(`
+            INSERT INTO daily_challenge_results (challenge_date, profile_id, game_id, seed, score, outcome, duration_ms)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            result.challengeDate,
+            this.activeProfileId,
+            result.gameId,
+            result.seed,
+            result.score,
+            result.outcome,
+            result.durationMs
+        );
+    }
+
+    /**
+     * Best run per profile on a day: highest score, or fastest win when
+     * ranking by time
+     */
+    public async getDailyLeaderboard(challengeDate: string, ranking: 'score' | 'time', limit: number = 10): Promise<DailyLeaderboardEntry[]> {
+        // SQLite fills bare columns from the row that holds the MAX/MIN
+        const query = ranking === 'score'
+            ? `SELECT r.profile_id, p.name AS profile_name, MAX(r.score) AS score, r.duration_ms, r.created_at, COUNT(*) AS attempts
+               FROM daily_challenge_results r JOIN profiles p ON p.id = r.profile_id
+               WHERE r.challenge_date = ? AND r.score IS NOT NULL
+               GROUP BY r.profile_id
+               ORDER BY score DESC, r.duration_ms ASC LIMIT ?`
+            : `SELECT r.profile_id, p.name AS profile_name, r.score, MIN(r.duration_ms) AS duration_ms, r.created_at, COUNT(*) AS attempts
+               FROM daily_challenge_results r JOIN profiles p ON p.id = r.profile_id
+               WHERE r.challenge_date = ? AND r.outcome = 'win'
+               GROUP BY r.profile_id
+               ORDER BY duration_ms ASC LIMIT ?`;
+
+        const rows = this.db.prepare(query).all(challengeDate, limit) as any[];
+        return rows.map(row => ({
+            profileId: row.profile_id,
+            profileName: row.profile_name,
+            score: row.score,
+            durationMs: row.duration_ms,
+            attempts: row.attempts,
+            playedAt: row.created_at
+        }));
+    }
+
+    // Replay Methods (recording and playback live in core/Replay)
+    public async saveReplay(run: ReplayRun, sessionId: number | null = null): Promise<number> {
+        const save = this.db.transaction(() => {
+            const result = this.db.prepare(`
+                INSERT INTO game_replays (profile_id, session_id, game_id, difficulty, seed, score, outcome, duration_ms, event_count, events)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                this.activeProfileId,
+                sessionId,
+                run.gameId,
+                run.difficulty,
+                run.seed,
+                run.score,
+                run.outcome,
+                run.durationMs,
+                run.events.length,
+                JSON.stringify(run.events)
+            );
+
+            this.db.prepare(`
+                DELETE FROM game_replays WHERE profile_id = ? AND id NOT IN (
+                    SELECT id FROM game_replays WHERE profile_id = ? ORDER BY id DESC LIMIT ?
+                )
+            `).run(this.activeProfileId, this.activeProfileId, MAX_REPLAYS_PER_PROFILE);
+
+            return result.lastInsertRowid as number;
+        });
+        return save();
+    }
+
+    /**
+     * Replays of the active profile without their events, newest first
+     */
+    public async getReplays(filter: { gameId?: string; limit?: number } = {}): Promise<GameReplaySummary[]> {
+        const rows = this.db.prepare(`
+            SELECT id, session_id, game_id, difficulty, seed, score, outcome, duration_ms, event_count, created_at
+            FROM game_replays
+            WHERE profile_id = ? AND (? IS NULL OR game_id = ?)
+            ORDER BY id DESC LIMIT ?
+        `).all(this.activeProfileId, filter.gameId ?? null, filter.gameId ?? null, filter.limit ?? MAX_REPLAYS_PER_PROFILE) as any[];
+        return rows.map(row => this.mapReplaySummary(row));
+    }
+
+    public async getReplay(replayId: number): Promise<GameReplay | null> {
+        const row = this.db.prepare(
+            'SELECT * FROM game_replays WHERE id = ? AND profile_id = ?'
+        ).get(replayId, this.activeProfileId) as any;
+        if (!row) return null;
+        return { ...this.mapReplaySummary(row), events: JSON.parse(row.events) };
+    }
+
+    public async deleteReplay(replayId: number): Promise<boolean> {
+        const result = this.db.prepare(
+            'DELETE FROM game_replays WHERE id = ? AND profile_id = ?'
+        ).run(replayId, this.activeProfileId);
+        return result.changes > 0;
+    }
+
+    private mapReplaySummary(row: any): GameReplaySummary {
+        return {
+            id: row.id,
+            sessionId: row.session_id,
+            gameId: row.game_id,
+            difficulty: row.difficulty,
+            seed: row.seed,
+            score: row.score,
+            outcome: row.outcome,
+            durationMs: row.duration_ms,
+            eventCount: row.event_count,
+            createdAt: row.created_at
+        };
+    }
+
+    // Elicitation Session Methods (game builder design conversations, see builder/ElicitationAgent)
+    /**
+     * Create or update a session of the active profile. History is
+     * append-only: turns already stored are kept, new ones are added.
+     */
+    public async saveElicitationSession(session: {
+        sessionId: string;
+        gameIdea: string;
+        status: ElicitationStatus;
+        gameId?: string | null;
+        history: ElicitationTurn[];
+    }): Promise<void> {
+        const save = this.db.transaction(() => {
+            const owner = this.db.prepare(
+                'SELECT profile_id FROM elicitation_sessions WHERE id = ?'
+            ).get(session.sessionId) as any;
+            if (owner && owner.profile_id !== this.activeProfileId) {
+                throw new Error(`Elicitation session ${session.sessionId} belongs to another profile`);
+            }
+
+            this.db.prepare(`
+                INSERT INTO elicitation_sessions (id, profile_id, game_idea, status, game_id, updated_at)
+                VALUES (?, ?, ?, ?, ?, strftime('%Y-%m-%d %H:%M:%f', 'now'))
+                ON CONFLICT (id) DO UPDATE SET
+                    status = excluded.status,
+                    game_id = excluded.game_id,
+                    updated_at = excluded.updated_at
+            `).run(session.sessionId, this.activeProfileId, session.gameIdea, session.status, session.gameId ?? null);
+
+            const insertTurn = this.db.prepare(`
+                INSERT OR IGNORE INTO elicitation_turns (session_id, seq, role, content)
+                VALUES (?, ?, ?, ?)
+            `);
+            session.history.forEach((turn, seq) => {
+                insertTurn.run(session.sessionId, seq, turn.role, turn.content);
+            });
+        });
+        save();
+    }
+
+    /**
+     * Sessions of the active profile, most recently touched first
+     */
+    public async getElicitationSessions(filter: { statuses?: ElicitationStatus[]; limit?: number } = {}): Promise<ElicitationSessionSummary[]> {
+        const statuses = filter.statuses ?? ['eliciting', 'ready', 'completed'];
+        const rows = this.db.prepare(`
+            SELECT s.*, (SELECT COUNT(*) FROM elicitation_turns t WHERE t.session_id = s.id) AS turn_count
+            FROM elicitation_sessions s
+            WHERE s.profile_id = ? AND s.status IN (${statuses.map(() => '?').join(', ')})
+            ORDER BY s.updated_at DESC LIMIT ?
+        `).all(this.activeProfileId, ...statuses, filter.limit ?? 20) as any[];
+        return rows.map(row => this.mapElicitationSummary(row));
+    }
+
+    public async getElicitationSession(sessionId: string): Promise<StoredElicitationSession | null> {
+        const row = this.db.prepare(`
+            SELECT s.*, (SELECT COUNT(*) FROM elicitation_turns t WHERE t.session_id = s.id) AS turn_count
+            FROM elicitation_sessions s
+            WHERE s.id = ? AND s.profile_id = ?
+        `).get(sessionId, this.activeProfileId) as any;
+        if (!row) return null;
+
+        const history = this.db.prepare(
+            'SELECT role, content FROM elicitation_turns WHERE session_id = ? ORDER BY seq'
+        ).all(sessionId) as ElicitationTurn[];
+        return { ...this.mapElicitationSummary(row), history };
+    }
+
+    public async deleteElicitationSession(sessionId: string): Promise<boolean> {
+        const result = this.db.prepare(
+            'DELETE FROM elicitation_sessions WHERE id = ? AND profile_id = ?'
+        ).run(sessionId, this.activeProfileId);
+        return result.changes > 0;
+    }
+
+    private mapElicitationSummary(row: any): ElicitationSessionSummary {
+        return {
+            sessionId: row.id,
+            gameIdea: row.game_idea,
+            status: row.status,
+            gameId: row.game_id,
+            turnCount: row.turn_count,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+
+    // Achievement Methods (definitions live in core/AchievementEngine)
+    public async getUnlockedAchievements(): Promise<UnlockedAchievement[]> {
+        const rows = this.db.prepare(
+            'SELECT * FROM achievements WHERE profile_id = ? ORDER BY unlocked_at DESC, rowid DESC'
+        ).all(this.activeProfileId) as any[];
+
+        return rows.map(row => ({
+            achievementId: row.achievement_id,
+            gameId: row.game_id,
+            unlockedAt: row.unlocked_at
+        }));
+    }
+
+    /**
+     * Record an unlock; returns false if the achievement was already unlocked
+     */
+    public async unlockAchievement(achievementId: string, gameId: string | null = null): Promise<boolean> {
+        const result = this.db.prepare(
+            'INSERT OR IGNORE INTO achievements (profile_id, achievement_id, game_id) VALUES (?, ?, ?)'
+        ).run(this.activeProfileId, achievementId, gameId);
+        return result.changes > 0;
+    }
+
     // Expose database instance for advanced queries
     public getDbInstance(): Database.Database {
         return this.db;
@@ -481,6 +1328,17 @@ class DatabaseService {
         return row.word;
     }
 
+    /**
+     * Every hangman word in a stable order, for seeded picks
+     */
+    public async getHangmanWords(): Promise<string[]> {
+        const rows = this.db.prepare('SELECT word FROM hangman_words ORDER BY id').all() as any[];
+        if (rows.length === 0) {
+            throw new Error('No words found in hangman_words table.');
+        }
+        return rows.map(row => row.word);
+    }
+
     public getRandomHangmanWordSync(): string {
         const row = this.db.prepare('SELECT word FROM hangman_words ORDER BY RANDOM() LIMIT 1').get() as any;
         if (!row) {
@@ -497,7 +1355,7 @@ class DatabaseService {
      * Get Liku Learn settings
      */
     public async getLearnSettings(): Promise<LearnSettings> {
-        const row = this.db.prepare('SELECT * FROM learn_settings WHERE id = 1').get() as any;
+        const row = this.db.prepare('SELECT * FROM learn_settings WHERE profile_id = ?').get(this.activeProfileId) as any;
         return {
             enabled: !!row.enabled,
             hintStyle: row.hint_style as 'progressive' | 'direct',
@@ -567,8 +1425,8 @@ class DatabaseService {
 
         if (fields.length === 0) return;
 
-        const query = `UPDATE learn_settings SET ${fields.join(', ')} WHERE id = 1`;
-        this.db.prepare(query).run(...values);
+        const query = `UPDATE learn_settings SET ${fields.join(', ')} WHERE profile_id = ?`;
+        this.db.prepare(query).run(...values, this.activeProfileId);
     }
 
     /**
@@ -581,19 +1439,20 @@ class DatabaseService {
         sources?: string
     ): Promise<number> {
         const result = this.db.prepare(
-            'INSERT INTO learn_history (query, query_type, response, sources) VALUES (?, ?, ?, ?)'
-        ).run(query, queryType, response, sources || null);
+            'INSERT INTO learn_history (profile_id, query, query_type, response, sources) VALUES (?, ?, ?, ?, ?)'
+        ).run(this.activeProfileId, query, queryType, response, sources || null);
         
         // Cleanup old entries if exceeding max
         const settings = await this.getLearnSettings();
         this.db.prepare(`
             DELETE FROM learn_history 
-            WHERE id NOT IN (
+            WHERE profile_id = ? AND id NOT IN (
                 SELECT id FROM learn_history 
+                WHERE profile_id = ?
                 ORDER BY created_at DESC 
                 LIMIT ?
             )
-        `).run(settings.maxHistoryItems);
+        `).run(this.activeProfileId, this.activeProfileId, settings.maxHistoryItems);
 
         return result.lastInsertRowid as number;
     }
@@ -603,8 +1462,8 @@ class DatabaseService {
      */
     public async getLearnHistory(limit: number = 20): Promise<LearnHistoryEntry[]> {
         const rows = this.db.prepare(
-            'SELECT * FROM learn_history ORDER BY created_at DESC LIMIT ?'
-        ).all(limit) as any[];
+            'SELECT * FROM learn_history WHERE profile_id = ? ORDER BY created_at DESC LIMIT ?'
+        ).all(this.activeProfileId, limit) as any[];
 
         return rows.map(row => ({
             id: row.id,
@@ -622,8 +1481,8 @@ class DatabaseService {
      */
     public async toggleLearnFavorite(id: number): Promise<void> {
         this.db.prepare(
-            'UPDATE learn_history SET is_favorite = NOT is_favorite WHERE id = ?'
-        ).run(id);
+            'UPDATE learn_history SET is_favorite = NOT is_favorite WHERE id = ? AND profile_id = ?'
+        ).run(id, this.activeProfileId);
     }
 
     /**
@@ -631,8 +1490,8 @@ class DatabaseService {
      */
     public async getLearnFavorites(): Promise<LearnHistoryEntry[]> {
         const rows = this.db.prepare(
-            'SELECT * FROM learn_history WHERE is_favorite = 1 ORDER BY created_at DESC'
-        ).all() as any[];
+            'SELECT * FROM learn_history WHERE profile_id = ? AND is_favorite = 1 ORDER BY created_at DESC'
+        ).all(this.activeProfileId) as any[];
 
         return rows.map(row => ({
             id: row.id,
@@ -650,9 +1509,9 @@ class DatabaseService {
      */
     public async clearLearnHistory(includeFavorites: boolean = false): Promise<void> {
         if (includeFavorites) {
-            this.db.prepare('DELETE FROM learn_history').run();
+            this.db.prepare('DELETE FROM learn_history WHERE profile_id = ?').run(this.activeProfileId);
         } else {
-            this.db.prepare('DELETE FROM learn_history WHERE is_favorite = 0').run();
+            this.db.prepare('DELETE FROM learn_history WHERE profile_id = ? AND is_favorite = 0').run(this.activeProfileId);
         }
     }
 
@@ -661,8 +1520,8 @@ class DatabaseService {
      */
     public async searchLearnHistory(searchTerm: string): Promise<LearnHistoryEntry[]> {
         const rows = this.db.prepare(
-            'SELECT * FROM learn_history WHERE query LIKE ? OR response LIKE ? ORDER BY created_at DESC LIMIT 20'
-        ).all(`%${searchTerm}%`, `%${searchTerm}%`) as any[];
+            'SELECT * FROM learn_history WHERE profile_id = ? AND (query LIKE ? OR response LIKE ?) ORDER BY created_at DESC LIMIT 20'
+        ).all(this.activeProfileId, `%${searchTerm}%`, `%${searchTerm}%`) as any[];
 
         return rows.map(row => ({
             id: row.id,
@@ -0,0 +1,164 @@
+import type { Migration } from './types.js';
+
+/**
+ * Baseline schema. Uses IF NOT EXISTS and column guards so that databases
+ * created before versioned migrations existed are adopted as version 1.
+ */
+const migration: Migration = {
+    version: 1,
+    name: 'initial_schema',
+
+    up: (db) => {
+        // Player Stats Table
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS player_stats (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                high_score INTEGER DEFAULT 0,
+                level INTEGER DEFAULT 1,
+                xp INTEGER DEFAULT 0,
+                games_played INTEGER DEFAULT 0
+            )
+        `);
+
+        // Columns added to player_stats before versioned migrations existed
+        const columns = [
+            { name: 'hunger', sql: 'ALTER TABLE player_stats ADD COLUMN hunger INTEGER DEFAULT 50' },
+            { name: 'energy', sql: 'ALTER TABLE player_stats ADD COLUMN energy INTEGER DEFAULT 100' },
+            { name: 'happiness', sql: 'ALTER TABLE player_stats ADD COLUMN happiness INTEGER DEFAULT 50' },
+            { name: 'hangman_wins', sql: 'ALTER TABLE player_stats ADD COLUMN hangman_wins INTEGER DEFAULT 0' },
+            { name: 'hangman_losses', sql: 'ALTER TABLE player_stats ADD COLUMN hangman_losses INTEGER DEFAULT 0' }
+        ];
+
+        const tableInfo = db.prepare('PRAGMA table_info(player_stats)').all() as { name: string }[];
+        const existingColumns = new Set(tableInfo.map(col => col.name));
+
+        for (const col of columns) {
+            if (!existingColumns.has(col.name)) {
+                db.exec(col.sql);
+            }
+        }
+
+        // Insert default row if not exists
+        db.exec(`
+            INSERT OR IGNORE INTO player_stats (id, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses)
+            VALUES (1, 0, 1, 0, 0, 50, 100, 50, 0, 0)
+        `);
+
+        // User Settings Table
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS user_settings (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                theme TEXT DEFAULT 'default',
+                snake_difficulty TEXT DEFAULT 'medium'
+            )
+        `);
+
+        db.exec(`
+            INSERT OR IGNORE INTO user_settings (id, theme, snake_difficulty)
+            VALUES (1, 'default', 'medium')
+        `);
+
+        // Hangman Words Table
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS hangman_words (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                word TEXT NOT NULL UNIQUE
+            )
+        `);
+
+        // Seed Hangman words
+        const words = ['react', 'typescript', 'javascript', 'nodejs', 'gemini', 'python', 'docker', 'database', 'component', 'interface'];
+        const insertWord = db.prepare('INSERT OR IGNORE INTO hangman_words (word) VALUES (?)');
+        for (const word of words) {
+            insertWord.run(word);
+        }
+
+        // Pro Tokens Table (Economy System)
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS pro_tokens (
+                user_id TEXT PRIMARY KEY,
+                balance INTEGER DEFAULT 10000,
+                last_reset DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        db.exec(`
+            INSERT OR IGNORE INTO pro_tokens (user_id, balance)
+            VALUES ('me', 10000)
+        `);
+
+        // Game Registry Table (Dynamic Games)
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS game_registry (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                description TEXT,
+                file_path TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        // Universal Leaderboard (Relational)
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS leaderboards (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                game_id TEXT,
+                user_id TEXT,
+                score INTEGER,
+                meta_data TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY(game_id) REFERENCES game_registry(id)
+            )
+        `);
+
+        // Liku Learn - Research History Table
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS learn_history (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                query TEXT NOT NULL,
+                query_type TEXT NOT NULL,
+                response TEXT NOT NULL,
+                sources TEXT,
+                is_favorite INTEGER DEFAULT 0,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        // Liku Learn - Settings Table
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS learn_settings (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                enabled INTEGER DEFAULT 1,
+                hint_style TEXT DEFAULT 'progressive',
+                save_history INTEGER DEFAULT 1,
+                max_history_items INTEGER DEFAULT 100,
+                safe_search INTEGER DEFAULT 1,
+                max_search_results INTEGER DEFAULT 5,
+                codebase_scope TEXT DEFAULT 'likubuddy',
+                custom_codebase_path TEXT,
+                wolfram_app_id TEXT,
+                show_sources INTEGER DEFAULT 1,
+                show_confidence INTEGER DEFAULT 0
+            )
+        `);
+
+        db.exec(`
+            INSERT OR IGNORE INTO learn_settings (id) VALUES (1)
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            DROP TABLE IF EXISTS learn_settings;
+            DROP TABLE IF EXISTS learn_history;
+            DROP TABLE IF EXISTS leaderboards;
+            DROP TABLE IF EXISTS game_registry;
+            DROP TABLE IF EXISTS pro_tokens;
+            DROP TABLE IF EXISTS hangman_words;
+            DROP TABLE IF EXISTS user_settings;
+            DROP TABLE IF EXISTS player_stats;
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,216 @@
+import type { Migration } from './types.js';
+
+/**
+ * Replaces the hard-coded singleton player (id = 1 / user_id = 'me') with
+ * first-class profiles. Existing data becomes profile 1.
+ */
+const migration: Migration = {
+    version: 2,
+    name: 'profiles',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE profiles (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                last_active_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        db.exec(`INSERT INTO profiles (id, name) VALUES (1, 'Player')`);
+
+        // player_stats: id = 1 -> profile_id
+        db.exec(`
+            CREATE TABLE player_stats_new (
+                profile_id INTEGER PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+                high_score INTEGER DEFAULT 0,
+                level INTEGER DEFAULT 1,
+                xp INTEGER DEFAULT 0,
+                games_played INTEGER DEFAULT 0,
+                hunger INTEGER DEFAULT 50,
+                energy INTEGER DEFAULT 100,
+                happiness INTEGER DEFAULT 50,
+                hangman_wins INTEGER DEFAULT 0,
+                hangman_losses INTEGER DEFAULT 0
+            );
+            INSERT INTO player_stats_new (profile_id, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses)
+                SELECT 1, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses
+                FROM player_stats WHERE id = 1;
+            DROP TABLE player_stats;
+            ALTER TABLE player_stats_new RENAME TO player_stats;
+        `);
+
+        // user_settings: id = 1 -> profile_id
+        db.exec(`
+            CREATE TABLE user_settings_new (
+                profile_id INTEGER PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+                theme TEXT DEFAULT 'default',
+                snake_difficulty TEXT DEFAULT 'medium'
+            );
+            INSERT INTO user_settings_new (profile_id, theme, snake_difficulty)
+                SELECT 1, theme, snake_difficulty FROM user_settings WHERE id = 1;
+            DROP TABLE user_settings;
+            ALTER TABLE user_settings_new RENAME TO user_settings;
+        `);
+
+        // learn_settings: id = 1 -> profile_id
+        db.exec(`
+            CREATE TABLE learn_settings_new (
+                profile_id INTEGER PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+                enabled INTEGER DEFAULT 1,
+                hint_style TEXT DEFAULT 'progressive',
+                save_history INTEGER DEFAULT 1,
+                max_history_items INTEGER DEFAULT 100,
+                safe_search INTEGER DEFAULT 1,
+                max_search_results INTEGER DEFAULT 5,
+                codebase_scope TEXT DEFAULT 'likubuddy',
+                custom_codebase_path TEXT,
+                wolfram_app_id TEXT,
+                show_sources INTEGER DEFAULT 1,
+                show_confidence INTEGER DEFAULT 0
+            );
+            INSERT INTO learn_settings_new (profile_id, enabled, hint_style, save_history, max_history_items, safe_search,
+                    max_search_results, codebase_scope, custom_codebase_path, wolfram_app_id, show_sources, show_confidence)
+                SELECT 1, enabled, hint_style, save_history, max_history_items, safe_search,
+                    max_search_results, codebase_scope, custom_codebase_path, wolfram_app_id, show_sources, show_confidence
+                FROM learn_settings WHERE id = 1;
+            DROP TABLE learn_settings;
+            ALTER TABLE learn_settings_new RENAME TO learn_settings;
+        `);
+
+        // pro_tokens: user_id 'me' -> profile_id
+        db.exec(`
+            CREATE TABLE pro_tokens_new (
+                profile_id INTEGER PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+                balance INTEGER DEFAULT 10000,
+                last_reset DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            INSERT INTO pro_tokens_new (profile_id, balance, last_reset)
+                SELECT 1, balance, last_reset FROM pro_tokens WHERE user_id = 'me';
+            DROP TABLE pro_tokens;
+            ALTER TABLE pro_tokens_new RENAME TO pro_tokens;
+        `);
+
+        // leaderboards: user_id -> profile_id (every existing row belonged to 'me')
+        db.exec(`
+            CREATE TABLE leaderboards_new (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                game_id TEXT,
+                profile_id INTEGER REFERENCES profiles(id) ON DELETE CASCADE,
+                score INTEGER,
+                meta_data TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY(game_id) REFERENCES game_registry(id)
+            );
+            INSERT INTO leaderboards_new (id, game_id, profile_id, score, meta_data, created_at)
+                SELECT id, game_id, 1, score, meta_data, created_at FROM leaderboards;
+            DROP TABLE leaderboards;
+            ALTER TABLE leaderboards_new RENAME TO leaderboards;
+        `);
+
+        db.exec(`ALTER TABLE learn_history ADD COLUMN profile_id INTEGER NOT NULL DEFAULT 1`);
+
+        // Make sure profile 1 is complete even if a legacy table was empty
+        db.exec(`
+            INSERT OR IGNORE INTO player_stats (profile_id) VALUES (1);
+            INSERT OR IGNORE INTO user_settings (profile_id) VALUES (1);
+            INSERT OR IGNORE INTO learn_settings (profile_id) VALUES (1);
+            INSERT OR IGNORE INTO pro_tokens (profile_id) VALUES (1);
+        `);
+    },
+
+    down: (db) => {
+        // Only the first profile survives a rollback
+        db.exec(`
+            CREATE TABLE player_stats_old (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                high_score INTEGER DEFAULT 0,
+                level INTEGER DEFAULT 1,
+                xp INTEGER DEFAULT 0,
+                games_played INTEGER DEFAULT 0,
+                hunger INTEGER DEFAULT 50,
+                energy INTEGER DEFAULT 100,
+                happiness INTEGER DEFAULT 50,
+                hangman_wins INTEGER DEFAULT 0,
+                hangman_losses INTEGER DEFAULT 0
+            );
+            INSERT INTO player_stats_old (id, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses)
+                SELECT 1, high_score, level, xp, games_played, hunger, energy, happiness, hangman_wins, hangman_losses
+                FROM player_stats WHERE profile_id = 1;
+            DROP TABLE player_stats;
+            ALTER TABLE player_stats_old RENAME TO player_stats;
+        `);
+
+        db.exec(`
+            CREATE TABLE user_settings_old (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                theme TEXT DEFAULT 'default',
+                snake_difficulty TEXT DEFAULT 'medium'
+            );
+            INSERT INTO user_settings_old (id, theme, snake_difficulty)
+                SELECT 1, theme, snake_difficulty FROM user_settings WHERE profile_id = 1;
+            DROP TABLE user_settings;
+            ALTER TABLE user_settings_old RENAME TO user_settings;
+        `);
+
+        db.exec(`
+            CREATE TABLE learn_settings_old (
+                id INTEGER PRIMARY KEY CHECK (id = 1),
+                enabled INTEGER DEFAULT 1,
+                hint_style TEXT DEFAULT 'progressive',
+                save_history INTEGER DEFAULT 1,
+                max_history_items INTEGER DEFAULT 100,
+                safe_search INTEGER DEFAULT 1,
+                max_search_results INTEGER DEFAULT 5,
+                codebase_scope TEXT DEFAULT 'likubuddy',
+                custom_codebase_path TEXT,
+                wolfram_app_id TEXT,
+                show_sources INTEGER DEFAULT 1,
+                show_confidence INTEGER DEFAULT 0
+            );
+            INSERT INTO learn_settings_old (id, enabled, hint_style, save_history, max_history_items, safe_search,
+                    max_search_results, codebase_scope, custom_codebase_path, wolfram_app_id, show_sources, show_confidence)
+                SELECT 1, enabled, hint_style, save_history, max_history_items, safe_search,
+                    max_search_results, codebase_scope, custom_codebase_path, wolfram_app_id, show_sources, show_confidence
+                FROM learn_settings WHERE profile_id = 1;
+            DROP TABLE learn_settings;
+            ALTER TABLE learn_settings_old RENAME TO learn_settings;
+        `);
+
+        db.exec(`
+            CREATE TABLE pro_tokens_old (
+                user_id TEXT PRIMARY KEY,
+                balance INTEGER DEFAULT 10000,
+                last_reset DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            INSERT INTO pro_tokens_old (user_id, balance, last_reset)
+                SELECT 'me', balance, last_reset FROM pro_tokens WHERE profile_id = 1;
+            DROP TABLE pro_tokens;
+            ALTER TABLE pro_tokens_old RENAME TO pro_tokens;
+        `);
+
+        db.exec(`
+            CREATE TABLE leaderboards_old (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                game_id TEXT,
+                user_id TEXT,
+                score INTEGER,
+                meta_data TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY(game_id) REFERENCES game_registry(id)
+            );
+            INSERT INTO leaderboards_old (id, game_id, user_id, score, meta_data, created_at)
+                SELECT id, game_id, 'me', score, meta_data, created_at FROM leaderboards WHERE profile_id = 1;
+            DROP TABLE leaderboards;
+            ALTER TABLE leaderboards_old RENAME TO leaderboards;
+        `);
+
+        db.exec(`
+            DELETE FROM learn_history WHERE profile_id != 1;
+            ALTER TABLE learn_history DROP COLUMN profile_id;
+            DROP TABLE profiles;
+        `);
+    }
+};
+
+export default migration;
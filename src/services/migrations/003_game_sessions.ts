@@ -0,0 +1,35 @@
+import type { Migration } from './types.js';
+
+/**
+ * Per-run history for every built-in and community game
+ */
+const migration: Migration = {
+    version: 3,
+    name: 'game_sessions',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE game_sessions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                game_id TEXT NOT NULL,
+                difficulty TEXT,
+                started_at DATETIME NOT NULL,
+                ended_at DATETIME NOT NULL,
+                duration_ms INTEGER NOT NULL DEFAULT 0,
+                score INTEGER,
+                xp_earned INTEGER NOT NULL DEFAULT 0,
+                energy_spent INTEGER NOT NULL DEFAULT 0,
+                outcome TEXT NOT NULL
+            );
+            CREATE INDEX idx_game_sessions_profile_started ON game_sessions(profile_id, started_at);
+            CREATE INDEX idx_game_sessions_game ON game_sessions(game_id);
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE game_sessions`);
+    }
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from './types.js';
+
+/**
+ * Bookkeeping for the needs simulation: when decay was last applied and the
+ * fractional part of it that has not reached the integer stats yet
+ */
+const migration: Migration = {
+    version: 4,
+    name: 'needs_state',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE needs_state (
+                profile_id INTEGER PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+                last_tick_at DATETIME NOT NULL,
+                hunger_carry REAL NOT NULL DEFAULT 0,
+                energy_carry REAL NOT NULL DEFAULT 0,
+                happiness_carry REAL NOT NULL DEFAULT 0
+            );
+            INSERT INTO needs_state (profile_id, last_tick_at)
+                SELECT id, CURRENT_TIMESTAMP FROM profiles;
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE needs_state`);
+    }
+};
+
+export default migration;
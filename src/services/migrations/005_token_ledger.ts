@@ -0,0 +1,59 @@
+import type { Migration } from './types.js';
+
+/**
+ * Replaces the overwritable pro_tokens.balance with an append-only
+ * token_transactions ledger. Existing balances become opening transactions.
+ */
+const migration: Migration = {
+    version: 5,
+    name: 'token_ledger',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE token_transactions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                amount INTEGER NOT NULL,
+                reason TEXT NOT NULL,
+                description TEXT,
+                meta_data TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE INDEX idx_token_transactions_profile ON token_transactions(profile_id, id);
+
+            INSERT INTO token_transactions (profile_id, amount, reason, description)
+                SELECT profile_id, balance, 'opening_balance', 'Balance before the ledger'
+                FROM pro_tokens WHERE balance != 0;
+
+            ALTER TABLE pro_tokens DROP COLUMN balance;
+        `);
+
+        // Rows may only disappear together with their profile
+        db.exec(`
+            CREATE TRIGGER token_transactions_no_update
+            BEFORE UPDATE ON token_transactions
+            BEGIN
+                SELECT RAISE(ABORT, 'token_transactions is append-only');
+            END;
+
+            CREATE TRIGGER token_transactions_no_delete
+            BEFORE DELETE ON token_transactions
+            WHEN EXISTS (SELECT 1 FROM profiles WHERE id = OLD.profile_id)
+            BEGIN
+                SELECT RAISE(ABORT, 'token_transactions is append-only');
+            END;
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            ALTER TABLE pro_tokens ADD COLUMN balance INTEGER DEFAULT 10000;
+            UPDATE pro_tokens SET balance = COALESCE(
+                (SELECT SUM(amount) FROM token_transactions t WHERE t.profile_id = pro_tokens.profile_id), 0
+            );
+            DROP TABLE token_transactions;
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import type { Migration } from './types.js';
+
+/**
+ * Unlocked achievements per profile. The definitions themselves live in
+ * code (core/AchievementEngine); only the unlock moments are stored.
+ */
+const migration: Migration = {
+    version: 6,
+    name: 'achievements',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE achievements (
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                achievement_id TEXT NOT NULL,
+                game_id TEXT,
+                unlocked_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (profile_id, achievement_id)
+            )
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE achievements`);
+    }
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from './types.js';
+
+/**
+ * Runs played in daily challenge mode, for the per-day leaderboard.
+ * The challenge itself is derived from the date (core/DailyChallenge).
+ */
+const migration: Migration = {
+    version: 7,
+    name: 'daily_challenges',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE daily_challenge_results (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                challenge_date TEXT NOT NULL,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                game_id TEXT NOT NULL,
+                seed INTEGER NOT NULL,
+                score INTEGER,
+                outcome TEXT NOT NULL,
+                duration_ms INTEGER NOT NULL DEFAULT 0,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE INDEX idx_daily_challenge_results_date ON daily_challenge_results(challenge_date, profile_id);
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE daily_challenge_results`);
+    }
+};
+
+export default migration;
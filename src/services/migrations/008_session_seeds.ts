@@ -0,0 +1,19 @@
+import type { Migration } from './types.js';
+
+/**
+ * Random seed of each run, so any recorded game can be replayed exactly
+ */
+const migration: Migration = {
+    version: 8,
+    name: 'session_seeds',
+
+    up: (db) => {
+        db.exec(`ALTER TABLE game_sessions ADD COLUMN seed INTEGER`);
+    },
+
+    down: (db) => {
+        db.exec(`ALTER TABLE game_sessions DROP COLUMN seed`);
+    }
+};
+
+export default migration;
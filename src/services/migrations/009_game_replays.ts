@@ -0,0 +1,36 @@
+import type { Migration } from './types.js';
+
+/**
+ * Recorded input and timer events of built-in game runs (core/Replay),
+ * stored as JSON next to the session they belong to
+ */
+const migration: Migration = {
+    version: 9,
+    name: 'game_replays',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE game_replays (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                session_id INTEGER REFERENCES game_sessions(id) ON DELETE SET NULL,
+                game_id TEXT NOT NULL,
+                difficulty TEXT,
+                seed INTEGER NOT NULL,
+                score INTEGER,
+                outcome TEXT NOT NULL,
+                duration_ms INTEGER NOT NULL DEFAULT 0,
+                event_count INTEGER NOT NULL DEFAULT 0,
+                events TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE INDEX idx_game_replays_profile ON game_replays(profile_id, created_at);
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE game_replays`);
+    }
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+import type { Migration } from './types.js';
+
+/**
+ * Leaderboard rows for every finished run (core/GameResults). Built-in games
+ * are not in game_registry, so the game_id foreign key goes; meta_data is
+ * always a JSON object so it can be filtered with json_extract.
+ */
+const migration: Migration = {
+    version: 10,
+    name: 'leaderboard_results',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE leaderboards_new (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                game_id TEXT NOT NULL,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                score INTEGER NOT NULL DEFAULT 0,
+                meta_data TEXT NOT NULL DEFAULT '{}',
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            INSERT INTO leaderboards_new (id, game_id, profile_id, score, meta_data, created_at)
+                SELECT id, game_id, profile_id, COALESCE(score, 0),
+                    CASE WHEN json_valid(meta_data) THEN meta_data ELSE '{}' END, created_at
+                FROM leaderboards
+                WHERE game_id IS NOT NULL AND profile_id IS NOT NULL;
+            DROP TABLE leaderboards;
+            ALTER TABLE leaderboards_new RENAME TO leaderboards;
+            CREATE INDEX idx_leaderboards_game ON leaderboards(game_id, created_at);
+        `);
+    },
+
+    // Rows of games that are not in game_registry (the built-ins) cannot be kept
+    down: (db) => {
+        db.exec(`
+            CREATE TABLE leaderboards_old (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                game_id TEXT,
+                profile_id INTEGER REFERENCES profiles(id) ON DELETE CASCADE,
+                score INTEGER,
+                meta_data TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY(game_id) REFERENCES game_registry(id)
+            );
+            INSERT INTO leaderboards_old (id, game_id, profile_id, score, meta_data, created_at)
+                SELECT id, game_id, profile_id, score, meta_data, created_at FROM leaderboards
+                WHERE game_id IN (SELECT id FROM game_registry);
+            DROP TABLE leaderboards;
+            ALTER TABLE leaderboards_old RENAME TO leaderboards;
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import type { Migration } from './types.js';
+
+/**
+ * Energy cost and XP reward a community game declares in its GameManifest,
+ * read when the game is installed (core/GameLoader)
+ */
+const migration: Migration = {
+    version: 11,
+    name: 'game_manifests',
+
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE game_registry ADD COLUMN energy_cost INTEGER NOT NULL DEFAULT 0;
+            ALTER TABLE game_registry ADD COLUMN xp_reward INTEGER NOT NULL DEFAULT 0;
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            ALTER TABLE game_registry DROP COLUMN xp_reward;
+            ALTER TABLE game_registry DROP COLUMN energy_cost;
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+import type { Migration } from './types.js';
+
+/**
+ * Per-profile key/value storage for community games (liku-sdk
+ * useGameStorage), values stored as JSON
+ */
+const migration: Migration = {
+    version: 12,
+    name: 'game_storage',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE game_storage (
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                game_id TEXT NOT NULL,
+                key TEXT NOT NULL,
+                value TEXT NOT NULL,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (profile_id, game_id, key)
+            );
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`DROP TABLE game_storage`);
+    }
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+import type { Migration } from './types.js';
+
+/**
+ * Game builder design conversations, kept so a half-finished design can be
+ * resumed and generation sees every question and answer
+ */
+const migration: Migration = {
+    version: 13,
+    name: 'elicitation_sessions',
+
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE elicitation_sessions (
+                id TEXT PRIMARY KEY,
+                profile_id INTEGER NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+                game_idea TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'eliciting',
+                game_id TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+
+            CREATE INDEX idx_elicitation_sessions_profile ON elicitation_sessions(profile_id, updated_at);
+
+            CREATE TABLE elicitation_turns (
+                session_id TEXT NOT NULL REFERENCES elicitation_sessions(id) ON DELETE CASCADE,
+                seq INTEGER NOT NULL,
+                role TEXT NOT NULL CHECK (role IN ('user', 'model')),
+                content TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (session_id, seq)
+            );
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            DROP TABLE elicitation_turns;
+            DROP TABLE elicitation_sessions;
+        `);
+    }
+};
+
+export default migration;
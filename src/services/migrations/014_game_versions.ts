@@ -0,0 +1,38 @@
+import type { Migration } from './types.js';
+
+/**
+ * Versions of community games: each keeps its TSX source and bundle so a
+ * game can be changed again and rolled back. game_registry.version is the
+ * one being played.
+ */
+const migration: Migration = {
+    version: 14,
+    name: 'game_versions',
+
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE game_registry ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+            CREATE TABLE game_versions (
+                game_id TEXT NOT NULL REFERENCES game_registry(id) ON DELETE CASCADE,
+                version INTEGER NOT NULL,
+                source TEXT NOT NULL,
+                file_path TEXT NOT NULL,
+                energy_cost INTEGER NOT NULL DEFAULT 0,
+                xp_reward INTEGER NOT NULL DEFAULT 0,
+                change_request TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (game_id, version)
+            );
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            DROP TABLE game_versions;
+            ALTER TABLE game_registry DROP COLUMN version;
+        `);
+    }
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+import type { Migration } from './types.js';
+
+/**
+ * What each community game version was generated from (the prompt and the
+ * model that answered) and its bundle, so a lost or outdated bundle can be
+ * restored or rebuilt from the source
+ */
+const migration: Migration = {
+    version: 15,
+    name: 'game_version_provenance',
+
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE game_versions ADD COLUMN prompt TEXT;
+            ALTER TABLE game_versions ADD COLUMN model TEXT;
+            ALTER TABLE game_versions ADD COLUMN bundle TEXT;
+        `);
+    },
+
+    down: (db) => {
+        db.exec(`
+            ALTER TABLE game_versions DROP COLUMN bundle;
+            ALTER TABLE game_versions DROP COLUMN model;
+            ALTER TABLE game_versions DROP COLUMN prompt;
+        `);
+    }
+};
+
+export default migration;
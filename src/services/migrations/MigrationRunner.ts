@@ -0,0 +1,192 @@
+import type Database from 'better-sqlite3';
+import type { Migration, MigrationStatus } from './types.js';
+
+/**
+ * MigrationRunner - Applies numbered migrations in order and records them
+ * in the `schema_version` table.
+ *
+ * Every migration runs in its own transaction together with its
+ * bookkeeping row, so a failure leaves the database on the previous version
+ * instead of half-migrated.
+ *
+ * Foreign keys are switched off while a migration runs so tables can be
+ * rebuilt (SQLite cannot ALTER most constraints), and are verified with
+ * `PRAGMA foreign_key_check` before the transaction commits.
+ */
+export class MigrationRunner {
+    private db: Database.Database;
+    private migrations: Migration[];
+
+    constructor(db: Database.Database, migrations: Migration[]) {
+        this.db = db;
+        this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+        const seen = new Set<number>();
+        for (const migration of this.migrations) {
+            if (!Number.isInteger(migration.version) || migration.version < 1) {
+                throw new Error(`Invalid migration version: ${migration.version} (${migration.name})`);
+            }
+            if (seen.has(migration.version)) {
+                throw new Error(`Duplicate migration version: ${migration.version}`);
+            }
+            seen.add(migration.version);
+        }
+
+        this.ensureVersionTable();
+    }
+
+    private ensureVersionTable(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS schema_version (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+    }
+
+    private getAppliedRows(): Array<{ version: number; name: string; applied_at: string }> {
+        return this.db.prepare('SELECT * FROM schema_version ORDER BY version ASC').all() as any[];
+    }
+
+    /**
+     * Highest applied migration version (0 for a fresh database)
+     */
+    public getCurrentVersion(): number {
+        const row = this.db.prepare('SELECT MAX(version) as version FROM schema_version').get() as any;
+        return row?.version ?? 0;
+    }
+
+    /**
+     * Latest version known to this build
+     */
+    public getLatestVersion(): number {
+        return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+    }
+
+    /**
+     * Status of every known migration, in version order
+     */
+    public status(): MigrationStatus[] {
+        const applied = new Map(this.getAppliedRows().map(row => [row.version, row]));
+        return this.migrations.map(migration => {
+            const row = applied.get(migration.version);
+            return {
+                version: migration.version,
+                name: migration.name,
+                applied: !!row,
+                appliedAt: row?.applied_at ?? null
+            };
+        });
+    }
+
+    public getPending(): Migration[] {
+        const applied = new Set(this.getAppliedRows().map(row => row.version));
+        return this.migrations.filter(migration => !applied.has(migration.version));
+    }
+
+    /**
+     * Apply pending migrations up to (and including) `targetVersion`.
+     * Returns the migrations that were applied.
+     */
+    public migrate(targetVersion: number = this.getLatestVersion()): Migration[] {
+        this.assertKnownVersions();
+
+        const pending = this.getPending().filter(migration => migration.version <= targetVersion);
+        const record = this.db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+
+        for (const migration of pending) {
+            const apply = this.db.transaction(() => {
+                migration.up(this.db);
+                this.assertForeignKeys();
+                record.run(migration.version, migration.name);
+            });
+
+            try {
+                this.withForeignKeysDisabled(apply);
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+            }
+        }
+
+        return pending;
+    }
+
+    /**
+     * Revert applied migrations, newest first, until the database is on
+     * `targetVersion`. Returns the migrations that were reverted.
+     */
+    public rollbackTo(targetVersion: number): Migration[] {
+        this.assertKnownVersions();
+
+        const applied = new Set(this.getAppliedRows().map(row => row.version));
+        const toRevert = this.migrations
+            .filter(migration => applied.has(migration.version) && migration.version > targetVersion)
+            .reverse();
+        const unrecord = this.db.prepare('DELETE FROM schema_version WHERE version = ?');
+
+        for (const migration of toRevert) {
+            const revert = this.db.transaction(() => {
+                migration.down(this.db);
+                this.assertForeignKeys();
+                unrecord.run(migration.version);
+            });
+
+            try {
+                this.withForeignKeysDisabled(revert);
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                throw new Error(`Rollback of migration ${migration.version} (${migration.name}) failed: ${reason}`);
+            }
+        }
+
+        return toRevert;
+    }
+
+    /**
+     * Revert the last `steps` applied migrations
+     */
+    public rollback(steps: number = 1): Migration[] {
+        const applied = this.getAppliedRows().map(row => row.version);
+        if (steps <= 0 || applied.length === 0) return [];
+
+        const targetIndex = applied.length - steps - 1;
+        const targetVersion = targetIndex >= 0 ? applied[targetIndex] : 0;
+        return this.rollbackTo(targetVersion);
+    }
+
+    /**
+     * PRAGMA foreign_keys is a no-op inside a transaction, so it has to be
+     * toggled around it.
+     */
+    private withForeignKeysDisabled(run: () => void): void {
+        const enabled = (this.db.pragma('foreign_keys', { simple: true }) as number) === 1;
+        if (enabled) this.db.pragma('foreign_keys = OFF');
+        try {
+            run();
+        } finally {
+            if (enabled) this.db.pragma('foreign_keys = ON');
+        }
+    }
+
+    private assertForeignKeys(): void {
+        const violations = this.db.pragma('foreign_key_check') as Array<{ table: string; parent: string }>;
+        if (violations.length > 0) {
+            const { table, parent } = violations[0];
+            throw new Error(`Foreign key check failed: ${violations.length} row(s), e.g. ${table} -> ${parent}`);
+        }
+    }
+
+    /**
+     * Refuse to touch a database written by a newer build
+     */
+    private assertKnownVersions(): void {
+        const known = new Set(this.migrations.map(migration => migration.version));
+        const unknown = this.getAppliedRows().filter(row => !known.has(row.version));
+        if (unknown.length > 0) {
+            const versions = unknown.map(row => row.version).join(', ');
+            throw new Error(`Database has migrations unknown to this build (version ${versions}). Please update LikuBuddy.`);
+        }
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Schema migrations - Public API
+ *
+ * To change the schema, add a new numbered file next to the existing ones
+ * and append it to MIGRATIONS. Never edit a migration that has shipped.
+ */
+
+import type { Migration } from './types.js';
+import initialSchema from './001_initial_schema.js';
+import profiles from './002_profiles.js';
+import gameSessions from './003_game_sessions.js';
+import needsState from './004_needs_state.js';
+import tokenLedger from './005_token_ledger.js';
+import achievements from './006_achievements.js';
+import dailyChallenges from './007_daily_challenges.js';
+import sessionSeeds from './008_session_seeds.js';
+import gameReplays from './009_game_replays.js';
+import leaderboardResults from './010_leaderboard_results.js';
+import gameManifests from './011_game_manifests.js';
+import gameStorage from './012_game_storage.js';
+import elicitationSessions from './013_elicitation_sessions.js';
+import gameVersions from './014_game_versions.js';
+import gameVersionProvenance from './015_game_version_provenance.js';
+
+export const MIGRATIONS: Migration[] = [
+    initialSchema,
+    profiles,
+    gameSessions,
+    needsState,
+    tokenLedger,
+    achievements,
+    dailyChallenges,
+    sessionSeeds,
+    gameReplays,
+    leaderboardResults,
+    gameManifests,
+    gameStorage,
+    elicitationSessions,
+    gameVersions,
+    gameVersionProvenance,
+];
+
+export { MigrationRunner } from './MigrationRunner.js';
+export type { Migration, MigrationStatus } from './types.js';
@@ -0,0 +1,21 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * A single, numbered schema change.
+ *
+ * `up` and `down` are executed inside a transaction by the MigrationRunner,
+ * so they must be synchronous and must not open transactions of their own.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database.Database) => void;
+    down: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    appliedAt: string | null;
+}
@@ -0,0 +1,9 @@
+import path from 'path';
+import os from 'os';
+
+/**
+ * Location of LikuBuddy's persistent data.
+ * Kept free of side effects so tools can resolve paths without opening the database.
+ */
+export const DB_DIR = path.join(os.homedir(), '.gemini-liku');
+export const DB_PATH = path.join(DB_DIR, 'snake.db');
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { achievementEngine, AchievementStatus } from '../core/AchievementEngine.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface AchievementsScreenProps {
+  onExit: () => void;
+}
+
+const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ onExit }) => {
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Catch up on anything earned before this screen existed
+    achievementEngine.check()
+      .then(() => achievementEngine.getProgress())
+      .then(setAchievements)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const unlockedCount = achievements.filter(achievement => achievement.unlockedAt).length;
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Achievements | Unlocked: ${unlockedCount}/${achievements.length}`;
+    let visualState = "Achievements:\n";
+    achievements.forEach(achievement => {
+      const mark = achievement.unlockedAt ? '[x]' : '[ ]';
+      visualState += `  ${mark} ${achievement.name} - ${achievement.description}`;
+      visualState += achievement.unlockedAt ? ` (unlocked ${achievement.unlockedAt})\n` : '\n';
+    });
+
+    logGameState("Achievements", status, visualState, "Esc to go back.");
+  }, [achievements]);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onExit();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="yellow" padding={1} width={80}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="yellow">🏆 Achievements</Text>
+        <Text>
+          <Text color="green" bold>{unlockedCount}</Text>
+          <Text dimColor> / {achievements.length} unlocked</Text>
+        </Text>
+      </Box>
+
+      {error && <Text color="red">Error: {error}</Text>}
+
+      {achievements.map(achievement => (
+        <Box key={achievement.id} justifyContent="space-between">
+          <Text>
+            <Text>{achievement.unlockedAt ? achievement.icon : '🔒'} </Text>
+            <Text bold={!!achievement.unlockedAt} color={achievement.unlockedAt ? 'green' : 'gray'}>{achievement.name}</Text>
+            <Text dimColor> · {achievement.description}</Text>
+          </Text>
+          <Text dimColor>{achievement.unlockedAt ?? ''}</Text>
+        </Box>
+      ))}
+
+      <Box marginTop={1}>
+        <Text dimColor>Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default AchievementsScreen;
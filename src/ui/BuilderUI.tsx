@@ -1,46 +1,148 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
-import { ElicitationAgent } from '../builder/ElicitationAgent.js';
-import { gameLoader } from '../core/GameLoader.js';
+import { ElicitationAgent, ElicitationSession, GenerationKind, TokenUsage, elicitationTranscript } from '../builder/ElicitationAgent.js';
+import { ChatMessage } from '../builder/providers/index.js';
+import { gameLoader, CommunityGameInfo, GameInstallResult } from '../core/GameLoader.js';
+import { diffStats, diffLines } from '../builder/SourceDiff.js';
+import SourceDiffView, { DIFF_WINDOW } from './SourceDiffView.js';
+import { db, ElicitationSessionSummary } from '../services/DatabaseService.js';
+import { CodeDiagnostic, formatDiagnostic } from '../builder/GameCodeAnalyzer.js';
+import { buildVerifyRepair, BuildAttempt, DEFAULT_REPAIR_ROUNDS } from '../builder/GameBuildPipeline.js';
+import { tokenEconomy } from '../core/TokenEconomy.js';
 import { logGameState } from '../core/GameStateLogger.js';
 
 interface BuilderUIProps {
   onExit: () => void;
 }
 
-type BuilderStep = 'idea' | 'eliciting' | 'generating' | 'installing' | 'complete' | 'error';
+const describeAttempt = (attempt: BuildAttempt): string => {
+  const label = attempt.round === 0 ? 'As generated' : `Repair ${attempt.round}`;
+  if (attempt.passed) {
+    return `${label}: passed${attempt.warningCount > 0 ? ` with ${attempt.warningCount} warning(s)` : ''}`;
+  }
+  return `${label}: ${attempt.errorCount} error(s), ${attempt.warningCount} warning(s)`;
+};
+
+// Conversation entries shown above the answer box
+const VISIBLE_TRANSCRIPT_ENTRIES = 4;
+
+// Entries of the Tab list: saved designs, then installed games to change
+type ContinueEntry =
+  | { kind: 'design'; design: ElicitationSessionSummary }
+  | { kind: 'game'; game: CommunityGameInfo };
+
+type BuilderStep = 'idea' | 'resume' | 'refine' | 'review' | 'eliciting' | 'generating' | 'verifying' | 'installing' | 'complete' | 'error';
 
 const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
   const [step, setStep] = useState<BuilderStep>('idea');
   const [gameIdea, setGameIdea] = useState('');
-  const [questions, setQuestions] = useState('');
-  const [answers, setAnswers] = useState('');
+  // Design conversation, saved after every turn so it can be resumed
+  const [session, setSession] = useState<ElicitationSession | null>(null);
+  const [savedSessions, setSavedSessions] = useState<ElicitationSessionSummary[]>([]);
+  // Installed games whose source is kept, so they can be changed
+  const [refinableGames, setRefinableGames] = useState<CommunityGameInfo[]>([]);
+  const [selectedEntry, setSelectedEntry] = useState(0);
+  // Game being changed, the change asked for and the checked new source
+  const [refineTarget, setRefineTarget] = useState<{ id: string; name: string; version: number; source: string } | null>(null);
+  const [changeRequest, setChangeRequest] = useState('');
+  const [refinedCode, setRefinedCode] = useState<string | null>(null);
+  const [refineModel, setRefineModel] = useState('');
+  const [diffOffset, setDiffOffset] = useState(0);
+  const [thinking, setThinking] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
-  const [gameInfo, setGameInfo] = useState<{ id: string; name: string } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const [attempts, setAttempts] = useState<BuildAttempt[]>([]);
+  // Screen a game showed when it failed its smoke test
+  const [failedFrame, setFailedFrame] = useState<string | null>(null);
+  const [gameInfo, setGameInfo] = useState<{ id: string; name: string; version?: number } | null>(null);
   const [useQuickGen, setUseQuickGen] = useState(false);
   const [inputValue, setInputValue] = useState('');
+  const [balance, setBalance] = useState(() => tokenEconomy.getBalance());
+  const [lastCharge, setLastCharge] = useState<number | null>(null);
+
+  const loadSavedSessions = () => {
+    db.getElicitationSessions({ statuses: ['eliciting', 'ready'] })
+      .then(rows => {
+        setSavedSessions(rows);
+        setSelectedEntry(0);
+      })
+      .catch(err => console.error(err));
+  };
+
+  const loadRefinableGames = () => {
+    gameLoader.listCommunityGames()
+      .then(games => Promise.all(games.map(async game => (await gameLoader.getGameSource(game.id)) ? game : null)))
+      .then(games => setRefinableGames(games.filter((game): game is CommunityGameInfo => game !== null)))
+      .catch(err => console.error(err));
+  };
+
+  useEffect(() => {
+    loadSavedSessions();
+    loadRefinableGames();
+  }, []);
+
+  const continueEntries: ContinueEntry[] = [
+    ...savedSessions.map(design => ({ kind: 'design' as const, design })),
+    ...refinableGames.map(game => ({ kind: 'game' as const, game })),
+  ];
 
   // AI State Logging
   useEffect(() => {
-    const status = `Builder Step: ${step} | Quick Mode: ${useQuickGen}`;
+    const status = `Builder Step: ${step} | Quick Mode: ${useQuickGen} | Pro Tokens: ${balance}`;
     let visualState = `Current Step: ${step}\n`;
     
     if (step === 'idea') {
         visualState += `Input: ${inputValue}\nPrompt: Describe the game you want to create`;
-    } else if (step === 'eliciting') {
-        visualState += `Questions:\n${questions}\nInput: ${inputValue}`;
-    } else if (step === 'generating' || step === 'installing') {
+        if (continueEntries.length > 0) {
+            visualState += `\nSaved designs: ${savedSessions.length}, games to change: ${refinableGames.length} (Tab)`;
+        }
+    } else if (step === 'resume') {
+        visualState += `Continue (saved designs, then installed games):\n`;
+        continueEntries.forEach((entry, index) => {
+            const cursor = index === selectedEntry ? '>' : ' ';
+            visualState += entry.kind === 'design'
+                ? `${cursor} Design: ${entry.design.gameIdea} [${entry.design.status}, ${entry.design.turnCount} turns, ${entry.design.updatedAt}]\n`
+                : `${cursor} Change game: ${entry.game.name} (v${entry.game.version})\n`;
+        });
+    } else if (step === 'refine' && refineTarget) {
+        visualState += `Changing: ${refineTarget.name} (v${refineTarget.version})\nInput: ${inputValue}\nPrompt: Describe the change`;
+    } else if (step === 'review' && refineTarget && refinedCode !== null) {
+        const stats = diffStats(diffLines(refineTarget.source, refinedCode));
+        visualState += `Change to ${refineTarget.name}: "${changeRequest}"\nDiff: +${stats.added} -${stats.removed} lines\nEnter to install as a new version, Esc to discard`;
+    } else if (step === 'eliciting' && session) {
+        visualState += `Game idea: ${session.gameIdea}\nConversation:\n`;
+        visualState += elicitationTranscript(session)
+            .map(entry => `${entry.speaker === 'liku' ? 'Liku' : 'You'}: ${entry.text}`)
+            .join('\n');
+        visualState += thinking ? '\nLiku is thinking...' : `\nInput: ${inputValue}`;
+        if (session.ready) {
+            visualState += '\nLiku has enough to build the game (Enter on an empty line)';
+        }
+    } else if (step === 'generating' || step === 'verifying' || step === 'installing') {
         visualState += `Message: ${message}`;
     } else if (step === 'complete') {
-        visualState += `Success! Game Created: ${gameInfo?.name} (${gameInfo?.id})`;
+        visualState += `Success! ${message} Game: ${gameInfo?.name} (${gameInfo?.id}${gameInfo?.version ? ` v${gameInfo.version}` : ''})`;
     } else if (step === 'error') {
         visualState += `Error: ${error}`;
+        if (failedFrame) {
+            visualState += `\nFailing frame:\n${failedFrame}`;
+        }
+    }
+    if (attempts.length > 0) {
+        visualState += `\nBuild attempts:\n${attempts.map(describeAttempt).join('\n')}`;
+    }
+    if (diagnostics.length > 0) {
+        visualState += `\nDiagnostics:\n${diagnostics.map(formatDiagnostic).join('\n')}`;
+    }
+    
+    if (lastCharge !== null) {
+        visualState += `\nLast generation cost: ${lastCharge} Pro Tokens`;
     }
     
     logGameState("Game Builder", status, visualState);
-  }, [step, inputValue, questions, message, error, gameInfo, useQuickGen]);
+  }, [step, inputValue, session, savedSessions, refinableGames, selectedEntry, refineTarget, changeRequest, refinedCode, thinking, message, error, diagnostics, attempts, failedFrame, gameInfo, useQuickGen, balance, lastCharge]);
 
   useInput((input, key) => {
     if (key.escape) {
@@ -52,13 +154,289 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
       setUseQuickGen(prev => !prev);
       setInputValue(''); // Clear the input value
     }
-  }, { isActive: step === 'idea' || step === 'complete' || step === 'error' });
+
+    if (key.tab && step === 'idea' && continueEntries.length > 0) {
+      setStep('resume');
+    }
+  }, { isActive: step === 'idea' || step === 'eliciting' || step === 'complete' || step === 'error' });
+
+  // Saved designs and games to change
+  useInput((input, key) => {
+    const current = continueEntries[selectedEntry];
+    if (key.escape) {
+      setStep('idea');
+    } else if (key.upArrow) {
+      setSelectedEntry(index => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelectedEntry(index => Math.min(continueEntries.length - 1, index + 1));
+    } else if (key.return && current) {
+      if (current.kind === 'design') {
+        resumeSession(current.design.sessionId);
+      } else {
+        startRefine(current.game);
+      }
+    } else if ((input === 'd' || input === 'D') && current?.kind === 'design') {
+      db.deleteElicitationSession(current.design.sessionId)
+        .catch(err => console.error(err))
+        .finally(loadSavedSessions);
+    }
+  }, { isActive: step === 'resume' });
+
+  // Describing a change (the text box takes Enter), then reviewing it
+  useInput((_input, key) => {
+    if (step === 'refine') {
+      if (key.escape) setStep('resume');
+      return;
+    }
+    if (key.escape) {
+      setRefinedCode(null);
+      setMessage('');
+      setStep('idea');
+    } else if (key.upArrow) {
+      setDiffOffset(offset => Math.max(0, offset - 1));
+    } else if (key.downArrow) {
+      setDiffOffset(offset => offset + 1);
+    } else if (key.pageUp) {
+      setDiffOffset(offset => Math.max(0, offset - DIFF_WINDOW));
+    } else if (key.pageDown) {
+      setDiffOffset(offset => offset + DIFF_WINDOW);
+    } else if (key.return) {
+      applyRefinement();
+    }
+  }, { isActive: step === 'refine' || step === 'review' });
+
+  /**
+   * Store the conversation; losing it only costs the ability to resume
+   */
+  const saveSession = (current: ElicitationSession, gameId?: string) => {
+    db.saveElicitationSession({
+      sessionId: current.sessionId,
+      gameIdea: current.gameIdea,
+      status: gameId ? 'completed' : current.ready ? 'ready' : 'eliciting',
+      gameId: gameId ?? null,
+      history: current.history
+    }).catch(err => console.error(err));
+  };
+
+  const resumeSession = async (sessionId: string) => {
+    try {
+      const stored = await db.getElicitationSession(sessionId);
+      if (!stored) {
+        loadSavedSessions();
+        return;
+      }
+      setSession({
+        sessionId: stored.sessionId,
+        gameIdea: stored.gameIdea,
+        history: stored.history,
+        ready: stored.status === 'ready'
+      });
+      setGameIdea(stored.gameIdea);
+      setInputValue('');
+      setStep('eliciting');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep('error');
+    }
+  };
+
+  /**
+   * Refuse the call up front when the estimated cost is more than the balance
+   */
+  const ensureAffordable = async (agent: ElicitationAgent, kind: GenerationKind, idea: string, history?: ChatMessage[], answers?: string) =>
+    canAfford(await agent.estimateUsage(kind, idea, history, answers));
+
+  const canAfford = (usage: TokenUsage) => {
+    const estimate = tokenEconomy.priceGeneration(usage);
+    const current = tokenEconomy.getBalance();
+    setBalance(current);
+    if (current < estimate) {
+      setError(`Not enough Pro Tokens: this generation needs about ${estimate}, you have ${current}. Play some games or wait for the daily reset.`);
+      setStep('error');
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Bill what the model actually used, including calls that failed part-way
+   */
+  const chargeUsage = (agent: ElicitationAgent, description: string) => {
+    try {
+      const transaction = tokenEconomy.chargeGeneration(agent.getLastUsage(), description, {
+        model: agent.getModelName()
+      });
+      if (transaction) setLastCharge(-transaction.amount);
+      setBalance(tokenEconomy.getBalance());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  /**
+   * Type-check and analyze the generated code, letting the model repair it
+   * for a few rounds (each billed like any other generation). Attempts and
+   * diagnostics are kept for the progress, error and success screens.
+   * The code that passed, or null after showing the error.
+   */
+  const verifyGenerated = async (agent: ElicitationAgent, result: { code: string; name: string }): Promise<string | null> => {
+    setStep('verifying');
+    setMessage('Type-checking and analyzing the generated code...');
+    setAttempts([]);
+
+    const build = await buildVerifyRepair(result.code, {
+      repair: async (code, errors, round) => {
+        const estimate = tokenEconomy.priceGeneration(await agent.estimateRepairUsage(code, errors));
+        const current = tokenEconomy.getBalance();
+        setBalance(current);
+        if (current < estimate) {
+          throw new Error(`Not enough Pro Tokens for repair round ${round}: it needs about ${estimate}, you have ${current}.`);
+        }
+        try {
+          return await agent.repairGameCode(code, errors);
+        } finally {
+          chargeUsage(agent, `Repair ${round}: ${result.name.substring(0, 60)}`);
+        }
+      },
+      onAttempt: (_attempt, all) => setAttempts([...all]),
+      onRepair: (round) => setMessage(`Asking the model to fix it (round ${round} of ${DEFAULT_REPAIR_ROUNDS})...`),
+    });
+
+    setDiagnostics(build.diagnostics);
+    if (!build.success) {
+      const errorCount = build.diagnostics.filter(d => d.severity === 'error').length;
+      setError(build.error ?? `Generated code still has ${errorCount} error(s) after ${build.attempts.length - 1} repair round(s):`);
+      setStep('error');
+      return null;
+    }
+    return build.code;
+  };
+
+  const showInstallFailure = (installResult: GameInstallResult) => {
+    if (installResult.smokeTest) {
+      setError(`${installResult.message}: ${installResult.error}`);
+      setFailedFrame(installResult.smokeTest.frame || null);
+    } else {
+      setError(installResult.error || installResult.message);
+    }
+    setStep('error');
+  };
+
+  /**
+   * Verify, then install as a new game, keeping what the model was asked
+   * with it. True once it is installed.
+   */
+  const verifyAndInstall = async (
+    agent: ElicitationAgent,
+    result: { code: string; gameId: string; name: string; description: string },
+    prompt: string
+  ): Promise<boolean> => {
+    const code = await verifyGenerated(agent, result);
+    if (code === null) return false;
+
+    setStep('installing');
+    setMessage('Building the game and playing it for a few seconds...');
+
+    const installResult = await gameLoader.installGeneratedGame(code, {
+      id: result.gameId,
+      name: result.name,
+      description: result.description,
+      prompt,
+      model: agent.getModelName()
+    });
+
+    if (installResult.success) {
+      setGameInfo({ id: result.gameId, name: result.name, version: installResult.version });
+      setMessage(installResult.message);
+      setStep('complete');
+      return true;
+    }
+    showInstallFailure(installResult);
+    return false;
+  };
+
+  const startRefine = async (game: CommunityGameInfo) => {
+    try {
+      const stored = await gameLoader.getGameSource(game.id);
+      if (!stored) {
+        loadRefinableGames();
+        return;
+      }
+      setRefineTarget({ id: game.id, name: game.name, version: stored.version, source: stored.source });
+      setInputValue('');
+      setStep('refine');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep('error');
+    }
+  };
+
+  /**
+   * Have the model change the game's source, check it like a new game and
+   * show the diff for review
+   */
+  const handleRefineSubmit = async (change: string) => {
+    if (!refineTarget || !change.trim()) return;
+
+    setChangeRequest(change);
+    setDiagnostics([]);
+    setAttempts([]);
+    setFailedFrame(null);
+    setStep('generating');
+    setMessage(`Changing ${refineTarget.name}: "${change}"`);
+
+    try {
+      const agent = new ElicitationAgent();
+      if (!canAfford(await agent.estimateRefineUsage(refineTarget.source, change))) return;
+      let code;
+      try {
+        code = await agent.refineGame(refineTarget.source, change);
+      } finally {
+        chargeUsage(agent, `Change: ${refineTarget.name.substring(0, 60)}`);
+      }
+
+      const verified = await verifyGenerated(agent, { code, name: refineTarget.name });
+      if (verified === null) return;
+      setRefinedCode(verified);
+      setRefineModel(agent.getModelName());
+      setDiffOffset(0);
+      setStep('review');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep('error');
+    }
+  };
+
+  const applyRefinement = async () => {
+    if (!refineTarget || refinedCode === null) return;
+
+    setStep('installing');
+    setMessage('Building the new version and playing it for a few seconds...');
+
+    const installResult = await gameLoader.updateGame(refineTarget.id, refinedCode, {
+      changeRequest,
+      prompt: changeRequest,
+      model: refineModel
+    });
+    if (installResult.success) {
+      setGameInfo({ id: refineTarget.id, name: refineTarget.name, version: installResult.version });
+      setMessage(installResult.message);
+      setStep('complete');
+    } else {
+      showInstallFailure(installResult);
+    }
+  };
 
   const handleIdeaSubmit = async (idea: string) => {
     if (!idea.trim()) return;
 
     setGameIdea(idea); // Still useful to set the state
+    setDiagnostics([]);
+    setAttempts([]);
+    setFailedFrame(null);
     setMessage('Starting elicitation...');
+    setSession(null);
+    setThinking(true);
     setStep('eliciting');
 
     try {
@@ -68,83 +446,96 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
         // Quick generation without questions
         setStep('generating');
         setMessage('Generating your game... This may take a moment.');
-        
-        const result = await agent.quickGenerate(idea);
-        
-        // Validate the code
-        const validation = gameLoader.validateGameCode(result.code);
-        if (!validation.valid) {
-          setError(`Generated code has issues: ${validation.errors.join(', ')}`);
-          setStep('error');
-          return;
-        }
-
-        // Install the game
-        setStep('installing');
-        setMessage('Installing game...');
-        
-        const installResult = await gameLoader.installGeneratedGame(result.code, {
-          id: result.gameId,
-          name: result.name,
-          description: result.description
-        });
 
-        if (installResult.success) {
-          setGameInfo({ id: result.gameId, name: result.name });
-          setMessage(installResult.message);
-          setStep('complete');
-        } else {
-          setError(installResult.error || installResult.message);
-          setStep('error');
+        if (!await ensureAffordable(agent, 'quick', idea)) return;
+        let result;
+        try {
+          result = await agent.quickGenerate(idea);
+        } finally {
+          chargeUsage(agent, `Quick: ${idea.substring(0, 60)}`);
         }
+        
+        await verifyAndInstall(agent, result, idea);
       } else {
         // Full elicitation with questions
-        const { questions: qs } = await agent.startElicitationSession(idea);
-        setQuestions(qs);
+        if (!await ensureAffordable(agent, 'questions', idea)) return;
+        let started;
+        try {
+          started = await agent.startElicitationSession(idea);
+        } finally {
+          chargeUsage(agent, `Questions: ${idea.substring(0, 60)}`);
+        }
+        setSession(started.session);
+        saveSession(started.session);
         setMessage('Please answer the following questions:');
         setStep('eliciting');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
       setStep('error');
+    } finally {
+      setThinking(false);
     }
   };
 
+  /**
+   * Answers go back to Liku, who may ask more; an empty line builds the game
+   * from the conversation so far
+   */
   const handleAnswersSubmit = async (answers: string) => {
-    if (!answers.trim()) return;
-
-    setStep('generating');
-    setMessage('Generating your game based on your answers...');
+    if (!session || thinking) return;
 
+    let agent;
     try {
-      const agent = new ElicitationAgent();
-      const result = await agent.generateGameFromAnswers(gameIdea, answers);
+      agent = new ElicitationAgent();
+    } catch (err) {
+      // A misconfigured LLM provider throws here, outside TextInput's reach
+      setError(err instanceof Error ? err.message : String(err));
+      setStep('error');
+      return;
+    }
+    if (!answers.trim()) {
+      await generateFromSession(agent, session);
+      return;
+    }
 
-      // Validate the code
-      const validation = gameLoader.validateGameCode(result.code);
-      if (!validation.valid) {
-        setError(`Generated code has issues: ${validation.errors.join(', ')}`);
-        setStep('error');
-        return;
+    setThinking(true);
+    try {
+      if (!await ensureAffordable(agent, 'followup', session.gameIdea, session.history, answers)) return;
+      let continued;
+      try {
+        continued = await agent.continueElicitation(session, answers);
+      } finally {
+        chargeUsage(agent, `Follow-up: ${session.gameIdea.substring(0, 60)}`);
       }
+      setSession(continued.session);
+      saveSession(continued.session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep('error');
+    } finally {
+      setThinking(false);
+    }
+  };
 
-      // Install the game
-      setStep('installing');
-      setMessage('Installing game...');
-      
-      const installResult = await gameLoader.installGeneratedGame(result.code, {
-        id: result.gameId,
-        name: result.name,
-        description: result.description
-      });
+  const generateFromSession = async (agent: ElicitationAgent, current: ElicitationSession) => {
+    setStep('generating');
+    setMessage('Generating your game from your design...');
 
-      if (installResult.success) {
-        setGameInfo({ id: result.gameId, name: result.name });
-        setMessage(installResult.message);
-        setStep('complete');
-      } else {
-        setError(installResult.error || installResult.message);
-        setStep('error');
+    try {
+      if (!await ensureAffordable(agent, 'generate', current.gameIdea, current.history)) return;
+      let result;
+      try {
+        result = await agent.generateGameFromSession(current);
+      } finally {
+        chargeUsage(agent, `Generate: ${current.gameIdea.substring(0, 60)}`);
+      }
+
+      const design = elicitationTranscript(current)
+        .map(entry => `${entry.speaker === 'liku' ? 'Liku' : 'Player'}: ${entry.text}`)
+        .join('\n\n');
+      if (await verifyAndInstall(agent, result, design)) {
+        saveSession(current, result.gameId);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
@@ -152,6 +543,43 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
     }
   };
 
+  const renderCharge = () => (
+    <Box>
+      {lastCharge !== null && (
+        <Text>
+          <Text dimColor>Charged </Text>
+          <Text color="red">{lastCharge}</Text>
+          <Text dimColor> Pro Tokens · </Text>
+        </Text>
+      )}
+      <Text dimColor>Balance: </Text>
+      <Text color={balance > 0 ? 'green' : 'red'}>{balance}</Text>
+    </Box>
+  );
+
+  const renderAttempts = () => attempts.length > 0 && (
+    <Box marginBottom={1} flexDirection="column">
+      {attempts.map(attempt => (
+        <Text key={attempt.round} color={attempt.passed ? 'green' : 'yellow'}>
+          {attempt.passed ? '✓ ' : '✗ '}
+          {describeAttempt(attempt)}
+        </Text>
+      ))}
+    </Box>
+  );
+
+  const renderDiagnostics = () => diagnostics.length > 0 && (
+    <Box marginBottom={1} flexDirection="column">
+      {diagnostics.slice(0, 8).map((diagnostic, index) => (
+        <Text key={index} color={diagnostic.severity === 'error' ? 'red' : 'yellow'}>
+          <Text dimColor>line {diagnostic.line}:{diagnostic.column} </Text>
+          {diagnostic.message}
+        </Text>
+      ))}
+      {diagnostics.length > 8 && <Text dimColor>...and {diagnostics.length - 8} more</Text>}
+    </Box>
+  );
+
   const renderIdeaInput = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -161,6 +589,12 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
       <Box marginBottom={1}>
         <Text>Describe the game you want to create:</Text>
       </Box>
+
+      <Box marginBottom={1}>
+        <Text bold color="yellow">💎 Pro Tokens: </Text>
+        <Text color={balance > 0 ? 'green' : 'red'}>{balance}</Text>
+        <Text dimColor> (each generation is charged by model usage)</Text>
+      </Box>
       
       <Box marginBottom={1}>
         <Text dimColor>Example: "A space shooter where I dodge asteroids"</Text>
@@ -189,40 +623,159 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
           <Text dimColor>(Toggle with 'q' for quick generation)</Text>
         </Text>
       </Box>
+
+      {continueEntries.length > 0 && (
+        <Box marginTop={1}>
+          <Text color="magenta">📝 {savedSessions.length} saved design(s), {refinableGames.length} game(s) to change</Text>
+          <Text dimColor> - press Tab</Text>
+        </Box>
+      )}
     </Box>
   );
 
-  const renderEliciting = () => (
+  const renderResume = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
-        <Text bold color="yellow">Questions about your game:</Text>
+        <Text bold color="magenta">📝 Continue</Text>
       </Box>
 
-      <Box marginBottom={1} flexDirection="column">
-        <Text>{questions}</Text>
+      {savedSessions.length > 0 && <Text bold>Saved designs</Text>}
+      {continueEntries.map((entry, index) => {
+        const selected = index === selectedEntry;
+        if (entry.kind === 'design') {
+          const { design } = entry;
+          return (
+            <Text key={design.sessionId} color={selected ? 'green' : undefined} wrap="truncate-end">
+              {selected ? '❯ ' : '  '}
+              {design.gameIdea}
+              <Text dimColor> · {design.status === 'ready' ? 'ready to build' : `${Math.floor(design.turnCount / 2)} round(s)`} · {design.updatedAt}</Text>
+            </Text>
+          );
+        }
+        const { game } = entry;
+        return (
+          <Box key={game.id} flexDirection="column">
+            {index === savedSessions.length && (
+              <Box marginTop={savedSessions.length > 0 ? 1 : 0}>
+                <Text bold>Change an installed game</Text>
+              </Box>
+            )}
+            <Text color={selected ? 'green' : undefined} wrap="truncate-end">
+              {selected ? '❯ ' : '  '}
+              ✏️  {game.name}
+              <Text dimColor> · v{game.version}</Text>
+            </Text>
+          </Box>
+        );
+      })}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ select • Enter open • D delete design • Esc back</Text>
       </Box>
+    </Box>
+  );
 
+  const renderRefine = () => refineTarget && (
+    <Box flexDirection="column">
       <Box marginBottom={1}>
-        <Text bold>Your answers: </Text>
+        <Text bold color="yellow">✏️  Changing </Text>
+        <Text bold>{refineTarget.name}</Text>
+        <Text dimColor> (v{refineTarget.version})</Text>
       </Box>
-      
+
       <Box marginBottom={1}>
+        <Text dimColor>Example: "make the snake faster" or "add three lives"</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text bold>Change: </Text>
         <TextInput
           value={inputValue}
           onChange={setInputValue}
           onSubmit={(value: string) => {
-            handleAnswersSubmit(value);
+            handleRefineSubmit(value);
             setInputValue('');
           }}
         />
       </Box>
 
+      {renderCharge()}
+
       <Box marginTop={1}>
-        <Text dimColor>Answer the questions, then press Enter</Text>
+        <Text dimColor>Press Enter to continue, Esc to go back</Text>
       </Box>
     </Box>
   );
 
+  const renderReview = () => refineTarget && refinedCode !== null && (
+    <Box flexDirection="column">
+      <Box marginBottom={1} flexDirection="column">
+        <Text bold color="yellow">🔍 Review the change to {refineTarget.name}</Text>
+        <Text dimColor>"{changeRequest}"</Text>
+      </Box>
+
+      {renderAttempts()}
+
+      <SourceDiffView before={refineTarget.source} after={refinedCode} offset={diffOffset} />
+
+      {renderCharge()}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ PgUp/PgDn scroll • Enter install as a new version • Esc discard</Text>
+      </Box>
+    </Box>
+  );
+
+  const renderEliciting = () => {
+    const transcript = session ? elicitationTranscript(session) : [];
+    const hidden = Math.max(0, transcript.length - VISIBLE_TRANSCRIPT_ENTRIES);
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text bold color="yellow">Designing: </Text>
+          <Text>{session?.gameIdea ?? gameIdea}</Text>
+        </Box>
+
+        {hidden > 0 && <Text dimColor>...{hidden} earlier message(s)</Text>}
+        {transcript.slice(hidden).map((entry, index) => (
+          <Box key={hidden + index} marginBottom={1} flexDirection="column">
+            <Text bold color={entry.speaker === 'liku' ? 'cyan' : 'green'}>
+              {entry.speaker === 'liku' ? 'Liku:' : 'You:'}
+            </Text>
+            <Text>{entry.text}</Text>
+          </Box>
+        ))}
+
+        {thinking ? (
+          <Box marginBottom={1}>
+            <Text color="yellow">Liku is thinking...</Text>
+          </Box>
+        ) : (
+          <Box marginBottom={1}>
+            <Text bold>Your answers: </Text>
+            <TextInput
+              value={inputValue}
+              onChange={setInputValue}
+              onSubmit={(value: string) => {
+                handleAnswersSubmit(value);
+                setInputValue('');
+              }}
+            />
+          </Box>
+        )}
+
+        {renderCharge()}
+
+        <Box marginTop={1} flexDirection="column">
+          {session?.ready && <Text color="green">Liku has everything needed to build your game.</Text>}
+          <Text dimColor>Enter answers to continue · Enter on an empty line builds the game</Text>
+          <Text dimColor>Esc saves the design for later</Text>
+        </Box>
+      </Box>
+    );
+  };
+
   const renderGenerating = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -235,6 +788,16 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
     </Box>
   );
 
+  const renderVerifying = () => (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text bold color="yellow">🔍 Checking your game...</Text>
+      </Box>
+      {renderAttempts()}
+      <Text>{message}</Text>
+    </Box>
+  );
+
   const renderInstalling = () => (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -265,10 +828,22 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
               <Text bold>Game ID: </Text>
               <Text color="yellow">{gameInfo.id}</Text>
             </Text>
+            {gameInfo.version !== undefined && (
+              <Text>
+                <Text bold>Version: </Text>
+                <Text>{gameInfo.version}</Text>
+              </Text>
+            )}
           </Box>
         </Box>
       )}
 
+      {renderAttempts()}
+
+      {renderDiagnostics()}
+
+      {renderCharge()}
+
       <Box marginTop={1}>
         <Text dimColor>Press Esc to return to the main menu</Text>
       </Box>
@@ -285,6 +860,25 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
         <Text color="red">{error}</Text>
       </Box>
 
+      {session && (
+        <Box marginBottom={1}>
+          <Text dimColor>Your design is saved - resume it from the builder with Tab.</Text>
+        </Box>
+      )}
+
+      {failedFrame && (
+        <Box marginBottom={1} flexDirection="column" borderStyle="single" borderColor="red" paddingX={1}>
+          <Text dimColor>Last screen before it failed:</Text>
+          <Text>{failedFrame}</Text>
+        </Box>
+      )}
+
+      {renderAttempts()}
+
+      {renderDiagnostics()}
+
+      {renderCharge()}
+
       <Box marginTop={1}>
         <Text dimColor>Press Esc to return and try again</Text>
       </Box>
@@ -300,8 +894,12 @@ const BuilderUI: React.FC<BuilderUIProps> = ({ onExit }) => {
       width={70}
     >
       {step === 'idea' && renderIdeaInput()}
+      {step === 'resume' && renderResume()}
+      {step === 'refine' && renderRefine()}
+      {step === 'review' && renderReview()}
       {step === 'eliciting' && renderEliciting()}
       {step === 'generating' && renderGenerating()}
+      {step === 'verifying' && renderVerifying()}
       {step === 'installing' && renderInstalling()}
       {step === 'complete' && renderComplete()}
       {step === 'error' && renderError()}
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import { createCatalogClient, describeRating, raterId } from '../catalog/CatalogClient.js';
+import type { CatalogEntry } from '../catalog/types.js';
+import { decodeCartridge, keyFingerprint } from '../core/Cartridge.js';
+import { gameLoader } from '../core/GameLoader.js';
+import { logGameState } from '../core/GameStateLogger.js';
+import { db } from '../services/DatabaseService.js';
+
+interface CatalogScreenProps {
+  onExit: () => void;
+}
+
+// Catalog rows shown at once
+const LIST_WINDOW = 8;
+
+/**
+ * The community catalog at LIKU_CATALOG_URL: search, rate and install games
+ */
+const CatalogScreen: React.FC<CatalogScreenProps> = ({ onExit }) => {
+  const client = useMemo(() => createCatalogClient(), []);
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [installed, setInstalled] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState(0);
+  const [query, setQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [searchValue, setSearchValue] = useState('');
+  const [busy, setBusy] = useState<string | null>('Loading the catalog...');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const showError = (err: unknown) => setMessage(`❌ ${err instanceof Error ? err.message : String(err)}`);
+
+  const load = (q: string = query) => {
+    if (!client) {
+      setBusy(null);
+      return;
+    }
+    setBusy('Loading the catalog...');
+    Promise.all([client.search({ q }), gameLoader.listCommunityGames()])
+      .then(([found, games]) => {
+        setEntries(found);
+        setInstalled(new Set(games.map(game => game.id)));
+        setSelected(index => Math.min(index, Math.max(0, found.length - 1)));
+      })
+      .catch(showError)
+      .finally(() => setBusy(null));
+  };
+
+  useEffect(() => load(), []);
+
+  const current = entries[selected];
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Catalog${query ? ` | Search: "${query}"` : ''} | ${entries.length} game(s)`;
+    let visualState = client ? `Community Catalog (${process.env.LIKU_CATALOG_URL}):\n` : 'No catalog configured (LIKU_CATALOG_URL).\n';
+    entries.forEach((entry, index) => {
+      const cursor = index === selected ? '>' : ' ';
+      const mark = installed.has(entry.id) ? ' [installed]' : '';
+      visualState += `${cursor} ${entry.name}${mark} ${describeRating(entry.rating)} downloads ${entry.downloads}${entry.tags.length ? ` [${entry.tags.join(', ')}]` : ''}\n`;
+    });
+    if (current) {
+      visualState += `Selected: ${current.description} (by ${current.author ?? 'unsigned'})\n`;
+    }
+    if (busy) {
+      visualState += `${busy}\n`;
+    }
+    if (message) {
+      visualState += `Message: ${message}\n`;
+    }
+
+    logGameState("Community Catalog", status, visualState, "Up/Down to select, Enter to install, 1-5 to rate, / to search, Esc to go back.");
+  }, [entries, installed, selected, query, busy, message]);
+
+  const install = async (entry: CatalogEntry) => {
+    const cartridge = decodeCartridge(await client!.downloadCartridge(entry.id));
+    const { signature } = cartridge;
+    const signer = signature ? `signed by ${signature.author} (key ${keyFingerprint(signature.publicKey)})` : 'unsigned';
+    const result = await gameLoader.installCartridge(cartridge);
+    setMessage(result.success
+      ? `${result.message} (${signer})`
+      : `❌ ${result.message}${result.error ? `: ${result.error}` : ''}`);
+  };
+
+  const rate = async (entry: CatalogEntry, stars: number) => {
+    const rated = await client!.rate(entry.id, raterId(db.getActiveProfileId()), stars);
+    setMessage(`Rated ${rated.name} ${stars}/5. ${describeRating(rated.rating)}`);
+  };
+
+  const run = (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    action()
+      .catch(showError)
+      .finally(() => load());
+  };
+
+  useInput((input, key) => {
+    if (searching) {
+      if (key.escape) setSearching(false);
+      return;
+    }
+
+    if (key.escape) {
+      onExit();
+    } else if (!client) {
+      return;
+    } else if (input === '/') {
+      setSearchValue(query);
+      setSearching(true);
+    } else if (key.upArrow) {
+      setSelected(index => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelected(index => Math.min(entries.length - 1, index + 1));
+    } else if (key.return && current) {
+      if (installed.has(current.id)) {
+        setMessage(`${current.name} is already installed.`);
+      } else {
+        run(`Installing ${current.name}: checking and playing it for a few seconds...`, () => install(current));
+      }
+    } else if (/^[1-5]$/.test(input) && current) {
+      run(`Rating ${current.name}...`, () => rate(current, Number(input)));
+    }
+  }, { isActive: busy === null });
+
+  if (!client) {
+    return (
+      <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={80}>
+        <Text bold color="magenta">📚 Community Catalog</Text>
+        <Box marginTop={1} flexDirection="column">
+          <Text>No catalog configured.</Text>
+          <Text dimColor>Set LIKU_CATALOG_URL, e.g. to http://localhost:4780 after `liku catalog serve`.</Text>
+        </Box>
+        <Box marginTop={1}>
+          <Text dimColor>Esc back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  // Keep the selected row in view
+  const start = Math.min(Math.max(0, selected - LIST_WINDOW + 1), Math.max(0, entries.length - LIST_WINDOW));
+  const visible = entries.slice(start, start + LIST_WINDOW);
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={80}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="magenta">📚 Community Catalog</Text>
+        <Text dimColor>{query ? `"${query}" • ` : ''}{entries.length} game(s)</Text>
+      </Box>
+
+      {searching && (
+        <Box marginBottom={1}>
+          <Text color="cyan">Search: </Text>
+          <TextInput
+            value={searchValue}
+            onChange={setSearchValue}
+            onSubmit={(value: string) => {
+              setSearching(false);
+              setQuery(value.trim());
+              setSelected(0);
+              load(value.trim());
+            }}
+          />
+        </Box>
+      )}
+
+      {entries.length === 0 && !busy ? (
+        <Text dimColor>{query ? 'No games match your search.' : 'Nothing published yet. Publish with `liku catalog publish <id>`.'}</Text>
+      ) : (
+        visible.map((entry, offset) => {
+          const index = start + offset;
+          return (
+            <Text key={entry.id} color={index === selected ? 'green' : undefined} wrap="truncate-end">
+              {index === selected ? '❯ ' : '  '}
+              {installed.has(entry.id) ? '✓ ' : '  '}
+              <Text bold>{entry.name}</Text>
+              <Text dimColor> {describeRating(entry.rating)} • ⬇ {entry.downloads}{entry.tags.length ? ` • ${entry.tags.join(', ')}` : ''}</Text>
+            </Text>
+          );
+        })
+      )}
+
+      {current && (
+        <Box marginTop={1} flexDirection="column">
+          <Text wrap="truncate-end">{current.description}</Text>
+          <Text dimColor>
+            v{current.version} • Energy -{current.energyCost}, XP +{current.xpReward} • {current.author ? `by ${current.author} (key ${current.fingerprint})` : 'unsigned'}
+          </Text>
+        </Box>
+      )}
+
+      {busy && (
+        <Box marginTop={1}>
+          <Text color="yellow">{busy}</Text>
+        </Box>
+      )}
+
+      {message && !busy && (
+        <Box marginTop={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ select • Enter install • 1-5 rate • / search • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default CatalogScreen;
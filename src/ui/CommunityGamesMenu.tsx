@@ -1,19 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
-import { gameLoader, LoadedGame } from '../core/GameLoader.js';
+import { gameLoader, LoadedGame, CommunityGameInfo } from '../core/GameLoader.js';
 import { logGameState } from '../core/GameStateLogger.js';
+import GameVersionsScreen from './GameVersionsScreen.js';
+import CatalogScreen from './CatalogScreen.js';
 
 interface CommunityGamesMenuProps {
   onExit: () => void;
   onSelectGame: (gameId: string, loadedGame: LoadedGame) => void;
+  // The hub's latest notice, e.g. the rewards of the game just played
+  message?: string | null;
 }
 
-const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelectGame }) => {
-  const [games, setGames] = useState<Array<{ id: string; name: string; description: string }>>([]);
+// Costs and rewards come from each game's GameManifest
+const describeCosts = (game: CommunityGameInfo) => `Energy -${game.energyCost}, XP +${game.xpReward}`;
+
+const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelectGame, message }) => {
+  const [games, setGames] = useState<CommunityGameInfo[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingGame, setLoadingGame] = useState(false);
+  // Game whose versions are being browsed
+  const [versionsOf, setVersionsOf] = useState<CommunityGameInfo | null>(null);
+  const [browsingCatalog, setBrowsingCatalog] = useState(false);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  // Outcome of removing a game
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     loadGames();
@@ -29,7 +42,7 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
     } else {
         games.forEach((game, index) => {
             const cursor = index === selectedIndex ? "> " : "  ";
-            visualState += `${cursor}${game.name}\n`;
+            visualState += `${cursor}${game.name} (${describeCosts(game)})\n`;
             if (index === selectedIndex) {
                 visualState += `   ${game.description}\n`;
             }
@@ -39,8 +52,20 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
     const backCursor = selectedIndex === games.length ? "> " : "  ";
     visualState += `${backCursor}Back to Main Menu`;
     
-    logGameState("Community Games Menu", status, visualState);
-  }, [games, selectedIndex]);
+    if (confirmRemove && selectedIndex < games.length) {
+        visualState += `\n\nRemove ${games[selectedIndex].name} with its versions, scores and saved data? (y/n)`;
+    }
+
+    if (notice) {
+        visualState += `\n\n${notice}`;
+    }
+
+    if (message) {
+        visualState += `\n\n${message}`;
+    }
+    
+    logGameState("Community Games Menu", status, visualState, "Up/Down to select, Enter to play, V for versions, X to remove, C for the catalog, Esc to go back.");
+  }, [games, selectedIndex, message, confirmRemove, notice]);
 
   const loadGames = async () => {
     try {
@@ -55,6 +80,14 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
   };
 
   useInput((input, key) => {
+    if (confirmRemove) {
+      if (input === 'y' && selectedIndex < games.length) {
+        handleRemoveGame(games[selectedIndex]);
+      }
+      setConfirmRemove(false);
+      return;
+    }
+
     if (key.escape) {
       onExit();
       return;
@@ -68,6 +101,22 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
       setSelectedIndex(prev => Math.min(games.length, prev + 1));
     }
 
+    if (input === 'c' || input === 'C') {
+      setBrowsingCatalog(true);
+      return;
+    }
+
+    if ((input === 'v' || input === 'V') && selectedIndex < games.length) {
+      setVersionsOf(games[selectedIndex]);
+      return;
+    }
+
+    if ((input === 'x' || input === 'X') && selectedIndex < games.length) {
+      setNotice(null);
+      setConfirmRemove(true);
+      return;
+    }
+
     if (key.return) {
       if (selectedIndex === games.length) {
         // Back option
@@ -77,7 +126,7 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
         handlePlayGame(games[selectedIndex].id);
       }
     }
-  });
+  }, { isActive: !versionsOf && !browsingCatalog });
 
   const handlePlayGame = async (gameId: string) => {
     try {
@@ -90,6 +139,36 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
     }
   };
 
+  const handleRemoveGame = async (game: CommunityGameInfo) => {
+    const result = await gameLoader.removeGame(game.id);
+    setNotice(result.success ? result.message : `${result.message}${result.error ? `: ${result.error}` : ''}`);
+    await loadGames();
+    setSelectedIndex(prev => Math.max(0, prev - 1));
+  };
+
+  if (browsingCatalog) {
+    return (
+      <CatalogScreen
+        onExit={() => {
+          setBrowsingCatalog(false);
+          loadGames();
+        }}
+      />
+    );
+  }
+
+  if (versionsOf) {
+    return (
+      <GameVersionsScreen
+        game={versionsOf}
+        onExit={() => {
+          setVersionsOf(null);
+          loadGames();
+        }}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <Box flexDirection="column" borderStyle="round" borderColor="cyan" padding={1}>
@@ -124,6 +203,12 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
         </Box>
       )}
 
+      {message && (
+        <Box marginBottom={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
       {games.length === 0 ? (
         <Box flexDirection="column" marginBottom={1}>
           <Text dimColor>No community games yet.</Text>
@@ -137,6 +222,7 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
                 <Text color={index === selectedIndex ? 'green' : 'white'}>
                   {index === selectedIndex ? '> ' : '  '}
                   <Text bold>{game.name}</Text>
+                  <Text dimColor> ({describeCosts(game)})</Text>
                 </Text>
                 {index === selectedIndex && (
                   <Text dimColor>  {game.description}</Text>
@@ -147,6 +233,18 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
         </Box>
       )}
 
+      {confirmRemove && selectedIndex < games.length && (
+        <Box marginBottom={1}>
+          <Text color="red">Remove {games[selectedIndex].name} with its versions, scores and saved data? (y/n)</Text>
+        </Box>
+      )}
+
+      {notice && (
+        <Box marginBottom={1}>
+          <Text color="yellow">{notice}</Text>
+        </Box>
+      )}
+
       <Box marginTop={1}>
         <Text color={selectedIndex === games.length ? 'green' : 'white'}>
           {selectedIndex === games.length ? '> ' : '  '}
@@ -155,7 +253,7 @@ const CommunityGamesMenu: React.FC<CommunityGamesMenuProps> = ({ onExit, onSelec
       </Box>
 
       <Box marginTop={1}>
-        <Text dimColor>Use ↑/↓ to select, Enter to play, Esc to back</Text>
+        <Text dimColor>Use ↑/↓ to select, Enter to play, V for versions, X to remove, C for the catalog, Esc to back</Text>
       </Box>
     </Box>
   );
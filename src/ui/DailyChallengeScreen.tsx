@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Snake from './games/Snake.js';
+import DinoRun from './games/DinoRun.js';
+import Sudoku from './games/Sudoku.js';
+import { DailyChallengeContext } from './games/DailyChallengeContext.js';
+import { db, DailyLeaderboardEntry } from '../services/DatabaseService.js';
+import { getDailyChallenge, shiftChallengeDate, toChallengeDate } from '../core/DailyChallenge.js';
+import { rewardEngine } from '../core/RewardEngine.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface DailyChallengeScreenProps {
+  onExit: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const pad = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width);
+
+const DailyChallengeScreen: React.FC<DailyChallengeScreenProps> = ({ onExit }) => {
+  const today = toChallengeDate(new Date());
+  const [viewDate, setViewDate] = useState(today);
+  const [playing, setPlaying] = useState(false);
+  const [leaderboard, setLeaderboard] = useState<DailyLeaderboardEntry[]>([]);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const challenge = getDailyChallenge(viewDate);
+  const isToday = viewDate === today;
+
+  useEffect(() => {
+    db.getActiveProfile().then(profile => setProfileId(profile.id)).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (playing) return;
+    db.getDailyLeaderboard(viewDate, challenge.ranking)
+      .then(setLeaderboard)
+      .catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+  }, [viewDate, playing]);
+
+  // AI State Logging
+  useEffect(() => {
+    if (playing) return; // The game logs its own state
+
+    const status = `Daily Challenge ${viewDate} | Game: ${challenge.gameId} | Seed: ${challenge.seed}`;
+    let visualState = `Game: ${challenge.name} (${challenge.difficulty}), ranked by ${challenge.ranking}\n`;
+    visualState += "Leaderboard:\n";
+    if (leaderboard.length === 0) {
+      visualState += "  (No runs yet)\n";
+    }
+    leaderboard.forEach((entry, index) => {
+      visualState += `  ${index + 1}. ${entry.profileName} ${challenge.ranking === 'score' ? entry.score : formatDuration(entry.durationMs)}\n`;
+    });
+    if (message) {
+      visualState += `Message: ${message}\n`;
+    }
+
+    const controls = isToday
+      ? "Enter to play today's challenge, Left/Right to browse past days, Esc to go back."
+      : "Left/Right to browse days, Esc to go back.";
+    logGameState("Daily Challenge", status, visualState, controls);
+  }, [viewDate, leaderboard, playing, message]);
+
+  const startChallenge = async () => {
+    const stats = await db.getStats();
+    if (!rewardEngine.canStart(stats, challenge.gameId)) {
+      setMessage(`Liku needs ${rewardEngine.getEnergyToStart(challenge.gameId)} energy for today's challenge. Let him rest first.`);
+      return;
+    }
+    setMessage(null);
+    setPlaying(true);
+  };
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onExit();
+    } else if (key.leftArrow) {
+      setViewDate(prev => shiftChallengeDate(prev, -1));
+    } else if (key.rightArrow) {
+      setViewDate(prev => (prev < today ? shiftChallengeDate(prev, 1) : prev));
+    } else if (key.return && isToday) {
+      startChallenge().catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+    }
+  }, { isActive: !playing });
+
+  if (playing) {
+    const exitGame = () => setPlaying(false);
+    return (
+      <DailyChallengeContext.Provider value={challenge}>
+        {challenge.gameId === 'snake' && <Snake onExit={exitGame} difficulty={challenge.difficulty} seed={challenge.seed} />}
+        {challenge.gameId === 'dinorun' && <DinoRun onExit={exitGame} difficulty={challenge.difficulty} seed={challenge.seed} />}
+        {challenge.gameId === 'sudoku' && <Sudoku onExit={exitGame} difficulty={challenge.difficulty} seed={challenge.seed} />}
+      </DailyChallengeContext.Provider>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="cyan" padding={1} width={70}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="cyan">📅 Daily Challenge</Text>
+        <Text color="yellow">◀ {viewDate}{isToday ? ' (today)' : ''} ▶</Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text>
+          <Text bold>{challenge.name}</Text>
+          <Text dimColor> · {challenge.difficulty} · seed {challenge.seed}</Text>
+        </Text>
+        <Text dimColor>
+          {challenge.ranking === 'score' ? 'Highest score wins' : 'Fastest solve wins'} · everyone plays the same run · best run per profile counts
+        </Text>
+      </Box>
+
+      <Text bold underline>Leaderboard</Text>
+      {leaderboard.length === 0 ? (
+        <Text dimColor>No runs {isToday ? 'yet - be the first!' : 'on this day.'}</Text>
+      ) : (
+        leaderboard.map((entry, index) => (
+          <Text key={entry.profileId} color={entry.profileId === profileId ? 'green' : undefined}>
+            {pad(`${index + 1}.`, 4)}
+            {pad(entry.profileName, 20)}
+            {pad(challenge.ranking === 'score' ? entry.score ?? '-' : formatDuration(entry.durationMs), 10)}
+            <Text dimColor>{entry.attempts} {entry.attempts === 1 ? 'run' : 'runs'}</Text>
+          </Text>
+        ))
+      )}
+
+      {message && (
+        <Box marginTop={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>{isToday ? 'Enter play • ' : ''}←/→ browse days • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default DailyChallengeScreen;
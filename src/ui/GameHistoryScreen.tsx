@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { db, GameSession, GameSessionSummary } from '../services/DatabaseService.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface GameHistoryScreenProps {
+  onExit: () => void;
+}
+
+type TimeWindow = 'today' | 'week' | 'all';
+
+const TIME_WINDOWS: Array<{ id: TimeWindow; label: string }> = [
+  { id: 'today', label: 'Last 24h' },
+  { id: 'week', label: 'Last 7 days' },
+  { id: 'all', label: 'All time' },
+];
+
+const BUILT_IN_GAME_NAMES: Record<string, string> = {
+  snake: '🐍 Snake',
+  tictactoe: '❌⭕ Tic-Tac-Toe',
+  dinorun: '🦖 Dino Run',
+  hangman: '📝 Hangman',
+  sudoku: '🧩 Sudoku',
+};
+
+const OUTCOME_LABELS: Record<GameSession['outcome'], { text: string; color: string }> = {
+  win: { text: 'WIN', color: 'green' },
+  loss: { text: 'LOSS', color: 'red' },
+  draw: { text: 'DRAW', color: 'yellow' },
+  finished: { text: 'DONE', color: 'cyan' },
+  abandoned: { text: 'QUIT', color: 'gray' },
+};
+
+const windowStart = (timeWindow: TimeWindow): Date | undefined => {
+  const day = 24 * 60 * 60 * 1000;
+  if (timeWindow === 'today') return new Date(Date.now() - day);
+  if (timeWindow === 'week') return new Date(Date.now() - 7 * day);
+  return undefined;
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const pad = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width);
+
+const GameHistoryScreen: React.FC<GameHistoryScreenProps> = ({ onExit }) => {
+  const [windowIndex, setWindowIndex] = useState(1);
+  const [gameIndex, setGameIndex] = useState(0); // 0 = all games
+  const [gameIds, setGameIds] = useState<string[]>([]);
+  const [gameNames, setGameNames] = useState<Record<string, string>>(BUILT_IN_GAME_NAMES);
+  const [summary, setSummary] = useState<GameSessionSummary[]>([]);
+  const [sessions, setSessions] = useState<GameSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeWindow = TIME_WINDOWS[windowIndex];
+  const gameFilter = gameIndex > 0 ? gameIds[gameIndex - 1] : undefined;
+  const nameOf = (gameId: string) => gameNames[gameId] ?? gameId;
+
+  // Games with any history at all, plus community game names
+  useEffect(() => {
+    db.getGameSessionSummary().then(all => setGameIds(all.map(entry => entry.gameId))).catch(() => {});
+    db.getRegisteredGames().then(registered => {
+      const names = { ...BUILT_IN_GAME_NAMES };
+      registered.forEach(game => {
+        if (!names[game.id]) names[game.id] = `🌟 ${game.name}`;
+      });
+      setGameNames(names);
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const since = windowStart(timeWindow.id);
+    Promise.all([
+      db.getGameSessionSummary({ gameId: gameFilter, since }),
+      db.getGameSessions({ gameId: gameFilter, since, limit: 10 }),
+    ]).then(([newSummary, newSessions]) => {
+      setSummary(newSummary);
+      setSessions(newSessions);
+      setError(null);
+    }).catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [windowIndex, gameIndex, gameIds]);
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Game History | Window: ${timeWindow.label} | Game: ${gameFilter ? nameOf(gameFilter) : 'All games'}`;
+    let visualState = "Summary:\n";
+    if (summary.length === 0) {
+      visualState += "(No games played in this window)\n";
+    }
+    summary.forEach(entry => {
+      visualState += `  ${nameOf(entry.gameId)}: ${entry.plays} plays, ${entry.wins}W/${entry.losses}L, best ${entry.bestScore ?? '-'}, +${entry.totalXp} XP\n`;
+    });
+    visualState += "Recent:\n";
+    sessions.forEach(session => {
+      visualState += `  ${session.startedAt} ${nameOf(session.gameId)} ${session.outcome} score ${session.score ?? '-'}${session.seed !== null ? ` seed ${session.seed}` : ''}\n`;
+    });
+
+    logGameState("Game History", status, visualState, "Left/Right to change time window, Up/Down to filter by game, Esc to go back.");
+  }, [summary, sessions, windowIndex, gameIndex, gameNames]);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onExit();
+    } else if (key.leftArrow) {
+      setWindowIndex(prev => (prev - 1 + TIME_WINDOWS.length) % TIME_WINDOWS.length);
+    } else if (key.rightArrow) {
+      setWindowIndex(prev => (prev + 1) % TIME_WINDOWS.length);
+    } else if (key.upArrow) {
+      setGameIndex(prev => (prev - 1 + gameIds.length + 1) % (gameIds.length + 1));
+    } else if (key.downArrow) {
+      setGameIndex(prev => (prev + 1) % (gameIds.length + 1));
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={90}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="magenta">📜 Game History</Text>
+        <Text>
+          <Text color="cyan">◀ {timeWindow.label} ▶</Text>
+          <Text dimColor>  |  </Text>
+          <Text color="yellow">{gameFilter ? nameOf(gameFilter) : 'All games'}</Text>
+        </Text>
+      </Box>
+
+      {error && <Text color="red">Error: {error}</Text>}
+
+      <Text bold underline>Summary</Text>
+      {summary.length === 0 ? (
+        <Text dimColor>No games played in this window.</Text>
+      ) : (
+        <Box flexDirection="column">
+          <Text dimColor>{pad('Game', 22)}{pad('Plays', 7)}{pad('W/L', 8)}{pad('Best', 8)}{pad('Avg', 8)}{pad('XP', 7)}{pad('Energy', 8)}Time</Text>
+          {summary.map(entry => (
+            <Text key={entry.gameId}>
+              {pad(nameOf(entry.gameId), 22)}
+              {pad(entry.plays, 7)}
+              {pad(`${entry.wins}/${entry.losses}`, 8)}
+              {pad(entry.bestScore ?? '-', 8)}
+              {pad(entry.averageScore ?? '-', 8)}
+              {pad(`+${entry.totalXp}`, 7)}
+              {pad(`-${entry.totalEnergy}`, 8)}
+              {formatDuration(entry.totalDurationMs)}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box marginTop={1} flexDirection="column">
+        <Text bold underline>Recent Runs</Text>
+        {sessions.length === 0 ? (
+          <Text dimColor>Nothing yet - go play something!</Text>
+        ) : (
+          sessions.map(session => {
+            const outcome = OUTCOME_LABELS[session.outcome] ?? { text: session.outcome, color: 'white' };
+            return (
+              <Text key={session.id}>
+                <Text dimColor>{pad(session.startedAt, 20)}</Text>
+                {pad(nameOf(session.gameId), 22)}
+                <Text color={outcome.color}>{pad(outcome.text, 6)}</Text>
+                {pad(`score ${session.score ?? '-'}`, 12)}
+                {pad(formatDuration(session.durationMs), 8)}
+                <Text color="green">{pad(`+${session.xpEarned} XP`, 9)}</Text>
+                <Text dimColor>{pad(session.difficulty ?? '', 7)}</Text>
+                <Text dimColor>{session.seed !== null ? `seed ${session.seed}` : ''}</Text>
+              </Text>
+            );
+          })
+        )}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text dimColor>←/→ time window • ↑/↓ filter game • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default GameHistoryScreen;
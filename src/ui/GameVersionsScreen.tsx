@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { db, GameVersionSummary } from '../services/DatabaseService.js';
+import { gameLoader, CommunityGameInfo } from '../core/GameLoader.js';
+import { logGameState } from '../core/GameStateLogger.js';
+import SourceDiffView, { DIFF_WINDOW } from './SourceDiffView.js';
+
+interface GameVersionsScreenProps {
+  game: CommunityGameInfo;
+  onExit: () => void;
+}
+
+// Two versions' sources being compared
+interface VersionDiff {
+  from: number;
+  to: number;
+  before: string;
+  after: string;
+}
+
+const describeVersion = (version: GameVersionSummary) =>
+  version.changeRequest ? `"${version.changeRequest}"` : 'first version';
+
+/**
+ * Versions of a community game: see what each changed, roll back to one
+ * or rebuild it from its source
+ */
+const GameVersionsScreen: React.FC<GameVersionsScreenProps> = ({ game, onExit }) => {
+  const [versions, setVersions] = useState<GameVersionSummary[]>([]);
+  const [activeVersion, setActiveVersion] = useState(game.version);
+  const [selected, setSelected] = useState(0);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [diffOffset, setDiffOffset] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadVersions = () => {
+    Promise.all([db.getGameVersions(game.id), db.getGameById(game.id)])
+      .then(([rows, entry]) => {
+        setVersions(rows);
+        if (entry) setActiveVersion(entry.version);
+        setSelected(index => Math.min(index, Math.max(0, rows.length - 1)));
+      })
+      .catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+  };
+
+  useEffect(loadVersions, [game.id]);
+
+  const current = versions[selected];
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Game Versions: ${game.name} | Playing v${activeVersion}`;
+    let visualState = `Versions of ${game.name} (newest first):\n`;
+    if (versions.length === 0) {
+      visualState += '  (No stored versions - installed before versions were kept)\n';
+    }
+    versions.forEach((version, index) => {
+      const cursor = index === selected ? '>' : ' ';
+      const active = version.version === activeVersion ? ' [playing]' : '';
+      visualState += `${cursor} v${version.version}${active} ${version.createdAt} ${version.model ?? '-'} ${describeVersion(version)}\n`;
+    });
+    if (diff) {
+      visualState += `Showing diff v${diff.from} -> v${diff.to}\n`;
+    }
+    if (busy) {
+      visualState += `${busy}\n`;
+    }
+    if (message) {
+      visualState += `Message: ${message}\n`;
+    }
+
+    logGameState("Game Versions", status, visualState, "Up/Down to select, Enter to diff with the previous version, R to roll back, B to rebuild, Esc to go back.");
+  }, [game.name, versions, activeVersion, selected, diff, busy, message]);
+
+  const showDiff = async (version: GameVersionSummary) => {
+    const previous = versions.find(v => v.version < version.version);
+    if (!previous) {
+      setMessage(`v${version.version} is the first version.`);
+      return;
+    }
+    const [before, after] = await Promise.all([
+      db.getGameVersion(game.id, previous.version),
+      db.getGameVersion(game.id, version.version),
+    ]);
+    if (!before || !after) return;
+    setMessage(null);
+    setDiffOffset(0);
+    setDiff({ from: previous.version, to: version.version, before: before.source, after: after.source });
+  };
+
+  const run = (label: string, action: () => Promise<{ success: boolean; message: string; error?: string }>) => {
+    setBusy(label);
+    action()
+      .then(result => setMessage(result.success ? result.message : `${result.message}${result.error ? `: ${result.error}` : ''}`))
+      .catch(err => setMessage(err instanceof Error ? err.message : String(err)))
+      .finally(() => {
+        setBusy(null);
+        loadVersions();
+      });
+  };
+
+  useInput((input, key) => {
+    if (diff) {
+      if (key.escape || key.return) {
+        setDiff(null);
+      } else if (key.upArrow) {
+        setDiffOffset(offset => Math.max(0, offset - 1));
+      } else if (key.downArrow) {
+        setDiffOffset(offset => offset + 1);
+      } else if (key.pageUp) {
+        setDiffOffset(offset => Math.max(0, offset - DIFF_WINDOW));
+      } else if (key.pageDown) {
+        setDiffOffset(offset => offset + DIFF_WINDOW);
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onExit();
+    } else if (key.upArrow) {
+      setSelected(index => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelected(index => Math.min(versions.length - 1, index + 1));
+    } else if (key.return && current) {
+      showDiff(current).catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+    } else if ((input === 'r' || input === 'R') && current) {
+      if (current.version === activeVersion) {
+        setMessage(`v${current.version} is already the version being played.`);
+      } else {
+        run(`Rolling back to v${current.version}...`, () => gameLoader.rollbackGame(game.id, current.version));
+      }
+    } else if ((input === 'b' || input === 'B') && current) {
+      run(`Rebuilding v${current.version} and playing it for a few seconds...`, () => gameLoader.rebuildGame(game.id, current.version));
+    }
+  }, { isActive: busy === null });
+
+  if (diff) {
+    return (
+      <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={80}>
+        <Box marginBottom={1}>
+          <Text bold color="magenta">🔀 {game.name}: v{diff.from} → v{diff.to}</Text>
+        </Box>
+        <SourceDiffView before={diff.before} after={diff.after} offset={diffOffset} />
+        <Box marginTop={1}>
+          <Text dimColor>↑/↓ PgUp/PgDn scroll • Esc back</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={80}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="magenta">🗂️  {game.name} versions</Text>
+        <Text dimColor>playing v{activeVersion}</Text>
+      </Box>
+
+      {versions.length === 0 ? (
+        <Text dimColor>No stored versions - this game was installed before versions were kept.</Text>
+      ) : (
+        versions.map((version, index) => (
+          <Text key={version.version} color={index === selected ? 'green' : undefined} wrap="truncate-end">
+            {index === selected ? '❯ ' : '  '}
+            {version.version === activeVersion ? '▶ ' : '  '}
+            {`v${version.version}`.padEnd(5)}
+            <Text dimColor>{version.createdAt} {(version.model ?? '-').padEnd(18)} </Text>
+            {describeVersion(version)}
+          </Text>
+        ))
+      )}
+
+      {busy && (
+        <Box marginTop={1}>
+          <Text color="yellow">{busy}</Text>
+        </Box>
+      )}
+
+      {message && !busy && (
+        <Box marginTop={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ select • Enter diff • R roll back • B rebuild • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default GameVersionsScreen;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { db, LeaderboardEntry } from '../services/DatabaseService.js';
+import { getLeaderboardRanking, readLeaderboardMetaData } from '../core/GameResults.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface LeaderboardsScreenProps {
+  onExit: () => void;
+}
+
+type TimeWindow = 'today' | 'week' | 'all';
+
+const TIME_WINDOWS: Array<{ id: TimeWindow; label: string }> = [
+  { id: 'today', label: 'Today' },
+  { id: 'week', label: 'This week' },
+  { id: 'all', label: 'All time' },
+];
+
+const DIFFICULTIES: Array<string | undefined> = [undefined, 'easy', 'medium', 'hard', 'ai'];
+
+const BUILT_IN_GAME_NAMES: Record<string, string> = {
+  snake: '🐍 Snake',
+  tictactoe: '❌⭕ Tic-Tac-Toe',
+  dinorun: '🦖 Dino Run',
+  hangman: '📝 Hangman',
+  sudoku: '🧩 Sudoku',
+};
+
+// Today starts at local midnight; the week is today and the 6 days before
+const windowStart = (timeWindow: TimeWindow): Date | undefined => {
+  if (timeWindow === 'all') return undefined;
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (timeWindow === 'week') start.setDate(start.getDate() - 6);
+  return start;
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const pad = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width);
+
+const LeaderboardsScreen: React.FC<LeaderboardsScreenProps> = ({ onExit }) => {
+  const [gameIds, setGameIds] = useState<string[]>(Object.keys(BUILT_IN_GAME_NAMES));
+  const [gameNames, setGameNames] = useState<Record<string, string>>(BUILT_IN_GAME_NAMES);
+  const [gameIndex, setGameIndex] = useState(0);
+  const [difficultyIndex, setDifficultyIndex] = useState(0); // 0 = any difficulty
+  const [windowIndex, setWindowIndex] = useState(2);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const gameId = gameIds[gameIndex];
+  const difficulty = DIFFICULTIES[difficultyIndex];
+  const timeWindow = TIME_WINDOWS[windowIndex];
+  const ranking = getLeaderboardRanking(gameId);
+  const nameOf = (id: string) => gameNames[id] ?? id;
+  const activeProfileId = db.getActiveProfileId();
+
+  // Built-in games first, then community games that have entries
+  useEffect(() => {
+    Promise.all([db.getLeaderboardGameIds(), db.getRegisteredGames()]).then(([ranked, registered]) => {
+      const names = { ...BUILT_IN_GAME_NAMES };
+      registered.forEach(game => {
+        if (!names[game.id]) names[game.id] = `🌟 ${game.name}`;
+      });
+      setGameNames(names);
+      setGameIds([...Object.keys(BUILT_IN_GAME_NAMES), ...ranked.filter(id => !BUILT_IN_GAME_NAMES[id])]);
+    }).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    db.getLeaderboard(gameId, { difficulty, since: windowStart(timeWindow.id), ranking, limit: 10 })
+      .then(rows => {
+        setEntries(rows);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [gameId, difficulty, windowIndex]);
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Leaderboards | Game: ${nameOf(gameId)} | Difficulty: ${difficulty ?? 'Any'} | Window: ${timeWindow.label}`;
+    let visualState = ranking === 'time' ? "Fastest wins:\n" : "Top scores:\n";
+    if (entries.length === 0) {
+      visualState += "  (No runs in this window)\n";
+    }
+    entries.forEach((entry, index) => {
+      const meta = readLeaderboardMetaData(entry);
+      const value = ranking === 'time' ? formatDuration(meta.durationMs ?? 0) : entry.score;
+      visualState += `  ${index + 1}. ${entry.profileName ?? '?'} ${value} (${meta.difficulty ?? '-'}, ${entry.createdAt})\n`;
+    });
+
+    logGameState("Leaderboards", status, visualState, "Up/Down to change game, Left/Right for time window, D for difficulty, Esc to go back.");
+  }, [entries, gameIndex, difficultyIndex, windowIndex, gameNames]);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onExit();
+    } else if (key.upArrow) {
+      setGameIndex(prev => (prev - 1 + gameIds.length) % gameIds.length);
+    } else if (key.downArrow) {
+      setGameIndex(prev => (prev + 1) % gameIds.length);
+    } else if (key.leftArrow) {
+      setWindowIndex(prev => (prev - 1 + TIME_WINDOWS.length) % TIME_WINDOWS.length);
+    } else if (key.rightArrow) {
+      setWindowIndex(prev => (prev + 1) % TIME_WINDOWS.length);
+    } else if (input === 'd' || input === 'D') {
+      setDifficultyIndex(prev => (prev + 1) % DIFFICULTIES.length);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="yellow" padding={1} width={80}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="yellow">🥇 Leaderboards</Text>
+        <Text>
+          <Text color="yellow">{nameOf(gameId)}</Text>
+          <Text dimColor>  |  </Text>
+          <Text color="magenta">{difficulty ?? 'any difficulty'}</Text>
+          <Text dimColor>  |  </Text>
+          <Text color="cyan">◀ {timeWindow.label} ▶</Text>
+        </Text>
+      </Box>
+
+      {error && <Text color="red">Error: {error}</Text>}
+
+      <Text bold underline>{ranking === 'time' ? 'Fastest Wins' : 'Top Scores'}</Text>
+      {entries.length === 0 ? (
+        <Text dimColor>No runs in this window yet - go set a record!</Text>
+      ) : (
+        <Box flexDirection="column">
+          <Text dimColor>{pad('#', 4)}{pad('Player', 18)}{pad(ranking === 'time' ? 'Time' : 'Score', 10)}{pad('Difficulty', 12)}{ranking === 'score' && pad('Length', 9)}When</Text>
+          {entries.map((entry, index) => {
+            const meta = readLeaderboardMetaData(entry);
+            const duration = meta.durationMs !== undefined ? formatDuration(meta.durationMs) : '-';
+            return (
+              <Text key={entry.id} color={entry.profileId === activeProfileId ? 'green' : undefined}>
+                {pad(index + 1, 4)}
+                {pad(entry.profileName ?? '?', 18)}
+                {pad(ranking === 'time' ? duration : entry.score, 10)}
+                {pad(meta.difficulty ?? '-', 12)}
+                {ranking === 'score' && pad(duration, 9)}
+                <Text dimColor>{entry.createdAt}</Text>
+              </Text>
+            );
+          })}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ game • ←/→ time window • D difficulty • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default LeaderboardsScreen;
@@ -1,38 +1,59 @@
 import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
-import { db, ProTokens, PlayerStats } from '../services/DatabaseService.js';
+import { db, ProTokens, PlayerStats, TokenTransaction } from '../services/DatabaseService.js';
+import { needsEngine, NEED_STATE_LABELS } from '../core/NeedsEngine.js';
+import { tokenEconomy, TOKEN_REASON_LABELS } from '../core/TokenEconomy.js';
+import { achievementEngine, AchievementStatus } from '../core/AchievementEngine.js';
 
-// Real-time DB Hook for Pro Tokens
-const useProTokens = (): ProTokens | null => {
+// Real-time DB Hook for Pro Tokens (runs the periodic reset when it's due)
+const useProTokens = (): { tokens: ProTokens | null; transactions: TokenTransaction[] } => {
   const [tokens, setTokens] = useState<ProTokens | null>(null);
+  const [transactions, setTransactions] = useState<TokenTransaction[]>([]);
 
   useEffect(() => {
+    const load = () => {
+      try {
+        tokenEconomy.applyPeriodicReset();
+      } catch (err) {
+        console.error(err);
+      }
+      db.getProTokens().then(setTokens).catch(console.error);
+      db.getTokenTransactions(5).then(setTransactions).catch(console.error);
+    };
+
     // Initial load
-    db.getProTokens('me').then(setTokens).catch(console.error);
+    load();
 
     // Poll database every 2 seconds for real-time updates
-    const tick = setInterval(() => {
-      db.getProTokens('me').then(setTokens).catch(console.error);
-    }, 2000);
+    const tick = setInterval(load, 2000);
 
     return () => clearInterval(tick);
   }, []);
 
-  return tokens;
+  return { tokens, transactions };
 };
 
-// Real-time DB Hook for Player Stats
+const formatAmount = (amount: number) => (amount > 0 ? `+${amount}` : String(amount));
+
+// Real-time DB Hook for Player Stats (applies needs decay on every poll)
 const usePlayerStats = (): PlayerStats | null => {
   const [stats, setStats] = useState<PlayerStats | null>(null);
 
   useEffect(() => {
+    const load = () => {
+      try {
+        needsEngine.tick();
+      } catch (err) {
+        console.error(err);
+      }
+      db.getStats().then(setStats).catch(console.error);
+    };
+
     // Initial load
-    db.getStats().then(setStats).catch(console.error);
+    load();
 
     // Poll database every 2 seconds for real-time updates
-    const tick = setInterval(() => {
-      db.getStats().then(setStats).catch(console.error);
-    }, 2000);
+    const tick = setInterval(load, 2000);
 
     return () => clearInterval(tick);
   }, []);
@@ -40,6 +61,27 @@ const usePlayerStats = (): PlayerStats | null => {
   return stats;
 };
 
+// Real-time DB Hook for Achievements
+const useAchievements = (): AchievementStatus[] => {
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
+
+  useEffect(() => {
+    const load = () => {
+      achievementEngine.getProgress().then(setAchievements).catch(console.error);
+    };
+
+    // Initial load
+    load();
+
+    // Poll database every 2 seconds for real-time updates
+    const tick = setInterval(load, 2000);
+
+    return () => clearInterval(tick);
+  }, []);
+
+  return achievements;
+};
+
 interface LikuOSProps {
   mode: 'CLI' | 'FULL';
 }
@@ -51,8 +93,11 @@ interface LikuOSProps {
  * FULL mode: Shows the complete game deck interface
  */
 export const LikuOS: React.FC<LikuOSProps> = ({ mode }) => {
-  const balance = useProTokens();
+  const { tokens: balance, transactions } = useProTokens();
+  const lastTransaction = transactions[0];
   const stats = usePlayerStats();
+  const needStates = stats ? needsEngine.getStates(stats) : [];
+  const achievements = useAchievements();
 
   if (mode === 'CLI') {
     // The "Vibrant Two-Liner" for CLI integration with proper wrapping
@@ -77,10 +122,23 @@ export const LikuOS: React.FC<LikuOSProps> = ({ mode }) => {
             <Text color="white">✨XP: {stats.xp}</Text>
           </Box>
         )}
+        {needStates.length > 0 && (
+          <Text color="red">{needStates.map(state => NEED_STATE_LABELS[state]).join('  ')}</Text>
+        )}
+        {lastTransaction && (
+          <Text dimColor>
+            Last: <Text color={lastTransaction.amount >= 0 ? 'green' : 'red'}>{formatAmount(lastTransaction.amount)}</Text> {TOKEN_REASON_LABELS[lastTransaction.reason] ?? lastTransaction.reason}
+          </Text>
+        )}
       </Box>
     );
   }
 
+  // Most recent first
+  const unlockedAchievements = achievements
+    .filter(achievement => achievement.unlockedAt)
+    .sort((a, b) => b.unlockedAt!.localeCompare(a.unlockedAt!));
+
   // FULL mode would show the complete game deck
   // For now, we'll use this as a stats display
   return (
@@ -111,11 +169,47 @@ export const LikuOS: React.FC<LikuOSProps> = ({ mode }) => {
                 <Text>  Happiness: </Text>
                 <Text color={stats.happiness > 50 ? 'green' : 'yellow'}>{stats.happiness}%</Text>
               </Box>
+              {needStates.length > 0 && (
+                <Box marginTop={1}>
+                  <Text>Status: </Text>
+                  <Text color="red" bold>{needStates.map(state => NEED_STATE_LABELS[state]).join('  ')}</Text>
+                </Box>
+              )}
             </Box>
           )}
         </Box>
       </Box>
 
+      <Box borderStyle="single" borderColor="yellow" paddingX={1} marginBottom={1} flexDirection="column" width={52}>
+        <Text bold color="yellow">🧾 Recent Transactions</Text>
+        {transactions.length === 0 ? (
+          <Text dimColor>No transactions yet</Text>
+        ) : (
+          transactions.map(transaction => (
+            <Box key={transaction.id} justifyContent="space-between">
+              <Text>{TOKEN_REASON_LABELS[transaction.reason] ?? transaction.reason}{transaction.description ? <Text dimColor> · {transaction.description}</Text> : null}</Text>
+              <Text color={transaction.amount >= 0 ? 'green' : 'red'}>{formatAmount(transaction.amount)}</Text>
+            </Box>
+          ))
+        )}
+      </Box>
+
+      <Box borderStyle="single" borderColor="magenta" paddingX={1} marginBottom={1} flexDirection="column" width={52}>
+        <Text bold color="magenta">
+          🏆 Achievements <Text color="green">{unlockedAchievements.length}</Text><Text dimColor>/{achievements.length}</Text>
+        </Text>
+        {unlockedAchievements.length === 0 ? (
+          <Text dimColor>None unlocked yet</Text>
+        ) : (
+          unlockedAchievements.slice(0, 3).map(achievement => (
+            <Box key={achievement.id} justifyContent="space-between">
+              <Text>{achievement.icon} {achievement.name}</Text>
+              <Text dimColor>{achievement.unlockedAt}</Text>
+            </Box>
+          ))
+        )}
+      </Box>
+
       <Box>
         <Text dimColor>Real-time stats • Last updated: {new Date().toLocaleTimeString()}</Text>
       </Box>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Box, Text, useInput, useApp, useStdout } from 'ink';
 import fs from 'node:fs';
 import path from 'node:path';
@@ -12,17 +12,39 @@ import BuilderUI from './BuilderUI.js';
 import CommunityGamesMenu from './CommunityGamesMenu.js';
 import LikuOS from './LikuOS.js';
 import LikuLearnScreen from './LikuLearnScreen.js';
-import { db, PlayerStats, UserSettings, ProTokens } from '../services/DatabaseService.js';
+import ProfilePicker from './ProfilePicker.js';
+import GameHistoryScreen from './GameHistoryScreen.js';
+import LeaderboardsScreen from './LeaderboardsScreen.js';
+import AchievementsScreen from './AchievementsScreen.js';
+import DailyChallengeScreen from './DailyChallengeScreen.js';
+import ReplayScreen from './ReplayScreen.js';
+import { db, PlayerStats, UserSettings, ProTokens, Profile } from '../services/DatabaseService.js';
 import { logGameState } from '../core/GameStateLogger.js';
-import type { LoadedGame } from '../core/GameLoader.js';
+import { needsEngine, NEED_STATE_LABELS } from '../core/NeedsEngine.js';
+import { tokenEconomy } from '../core/TokenEconomy.js';
+import { achievementEngine } from '../core/AchievementEngine.js';
+import { reportGameResult } from '../core/GameResults.js';
+import { rewardEngine, describeReward } from '../core/RewardEngine.js';
+import { getTheme } from '../sdk/theme.js';
+import { reportedOutcome, type LoadedGame, type GameReport } from '../core/GameLoader.js';
 
 interface GameHubProps {
 	ai?: boolean;
+	showProfilePicker?: boolean;
 	actionQueue: string[];
 	setActionQueue: React.Dispatch<React.SetStateAction<string[]>>;
 }
 
-const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQueue }) => {
+const BUILT_IN_GAMES = ['snake', 'tictactoe', 'dinorun', 'hangman', 'sudoku'];
+
+// Game menu entries that start a run; Replays only plays recorded ones back
+const RUN_MENU_IDS = [...BUILT_IN_GAMES, 'daily'];
+
+// Costs and rewards shown in the menus come from core/RewardEngine
+const { care } = rewardEngine.getRules();
+const energyCost = (gameId: string) => rewardEngine.getRule(gameId)?.energyCost ?? 0;
+
+const GameHub: React.FC<GameHubProps> = ({ ai = false, showProfilePicker = false, actionQueue, setActionQueue }) => {
 	const { exit } = useApp();
 	const { stdout } = useStdout();
 
@@ -43,25 +65,41 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 
 	const [selectedGame, setSelectedGame] = useState<number>(0);
 	const [selectedGameMenuIndex, setSelectedGameMenuIndex] = useState<number>(0);
-	const [activeGame, setActiveGame] = useState<string | null>(null);
+	const [activeGame, setActiveGame] = useState<string | null>(showProfilePicker ? 'profiles' : null);
 	const [stats, setStats] = useState<PlayerStats | null>(null);
 	const [settings, setSettings] = useState<UserSettings | null>(null);
 	const [message, setMessage] = useState<string | null>(null);
 	const [proTokens, setProTokens] = useState<ProTokens | null>(null);
+	const [profile, setProfile] = useState<Profile | null>(null);
 	const [loadedCommunityGame, setLoadedCommunityGame] = useState<LoadedGame | null>(null);
+	const communityGameStartedAt = useRef<Date | null>(null);
+	const communityGameReport = useRef<GameReport>({});
 	const [showLikuOS, setShowLikuOS] = useState(false);
 	const [miniDashboardMode, setMiniDashboardMode] = useState(false);
 
 	const refreshData = () => {
+		try {
+			needsEngine.tick();
+			tokenEconomy.applyPeriodicReset();
+		} catch (err) {
+			console.error(err);
+		}
 		db.getStats().then(setStats).catch(console.error);
 		db.getSettings().then(setSettings).catch(console.error);
-		db.getProTokens('me').then(setProTokens).catch(console.error);
+		db.getProTokens().then(setProTokens).catch(console.error);
+		db.getActiveProfile().then(setProfile).catch(console.error);
+
+		const unlocks = achievementEngine.takeNewUnlocks();
+		if (unlocks.length > 0) {
+			setMessage(`🏆 Achievement unlocked: ${unlocks.map(a => `${a.icon} ${a.name}`).join(', ')}`);
+			setTimeout(() => setMessage(null), 4000);
+		}
 	};
 
 	// --- AI State Logging ---
 	useEffect(() => {
 		// Don't log from LikuTUI when an actual game is active - the game component handles its own logging
-		const gameComponents = ['snake', 'tictactoe', 'dinorun'];
+		const gameComponents = ['snake', 'tictactoe', 'dinorun', 'profiles', 'history', 'leaderboards', 'achievements', 'daily', 'replays'];
 		if (activeGame && gameComponents.includes(activeGame)) {
 			return; // Let the game component handle logging
 		}
@@ -72,15 +110,21 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		else if (activeGame === 'builder') screenName = 'Game Builder';
 		else if (activeGame === 'community') screenName = 'Community Games';
 		else if (activeGame === 'liku_os') screenName = 'LikuOS Stats';
+		else if (activeGame === 'history') screenName = 'Game History';
+		else if (activeGame === 'achievements') screenName = 'Achievements';
 		else if (activeGame) screenName = `Playing: ${activeGame}`;
 
 		const isMenu = !activeGame || activeGame === 'games_menu';
 		const currentItems = activeGame === 'games_menu' ? gameMenuItems : mainMenuItems;
 		const currentIdx = activeGame === 'games_menu' ? selectedGameMenuIndex : selectedGame;
 
-		let status = "";
+		let status = profile ? `Profile: ${profile.name}, ` : "";
 		if (stats) {
-			status = `Level: ${stats.level}, XP: ${stats.xp}, Hunger: ${stats.hunger}%, Energy: ${stats.energy}%, Happiness: ${stats.happiness}%`;
+			status += `Level: ${stats.level}, XP: ${stats.xp}, Hunger: ${stats.hunger}%, Energy: ${stats.energy}%, Happiness: ${stats.happiness}%`;
+			const needStates = needsEngine.getStates(stats);
+			if (needStates.length > 0) {
+				status += `, Liku is: ${needStates.join(', ')}`;
+			}
 		}
 		if (message) {
 			status += ` | MESSAGE: ${message}`;
@@ -99,7 +143,7 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 
 		logGameState(screenName, status, visualState);
 
-	}, [activeGame, selectedGame, selectedGameMenuIndex, stats, message]);
+	}, [activeGame, selectedGame, selectedGameMenuIndex, stats, message, profile]);
 	// ------------------------
 
 	useEffect(() => {
@@ -112,18 +156,24 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		{ id: 'community', name: '🌟 Community Games' },
 		{ id: 'liku_learn', name: '🎓 Liku Learn (Wisdom Center)' },
 		{ id: 'liku_os', name: '💻 LikuOS Stats' },
-		{ id: 'feed', name: '🍖 Feed Liku (XP -10, Hunger -20)' },
-		{ id: 'rest', name: '💤 Rest (Energy +30, Hunger +10)' },
+		{ id: 'history', name: '📜 Game History' },
+		{ id: 'leaderboards', name: '🥇 Leaderboards' },
+		{ id: 'achievements', name: '🏆 Achievements' },
+		{ id: 'feed', name: `🍖 Feed Liku (XP -${care.feed.xpCost}, Tokens -${tokenEconomy.getRules().spend.feeding}, Hunger ${care.feed.hunger})` },
+		{ id: 'rest', name: `💤 Rest (Energy +${care.rest.energy}, Hunger +${care.rest.hunger})` },
+		{ id: 'profiles', name: '👤 Switch Profile' },
 		{ id: 'settings', name: '⚙️ Settings' },
 		{ id: 'exit', name: '🚪 Exit' }
 	];
 
 	const gameMenuItems = [
-		{ id: 'snake', name: '🐍 Play Snake (Energy -10, Happiness +10)' },
-		{ id: 'tictactoe', name: '❌⭕ Tic-Tac-Toe (Energy -5, XP/Happy Rewards)' },
-		{ id: 'dinorun', name: '🦖 Dino Run (Energy -10, XP Rewards)' },
-		{ id: 'hangman', name: '📝 Hangman (Energy -5, XP Rewards)' },
-		{ id: 'sudoku', name: '🧩 Sudoku (Energy -5, XP Rewards)' },
+		{ id: 'snake', name: `🐍 Play Snake (Energy -${energyCost('snake')}, Happiness +10)` },
+		{ id: 'tictactoe', name: `❌⭕ Tic-Tac-Toe (Energy -${energyCost('tictactoe')}, XP/Happy Rewards)` },
+		{ id: 'dinorun', name: `🦖 Dino Run (Energy -${energyCost('dinorun')}, XP Rewards)` },
+		{ id: 'hangman', name: `📝 Hangman (Energy -${energyCost('hangman')}, XP Rewards)` },
+		{ id: 'sudoku', name: `🧩 Sudoku (Hints -${rewardEngine.getRule('sudoku')?.hintEnergyCost ?? 0} Energy, XP Rewards)` },
+		{ id: 'daily', name: '📅 Daily Challenge (Same Run for Everyone Today)' },
+		{ id: 'replays', name: '🎬 Replays (Watch Recorded Runs)' },
 		{ id: 'back', name: '🔙 Back to Main Menu' }
 	];
 
@@ -148,9 +198,26 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		}
 	};
 
+	// Starving or exhausted Liku refuses to play (see core/NeedsEngine)
+	const getPlayBlocker = (current: PlayerStats): string | null => {
+		const states = needsEngine.getStates(current);
+		if (states.includes('starving')) return "Liku is starving! Feed him before playing.";
+		if (states.includes('exhausted')) return "Liku is exhausted! Let him rest first.";
+		return null;
+	};
+
 	const handleAction = async (id: string) => {
 		if (!stats) return;
 
+		if (RUN_MENU_IDS.includes(id)) {
+			const blocker = getPlayBlocker(stats);
+			if (blocker) {
+				setMessage(blocker);
+				setTimeout(() => setMessage(null), 3000);
+				return;
+			}
+		}
+
 		// Clear screen before major transitions to prevent artifacts
 		const clearBeforeTransition = () => clearScreen();
 
@@ -159,6 +226,18 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		} else if (id === 'settings') {
 			clearBeforeTransition();
 			setActiveGame('settings');
+		} else if (id === 'profiles') {
+			clearBeforeTransition();
+			setActiveGame('profiles');
+		} else if (id === 'history') {
+			clearBeforeTransition();
+			setActiveGame('history');
+		} else if (id === 'leaderboards') {
+			clearBeforeTransition();
+			setActiveGame('leaderboards');
+		} else if (id === 'achievements') {
+			clearBeforeTransition();
+			setActiveGame('achievements');
 		} else if (id === 'builder') {
 			clearBeforeTransition();
 			setActiveGame('builder');
@@ -180,64 +259,34 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 			clearBeforeTransition();
 			setActiveGame(null);
 			setShowLikuOS(false);
-		} else if (id === 'snake') {
-			if (stats.energy < 10) {
+		} else if (BUILT_IN_GAMES.includes(id)) {
+			if (!rewardEngine.canStart(stats, id)) {
 				setMessage("Liku is too tired to play! Let him rest first.");
 				setTimeout(() => setMessage(null), 3000);
 				return;
 			}
 			clearBeforeTransition();
-			setActiveGame('snake');
-		} else if (id === 'tictactoe') {
-			if (stats.energy < 5) {
-				setMessage("Liku is too tired to play! Let him rest first.");
-				setTimeout(() => setMessage(null), 3000);
-				return;
-			}
+			setActiveGame(id);
+		} else if (id === 'daily') {
 			clearBeforeTransition();
-			setActiveGame('tictactoe');
-		} else if (id === 'dinorun') {
-			if (stats.energy < 10) {
-				setMessage("Liku is too tired to play! Let him rest first.");
-				setTimeout(() => setMessage(null), 3000);
-				return;
-			}
+			setActiveGame('daily');
+		} else if (id === 'replays') {
 			clearBeforeTransition();
-			setActiveGame('dinorun');
-		} else if (id === 'hangman') {
-			if (stats.energy < 5) {
-				setMessage("Liku is too tired to play! Let him rest first.");
-				setTimeout(() => setMessage(null), 3000);
-				return;
-			}
-			clearBeforeTransition();
-			setActiveGame('hangman');
-		} else if (id === 'sudoku') {
-			if (stats.energy < 5) {
-				setMessage("Liku is too tired to play! Let him rest first.");
-				setTimeout(() => setMessage(null), 3000);
-				return;
-			}
-			clearBeforeTransition();
-			setActiveGame('sudoku');
+			setActiveGame('replays');
 		} else if (id === 'feed') {
-			if (stats.xp < 10) {
+			const starving = needsEngine.getStates(stats).includes('starving');
+			if (stats.xp < care.feed.xpCost && !starving) {
 				setMessage("Not enough XP to buy food! Play games to earn XP.");
 			} else {
-				await db.updateStats({
-					 xp: stats.xp - 10,
-					 hunger: Math.max(0, stats.hunger - 20),
-					 happiness: Math.min(100, stats.happiness + 5)
-				});
+				// A starving Liku always gets fed, even on credit
+				await rewardEngine.feed(stats);
+				tokenEconomy.chargeFeeding();
 				setMessage("Yum! Liku feels better.");
 				refreshData();
 			}
 			setTimeout(() => setMessage(null), 3000);
 		} else if (id === 'rest') {
-			await db.updateStats({
-				 energy: Math.min(100, stats.energy + 30),
-				 hunger: Math.min(100, stats.hunger + 10)
-			});
+			await rewardEngine.rest(stats);
 			setMessage("Liku feels refreshed!");
 			refreshData();
 			setTimeout(() => setMessage(null), 3000);
@@ -321,6 +370,40 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		return <Sudoku onExit={() => handleGameExit('games_menu')} difficulty={sudokuDifficulty} />;
 	}
 
+	if (activeGame === 'daily') {
+		return <DailyChallengeScreen onExit={() => handleGameExit('games_menu')} />;
+	}
+
+	if (activeGame === 'replays') {
+		return <ReplayScreen onExit={() => handleGameExit('games_menu')} />;
+	}
+
+	if (activeGame === 'profiles') {
+		return (
+			<ProfilePicker
+				onSelect={(selected) => {
+					handleGameExit(null);
+					setProfile(selected);
+					setMessage(`Welcome back, ${selected.name}!`);
+					setTimeout(() => setMessage(null), 3000);
+				}}
+				onExit={() => handleGameExit(null)}
+			/>
+		);
+	}
+
+	if (activeGame === 'history') {
+		return <GameHistoryScreen onExit={() => handleGameExit(null)} />;
+	}
+
+	if (activeGame === 'leaderboards') {
+		return <LeaderboardsScreen onExit={() => handleGameExit(null)} />;
+	}
+
+	if (activeGame === 'achievements') {
+		return <AchievementsScreen onExit={() => handleGameExit(null)} />;
+	}
+
 	if (activeGame === 'settings') {
 		return <SettingsMenu onExit={() => handleGameExit(null)} onSettingsChanged={refreshData} />;
 	}
@@ -337,8 +420,21 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		return (
 			<CommunityGamesMenu
 				onExit={() => handleGameExit(null)}
+				message={message}
 				onSelectGame={(gameId, loadedGame) => {
+					let blocker = stats ? getPlayBlocker(stats) : null;
+					if (!blocker && stats && !rewardEngine.canStart(stats, gameId)) {
+						blocker = `Liku needs ${rewardEngine.getEnergyToStart(gameId)} energy to play ${loadedGame.metadata.name}! Let him rest first.`;
+					}
+					if (blocker) {
+						handleGameExit(null);
+						setMessage(blocker);
+						setTimeout(() => setMessage(null), 3000);
+						return;
+					}
 					clearScreen();
+					communityGameStartedAt.current = new Date();
+					communityGameReport.current = {};
 					setLoadedCommunityGame(loadedGame);
 					setActiveGame('community_game_playing');
 				}}
@@ -352,13 +448,60 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		return (
 			<Box flexDirection="column">
 				<CommunityGame
+					onReport={(report) => {
+						// Checked here too: the game runs in the same realm as the worker's check
+						const { outcome, score, seed } = report ?? {};
+						const checked = reportedOutcome(outcome);
+						communityGameReport.current = {
+							...communityGameReport.current,
+							...(checked ? { outcome: checked } : {}),
+							...(typeof score === 'number' ? { score } : {}),
+							...(typeof seed === 'number' ? { seed } : {}),
+						};
+					}}
 					onExit={() => {
+						// Games that never call onReport still get the run itself recorded
+						if (communityGameStartedAt.current) {
+							const report = communityGameReport.current;
+							const score = typeof report.score === 'number' && Number.isFinite(report.score) ? Math.round(report.score) : null;
+							const startedAt = communityGameStartedAt.current;
+							const endedAt = new Date();
+							const outcome = reportedOutcome(report.outcome) ?? 'finished';
+							const difficulty = settings?.snakeDifficulty ?? null;
+							// Energy and XP come from the game's GameManifest (see core/GameLoader)
+							rewardEngine.applyGameResult({ gameId: metadata.id, outcome, score, difficulty, durationMs: endedAt.getTime() - startedAt.getTime() })
+								.catch(err => {
+									console.error('Failed to apply game rewards:', err);
+									return null;
+								})
+								.then(summary => {
+									if (summary) {
+										setMessage(`${metadata.name}: ${describeReward(summary)}`);
+										setTimeout(() => setMessage(null), 4000);
+									}
+									return reportGameResult({
+										gameId: metadata.id,
+										difficulty,
+										startedAt,
+										endedAt,
+										score,
+										xpEarned: summary?.xp ?? 0,
+										energySpent: summary?.energySpent ?? 0,
+										outcome,
+										seed: typeof report.seed === 'number' && Number.isInteger(report.seed) ? report.seed : null
+									});
+								})
+								.catch(console.error)
+								.finally(refreshData);
+							communityGameStartedAt.current = null;
+						}
 						clearScreen();
 						setActiveGame('community');
 						setLoadedCommunityGame(null);
 						refreshData();
 					}}
 					difficulty={settings?.snakeDifficulty}
+					theme={settings?.theme}
 				/>
 			</Box>
 		);
@@ -375,24 +518,10 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 		);
 	}
 
-	// Theme colors
-	const getBorderColor = () => {
-		switch(settings?.theme) {
-			case 'matrix': return 'green';
-			case 'cyberpunk': return 'yellow';
-			case 'retro': return 'magenta';
-			default: return 'cyan';
-		}
-	};
+	// Theme colors (shared with community games through liku-sdk)
+	const getBorderColor = () => getTheme(settings?.theme).border;
 
-	const getTitleColor = () => {
-		switch(settings?.theme) {
-			case 'matrix': return 'green';
-			case 'cyberpunk': return 'yellow';
-			case 'retro': return 'red';
-			default: return 'magenta';
-		}
-	};
+	const getTitleColor = () => getTheme(settings?.theme).title;
 
 	const isGameMenu = activeGame === 'games_menu';
 	const currentMenuItems = isGameMenu ? gameMenuItems : mainMenuItems;
@@ -414,6 +543,7 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 			<Box marginBottom={1} flexDirection="column" alignItems="center">
 				<Text bold color={getTitleColor()}>🎮 LikuBuddy Game Hub 🎮</Text>
 				<Text>Your AI Companion &amp; Generative Game Platform</Text>
+				{profile && <Text dimColor>👤 {profile.name}</Text>}
 			</Box>
 
 			<Box flexDirection="column" marginBottom={1}>
@@ -429,6 +559,11 @@ const GameHub: React.FC<GameHubProps> = ({ ai = false, actionQueue, setActionQue
 							<Text>Energy: <Text color={stats.energy > 30 ? 'green' : 'red'}>{stats.energy}%</Text></Text>
 							<Text>Happiness: <Text color={stats.happiness > 50 ? 'green' : 'yellow'}>{stats.happiness}%</Text></Text>
 						</Box>
+						{needsEngine.getStates(stats).length > 0 && (
+							<Box flexDirection="row" justifyContent="center">
+								<Text color="red" bold>{needsEngine.getStates(stats).map(state => NEED_STATE_LABELS[state]).join('  ')}</Text>
+							</Box>
+						)}
 					</Box>
 				) : (
 					<Text>Loading stats...</Text>
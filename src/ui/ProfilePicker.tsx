@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import { db, Profile } from '../services/DatabaseService.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface ProfilePickerProps {
+  onSelect: (profile: Profile) => void;
+  onExit?: () => void;
+}
+
+type PickerMode = 'list' | 'create' | 'rename' | 'confirm_delete';
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ onSelect, onExit }) => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<PickerMode>('list');
+  const [inputValue, setInputValue] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const activeProfileId = db.getActiveProfileId();
+
+  const loadProfiles = async () => {
+    try {
+      const list = await db.listProfiles();
+      setProfiles(list);
+      setSelectedIndex(prev => Math.min(prev, list.length));
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to load profiles');
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  // AI State Logging
+  useEffect(() => {
+    const status = `Profiles | Mode: ${mode} | Selected Index: ${selectedIndex}`;
+    let visualState = "Profiles:\n";
+    profiles.forEach((profile, index) => {
+      const cursor = index === selectedIndex ? "> " : "  ";
+      const active = profile.id === activeProfileId ? " (active)" : "";
+      visualState += `${cursor}${profile.name}${active}\n`;
+    });
+    const newCursor = selectedIndex === profiles.length ? "> " : "  ";
+    visualState += `${newCursor}+ New Profile\n`;
+    if (mode !== 'list') {
+      visualState += `\nInput: ${inputValue}`;
+    }
+    if (message) {
+      visualState += `\nMessage: ${message}`;
+    }
+
+    logGameState("Profile Picker", status, visualState, "Arrows to select, Enter to choose, N new, R rename, D delete, Esc back.");
+  }, [profiles, selectedIndex, mode, inputValue, message]);
+
+  const selected: Profile | undefined = profiles[selectedIndex];
+
+  const handleChoose = async () => {
+    if (!selected) {
+      setMode('create');
+      setInputValue('');
+      return;
+    }
+    try {
+      const profile = await db.switchProfile(selected.id);
+      onSelect(profile);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCreate = async (name: string) => {
+    try {
+      const profile = await db.createProfile(name);
+      await loadProfiles();
+      setMessage(`Created profile '${profile.name}'`);
+      setMode('list');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRename = async (name: string) => {
+    if (!selected) return;
+    try {
+      await db.renameProfile(selected.id, name);
+      await loadProfiles();
+      setMessage(`Renamed to '${name.trim()}'`);
+      setMode('list');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await db.deleteProfile(selected.id);
+      setMessage(`Deleted profile '${selected.name}'`);
+      await loadProfiles();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+    setMode('list');
+  };
+
+  useInput((input, key) => {
+    if (mode === 'confirm_delete') {
+      if (input === 'y' || input === 'Y') {
+        handleDelete();
+      } else {
+        setMode('list');
+        setMessage(null);
+      }
+      return;
+    }
+
+    if (mode === 'create' || mode === 'rename') {
+      if (key.escape) {
+        setMode('list');
+        setInputValue('');
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onExit?.();
+      return;
+    }
+
+    if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex(prev => Math.min(profiles.length, prev + 1));
+    } else if (key.return) {
+      handleChoose();
+    } else if (input === 'n') {
+      setMode('create');
+      setInputValue('');
+      setMessage(null);
+    } else if (input === 'r' && selected) {
+      setMode('rename');
+      setInputValue(selected.name);
+      setMessage(null);
+    } else if (input === 'd' && selected) {
+      if (selected.id === activeProfileId) {
+        setMessage('Cannot delete the active profile. Switch to another profile first.');
+      } else {
+        setMode('confirm_delete');
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="cyan" padding={1} width={60}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">👤 Who's playing with Liku? 👤</Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        {profiles.map((profile, index) => (
+          <Text key={profile.id} color={index === selectedIndex ? 'green' : 'white'} bold={index === selectedIndex}>
+            {index === selectedIndex ? '▶ ' : '  '}
+            {profile.name}
+            {profile.id === activeProfileId && <Text dimColor> (active)</Text>}
+          </Text>
+        ))}
+        <Text color={selectedIndex === profiles.length ? 'green' : 'white'} bold={selectedIndex === profiles.length}>
+          {selectedIndex === profiles.length ? '▶ ' : '  '}
+          ➕ New Profile
+        </Text>
+      </Box>
+
+      {(mode === 'create' || mode === 'rename') && (
+        <Box marginBottom={1}>
+          <Text bold>{mode === 'create' ? 'New profile name: ' : 'Rename to: '}</Text>
+          <TextInput
+            value={inputValue}
+            onChange={setInputValue}
+            onSubmit={(value: string) => {
+              if (mode === 'create') {
+                handleCreate(value);
+              } else {
+                handleRename(value);
+              }
+            }}
+          />
+        </Box>
+      )}
+
+      {mode === 'confirm_delete' && selected && (
+        <Box marginBottom={1}>
+          <Text color="red" bold>Delete '{selected.name}' and all of its stats? (y/N)</Text>
+        </Box>
+      )}
+
+      {message && (
+        <Box marginBottom={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
+      <Text dimColor>↑/↓ select • Enter choose • N new • R rename • D delete{onExit ? ' • Esc back' : ''}</Text>
+    </Box>
+  );
+};
+
+export default ProfilePicker;
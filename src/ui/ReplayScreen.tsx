@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Snake from './games/Snake.js';
+import DinoRun from './games/DinoRun.js';
+import TicTacToe from './games/TicTacToe.js';
+import Hangman from './games/Hangman.js';
+import Sudoku from './games/Sudoku.js';
+import { ReplayContext } from './games/useReplay.js';
+import { db, GameReplay, GameReplaySummary } from '../services/DatabaseService.js';
+import { ReplayPlayer } from '../core/Replay.js';
+import { logGameState } from '../core/GameStateLogger.js';
+
+interface ReplayScreenProps {
+  onExit: () => void;
+}
+
+const GAME_NAMES: Record<string, string> = {
+  snake: '🐍 Snake',
+  tictactoe: '❌⭕ Tic-Tac-Toe',
+  dinorun: '🦖 Dino Run',
+  hangman: '📝 Hangman',
+  sudoku: '🧩 Sudoku',
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const pad = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width);
+
+type Difficulty = 'easy' | 'medium' | 'hard' | 'ai';
+
+/**
+ * Plays one recorded run read-only: the game is mounted with the run's seed
+ * and only receives the recorded keys and ticks
+ */
+const ReplayViewer: React.FC<{ replay: GameReplay; onExit: () => void }> = ({ replay, onExit }) => {
+  const player = useMemo(() => new ReplayPlayer(replay.events), [replay]);
+  const [, setRevision] = useState(0);
+  const [quitAt, setQuitAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = player.onChange(() => setRevision(r => r + 1));
+    player.play();
+    return () => {
+      unsubscribe();
+      player.stop();
+    };
+  }, [player]);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onExit();
+    } else if (input === ' ') {
+      player.togglePause();
+    } else if (input === '.' || key.rightArrow) {
+      player.step();
+    } else if (input === '+' || input === '=' || key.upArrow) {
+      player.changeSpeed(1);
+    } else if (input === '-' || key.downArrow) {
+      player.changeSpeed(-1);
+    }
+  });
+
+  // The recorded player left the game here; keep the last frame on screen
+  const handleGameExit = () => {
+    setQuitAt(player.getPosition());
+    player.pause();
+  };
+
+  const difficulty = (replay.difficulty ?? 'medium') as Difficulty;
+  const state = quitAt !== null
+    ? '⏹ quit'
+    : player.isFinished() ? '⏹ end' : player.isPaused() ? '⏸ paused' : '▶ playing';
+
+  return (
+    <Box flexDirection="column">
+      <ReplayContext.Provider value={player}>
+        {replay.gameId === 'snake' && <Snake onExit={handleGameExit} difficulty={difficulty} seed={replay.seed} />}
+        {replay.gameId === 'dinorun' && <DinoRun onExit={handleGameExit} difficulty={difficulty} seed={replay.seed} />}
+        {replay.gameId === 'tictactoe' && <TicTacToe onExit={handleGameExit} difficulty={difficulty} seed={replay.seed} />}
+        {replay.gameId === 'hangman' && <Hangman onExit={handleGameExit} seed={replay.seed} />}
+        {replay.gameId === 'sudoku' && (
+          <Sudoku onExit={handleGameExit} difficulty={difficulty === 'ai' ? 'medium' : difficulty} seed={replay.seed} />
+        )}
+      </ReplayContext.Provider>
+
+      <Box borderStyle="round" borderColor="magenta" paddingX={1} justifyContent="space-between">
+        <Text color="magenta" bold>🎬 REPLAY {state}</Text>
+        <Text>
+          {player.getSpeed()}x · event {player.getPosition()}/{player.getLength()} · {formatDuration(player.getElapsedMs())}/{formatDuration(replay.durationMs)}
+        </Text>
+      </Box>
+      <Text dimColor>Space pause • ./→ step • +/- speed • Esc back</Text>
+    </Box>
+  );
+};
+
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ onExit }) => {
+  const [replays, setReplays] = useState<GameReplaySummary[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [watching, setWatching] = useState<GameReplay | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadReplays = () => {
+    db.getReplays()
+      .then(rows => {
+        setReplays(rows);
+        setSelected(index => Math.min(index, Math.max(0, rows.length - 1)));
+      })
+      .catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+  };
+
+  useEffect(loadReplays, []);
+
+  const current = replays[selected];
+
+  // AI State Logging
+  useEffect(() => {
+    if (watching) return; // The replayed game logs its own frames
+
+    const status = `Replays | ${replays.length} recorded`;
+    let visualState = "Recorded runs (newest first):\n";
+    if (replays.length === 0) {
+      visualState += "  (No replays yet - play a built-in game)\n";
+    }
+    replays.forEach((replay, index) => {
+      const cursor = index === selected ? '>' : ' ';
+      visualState += `${cursor} #${replay.id} ${GAME_NAMES[replay.gameId] ?? replay.gameId} ${replay.outcome} score ${replay.score ?? '-'} seed ${replay.seed} (${replay.createdAt})\n`;
+    });
+    if (message) {
+      visualState += `Message: ${message}\n`;
+    }
+
+    logGameState("Replays", status, visualState, "Up/Down to select, Enter to watch, D to delete, Esc to go back.");
+  }, [replays, selected, watching, message]);
+
+  const watch = async (replayId: number) => {
+    const replay = await db.getReplay(replayId);
+    if (!replay) {
+      setMessage('That replay no longer exists.');
+      loadReplays();
+      return;
+    }
+    setMessage(null);
+    setWatching(replay);
+  };
+
+  useInput((input, key) => {
+    if (confirmDelete) {
+      if (input === 'y' && current) {
+        db.deleteReplay(current.id)
+          .then(() => setMessage(`Deleted replay #${current.id}.`))
+          .catch(err => setMessage(err instanceof Error ? err.message : String(err)))
+          .finally(loadReplays);
+      }
+      setConfirmDelete(false);
+      return;
+    }
+
+    if (key.escape || input === 'q') {
+      onExit();
+    } else if (key.upArrow) {
+      setSelected(index => Math.max(0, index - 1));
+    } else if (key.downArrow) {
+      setSelected(index => Math.min(replays.length - 1, index + 1));
+    } else if (key.return && current) {
+      watch(current.id).catch(err => setMessage(err instanceof Error ? err.message : String(err)));
+    } else if ((input === 'd' || input === 'D') && current) {
+      setConfirmDelete(true);
+    }
+  }, { isActive: !watching });
+
+  if (watching) {
+    return <ReplayViewer key={watching.id} replay={watching} onExit={() => setWatching(null)} />;
+  }
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="magenta" padding={1} width={80}>
+      <Box marginBottom={1} justifyContent="space-between">
+        <Text bold color="magenta">🎬 Replays</Text>
+        <Text dimColor>{replays.length} recorded</Text>
+      </Box>
+
+      {replays.length === 0 ? (
+        <Text dimColor>No replays yet - every built-in game run is recorded automatically.</Text>
+      ) : (
+        replays.map((replay, index) => (
+          <Text key={replay.id} color={index === selected ? 'green' : undefined}>
+            {index === selected ? '❯ ' : '  '}
+            {pad(GAME_NAMES[replay.gameId] ?? replay.gameId, 18)}
+            {pad(replay.outcome, 10)}
+            {pad(`score ${replay.score ?? '-'}`, 12)}
+            {pad(formatDuration(replay.durationMs), 8)}
+            <Text dimColor>{pad(`seed ${replay.seed}`, 17)}{replay.createdAt}</Text>
+          </Text>
+        ))
+      )}
+
+      {confirmDelete && current && (
+        <Box marginTop={1}>
+          <Text color="red">Delete replay #{current.id}? (y/n)</Text>
+        </Box>
+      )}
+
+      {message && (
+        <Box marginTop={1}>
+          <Text color="yellow">{message}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ select • Enter watch • D delete • Esc back</Text>
+      </Box>
+    </Box>
+  );
+};
+
+export default ReplayScreen;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { Box, Text } from 'ink';
+import { diffHunks, diffStats, diffLines, formatHunkHeader, DiffLineKind } from '../builder/SourceDiff.js';
+
+// Rows of a change's diff on screen at once
+export const DIFF_WINDOW = 16;
+
+const DIFF_COLORS: Record<DiffLineKind, string | undefined> = { context: undefined, add: 'green', remove: 'red' };
+const DIFF_MARKS: Record<DiffLineKind, string> = { context: ' ', add: '+', remove: '-' };
+
+type DiffRow = { header: string } | { kind: DiffLineKind; text: string };
+
+/**
+ * Hunks of a change to a game's source, `DIFF_WINDOW` rows at a time from
+ * `offset`
+ */
+const SourceDiffView: React.FC<{ before: string; after: string; offset: number }> = ({ before, after, offset }) => {
+  const rows = useMemo(() => diffHunks(before, after).flatMap((hunk): DiffRow[] => [
+    { header: formatHunkHeader(hunk) },
+    ...hunk.lines.map(line => ({ kind: line.kind, text: line.text })),
+  ]), [before, after]);
+  const stats = useMemo(() => diffStats(diffLines(before, after)), [before, after]);
+  const start = Math.min(offset, Math.max(0, rows.length - DIFF_WINDOW));
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1}>
+      <Text>
+        <Text color="green">+{stats.added}</Text> <Text color="red">-{stats.removed}</Text>
+        <Text dimColor> lines{rows.length > DIFF_WINDOW ? ` · ${start + 1}-${Math.min(rows.length, start + DIFF_WINDOW)} of ${rows.length}` : ''}</Text>
+      </Text>
+      {rows.length === 0 && <Text dimColor>No changes to the source.</Text>}
+      {rows.slice(start, start + DIFF_WINDOW).map((row, index) => 'header' in row
+        ? <Text key={start + index} color="cyan">{row.header}</Text>
+        : <Text key={start + index} color={DIFF_COLORS[row.kind]} dimColor={row.kind === 'context'} wrap="truncate-end">{DIFF_MARKS[row.kind]}{row.text}</Text>
+      )}
+    </Box>
+  );
+};
+
+export default SourceDiffView;
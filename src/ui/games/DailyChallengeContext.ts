@@ -0,0 +1,8 @@
+import { createContext } from 'react';
+import type { DailyChallenge } from '../../core/DailyChallenge.js';
+
+/**
+ * Set while a game is played as today's daily challenge (see DailyChallengeScreen);
+ * useGameSession then also records each finished run for the day's leaderboard.
+ */
+export const DailyChallengeContext = createContext<DailyChallenge | null>(null);
@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Box, Text, useInput } from 'ink';
-import { db } from '../../services/DatabaseService.js';
+import { Box, Text } from 'ink';
+import { describeReward } from '../../core/RewardEngine.js';
 import { logGameState } from '../../core/GameStateLogger.js';
+import { useGameSession } from './useGameSession.js';
+import { useSeededRandom } from './useSeededRandom.js';
+import { useGameInput, useGameTimer } from './useReplay.js';
 
 const GAME_WIDTH = 60;
 const GAME_HEIGHT = 12;
@@ -55,7 +58,7 @@ const DEATH_MESSAGES = [
 	"System crash!",
 ];
 
-const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai' }) => {
+const DinoRun = ({ onExit, difficulty = 'medium', seed }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai', seed?: number }) => {
 	const [gameState, setGameState] = useState<GameState>('START');
 	const [countdown, setCountdown] = useState<number>(3);
 	const [score, setScore] = useState(0);
@@ -65,7 +68,15 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 	const [clouds, setClouds] = useState<Cloud[]>([]);
 	const [decorations, setDecorations] = useState<Decoration[]>([]);
 	const [message, setMessage] = useState<string | null>(null);
+	const [reward, setReward] = useState<string | null>(null);
 	const [thought, setThought] = useState<string>("");
+	// Obstacle spawning only; clouds and decorations are cosmetic and stay random
+	const { seed: runSeed, random: obstacleRandom, newRun } = useSeededRandom(seed);
+	const session = useGameSession('dinorun', difficulty, false, runSeed);
+
+	useEffect(() => {
+		session.track({ score });
+	}, [score, session]);
 	
 	// Refs for game loop state to avoid closure staleness
 	const stateRef = useRef({
@@ -87,20 +98,15 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 
 	// Countdown timer for AI mode
 	useEffect(() => {
-		if (gameState !== 'COUNTDOWN') return;
-		
-		if (countdown <= 0) {
+		if (gameState === 'COUNTDOWN' && countdown <= 0) {
 			startGameActual();
-			return;
 		}
-		
-		const timer = setTimeout(() => {
-			setCountdown(c => c - 1);
-		}, 1000);
-		
-		return () => clearTimeout(timer);
 	}, [gameState, countdown]);
 
+	useGameTimer(session.recorder, 'countdown', () => {
+		setCountdown(c => c - 1);
+	}, gameState === 'COUNTDOWN' && countdown > 0 ? 1000 : null);
+
 	const startGameActual = () => {
 		setGameState('PLAYING');
 		setScore(0);
@@ -111,6 +117,8 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 		setDecorations([]);
 		setMessage(null);
 		setThought("Ready... GO!");
+		session.begin();
+		newRun();
 		
 		stateRef.current = {
 			dinoY: 0,
@@ -135,31 +143,18 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 		}
 	};
 
-	const saveResult = async (finalScore: number) => {
-		try {
-			const stats = await db.getStats();
-			const xpEarned = Math.floor(finalScore / 10);
-			
-			await db.updateStats({
-				gamesPlayed: stats.gamesPlayed + 1,
-				energy: Math.max(0, stats.energy - 10),
-				xp: stats.xp + xpEarned,
-				happiness: Math.min(100, stats.happiness + 10)
-			});
-		} catch (err) {
-			console.error(err);
-		}
-	};
-
 	const gameOver = () => {
 		stateRef.current.isPlaying = false;
 		setGameState('GAME_OVER');
 		const deathMsg = DEATH_MESSAGES[Math.floor(Math.random() * DEATH_MESSAGES.length)];
 		setMessage(deathMsg);
-		saveResult(stateRef.current.score);
+		setReward(null);
+		session.finish({ outcome: 'finished', score: stateRef.current.score }).then(summary => {
+			if (summary) setReward(describeReward(summary));
+		});
 	};
 
-	useInput((input, key) => {
+	useGameInput(session.recorder, (input, key) => {
 		if (gameState === 'START' || gameState === 'GAME_OVER') {
 			if (key.return) {
 				startGame();
@@ -188,145 +183,138 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 		}
 	});
 
-	useEffect(() => {
-		if (gameState !== 'PLAYING') return;
-
-		const timer = setInterval(() => {
-			const state = stateRef.current;
-			if (!state.isPlaying) return;
+	useGameTimer(session.recorder, 'physics', () => {
+		const state = stateRef.current;
+		if (!state.isPlaying) return;
 
-			state.tickCount++;
+		state.tickCount++;
 
-			// 1. Physics (Jump)
-			// Apply velocity
-			// Note: In our grid, Y=0 is bottom. Positive Y is up.
-			// But we are rendering rows from top (0) to bottom (HEIGHT).
-			// So visual Y = HEIGHT - 1 - logical Y.
+		// 1. Physics (Jump)
+		// Apply velocity
+		// Note: In our grid, Y=0 is bottom. Positive Y is up.
+		// But we are rendering rows from top (0) to bottom (HEIGHT).
+		// So visual Y = HEIGHT - 1 - logical Y.
+		
+		// We'll use logical Y for physics.
+		if (state.dinoY > 0 || state.velocity > 0) {
+			state.dinoY += state.velocity;
+			state.velocity -= 0.5; // Gravity
 			
-			// We'll use logical Y for physics.
-			if (state.dinoY > 0 || state.velocity > 0) {
-				state.dinoY += state.velocity;
-				state.velocity -= 0.5; // Gravity
-				
-				if (state.dinoY <= 0) {
-					state.dinoY = 0;
-					state.velocity = 0;
-				}
+			if (state.dinoY <= 0) {
+				state.dinoY = 0;
+				state.velocity = 0;
 			}
+		}
 
-			// 2. Move Obstacles (Left to Right now: x + 1)
-			state.obstacles = state.obstacles
-				.map(obs => ({ ...obs, x: obs.x + 1 }))
-				.filter(obs => obs.x < GAME_WIDTH);
-
-			// Move Clouds (Slower, Left to Right)
-			if (state.tickCount % 5 === 0) { // Slower clouds
-				state.clouds = state.clouds
-					.map(c => ({ ...c, x: c.x + 1 }))
-					.filter(c => c.x < GAME_WIDTH);
-			}
+		// 2. Move Obstacles (Left to Right now: x + 1)
+		state.obstacles = state.obstacles
+			.map(obs => ({ ...obs, x: obs.x + 1 }))
+			.filter(obs => obs.x < GAME_WIDTH);
 
-			// Move Decorations (Ground details, stars)
-			if (state.tickCount % 2 === 0) {
-				state.decorations = state.decorations
-					.map(d => ({ ...d, x: d.x + 1 }))
-					.filter(d => d.x < GAME_WIDTH);
-			}
-
-			// 3. Spawn Obstacles (At x=0)
-			// Don't spawn if there's one right at the start
-			const isClearStart = !state.obstacles.some(obs => obs.x < (difficulty === 'hard' ? 10 : 15));
-			
-			if (isClearStart) {
-				if (Math.random() < SPAWN_RATE) {
-					const type = OBSTACLE_TYPES[Math.floor(Math.random() * OBSTACLE_TYPES.length)];
-					state.obstacles.push({
-						x: 0,
-						type: type.type as any,
-						char: type.char,
-						y: type.y
-					});
-				}
-			}
+		// Move Clouds (Slower, Left to Right)
+		if (state.tickCount % 5 === 0) { // Slower clouds
+			state.clouds = state.clouds
+				.map(c => ({ ...c, x: c.x + 1 }))
+				.filter(c => c.x < GAME_WIDTH);
+		}
 
-			// Spawn Clouds (Reduced rate)
-			if (Math.random() < 0.01) {
-				state.clouds.push({
-					x: 0,
-					y: 6 + Math.floor(Math.random() * 4) // Sky area
-				});
-			}
+		// Move Decorations (Ground details, stars)
+		if (state.tickCount % 2 === 0) {
+			state.decorations = state.decorations
+				.map(d => ({ ...d, x: d.x + 1 }))
+				.filter(d => d.x < GAME_WIDTH);
+		}
 
-			// Spawn Decorations (Stars, Ground details)
-			if (Math.random() < 0.1) {
-				// Ground detail
-				state.decorations.push({
-					x: 0,
-					y: 0,
-					char: '.',
-					color: 'gray'
-				});
-			}
-			if (Math.random() < 0.02) {
-				// Star
-				state.decorations.push({
+		// 3. Spawn Obstacles (At x=0)
+		// Don't spawn if there's one right at the start
+		const isClearStart = !state.obstacles.some(obs => obs.x < (difficulty === 'hard' ? 10 : 15));
+		
+		if (isClearStart) {
+			if (obstacleRandom.chance(SPAWN_RATE)) {
+				const type = obstacleRandom.pick(OBSTACLE_TYPES);
+				state.obstacles.push({
 					x: 0,
-					y: 6 + Math.floor(Math.random() * 5),
-					char: '✨',
-					color: 'yellow'
+					type: type.type as any,
+					char: type.char,
+					y: type.y
 				});
 			}
+		}
 
-			// 4. Collision Detection
-			// Dino X is fixed at DINO_X
-			const hit = state.obstacles.some(obs => {
-				// Simple box collision
-				// Obstacle is at obs.x
-				// Dino is at DINO_X
-				// If they overlap horizontally AND Dino is low enough (or high enough for bats)
-				const xOverlap = Math.abs(obs.x - DINO_X) < 1;
-				
-				if (!xOverlap) return false;
+		// Spawn Clouds (Reduced rate)
+		if (Math.random() < 0.01) {
+			state.clouds.push({
+				x: 0,
+				y: 6 + Math.floor(Math.random() * 4) // Sky area
+			});
+		}
 
-				// Y Collision
-				// Dino is at state.dinoY (bottom) to state.dinoY + 1 (top) roughly
-				// Obstacle is at obs.y
-				// If obs.y is 0 (ground), hit if dinoY < 1.5
-				// If obs.y is 3 (bat), hit if dinoY > 1.5 && dinoY < 4.5?
-				
-				if (obs.y === 0) {
-					return state.dinoY < 1.5;
-				} else {
-					// Flying obstacle (Bat at y=3)
-					// Dino jumps up to ~4.
-					// Hit if dino body overlaps y=3
-					return state.dinoY > 1.5 && state.dinoY < 4.5;
-				}
+		// Spawn Decorations (Stars, Ground details)
+		if (Math.random() < 0.1) {
+			// Ground detail
+			state.decorations.push({
+				x: 0,
+				y: 0,
+				char: '.',
+				color: 'gray'
 			});
+		}
+		if (Math.random() < 0.02) {
+			// Star
+			state.decorations.push({
+				x: 0,
+				y: 6 + Math.floor(Math.random() * 5),
+				char: '✨',
+				color: 'yellow'
+			});
+		}
 
-			if (hit) {
-				gameOver();
+		// 4. Collision Detection
+		// Dino X is fixed at DINO_X
+		const hit = state.obstacles.some(obs => {
+			// Simple box collision
+			// Obstacle is at obs.x
+			// Dino is at DINO_X
+			// If they overlap horizontally AND Dino is low enough (or high enough for bats)
+			const xOverlap = Math.abs(obs.x - DINO_X) < 1;
+			
+			if (!xOverlap) return false;
+
+			// Y Collision
+			// Dino is at state.dinoY (bottom) to state.dinoY + 1 (top) roughly
+			// Obstacle is at obs.y
+			// If obs.y is 0 (ground), hit if dinoY < 1.5
+			// If obs.y is 3 (bat), hit if dinoY > 1.5 && dinoY < 4.5?
+			
+			if (obs.y === 0) {
+				return state.dinoY < 1.5;
 			} else {
-				state.score += 1;
-				
-				// Random thoughts
-				if (state.tickCount % 50 === 0 && Math.random() > 0.5) {
-					setThought(FUNNY_MESSAGES[Math.floor(Math.random() * FUNNY_MESSAGES.length)]);
-					setTimeout(() => setThought(""), 2000);
-				}
+				// Flying obstacle (Bat at y=3)
+				// Dino jumps up to ~4.
+				// Hit if dino body overlaps y=3
+				return state.dinoY > 1.5 && state.dinoY < 4.5;
 			}
+		});
 
-			// Sync refs to state for render
-			setDinoY(state.dinoY);
-			setObstacles([...state.obstacles]);
-			setClouds([...state.clouds]);
-			setDecorations([...state.decorations]);
-			setScore(state.score);
-
-		}, SPEED_MS);
+		if (hit) {
+			gameOver();
+		} else {
+			state.score += 1;
+			
+			// Random thoughts
+			if (state.tickCount % 50 === 0 && Math.random() > 0.5) {
+				setThought(FUNNY_MESSAGES[Math.floor(Math.random() * FUNNY_MESSAGES.length)]);
+				setTimeout(() => setThought(""), 2000);
+			}
+		}
 
-		return () => clearInterval(timer);
-	}, [gameState, difficulty]);
+		// Sync refs to state for render
+		setDinoY(state.dinoY);
+		setObstacles([...state.obstacles]);
+		setClouds([...state.clouds]);
+		setDecorations([...state.decorations]);
+		setScore(state.score);
+	}, gameState === 'PLAYING' ? SPEED_MS : null);
 
 	// --- AI State Logging ---
 	// Force immediate log on mount
@@ -335,7 +323,7 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 	}, []);
 
 	useEffect(() => {
-		let status = `Score: ${score} | State: ${gameState}`;
+		let status = `Score: ${score} | State: ${gameState} | Seed: ${runSeed}`;
 		if (gameState === 'COUNTDOWN') status = `COUNTDOWN: ${countdown}... Get Ready!`;
 		if (message) status += ` | Message: ${message}`;
 
@@ -355,6 +343,7 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 		} else if (gameState === 'GAME_OVER') {
 			visualState = `Final Score: ${score}\n`;
 			visualState += message || "Game Over!";
+			if (reward) visualState += `\nRewards: ${reward}`;
 			controls = "ENTER to play again, Q/ESC to quit.";
 		} else {
 			// PLAYING state - Render grid for AI (Simplified ASCII)
@@ -396,7 +385,7 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 		}
 
 		logGameState("Playing DinoRun", status, visualState, controls);
-	}, [dinoY, obstacles, score, gameState, message, velocity]);
+	}, [dinoY, obstacles, score, gameState, message, reward, velocity, runSeed]);
 	// ------------------------
 
 	// Rendering Logic
@@ -409,6 +398,7 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 				<Text color="yellow">Score: {score}</Text>
 				<Text color="cyan" italic>{thought}</Text>
 				<Text color="green">High Score: {Math.max(score, 0)}</Text> 
+				<Text dimColor>Seed: {runSeed}</Text>
 			</Box>
 		);
 
@@ -513,6 +503,7 @@ const DinoRun = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diffic
 						<Text color="red" bold>GAME OVER</Text>
 						<Text color="yellow">{message}</Text>
 						<Text>Final Score: {score}</Text>
+						{reward && <Text color="green">{reward}</Text>}
 						<Text dimColor>Press ENTER to Try Again</Text>
 					</>
 				)}
@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Text, useInput } from 'ink';
+import { Box, Text } from 'ink';
 import { db } from '../../services/DatabaseService.js';
+import { describeReward, RewardSummary } from '../../core/RewardEngine.js';
+import { useGameSession } from './useGameSession.js';
+import { useSeededRandom } from './useSeededRandom.js';
+import { useGameInput } from './useReplay.js';
 
 interface HangmanProps {
     onExit: () => void;
+    seed?: number;
 }
 
 const HANGMAN_PICS = [
@@ -65,18 +70,24 @@ const HANGMAN_PICS = [
 =========`
 ];
 
-const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
+const Hangman: React.FC<HangmanProps> = ({ onExit, seed }) => {
     const [word, setWord] = useState('');
     const [guessedLetters, setGuessedLetters] = useState<string[]>([]);
     const [wrongGuesses, setWrongGuesses] = useState(0);
     const [gameState, setGameState] = useState<'playing' | 'won' | 'lost'>('playing');
+    const [reward, setReward] = useState<string | null>(null);
+    const { seed: runSeed, random, newRun } = useSeededRandom(seed);
+    const session = useGameSession('hangman', null, true, runSeed);
 
     const startNewGame = async () => {
-        const newWord = await db.getRandomHangmanWord();
+        const words = await db.getHangmanWords();
+        const newWord = random.pick(words);
         setWord(newWord.toUpperCase());
         setGuessedLetters([]);
         setWrongGuesses(0);
         setGameState('playing');
+        setReward(null);
+        session.begin();
     };
 
     useEffect(() => {
@@ -95,9 +106,10 @@ const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
         }
     };
 
-    useInput((input, key) => {
+    useGameInput(session.recorder, (input, key) => {
         if (gameState !== 'playing') {
             if (key.return) {
+                newRun();
                 startNewGame();
             } else if (key.escape) {
                 onExit();
@@ -112,22 +124,22 @@ const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
         }
     });
 
+    const showReward = (summary: RewardSummary | null) => {
+        if (summary) setReward(describeReward(summary));
+    };
+
     useEffect(() => {
         if (!word) return;
 
         const wordGuessed = word.split('').every(letter => guessedLetters.includes(letter));
         if (wordGuessed) {
             setGameState('won');
-            db.getStats().then(stats => {
-                db.updateStats({ hangman_wins: stats.hangman_wins + 1, xp: stats.xp + 25 });
-            });
+            session.finish({ outcome: 'win', score: HANGMAN_PICS.length - 1 - wrongGuesses }).then(showReward);
         } else if (wrongGuesses >= HANGMAN_PICS.length - 1) {
             setGameState('lost');
-            db.getStats().then(stats => {
-                db.updateStats({ hangman_losses: stats.hangman_losses + 1 });
-            });
+            session.finish({ outcome: 'loss', score: 0 }).then(showReward);
         }
-    }, [guessedLetters, wrongGuesses, word]);
+    }, [guessedLetters, wrongGuesses, word, session]);
 
     const displayedWord = word
         .split('')
@@ -138,6 +150,7 @@ const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
         <Box flexDirection="column" alignItems="center">
             <Box marginBottom={1}>
                 <Text bold color="yellow">H A N G M A N</Text>
+                <Text dimColor>  Seed: {runSeed}</Text>
             </Box>
 
             <Box>
@@ -160,7 +173,8 @@ const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
 
             {gameState === 'won' && (
                 <Box marginTop={1} flexDirection="column" alignItems="center">
-                    <Text color="green" bold>You won! (+25 XP)</Text>
+                    <Text color="green" bold>You won!</Text>
+                    {reward && <Text color="green">{reward}</Text>}
                     <Text dimColor>Press Enter to play again, or Esc to exit.</Text>
                 </Box>
             )}
@@ -169,6 +183,7 @@ const Hangman: React.FC<HangmanProps> = ({ onExit }) => {
                 <Box marginTop={1} flexDirection="column" alignItems="center">
                     <Text color="red" bold>You lost!</Text>
                     <Text>The word was: <Text bold>{word}</Text></Text>
+                    {reward && <Text dimColor>{reward}</Text>}
                     <Text dimColor>Press Enter to play again, or Esc to exit.</Text>
                 </Box>
             )}
@@ -1,9 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Box, Text, useInput } from 'ink';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Box, Text } from 'ink';
 import fs from 'fs';
 import path from 'path';
 import { db } from '../../services/DatabaseService.js';
+import { rewardEngine, describeReward } from '../../core/RewardEngine.js';
 import { logGameState } from '../../core/GameStateLogger.js';
+import { useGameSession } from './useGameSession.js';
+import { useSeededRandom } from './useSeededRandom.js';
+import { useGameInput, useGameTimer } from './useReplay.js';
+import type { Random } from '../../core/SeededRandom.js';
 
 const FIELD_SIZE = 20;
 const INITIAL_SNAKE = [
@@ -12,6 +17,8 @@ const INITIAL_SNAKE = [
 	{ x: 10, y: 12 }
 ];
 const INITIAL_DIRECTION = { x: 0, y: -1 }; // Moving up
+const snakeRule = rewardEngine.getRule('snake');
+const { xpPerLevel } = rewardEngine.getRules();
 const BASE_SPEED = 150; // Slower base speed for easier gameplay
 
 type Point = { x: number; y: number };
@@ -28,6 +35,32 @@ const FOOD_TYPES: { [key in FoodType]: { char: string; score: number; effect?: s
 	ICE: { char: '🧊', score: 5, effect: 'slow_down' }
 };
 
+/**
+ * A random free cell and food type
+ */
+const placeFood = (snake: Point[], random: Random): Food => {
+	let newFood: Point;
+	while (true) {
+		newFood = {
+			x: random.int(FIELD_SIZE),
+			y: random.int(FIELD_SIZE)
+		};
+		// Check if food is on snake
+		// eslint-disable-next-line no-loop-func
+		const isOnSnake = snake.some(segment => segment.x === newFood.x && segment.y === newFood.y);
+		if (!isOnSnake) break;
+	}
+
+	// Randomize food type - Increased Banana chance
+	const rand = random.next();
+	let type: FoodType = 'APPLE';
+	if (rand > 0.75) type = 'BANANA'; // 25% chance
+	else if (rand > 0.65) type = 'CHILI';
+	else if (rand > 0.55) type = 'ICE';
+
+	return { ...newFood, type };
+};
+
 const Confetti = () => {
 	const [particles, setParticles] = useState<{ x: number; y: number; color: string; char: string }[]>([]);
 
@@ -57,7 +90,7 @@ const Confetti = () => {
 	);
 };
 
-const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai' }) => {
+const Snake = ({ onExit, difficulty = 'medium', seed }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai', seed?: number }) => {
 	const getBaseSpeed = (diff: string) => {
 		switch(diff) {
 			case 'easy': return 200;
@@ -68,9 +101,11 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 		}
 	};
 
+	// Food placement; a fixed seed gives every restart the same food order
+	const { seed: runSeed, random, newRun } = useSeededRandom(seed);
 	const [snake, setSnake] = useState<Point[]>(INITIAL_SNAKE);
 	const [direction, setDirection] = useState<Point>(INITIAL_DIRECTION);
-	const [food, setFood] = useState<Food>({ x: 5, y: 5, type: 'APPLE' });
+	const [food, setFood] = useState<Food>(() => placeFood(INITIAL_SNAKE, random));
 	const [score, setScore] = useState(0);
 	const [level, setLevel] = useState(1);
 	const [xp, setXp] = useState(0);
@@ -81,6 +116,12 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 	const [highScore, setHighScore] = useState(0);
 	const [countdown, setCountdown] = useState<number | null>(difficulty === 'ai' ? 3 : null);
 	const [gameStarted, setGameStarted] = useState(difficulty !== 'ai');  // AI mode waits for countdown
+	const session = useGameSession('snake', difficulty, true, runSeed);
+	const bananasRef = useRef(0);
+
+	useEffect(() => {
+		session.track({ score, pickups: bananasRef.current });
+	}, [score, session]);
 
 	// Load stats on mount
 	useEffect(() => {
@@ -92,20 +133,14 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 	}, []);
 
 	// Countdown timer for AI mode
-	useEffect(() => {
-		if (countdown === null || countdown <= 0) return;
-		
-		const timer = setTimeout(() => {
-			if (countdown === 1) {
-				setCountdown(null);
-				setGameStarted(true);
-			} else {
-				setCountdown(countdown - 1);
-			}
-		}, 1000);
-		
-		return () => clearTimeout(timer);
-	}, [countdown]);
+	useGameTimer(session.recorder, 'countdown', () => {
+		if (countdown === 1) {
+			setCountdown(null);
+			setGameStarted(true);
+		} else if (countdown !== null) {
+			setCountdown(countdown - 1);
+		}
+	}, countdown !== null && countdown > 0 ? 1000 : null);
 
 	// Reset speed when difficulty changes or restart
 	useEffect(() => {
@@ -114,29 +149,8 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 		}
 	}, [difficulty, gameOver]);
 
-	const saveProgress = useCallback(async (currentScore: number, currentLevel: number, currentXp: number, isGameOver: boolean = false) => {
-		try {
-			const stats = await db.getStats();
-			const updates: Partial<typeof stats> = {
-				highScore: Math.max(stats.highScore, currentScore),
-				level: currentLevel,
-				xp: currentXp,
-				gamesPlayed: stats.gamesPlayed + (isGameOver ? 1 : 0)
-			};
-
-			if (isGameOver) {
-				updates.energy = Math.max(0, stats.energy - 10);
-				updates.happiness = Math.min(100, stats.happiness + 10);
-				updates.hunger = Math.min(100, stats.hunger + 5);
-			}
-
-			await db.updateStats(updates);
-		} catch (err) {
-			console.error('Failed to save progress:', err);
-		}
-	}, []);
-
 	const generateNanobananaImage = useCallback((lvl: number) => {
+		if (session.readOnly) return;
 		const art = `
    __
   /  \
@@ -154,32 +168,11 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 		} catch (err) {
 			// Ignore write errors in TUI
 		}
-	}, []);
-
-	const generateFood = useCallback((): Food => {
-		let newFood: Point;
-		while (true) {
-			newFood = {
-				x: Math.floor(Math.random() * FIELD_SIZE),
-				y: Math.floor(Math.random() * FIELD_SIZE)
-			};
-			// Check if food is on snake
-			// eslint-disable-next-line no-loop-func
-			const isOnSnake = snake.some(segment => segment.x === newFood.x && segment.y === newFood.y);
-			if (!isOnSnake) break;
-		}
+	}, [session.readOnly]);
 
-		// Randomize food type - Increased Banana chance
-		const rand = Math.random();
-		let type: FoodType = 'APPLE';
-		if (rand > 0.75) type = 'BANANA'; // 25% chance
-		else if (rand > 0.65) type = 'CHILI';
-		else if (rand > 0.55) type = 'ICE';
+	const generateFood = useCallback((): Food => placeFood(snake, random), [snake, random]);
 
-		return { ...newFood, type };
-	}, [snake]);
-
-	useInput((input, key) => {
+	useGameInput(session.recorder, (input, key) => {
 		if (gameOver) {
 			if (key.return) {
 				// Restart
@@ -192,8 +185,11 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 				// Let's keep Level/XP persistent for this "RPG" feel.
 				setSpeed(getBaseSpeed(difficulty));
 				setGameOver(false);
-				setFood(generateFood());
+				newRun();
+				setFood(placeFood(INITIAL_SNAKE, random));
 				setShowConfetti(false);
+				bananasRef.current = 0;
+				session.begin();
 				// Reset countdown for AI mode
 				if (difficulty === 'ai') {
 					setCountdown(3);
@@ -213,70 +209,60 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 		if (key.escape || input === 'q') onExit();
 	});
 
-	useEffect(() => {
-		if (gameOver || !gameStarted) return;  // Don't move during countdown
-
-		const moveSnake = () => {
-			setSnake(prevSnake => {
-				const newHead = {
-					x: prevSnake[0].x + direction.x,
-					y: prevSnake[0].y + direction.y
-				};
-
-				// Check collisions
-				if (
-					newHead.x < 0 ||
-					newHead.x >= FIELD_SIZE ||
-					newHead.y < 0 ||
-					newHead.y >= FIELD_SIZE ||
-					prevSnake.some(segment => segment.x === newHead.x && segment.y === newHead.y)
-				) {
-					setGameOver(true);
-					saveProgress(score, level, xp, true);
-					return prevSnake;
-				}
+	useGameTimer(session.recorder, 'move', () => {
+		setSnake(prevSnake => {
+			const newHead = {
+				x: prevSnake[0].x + direction.x,
+				y: prevSnake[0].y + direction.y
+			};
 
-				const newSnake = [newHead, ...prevSnake];
-
-				// Check food
-				if (newHead.x === food.x && newHead.y === food.y) {
-					const foodInfo = FOOD_TYPES[food.type];
-					setScore(s => s + foodInfo.score);
-					
-					// Effects
-					if (food.type === 'CHILI') setSpeed(s => Math.max(50, s - 20));
-					if (food.type === 'ICE') setSpeed(s => Math.min(200, s + 20));
-					if (food.type === 'BANANA') {
-						setXp(x => {
-							const newXp = x + 50;
-							if (newXp >= 100) {
-								setLevel(l => {
-									const newLevel = l + 1;
-									setShowConfetti(true);
-									setTimeout(() => setShowConfetti(false), 3000);
-									generateNanobananaImage(newLevel);
-									// Save progress on level up
-									saveProgress(score, newLevel, 0);
-									return newLevel;
-								});
-								return 0;
-							}
-							return newXp;
-						});
+			// Check collisions
+			if (
+				newHead.x < 0 ||
+				newHead.x >= FIELD_SIZE ||
+				newHead.y < 0 ||
+				newHead.y >= FIELD_SIZE ||
+				prevSnake.some(segment => segment.x === newHead.x && segment.y === newHead.y)
+			) {
+				setGameOver(true);
+				session.finish({ outcome: 'finished', score, pickups: bananasRef.current }).then(reward => {
+					if (!reward) return;
+					setLevel(reward.level);
+					setXp(reward.levelXp);
+					setMessage(describeReward(reward));
+					if (reward.levelsGained > 0) {
+						setShowConfetti(true);
+						setTimeout(() => setShowConfetti(false), 3000);
+						generateNanobananaImage(reward.level);
 					}
+				});
+				return prevSnake;
+			}
+
+			const newSnake = [newHead, ...prevSnake];
 
-					setFood(generateFood());
-				} else {
-					newSnake.pop();
+			// Check food
+			if (newHead.x === food.x && newHead.y === food.y) {
+				const foodInfo = FOOD_TYPES[food.type];
+				setScore(s => s + foodInfo.score);
+				
+				// Effects
+				if (food.type === 'CHILI') setSpeed(s => Math.max(50, s - 20));
+				if (food.type === 'ICE') setSpeed(s => Math.min(200, s + 20));
+				// Banana XP is paid out with the run's rewards when it ends
+				if (food.type === 'BANANA') {
+					bananasRef.current += 1;
+					setXp(x => x + (snakeRule?.xpPerPickup ?? 0));
 				}
 
-				return newSnake;
-			});
-		};
+				setFood(generateFood());
+			} else {
+				newSnake.pop();
+			}
 
-		const gameLoop = setInterval(moveSnake, speed);
-		return () => clearInterval(gameLoop);
-	}, [direction, food, gameOver, gameStarted, generateFood, speed, generateNanobananaImage, saveProgress, score, level, xp]);
+			return newSnake;
+		});
+	}, gameOver || !gameStarted ? null : speed);  // Don't move during countdown
 
 	// --- AI State Logging ---
 	// Force immediate log on mount
@@ -285,7 +271,7 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 	}, []);
 
 	useEffect(() => {
-		let status = `Score: ${score} | Level: ${level} | XP: ${xp}/100`;
+		let status = `Score: ${score} | Level: ${level} | XP: ${xp}/${xpPerLevel} | Seed: ${runSeed}`;
 		if (countdown !== null) status = `COUNTDOWN: ${countdown}... Get Ready!`;
 		else if (gameOver) status += " | GAME OVER";
 
@@ -331,7 +317,7 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 		}
 
 		logGameState("Playing Snake", status, visualState);
-	}, [snake, food, score, level, xp, gameOver, direction, countdown]);
+	}, [snake, food, score, level, xp, gameOver, direction, countdown, runSeed]);
 	// ------------------------
 
 	// Render the grid
@@ -377,8 +363,9 @@ const Snake = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficul
 			<Box marginTop={1} flexDirection="row" gap={2}>
 				<Text color="cyan" bold>Score: {score}</Text>
 				<Text color="yellow" bold>Level: {level}</Text>
-				<Text color="magenta">XP: {xp}/100</Text>
+				<Text color="magenta">XP: {xp}/{xpPerLevel}</Text>
 				<Text color="green">High Score: {Math.max(score, highScore)}</Text>
+				<Text dimColor>Seed: {runSeed}</Text>
 			</Box>
 			{message && (
 				<Box marginTop={1}>
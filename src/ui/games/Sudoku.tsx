@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Box, Text, useInput } from 'ink';
+import { Box, Text } from 'ink';
 import { db } from '../../services/DatabaseService.js';
+import { rewardEngine, describeReward } from '../../core/RewardEngine.js';
+import { useGameSession } from './useGameSession.js';
+import { createRandom, randomSeed, Random } from '../../core/SeededRandom.js';
+import { useSeededRandom } from './useSeededRandom.js';
+import { useGameInput } from './useReplay.js';
 
 interface SudokuProps {
   onExit: () => void;
   difficulty?: 'easy' | 'medium' | 'hard';
+  seed?: number;
 }
 
 interface Cell {
@@ -14,6 +20,8 @@ interface Cell {
   isHint: boolean;  // Track cells filled by hints
 }
 
+const HINT_ENERGY = rewardEngine.getRule('sudoku')?.hintEnergyCost ?? 0;
+
 // Check if a number is valid in a position
 const isValidPlacement = (board: (number | null)[][], row: number, col: number, num: number): boolean => {
   // Check row
@@ -36,7 +44,7 @@ const isValidPlacement = (board: (number | null)[][], row: number, col: number,
 };
 
 // Generate a valid Sudoku puzzle - returns both puzzle and solution
-const generateSudoku = (difficulty: string): { puzzle: (number | null)[][], solution: number[][] } => {
+export const generateSudoku = (difficulty: string, rng: Random = createRandom(randomSeed())): { puzzle: (number | null)[][], solution: number[][] } => {
   // Start with a solved board pattern (shifted rows technique for simplicity)
   const base = [1, 2, 3, 4, 5, 6, 7, 8, 9];
   const board: number[][] = [];
@@ -55,7 +63,7 @@ const generateSudoku = (difficulty: string): { puzzle: (number | null)[][], solu
   for (let band = 0; band < 3; band++) {
     const rows = [band * 3, band * 3 + 1, band * 3 + 2];
     for (let i = rows.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = rng.int(i + 1);
       [board[rows[i]], board[rows[j]]] = [board[rows[j]], board[rows[i]]];
     }
   }
@@ -75,8 +83,8 @@ const generateSudoku = (difficulty: string): { puzzle: (number | null)[][], solu
   const puzzle: (number | null)[][] = board.map(row => [...row]);
   let removed = 0;
   while (removed < cellsToRemove) {
-    const row = Math.floor(Math.random() * 9);
-    const col = Math.floor(Math.random() * 9);
+    const row = rng.int(9);
+    const col = rng.int(9);
     if (puzzle[row][col] !== null) {
       puzzle[row][col] = null;
       removed++;
@@ -98,9 +106,10 @@ const isSolved = (board: Cell[][]): boolean => {
   return true;
 };
 
-const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
-  // Generate puzzle and solution once on mount
-  const [{ puzzle: initialPuzzle, solution }] = useState(() => generateSudoku(difficulty));
+const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium', seed }) => {
+  // Generate puzzle and solution once on mount (the same puzzle for the same seed)
+  const { seed: runSeed, random } = useSeededRandom(seed);
+  const [{ puzzle: initialPuzzle, solution }] = useState(() => generateSudoku(difficulty, random));
   
   const [board, setBoard] = useState<Cell[][]>(() => {
     return initialPuzzle.map(row =>
@@ -119,6 +128,11 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
   const [message, setMessage] = useState('');
   const [hintsUsed, setHintsUsed] = useState(0);
   const [stats, setStats] = useState<{ energy: number } | null>(null);
+  const session = useGameSession('sudoku', difficulty, true, runSeed);
+
+  useEffect(() => {
+    session.track({ hintsUsed });
+  }, [hintsUsed, session]);
 
   // Load stats for hint cost display
   useEffect(() => {
@@ -128,13 +142,12 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
   useEffect(() => {
     if (isSolved(board)) {
       setGameWon(true);
-      const bonus = hintsUsed === 0 ? ' (No hints bonus! +10 XP)' : '';
-      setMessage(`🎉 Congratulations! You solved it!${bonus}`);
-      // Award XP on win
-      db.getStats().then(s => {
-        const xpReward = hintsUsed === 0 ? 30 : 20;
-        db.updateStats({ xp: s.xp + xpReward, happiness: Math.min(100, s.happiness + 10) });
-      }).catch(() => {});
+      setMessage('🎉 Congratulations! You solved it!');
+      session.finish({ outcome: 'win', hintsUsed }).then(summary => {
+        if (!summary) return;
+        const bonus = hintsUsed === 0 ? ' No hints bonus!' : '';
+        setMessage(`🎉 Congratulations! You solved it!${bonus} (${describeReward(summary)})`);
+      });
     }
   }, [board]);
 
@@ -154,17 +167,12 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
       return;
     }
 
-    // Check if player has enough energy
-    const currentStats = await db.getStats();
-    if (currentStats.energy < 5) {
+    // Replays don't charge again; they assume the hint was affordable
+    if (!session.readOnly && !(await rewardEngine.chargeHint('sudoku'))) {
       setMessage('😴 Not enough energy for a hint! Rest first.');
       return;
     }
 
-    // Deduct energy cost (hints tire Liku out)
-    await db.updateStats({ energy: currentStats.energy - 5 });
-    setStats({ energy: currentStats.energy - 5 });
-
     // Apply the hint
     const newBoard = board.map(row => row.map(c => ({ ...c })));
     newBoard[cursorRow][cursorCol].value = correctValue;
@@ -173,10 +181,10 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
     
     setBoard(newBoard);
     setHintsUsed(h => h + 1);
-    setMessage(`💡 Hint used! (-5 Energy) [${hintsUsed + 1} hints]`);
+    setMessage(`💡 Hint used! (-${HINT_ENERGY} Energy) [${hintsUsed + 1} hints]`);
   };
 
-  useInput((input, key) => {
+  useGameInput(session.recorder, (input, key) => {
     if (key.escape) {
       onExit();
       return;
@@ -334,6 +342,8 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
       <Box>
         <Text dimColor>Difficulty: {difficulty}</Text>
         <Text>  </Text>
+        <Text dimColor>Seed: {runSeed}</Text>
+        <Text>  </Text>
         <Text dimColor>Hints: </Text>
         <Text color={hintsUsed > 0 ? 'yellow' : 'green'}>{hintsUsed}</Text>
         {stats && (
@@ -357,7 +367,7 @@ const Sudoku: React.FC<SudokuProps> = ({ onExit, difficulty = 'medium' }) => {
       ) : (
         <Box flexDirection="column" alignItems="center">
           <Text color="yellow">
-            ↑↓←→ Move | 1-9 Enter | 0/Del Clear | <Text color="magenta" bold>H</Text> Hint (-5⚡)
+            ↑↓←→ Move | 1-9 Enter | 0/Del Clear | <Text color="magenta" bold>H</Text> Hint (-{HINT_ENERGY}⚡)
           </Text>
           {message && <Text color="magenta">{message}</Text>}
         </Box>
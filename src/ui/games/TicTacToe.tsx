@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Box, Text, useInput } from 'ink';
-import { db } from '../../services/DatabaseService.js';
+import { Box, Text } from 'ink';
+import { describeReward } from '../../core/RewardEngine.js';
 import { logGameState } from '../../core/GameStateLogger.js';
+import { useGameSession } from './useGameSession.js';
+import { useSeededRandom } from './useSeededRandom.js';
+import { useGameInput, useGameTimer } from './useReplay.js';
 
 type Player = 'X' | 'O' | null;
 type BoardState = Player[];
@@ -12,12 +15,15 @@ const WINNING_COMBINATIONS = [
 	[0, 4, 8], [2, 4, 6]             // Diagonals
 ];
 
-const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai' }) => {
+const TicTacToe = ({ onExit, difficulty = 'medium', seed }: { onExit: () => void, difficulty?: 'easy' | 'medium' | 'hard' | 'ai', seed?: number }) => {
 	const [board, setBoard] = useState<BoardState>(Array(9).fill(null));
 	const [isPlayerTurn, setIsPlayerTurn] = useState(true); // Player is always X and goes first
 	const [cursor, setCursor] = useState(4); // Start in center
 	const [winner, setWinner] = useState<Player | 'DRAW' | null>(null);
 	const [message, setMessage] = useState<string | null>(null);
+	// Liku's random moves
+	const { seed: runSeed, random, newRun } = useSeededRandom(seed);
+	const session = useGameSession('tictactoe', difficulty, true, runSeed);
 
 	const checkWinner = (currentBoard: BoardState): Player | 'DRAW' | null => {
 		for (const combo of WINNING_COMBINATIONS) {
@@ -30,37 +36,13 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 		return null;
 	};
 
-	const saveResult = useCallback(async (result: Player | 'DRAW') => {
-		try {
-			const stats = await db.getStats();
-			const updates: Partial<typeof stats> = {
-				gamesPlayed: stats.gamesPlayed + 1,
-				energy: Math.max(0, stats.energy - 5) // Cost 5 energy
-			};
-
-			if (result === 'X') {
-				// Player Won
-				updates.xp = stats.xp + 20;
-				updates.happiness = Math.min(100, stats.happiness + 10);
-				setMessage("You Won! (+20 XP, +10 Happiness)");
-			} else if (result === 'O') {
-				// Liku Won
-				updates.xp = stats.xp + 5;
-				updates.happiness = Math.max(0, stats.happiness - 5); // Liku is happy he won, but maybe you aren't? Let's say Liku is a good sport.
-				// Actually, if Liku wins, maybe he gets happy? But stats track *Player's* relationship/status.
-				// Let's say Player loses happiness if they lose.
-				setMessage("Liku Won! (+5 XP)");
-			} else {
-				// Draw
-				updates.xp = stats.xp + 10;
-				setMessage("It's a Draw! (+10 XP)");
-			}
-
-			await db.updateStats(updates);
-		} catch (err) {
-			console.error(err);
-		}
-	}, []);
+	const saveResult = useCallback((result: Player | 'DRAW') => {
+		const headline = result === 'X' ? 'You Won!' : result === 'O' ? 'Liku Won!' : "It's a Draw!";
+		setMessage(headline);
+		session.finish({ outcome: result === 'X' ? 'win' : result === 'O' ? 'loss' : 'draw' }).then(summary => {
+			if (summary) setMessage(`${headline} (${describeReward(summary)})`);
+		});
+	}, [session]);
 
 	const renderDrawArt = () => (
 		<Box flexDirection="column" alignItems="center" marginY={1}>
@@ -111,7 +93,7 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 
 		// 4. Random move
 		if (move === -1) {
-			move = availableMoves[Math.floor(Math.random() * availableMoves.length)];
+			move = random.pick(availableMoves);
 		}
 
 		const newBoard = [...board];
@@ -125,14 +107,9 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 		} else {
 			setIsPlayerTurn(true);
 		}
-	}, [board, difficulty, winner, saveResult]);
+	}, [board, difficulty, winner, saveResult, random]);
 
-	useEffect(() => {
-		if (!isPlayerTurn && !winner) {
-			const timer = setTimeout(likuMove, 1000); // Delay for "thinking"
-			return () => clearTimeout(timer);
-		}
-	}, [isPlayerTurn, winner, likuMove]);
+	useGameTimer(session.recorder, 'liku', likuMove, !isPlayerTurn && !winner ? 1000 : null); // Delay for "thinking"
 
 	// --- AI State Logging ---
 	// Force immediate log on mount
@@ -141,9 +118,9 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 	}, []);
 
 	useEffect(() => {
-		const status = winner 
+		const status = (winner 
 			? (winner === 'DRAW' ? 'Game Over - Draw' : `Game Over - ${winner === 'X' ? 'You' : 'Liku'} Won`)
-			: (isPlayerTurn ? 'Your Turn (X)' : 'Liku is thinking... (O)');
+			: (isPlayerTurn ? 'Your Turn (X)' : 'Liku is thinking... (O)')) + ` | Seed: ${runSeed}`;
 		
 		// Render board as a grid for the AI to "see"
 		let visualState = "";
@@ -167,23 +144,32 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 			: "Arrows to move cursor, Enter to place X. Q to Quit.";
 
 		logGameState("Playing Tic-Tac-Toe", status, visualState, controls);
-	}, [board, cursor, isPlayerTurn, winner]);
+	}, [board, cursor, isPlayerTurn, winner, runSeed]);
 	// ------------------------
 
-	useInput((input, key) => {
+	useGameInput(session.recorder, (input, key) => {
 		if (winner) {
 			if (key.return) {
 				// Restart
 				setBoard(Array(9).fill(null));
+				setCursor(4);
 				setWinner(null);
 				setIsPlayerTurn(true);
 				setMessage(null);
+				newRun();
+				session.begin();
 			} else if (key.escape || input === 'q') {
 				onExit();
 			}
 			return;
 		}
 
+		// Quitting works on Liku's turn too
+		if (key.escape || input === 'q') {
+			onExit();
+			return;
+		}
+
 		if (!isPlayerTurn) return; // Wait for Liku
 
 		if (key.upArrow && cursor >= 3) setCursor(c => c - 3);
@@ -206,10 +192,6 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 				}
 			}
 		}
-
-		if (key.escape || input === 'q') {
-			onExit();
-		}
 	});
 
 	const renderCell = (i: number) => {
@@ -237,6 +219,7 @@ const TicTacToe = ({ onExit, difficulty = 'medium' }: { onExit: () => void, diff
 		<Box flexDirection="column" alignItems="center">
 			<Box marginBottom={1}>
 				<Text bold color="yellow">❌ Tic-Tac-Toe vs Liku ⭕</Text>
+				<Text dimColor>  Seed: {runSeed}</Text>
 			</Box>
 
 			<Box flexDirection="column">
@@ -0,0 +1,135 @@
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { db } from '../../services/DatabaseService.js';
+import { tokenEconomy } from '../../core/TokenEconomy.js';
+import { reportGameResult } from '../../core/GameResults.js';
+import { rewardEngine, GameRunReport, RewardSummary } from '../../core/RewardEngine.js';
+import { ReplayRecorder } from '../../core/Replay.js';
+import { DailyChallengeContext } from './DailyChallengeContext.js';
+import { ReplayContext } from './useReplay.js';
+
+export type GameSessionResult = Omit<GameRunReport, 'gameId' | 'difficulty' | 'durationMs'>;
+
+/**
+ * Reports each run of a game through core/GameResults (history,
+ * leaderboard, achievements), applies its stat rewards (core/RewardEngine)
+ * and pays the Pro Tokens reward for its outcome.
+ *
+ * - begin(): a new run starts (restart, or leaving a start screen)
+ * - finish(result): the run ended; records it once and resolves with the
+ *   reward summary for the game to show
+ * - abandon(result?): the player quit mid-run; records it as 'abandoned'
+ *
+ * Runs that are still in progress when the game unmounts are recorded as
+ * abandoned too, so quitting via the hub is never lost; abandoned runs
+ * earn no rewards and cost no energy beyond hints. Inside a daily
+ * challenge, completed runs also go on the day's leaderboard.
+ *
+ * `seed` is the current run's RNG seed (see useSeededRandom); it is saved
+ * with the run so it can be replayed.
+ *
+ * `recorder` collects the run's keys and ticks (see useGameInput and
+ * useGameTimer), saved as a replay when the run is recorded. A replay
+ * starts from the game's freshly mounted state: for games that start
+ * right away, begin() drops whatever was recorded since the last run;
+ * games with a start screen (autoStart false) keep it, since their game
+ * over screen works like the start screen.
+ *
+ * During playback (`readOnly`) nothing is recorded or rewarded; games
+ * must skip their own stat updates too.
+ */
+export const useGameSession = (gameId: string, difficulty?: string | null, autoStart: boolean = true, seed: number | null = null) => {
+	const startedAtRef = useRef<Date | null>(autoStart ? new Date() : null);
+	const lastResultRef = useRef<Omit<GameSessionResult, 'outcome'>>({});
+	const challenge = useContext(DailyChallengeContext);
+	const seedRef = useRef(seed);
+	seedRef.current = seed;
+	const player = useContext(ReplayContext);
+	const readOnly = player !== null;
+	const [recorder] = useState(() => new ReplayRecorder());
+
+	const record = useCallback((result: GameSessionResult): Promise<RewardSummary | null> => {
+		const startedAt = startedAtRef.current;
+		if (!startedAt || readOnly) return Promise.resolve(null);
+		startedAtRef.current = null;
+		const endedAt = new Date();
+		const durationMs = endedAt.getTime() - startedAt.getTime();
+		const events = recorder.take();
+
+		if (challenge && challenge.gameId === gameId && result.outcome !== 'abandoned') {
+			db.recordDailyChallengeResult({
+				challengeDate: challenge.date,
+				gameId,
+				seed: challenge.seed,
+				score: result.score ?? null,
+				outcome: result.outcome,
+				durationMs
+			}).catch(err => console.error('Failed to record daily challenge result:', err));
+		}
+
+		const reward = result.outcome === 'abandoned'
+			? Promise.resolve(null)
+			: rewardEngine.applyGameResult({ ...result, gameId, difficulty, durationMs }).catch(err => {
+				console.error('Failed to apply game rewards:', err);
+				return null;
+			});
+
+		reward
+			.then(summary => reportGameResult({
+				gameId,
+				difficulty: difficulty ?? null,
+				startedAt,
+				endedAt,
+				score: result.score ?? null,
+				xpEarned: summary?.xp ?? 0,
+				energySpent: summary?.energySpent ?? rewardEngine.getHintEnergy(gameId, result.hintsUsed ?? 0),
+				outcome: result.outcome,
+				seed: seedRef.current
+			}))
+			.then(sessionId => {
+				if (events.length > 0 && seedRef.current !== null) {
+					return db.saveReplay({
+						gameId,
+						difficulty: difficulty ?? null,
+						seed: seedRef.current,
+						score: result.score ?? null,
+						outcome: result.outcome,
+						durationMs,
+						events
+					}, sessionId);
+				}
+			})
+			.catch(err => console.error('Failed to record game session:', err));
+
+		try {
+			tokenEconomy.rewardGame(gameId, result.outcome, { difficulty: difficulty ?? null, score: result.score ?? null });
+		} catch (err) {
+			console.error('Failed to reward Pro Tokens:', err);
+		}
+		return reward;
+	}, [gameId, difficulty, challenge, readOnly, recorder]);
+
+	const begin = useCallback(() => {
+		startedAtRef.current = new Date();
+		lastResultRef.current = {};
+		if (autoStart) recorder.take();
+	}, [autoStart, recorder]);
+
+	const finish = useCallback((result: GameSessionResult) => record(result), [record]);
+
+	const abandon = useCallback((result: Omit<GameSessionResult, 'outcome'> = lastResultRef.current) => {
+		record({ ...result, outcome: 'abandoned' });
+	}, [record]);
+
+	/**
+	 * Remember the latest progress so an unmount can still record it
+	 */
+	const track = useCallback((result: Omit<GameSessionResult, 'outcome'>) => {
+		lastResultRef.current = { ...lastResultRef.current, ...result };
+	}, []);
+
+	const abandonRef = useRef(abandon);
+	abandonRef.current = abandon;
+	useEffect(() => () => abandonRef.current(), []);
+
+	return useMemo(() => ({ begin, finish, abandon, track, recorder, readOnly }), [begin, finish, abandon, track, recorder, readOnly]);
+};
@@ -0,0 +1,57 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { useInput } from 'ink';
+import { ReplayKey, ReplayPlayer, ReplayRecorder, toReplayKey } from '../../core/Replay.js';
+
+/**
+ * Set while a recorded run is played back (ReplayScreen). Games then ignore
+ * the keyboard and their own timers and only react to the recorded events.
+ */
+export const ReplayContext = createContext<ReplayPlayer | null>(null);
+
+/**
+ * useInput for built-in games. Live keys are recorded with the run; during
+ * playback the recorded keys are fed in instead.
+ */
+export const useGameInput = (recorder: ReplayRecorder, handler: (input: string, key: ReplayKey) => void) => {
+	const player = useContext(ReplayContext);
+	const handlerRef = useRef(handler);
+	handlerRef.current = handler;
+
+	useInput((input, key) => {
+		// Recorded first: the handler may end the run and save the replay
+		recorder.input(input, key);
+		handlerRef.current(input, toReplayKey(key));
+	}, { isActive: !player });
+
+	useEffect(() => {
+		if (!player) return;
+		return player.onInput((input, key) => handlerRef.current(input, key));
+	}, [player]);
+};
+
+/**
+ * setInterval for built-in games: calls `callback` every `delayMs` while
+ * `delayMs` is not null. Every tick is recorded with the run; during
+ * playback only the recorded ticks fire.
+ *
+ * The latest `callback` is always used, so changing it does not restart
+ * the interval.
+ */
+export const useGameTimer = (recorder: ReplayRecorder, timer: string, callback: () => void, delayMs: number | null) => {
+	const player = useContext(ReplayContext);
+	const callbackRef = useRef(callback);
+	callbackRef.current = callback;
+
+	useEffect(() => {
+		if (delayMs === null) return;
+		if (player) {
+			return player.onTick(timer, () => callbackRef.current());
+		}
+
+		const interval = setInterval(() => {
+			recorder.tick(timer);
+			callbackRef.current();
+		}, delayMs);
+		return () => clearInterval(interval);
+	}, [recorder, player, timer, delayMs]);
+};
@@ -0,0 +1,45 @@
+import { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { createRandom, randomSeed, Random } from '../../core/SeededRandom.js';
+
+/**
+ * Seed forced on every built-in game, e.g. `liku --seed 1234` to reproduce
+ * a reported run. A game's own `seed` prop (daily challenges) wins over it.
+ */
+export const GameSeedContext = createContext<number | undefined>(undefined);
+
+/**
+ * Per-run random numbers for a built-in game.
+ *
+ * With a fixed seed every run, restarts included, replays the same sequence.
+ * Otherwise each run draws a fresh seed; games show it on screen and pass it
+ * to useGameSession so it is saved with the result.
+ *
+ * `random` is stable across renders and always draws from the current run.
+ */
+export const useSeededRandom = (seedProp?: number) => {
+	const contextSeed = useContext(GameSeedContext);
+	const fixedSeed = seedProp ?? contextSeed;
+	const [seed, setSeed] = useState(() => fixedSeed ?? randomSeed());
+	const rngRef = useRef<Random>(createRandom(seed));
+
+	const random = useMemo<Random>(() => ({
+		get seed() {
+			return rngRef.current.seed;
+		},
+		next: () => rngRef.current.next(),
+		int: (maxExclusive) => rngRef.current.int(maxExclusive),
+		pick: (items) => rngRef.current.pick(items),
+		chance: (probability) => rngRef.current.chance(probability),
+	}), []);
+
+	/**
+	 * Start the sequence for a new run
+	 */
+	const newRun = useCallback(() => {
+		const next = fixedSeed ?? randomSeed();
+		rngRef.current = createRandom(next);
+		setSeed(next);
+	}, [fixedSeed]);
+
+	return { seed, random, newRun };
+};